@@ -0,0 +1,294 @@
+// src/auth.ts
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { logToFile } from './logging.js';
+import { parseSecretRef, resolveSecret, SecretRef } from './secrets.js';
+
+// Authentication for WordPress REST clients. Each site picks a strategy;
+// SiteManager.createClient installs it with attachAuth() as a request
+// interceptor, so every call through a site client is authenticated the
+// same way and token-based strategies refresh inside the client.
+//
+//   basic   username + application password (the default)
+//   bearer  a fixed token, e.g. an OAuth2 access token
+//   jwt     logs in at the jwt-auth plugin's token route, renews the token
+//           before it expires and once more after a 401
+//   header  a custom header, e.g. a token checked by a proxy in front of WP
+
+// Site configs hold SiteAuth<SecretRef>; resolveAuthSecrets() fetches the
+// secrets when the client is built
+export type SiteAuth<Secret = string> =
+  | { type: 'basic'; username: string; password: Secret }
+  | { type: 'bearer'; token: Secret }
+  | {
+      type: 'jwt';
+      username: string;
+      password: Secret;
+      /** Login route relative to /wp-json. */
+      tokenEndpoint?: string;
+      /** Route that swaps a refresh token for a new token, when the plugin issues refresh tokens. */
+      refreshEndpoint?: string;
+    }
+  | { type: 'header'; name: string; value: Secret };
+
+export const AUTH_TYPES = ['basic', 'bearer', 'jwt', 'header'] as const;
+
+/** An HTTP header name (RFC 9110 token), for header auth. */
+export const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+export const DEFAULT_JWT_TOKEN_ENDPOINT = 'jwt-auth/v1/token';
+export const DEFAULT_JWT_REFRESH_ENDPOINT = 'jwt-auth/v1/token/refresh';
+
+// Renew a JWT this long before its exp claim, so in-flight requests don't race it
+const JWT_EXPIRY_MARGIN_MS = 60_000;
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Send without site credentials (used for the JWT login itself). */
+    skipAuth?: boolean;
+    /** Set on the replay of a request that failed with 401 before a refresh. */
+    authRetried?: boolean;
+  }
+}
+
+export interface AuthStrategy {
+  readonly type: SiteAuth['type'];
+  /**
+   * Headers that never change, set once as client defaults. Only for
+   * Authorization: request logs include the defaults and redact it by name.
+   */
+  readonly headers?: Record<string, string>;
+  /** Headers added to each request, logging in first if needed. */
+  getHeaders?(client: AxiosInstance): Promise<Record<string, string>>;
+  /**
+   * Renew credentials after a 401. Strategies without renewable
+   * credentials leave this out, and the 401 is returned as is.
+   */
+  refresh?(client: AxiosInstance): Promise<void>;
+}
+
+export class BasicAuth implements AuthStrategy {
+  readonly type = 'basic';
+  readonly headers: Record<string, string>;
+
+  constructor(username: string, password: string) {
+    this.headers = { Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}` };
+  }
+}
+
+export class BearerAuth implements AuthStrategy {
+  readonly type = 'bearer';
+  readonly headers: Record<string, string>;
+
+  constructor(token: string) {
+    this.headers = { Authorization: `Bearer ${token}` };
+  }
+}
+
+export class HeaderAuth implements AuthStrategy {
+  readonly type = 'header';
+
+  constructor(private readonly name: string, private readonly value: string) {}
+
+  // Per request rather than as a default: log redaction can't tell an
+  // arbitrary header name holds a credential
+  async getHeaders() {
+    return { [this.name]: this.value };
+  }
+}
+
+/** The exp claim of a JWT in epoch ms, if it has one. */
+export function jwtExpiry(token: string): number | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1] ?? '', 'base64url').toString('utf8'));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function restRoute(client: AxiosInstance, route: string): string {
+  const root = (client.defaults.baseURL ?? '').replace(/wp\/v2\/?$/, '');
+  return `${root}${route.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Token auth through the jwt-auth plugin (and the older JWT Authentication
+ * for WP REST API, which uses the same login route). Concurrent requests
+ * share a single login.
+ */
+export class JwtAuth implements AuthStrategy {
+  readonly type = 'jwt';
+  private token: string | undefined;
+  private refreshToken: string | undefined;
+  private expiresAt = Infinity;
+  private pending: Promise<void> | undefined;
+
+  constructor(
+    private readonly username: string,
+    private readonly password: string,
+    private readonly tokenEndpoint = DEFAULT_JWT_TOKEN_ENDPOINT,
+    private readonly refreshEndpoint = DEFAULT_JWT_REFRESH_ENDPOINT
+  ) {}
+
+  async getHeaders(client: AxiosInstance) {
+    if (!this.token || Date.now() >= this.expiresAt - JWT_EXPIRY_MARGIN_MS) {
+      await this.renew(client);
+    }
+    return { Authorization: `Bearer ${this.token}` };
+  }
+
+  async refresh(client: AxiosInstance) {
+    // A request that failed alongside one already refreshing waits for it
+    if (this.pending) return this.pending;
+    this.token = undefined;
+    await this.renew(client);
+  }
+
+  private renew(client: AxiosInstance): Promise<void> {
+    this.pending ??= this.fetchToken(client).finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  private async fetchToken(client: AxiosInstance): Promise<void> {
+    if (this.refreshToken) {
+      try {
+        this.store(await this.post(client, this.refreshEndpoint, { refresh_token: this.refreshToken }));
+        return;
+      } catch (error: any) {
+        logToFile(`JWT refresh failed, logging in again: ${error.message}`, 'info');
+        this.refreshToken = undefined;
+      }
+    }
+    this.store(await this.post(client, this.tokenEndpoint, { username: this.username, password: this.password }));
+  }
+
+  private async post(client: AxiosInstance, route: string, body: Record<string, string>): Promise<any> {
+    const response = await client.post(restRoute(client, route), body, { skipAuth: true });
+    return response.data;
+  }
+
+  private store(data: any): void {
+    // jwt-auth wraps the token in `data`; the older plugin returns it at the top level
+    const token = data?.token ?? data?.data?.token;
+    if (typeof token !== 'string' || token === '') {
+      throw new Error(`JWT login at ${this.tokenEndpoint} returned no token`);
+    }
+    this.token = token;
+    this.refreshToken = data?.refresh_token ?? data?.data?.refresh_token ?? this.refreshToken;
+    this.expiresAt = jwtExpiry(token) ?? Infinity;
+    logToFile('Obtained a JWT for the site', 'debug', {
+      expires_at: Number.isFinite(this.expiresAt) ? new Date(this.expiresAt).toISOString() : undefined
+    });
+  }
+}
+
+export function createAuthStrategy(auth: SiteAuth): AuthStrategy {
+  switch (auth.type) {
+    case 'basic':
+      return new BasicAuth(auth.username, auth.password);
+    case 'bearer':
+      return new BearerAuth(auth.token);
+    case 'jwt':
+      return new JwtAuth(auth.username, auth.password, auth.tokenEndpoint, auth.refreshEndpoint);
+    case 'header':
+      return new HeaderAuth(auth.name, auth.value);
+  }
+}
+
+/** The same auth with its secret replaced. */
+export function withAuthSecret<From, To>(auth: SiteAuth<From>, secret: To): SiteAuth<To> {
+  switch (auth.type) {
+    case 'basic':
+    case 'jwt':
+      return { ...auth, password: secret };
+    case 'bearer':
+      return { ...auth, token: secret };
+    case 'header':
+      return { ...auth, value: secret };
+  }
+}
+
+/** Fetch the secret of a site's auth from its provider. */
+export async function resolveAuthSecrets(auth: SiteAuth<SecretRef>): Promise<SiteAuth> {
+  return withAuthSecret(auth, await resolveSecret(authSecret(auth)));
+}
+
+/** The username a site authenticates as, for strategies that have one. */
+export function authUsername(auth: SiteAuth<unknown>): string | undefined {
+  return auth.type === 'basic' || auth.type === 'jwt' ? auth.username : undefined;
+}
+
+/** The site's long-lived secret, so fixtures and similar sinks can scrub it. */
+export function authSecret<Secret>(auth: SiteAuth<Secret>): Secret {
+  switch (auth.type) {
+    case 'basic':
+    case 'jwt':
+      return auth.password;
+    case 'bearer':
+      return auth.token;
+    case 'header':
+      return auth.value;
+  }
+}
+
+/**
+ * Read a site's auth from `<prefix>AUTH_TYPE` (default basic) plus
+ * `<prefix>USERNAME` / `<prefix>PASSWORD` for basic and jwt,
+ * `<prefix>TOKEN` for bearer, and `<prefix>AUTH_HEADER` / `<prefix>TOKEN`
+ * for header. PASSWORD and TOKEN may instead come from a provider named by
+ * their `_COMMAND`, `_FILE` or `_VAULT` variants. Returns undefined when a
+ * required variable is missing.
+ */
+export function parseAuthConfig(env: NodeJS.ProcessEnv, prefix: string): SiteAuth<SecretRef> | undefined {
+  const type = (env[`${prefix}AUTH_TYPE`] || 'basic').toLowerCase();
+  const username = env[`${prefix}USERNAME`];
+  const password = parseSecretRef(env, `${prefix}PASSWORD`);
+  const token = parseSecretRef(env, `${prefix}TOKEN`);
+  const header = env[`${prefix}AUTH_HEADER`];
+
+  switch (type) {
+    case 'basic':
+    case 'jwt':
+      return username && password ? { type, username, password } : undefined;
+    case 'bearer':
+      return token ? { type, token } : undefined;
+    case 'header':
+      return header && token ? { type, name: header, value: token } : undefined;
+    default:
+      logToFile(`Ignoring ${prefix}* — unknown ${prefix}AUTH_TYPE "${type}", expected one of ${AUTH_TYPES.join(', ')}`, 'error');
+      return undefined;
+  }
+}
+
+/**
+ * Install a strategy on a site client. Attach it after the request limiter:
+ * axios runs request interceptors last-in first-out, so a JWT login then
+ * happens before the request takes its slot instead of while holding it.
+ */
+export function attachAuth(client: AxiosInstance, strategy: AuthStrategy): void {
+  if (strategy.headers) {
+    Object.assign(client.defaults.headers, strategy.headers);
+  }
+  if (strategy.getHeaders) {
+    const getHeaders = strategy.getHeaders.bind(strategy);
+    client.interceptors.request.use(async (config: InternalAxiosRequestConfig) => {
+      if (config.skipAuth) return config;
+      config.headers.set(await getHeaders(client));
+      return config;
+    });
+  }
+
+  if (!strategy.refresh) return;
+  client.interceptors.response.use(undefined, async (error: unknown) => {
+    if (!axios.isAxiosError(error) || !error.config) throw error;
+    const config = error.config;
+    if (error.response?.status !== 401 || config.skipAuth || config.authRetried) throw error;
+
+    logToFile(`Refreshing ${strategy.type} credentials after a 401 on ${config.method?.toUpperCase()} ${config.url}`, 'info');
+    await strategy.refresh!(client);
+    config.authRetried = true;
+    return client.request(config);
+  });
+}
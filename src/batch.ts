@@ -0,0 +1,202 @@
+// src/batch.ts
+import { makeWordPressRequest, logToFile, resolveStripFields, trimResponseFields } from './wordpress.js';
+import { normalizeWordPressError, WordPressRestError, wordPressErrorFromBody } from './errors.js';
+import { throwIfAborted } from './request-context.js';
+
+// Batching layer over the WordPress batch API (POST /wp-json/batch/v1,
+// WordPress 5.6+). Up to BATCH_MAX_REQUESTS writes go out in one round trip;
+// larger sets are sent in consecutive chunks.
+//
+// With `require-all-validate`, WordPress validates every request in a chunk
+// before running any of them and runs none if one fails. That guarantee is
+// per chunk: earlier chunks have already been applied when a later one fails
+// validation, so chunks after a failed one are skipped rather than sent.
+// Likewise, when a later chunk's request fails outright (a timeout or a 5xx
+// from a proxy), the results so far are returned with that chunk's items
+// failed, since their outcome is unknown, and the chunks after it skipped.
+//
+// Sites without the batch route (older WordPress, or the route removed by a
+// security plugin) get the same requests one at a time.
+
+/** WordPress's default per-request limit for /batch/v1. */
+export const BATCH_MAX_REQUESTS = 25;
+
+export type BatchValidation = 'normal' | 'require-all-validate';
+
+export interface BatchRequest {
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** Endpoint within the namespace, e.g. `posts/42`. */
+  endpoint: string;
+  body?: Record<string, unknown>;
+  /** REST namespace; defaults to `wp/v2`. */
+  namespace?: string;
+}
+
+export interface BatchItemResult {
+  /** HTTP status of this item, or null when it was never run. */
+  status: number | null;
+  /** Response body for successful items. */
+  body?: unknown;
+  error?: WordPressRestError;
+  /** Not run: validation failed elsewhere in its chunk, or an earlier chunk failed or was rejected. */
+  skipped?: boolean;
+}
+
+export interface BatchResult {
+  /** `sequential` when the site has no batch route. */
+  mode: 'batch' | 'sequential';
+  validation: BatchValidation;
+  /** One entry per request, in input order. */
+  results: BatchItemResult[];
+}
+
+interface BatchEnvelope {
+  body: unknown;
+  status: number;
+  headers?: Record<string, unknown>;
+}
+
+// Sites known to lack /batch/v1, so later batches skip the probe
+const unsupportedSites = new Set<string>();
+
+function siteKey(siteId?: string): string {
+  return siteId ?? '__default__';
+}
+
+function isMissingBatchRoute(error: unknown): boolean {
+  return error instanceof WordPressRestError && error.status === 404;
+}
+
+function route(request: BatchRequest): string {
+  const namespace = (request.namespace ?? 'wp/v2').replace(/^\/+|\/+$/g, '');
+  return `/${namespace}/${request.endpoint.replace(/^\/+/, '')}`;
+}
+
+function skippedResults(count: number): BatchItemResult[] {
+  return Array.from({ length: count }, () => ({ status: null, skipped: true }));
+}
+
+function toItemResult(envelope: BatchEnvelope | null, request: BatchRequest, siteId?: string): BatchItemResult {
+  // require-all-validate failures answer null for the requests that passed
+  if (!envelope) return { status: null, skipped: true };
+
+  if (envelope.status >= 200 && envelope.status < 300) {
+    return { status: envelope.status, body: envelope.body };
+  }
+  const context = { method: request.method, endpoint: route(request), siteId };
+  return {
+    status: envelope.status,
+    error: wordPressErrorFromBody(envelope.body, envelope.status, context)
+      ?? new WordPressRestError(`HTTP ${envelope.status}`, { code: `http_${envelope.status}`, status: envelope.status, ...context })
+  };
+}
+
+async function sendChunk(
+  chunk: BatchRequest[],
+  validation: BatchValidation,
+  siteId?: string
+): Promise<{ results: BatchItemResult[]; failedValidation: boolean }> {
+  const response = await makeWordPressRequest('POST', '', {
+    validation,
+    requests: chunk.map(request => ({
+      method: request.method,
+      path: route(request),
+      ...(request.body && { body: request.body })
+    }))
+  }, { siteId, namespace: 'batch/v1' });
+
+  const envelopes: (BatchEnvelope | null)[] = Array.isArray(response?.responses) ? response.responses : [];
+  return {
+    results: chunk.map((request, index) => toItemResult(envelopes[index] ?? null, request, siteId)),
+    failedValidation: response?.failed === 'validation'
+  };
+}
+
+async function runSequentially(
+  requests: BatchRequest[],
+  validation: BatchValidation,
+  siteId?: string
+): Promise<BatchItemResult[]> {
+  const results: BatchItemResult[] = [];
+  for (const [index, request] of requests.entries()) {
+    throwIfAborted();
+    try {
+      const response = await makeWordPressRequest(request.method, request.endpoint, request.body, {
+        siteId,
+        namespace: request.namespace,
+        rawResponse: true
+      });
+      results.push({
+        status: response.status,
+        body: trimResponseFields(response.data, resolveStripFields(process.env.MCP_WP_STRIP_FIELDS))
+      });
+    } catch (error) {
+      const normalized = normalizeWordPressError(error);
+      if (!(normalized instanceof WordPressRestError)) throw error;
+      results.push({ status: normalized.status ?? null, error: normalized });
+
+      // Without server-side validation, the closest thing to all-or-nothing
+      // is to stop at the first failure.
+      if (validation === 'require-all-validate') {
+        return [...results, ...skippedResults(requests.length - index - 1)];
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * Send write requests through /batch/v1 in chunks of BATCH_MAX_REQUESTS,
+ * falling back to one request at a time on sites without the batch route.
+ * Per-item failures are reported in the results, as is a failed request
+ * for a later chunk. Only a failure of the first chunk (and cancellation)
+ * rejects.
+ */
+export async function runBatch(
+  requests: BatchRequest[],
+  options: { siteId?: string; validation?: BatchValidation } = {}
+): Promise<BatchResult> {
+  const { siteId } = options;
+  const validation = options.validation ?? 'normal';
+
+  if (unsupportedSites.has(siteKey(siteId))) {
+    return { mode: 'sequential', validation, results: await runSequentially(requests, validation, siteId) };
+  }
+
+  const results: BatchItemResult[] = [];
+  for (let start = 0; start < requests.length; start += BATCH_MAX_REQUESTS) {
+    throwIfAborted();
+    const chunk = requests.slice(start, start + BATCH_MAX_REQUESTS);
+    let outcome: Awaited<ReturnType<typeof sendChunk>>;
+    try {
+      outcome = await sendChunk(chunk, validation, siteId);
+    } catch (error) {
+      // Only the first chunk can discover a missing route; nothing has been
+      // written yet, so the whole set can go sequential.
+      if (start === 0 && isMissingBatchRoute(error)) {
+        logToFile(`Site '${siteId ?? 'default'}' has no /batch/v1 route; sending ${requests.length} requests one at a time`, 'info');
+        unsupportedSites.add(siteKey(siteId));
+        return { mode: 'sequential', validation, results: await runSequentially(requests, validation, siteId) };
+      }
+      // Earlier chunks have been applied; report them rather than losing them
+      if (start === 0 || !(error instanceof WordPressRestError)) throw error;
+      logToFile(`Batch chunk ${start / BATCH_MAX_REQUESTS + 1} failed after ${start} requests were applied: ${error.message}`, 'error');
+      results.push(...chunk.map(() => ({ status: null, error })));
+      results.push(...skippedResults(requests.length - start - chunk.length));
+      break;
+    }
+
+    results.push(...outcome.results);
+    if (outcome.failedValidation) {
+      results.push(...skippedResults(requests.length - start - chunk.length));
+      break;
+    }
+  }
+  return { mode: 'batch', validation, results };
+}
+
+/** Forget which sites lack /batch/v1 (tests, or after a site's config changes). */
+export function resetBatchSupportCache(siteId?: string): void {
+  if (siteId === undefined) unsupportedSites.clear();
+  else unsupportedSites.delete(siteKey(siteId));
+}
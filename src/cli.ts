@@ -11,6 +11,10 @@ const __dirname = path.dirname(__filename);
 
 // Function to check if required environment variables are set
 function checkEnvironmentVariables() {
+  // Sites come from a config file instead, or this is `vault ...`, which needs none
+  if (process.env.WORDPRESS_CONFIG_FILE || process.argv[2] === 'vault' || process.argv.some(arg => arg === '--config' || arg.startsWith('--config='))) {
+    return;
+  }
   const requiredVars = ['WORDPRESS_API_URL', 'WORDPRESS_USERNAME', 'WORDPRESS_APP_PASSWORD'];
   const missingVars = requiredVars.filter(varName => !process.env[varName]);
   
@@ -38,7 +42,8 @@ async function main() {
   
   // Start the server
   const serverPath = path.join(__dirname, 'server.js');
-  const serverProcess = spawn('node', [serverPath], {
+  // Forward CLI flags (e.g. --transport http --port 3000) to the server
+  const serverProcess = spawn('node', [serverPath, ...process.argv.slice(2)], {
     stdio: 'inherit',
     env: process.env
   });
@@ -0,0 +1,110 @@
+// src/completions.ts
+import { siteManager } from './config/site-manager.js';
+import { makeWordPressRequest, logToFile } from './wordpress.js';
+import { getPostTypes } from './tools/unified-content.js';
+import { getTaxonomies } from './tools/unified-taxonomies.js';
+
+// Completers for MCP completion/complete. The spec only defines completion
+// for prompt arguments and resource template variables, so these are wired
+// into prompts/editorial.ts and resources/wordpress-resources.ts — there is
+// no completion for tool arguments.
+//
+// Clients call these on every keystroke: they read from the existing
+// post-type / taxonomy caches, and they never throw. A site that is down or
+// an unknown site_id yields no suggestions rather than a protocol error.
+
+/** Previously-resolved arguments sent alongside a completion request. */
+export interface CompletionContext {
+  arguments?: Record<string, string>;
+}
+
+export type Completer = (value: string, context?: CompletionContext) => Promise<string[]>;
+
+// Plugins have no cache of their own; keep list_plugins from running per
+// keystroke without letting suggestions go stale for long.
+const PLUGIN_CACHE_DURATION = 60 * 1000;
+const pluginSlugCache = new Map<string, { slugs: string[]; timestamp: number }>();
+
+/** Forget cached plugin slugs (after a site's config changes). */
+export function resetCompletionCache(): void {
+  pluginSlugCache.clear();
+}
+
+function matchPrefix(candidates: string[], value: string): string[] {
+  const prefix = value.toLowerCase();
+  return [...new Set(candidates)].filter(candidate => candidate.toLowerCase().startsWith(prefix));
+}
+
+function siteFromContext(context?: CompletionContext): string | undefined {
+  return context?.arguments?.site_id || undefined;
+}
+
+async function safely(label: string, fetch: () => Promise<string[]>): Promise<string[]> {
+  try {
+    return await fetch();
+  } catch (error: any) {
+    logToFile(`Completion for ${label} failed: ${error.message}`, 'debug');
+    return [];
+  }
+}
+
+/** Site IDs and their aliases, in configuration order. */
+export const completeSiteId: Completer = async (value) =>
+  safely('site_id', async () => matchPrefix(
+    siteManager.getAllSites().flatMap(site => [site.id, ...(site.aliases ?? [])]),
+    value
+  ));
+
+/** Post type slugs (post, page, product, ...) for the site being completed. */
+export const completeContentType: Completer = async (value, context) =>
+  safely('content_type', async () => {
+    const postTypes = await getPostTypes(false, siteFromContext(context));
+    return matchPrefix(Object.keys(postTypes ?? {}), value);
+  });
+
+/**
+ * Taxonomy slugs plus any rest_base that differs from its slug — term tools
+ * accept either, and the rest_base is the one people tend to get wrong.
+ */
+export const completeTaxonomy: Completer = async (value, context) =>
+  safely('taxonomy', async () => {
+    const taxonomies = await getTaxonomies(false, siteFromContext(context));
+    const candidates = Object.entries<any>(taxonomies ?? {}).flatMap(([slug, info]) =>
+      info?.rest_base && info.rest_base !== slug ? [slug, info.rest_base] : [slug]
+    );
+    return matchPrefix(candidates, value);
+  });
+
+/**
+ * Suggest a completer's values percent-encoded, for template variables that
+ * are a single URI segment (a plugin identifier contains a slash). What the
+ * user typed so far may be encoded or not.
+ */
+export function percentEncoded(complete: Completer): Completer {
+  return async (value, context) => {
+    let decoded = value;
+    try {
+      decoded = decodeURIComponent(value);
+    } catch {
+      // a half-typed escape such as "akismet%2"; match it as typed
+    }
+    return (await complete(decoded, context)).map(candidate => encodeURIComponent(candidate));
+  };
+}
+
+/** Installed plugin identifiers (e.g. "akismet/akismet") from list_plugins. */
+export const completePluginSlug: Completer = async (value, context) =>
+  safely('plugin', async () => {
+    const siteId = siteFromContext(context);
+    const cacheKey = siteId || '__default__';
+    const cached = pluginSlugCache.get(cacheKey);
+    let slugs = cached && (Date.now() - cached.timestamp) < PLUGIN_CACHE_DURATION ? cached.slugs : undefined;
+
+    if (!slugs) {
+      const plugins = await makeWordPressRequest('GET', 'plugins', undefined, { siteId });
+      slugs = Array.isArray(plugins) ? plugins.map((p: any) => p.plugin).filter(Boolean) : [];
+      pluginSlugCache.set(cacheKey, { slugs, timestamp: Date.now() });
+    }
+
+    return matchPrefix(slugs, value);
+  });
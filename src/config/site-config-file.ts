@@ -0,0 +1,256 @@
+// src/config/site-config-file.ts
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Document, isMap, isSeq, parse as parseYaml, parseDocument } from 'yaml';
+import { z } from 'zod';
+import { parseRestAllowRule } from '../rest-allowlist.js';
+import { HEADER_NAME_PATTERN, SiteAuth } from '../auth.js';
+import type { SecretRef } from '../secrets.js';
+import type { SiteConfig } from './site-manager.js';
+
+// Sites can be declared in a JSON or YAML file instead of (or alongside)
+// WORDPRESS_<n>_* variables. SiteManager reads it from the path in
+// WORDPRESS_CONFIG_FILE or the server's --config flag:
+//
+//   sites:
+//     - id: production
+//       url: https://example.com
+//       auth:                                 # basic unless `type` says otherwise
+//         username: admin
+//         password: { env: PROD_WP_PASSWORD }   # or command, file, vault, or the password itself
+//       aliases: [prod, main]
+//       default: true
+//       tags: [client-a, woocommerce]
+//       timeout: 20000
+//       retry: { maxRetries: 4 }
+//       limits: { maxConcurrent: 2, requestsPerSecond: 5 }
+//       restAllowlist: ['GET /wc/v3/**']
+//
+// The whole file is validated up front; any problem fails startup with the
+// offending path (e.g. `sites[2].url`), rather than surfacing on first use.
+// Secrets are the exception: they are only fetched when the site is first
+// used (see src/secrets.ts), so a locked password manager doesn't block
+// startup.
+//
+// add_site, update_site and remove_site can save their changes back to the
+// file (see the *ConfigFile functions at the end).
+
+export const CONFIG_FILE_ENV = 'WORDPRESS_CONFIG_FILE';
+
+/** A secret inline, or where to fetch it from (see SecretRef). */
+const secretSchema = z.union([
+  z.string().min(1),
+  z.object({ env: z.string().min(1) }).strict(),
+  z.object({ command: z.string().min(1) }).strict(),
+  z.object({ file: z.string().min(1) }).strict(),
+  z.object({ vault: z.string().min(1) }).strict()
+]);
+
+// `type` may be left out for basic auth
+const authSchema = z.preprocess(
+  auth => auth && typeof auth === 'object' && !('type' in auth) ? { ...auth, type: 'basic' } : auth,
+  z.discriminatedUnion('type', [
+    z.object({ type: z.literal('basic'), username: z.string().min(1), password: secretSchema }).strict(),
+    z.object({ type: z.literal('bearer'), token: secretSchema }).strict(),
+    z.object({
+      type: z.literal('jwt'),
+      username: z.string().min(1),
+      password: secretSchema,
+      tokenEndpoint: z.string().min(1).optional(),
+      refreshEndpoint: z.string().min(1).optional()
+    }).strict(),
+    z.object({ type: z.literal('header'), name: z.string().regex(HEADER_NAME_PATTERN, 'Invalid header name'), value: secretSchema }).strict()
+  ])
+);
+
+const restAllowRuleSchema = z.string().transform((entry, ctx) => {
+  const rule = parseRestAllowRule(entry);
+  if (!rule) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid rule "${entry}" — expected "[METHOD|METHOD] /route/pattern"` });
+    return z.NEVER;
+  }
+  return rule;
+});
+
+const siteSchema = z.object({
+  id: z.string().min(1),
+  url: z.string().url(),
+  auth: authSchema,
+  aliases: z.array(z.string().min(1)).optional(),
+  default: z.boolean().optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  /** Per-request timeout in milliseconds. */
+  timeout: z.number().int().positive().optional(),
+  retry: z.object({
+    maxRetries: z.number().int().min(0),
+    baseDelayMs: z.number().int().min(0),
+    maxDelayMs: z.number().int().min(0),
+    retryNonIdempotent: z.boolean()
+  }).partial().strict().optional(),
+  limits: z.object({
+    maxConcurrent: z.number().int().min(0),
+    requestsPerSecond: z.number().min(0)
+  }).partial().strict().optional(),
+  restAllowlist: z.array(restAllowRuleSchema).optional()
+}).strict();
+
+const siteConfigFileSchema = z.object({
+  sites: z.array(siteSchema).min(1)
+}).strict().superRefine(({ sites }, ctx) => {
+  const names = new Map<string, string>();
+  sites.forEach((site, index) => {
+    for (const name of [site.id, ...(site.aliases ?? [])]) {
+      const key = name.toLowerCase();
+      const owner = names.get(key);
+      if (owner !== undefined && owner !== site.id) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['sites', index], message: `"${name}" is already used by site '${owner}'` });
+      } else if (owner === undefined) {
+        names.set(key, site.id);
+      }
+    }
+  });
+  if (sites.filter(site => site.default).length > 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['sites'], message: 'Only one site can be the default' });
+  }
+});
+
+function formatIssuePath(issuePath: (string | number)[]): string {
+  return issuePath.reduce<string>(
+    (formatted, part) => typeof part === 'number' ? `${formatted}[${part}]` : formatted ? `${formatted}.${part}` : part,
+    ''
+  );
+}
+
+// Relative secret files are found next to the config file, not in the
+// server's working directory, which MCP clients rarely control
+function anchorSecret(secret: SecretRef, dir: string): SecretRef {
+  return typeof secret === 'object' && 'file' in secret && !secret.file.startsWith('~')
+    ? { file: path.resolve(dir, secret.file) }
+    : secret;
+}
+
+function anchorAuth(auth: z.infer<typeof authSchema>, dir: string): SiteAuth<SecretRef> {
+  switch (auth.type) {
+    case 'basic':
+    case 'jwt':
+      return { ...auth, password: anchorSecret(auth.password, dir) };
+    case 'bearer':
+      return { ...auth, token: anchorSecret(auth.token, dir) };
+    case 'header':
+      return { ...auth, value: anchorSecret(auth.value, dir) };
+  }
+}
+
+function validateSiteConfig(raw: unknown, resolved: string) {
+  const parsed = siteConfigFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${formatIssuePath(issue.path) || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid site config file ${resolved}:\n  ${problems.join('\n  ')}`);
+  }
+  return parsed.data.sites;
+}
+
+/**
+ * Read and validate a site config file. `.json` files are parsed
+ * as JSON and anything else as YAML. Throws on any invalid entry.
+ */
+export function loadSiteConfigFile(file: string): SiteConfig[] {
+  const resolved = path.resolve(file);
+
+  let text: string;
+  try {
+    text = fs.readFileSync(resolved, 'utf8');
+  } catch (error: any) {
+    throw new Error(`Cannot read site config file ${resolved}: ${error.message}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = resolved.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (error: any) {
+    throw new Error(`Cannot parse site config file ${resolved}: ${error.message}`);
+  }
+
+  const sites = validateSiteConfig(raw, resolved);
+  return sites.map(site => ({
+    id: site.id,
+    url: site.url,
+    auth: anchorAuth(site.auth, path.dirname(resolved)),
+    aliases: site.aliases,
+    default: site.default,
+    tags: site.tags,
+    timeout: site.timeout,
+    retry: site.retry,
+    limits: site.limits,
+    restAllowlist: site.restAllowlist
+  }));
+}
+
+/** A site as written to a config file: the keys of siteSchema, secrets as written. */
+export type SiteConfigEntry = Record<string, unknown>;
+
+/**
+ * Change a config file in place. YAML comments and the formatting of
+ * untouched sites survive; JSON files are rewritten with two-space indent.
+ * The result is validated before anything is written.
+ */
+function editSiteConfigFile(file: string, edit: (doc: Document, indexOf: (siteId: string) => number) => void): void {
+  const resolved = path.resolve(file);
+  let doc: Document;
+  try {
+    doc = parseDocument(fs.readFileSync(resolved, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Cannot read site config file ${resolved}: ${error.message}`);
+  }
+  if (doc.errors.length > 0) {
+    throw new Error(`Cannot parse site config file ${resolved}: ${doc.errors[0].message}`);
+  }
+
+  const indexOf = (siteId: string) => {
+    const sites = doc.get('sites');
+    const index = isSeq(sites) ? sites.items.findIndex(item => isMap(item) && item.get('id') === siteId) : -1;
+    if (index === -1) throw new Error(`Site '${siteId}' is not defined in ${resolved}`);
+    return index;
+  };
+  edit(doc, indexOf);
+
+  validateSiteConfig(doc.toJS(), resolved);
+  const text = resolved.endsWith('.json') ? `${JSON.stringify(doc.toJS(), null, 2)}\n` : doc.toString();
+  fs.writeFileSync(resolved, text);
+}
+
+// The file allows one default, so making a site the default unmarks the rest
+function clearDefaults(doc: Document): void {
+  const sites = doc.get('sites');
+  if (!isSeq(sites)) return;
+  for (const item of sites.items) {
+    if (isMap(item)) item.delete('default');
+  }
+}
+
+/** Append a site to a config file. */
+export function addSiteToConfigFile(file: string, entry: SiteConfigEntry): void {
+  editSiteConfigFile(file, doc => {
+    if (entry.default) clearDefaults(doc);
+    doc.addIn(['sites'], entry);
+  });
+}
+
+/** Set fields of a site in a config file; fields set to undefined are removed. */
+export function updateSiteInConfigFile(file: string, siteId: string, changes: SiteConfigEntry): void {
+  editSiteConfigFile(file, (doc, indexOf) => {
+    const index = indexOf(siteId);
+    if (changes.default) clearDefaults(doc);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === undefined) doc.deleteIn(['sites', index, key]);
+      else doc.setIn(['sites', index, key], value);
+    }
+  });
+}
+
+/** Remove a site from a config file. */
+export function removeSiteFromConfigFile(file: string, siteId: string): void {
+  editSiteConfigFile(file, (doc, indexOf) => {
+    doc.deleteIn(['sites', indexOf(siteId)]);
+  });
+}
@@ -1,60 +1,139 @@
 import axios, { AxiosInstance } from 'axios';
-import { logToFile } from '../wordpress.js';
+import { logToFile, DEFAULT_REQUEST_TIMEOUT } from '../wordpress.js';
+import { attachRetryPolicy, DEFAULT_RETRY_POLICY, parseRetryPolicy, RetryPolicy } from '../retry.js';
+import { attachRequestLimiter, DEFAULT_REQUEST_LIMITS, parseRequestLimits, RequestLimits } from '../rate-limiter.js';
+import { parseRestAllowlist, RestAllowRule } from '../rest-allowlist.js';
+import { attachHttpFixtures } from '../http-fixtures.js';
+import { attachTracing } from '../telemetry.js';
+import { attachAuth, authSecret, authUsername, createAuthStrategy, parseAuthConfig, resolveAuthSecrets, SiteAuth } from '../auth.js';
+import type { SecretRef } from '../secrets.js';
+import { CONFIG_FILE_ENV, loadSiteConfigFile } from './site-config-file.js';
 
 export interface SiteConfig {
   id: string;
   url: string;
-  username: string;
-  password: string;
+  /**
+   * How requests to this site authenticate (see src/auth.ts). Secrets stay
+   * references until the site's client is first built (see src/secrets.ts).
+   */
+  auth: SiteAuth<SecretRef>;
   aliases?: string[];
   default?: boolean;
+  /** Free-form labels (client, environment, stack) for grouping sites. */
+  tags?: string[];
+  /** Per-request timeout in milliseconds for this site's REST calls. */
+  timeout?: number;
+  /** Overrides for the global retry policy (WORDPRESS_RETRIES, ...). */
+  retry?: Partial<RetryPolicy>;
+  /** Overrides for the global request limits (WORDPRESS_MAX_CONCURRENT, ...). */
+  limits?: Partial<RequestLimits>;
+  /** Routes wp_rest_request may call; replaces WORDPRESS_REST_ALLOWLIST for this site. */
+  restAllowlist?: RestAllowRule[];
+}
+
+/**
+ * Parse a timeout in milliseconds from an env value. Returns undefined for
+ * unset or invalid values so the caller can fall back to the next default.
+ */
+export function parseTimeout(value?: string): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const timeout = Number(value);
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    logToFile(`Ignoring invalid timeout "${value}" — expected a positive integer of milliseconds`, 'error');
+    return undefined;
+  }
+  return timeout;
 }
 
 export class SiteManager {
   private sites = new Map<string, SiteConfig>();
-  private clients = new Map<string, AxiosInstance>();
+  // Promises, so concurrent first calls share one secret lookup and connection test
+  private clients = new Map<string, Promise<AxiosInstance>>();
   private defaultSiteId: string | null = null;
   private initialized = false;
+  private configFile: string | undefined;
 
   constructor() {
     // Don't load sites immediately - wait for first access
   }
 
+  /**
+   * Load sites from this JSON/YAML file instead of WORDPRESS_CONFIG_FILE.
+   * Takes effect on first access, so call it before anything reads sites.
+   */
+  useConfigFile(file: string) {
+    this.configFile = file;
+  }
+
+  /** The config file sites were loaded from, if any. */
+  getConfigFile(): string | undefined {
+    return this.configFile ?? process.env[CONFIG_FILE_ENV];
+  }
+
   /**
    * Ensure sites are loaded (lazy initialization)
    */
   private ensureInitialized() {
     if (!this.initialized) {
+      this.loadSitesFromConfigFile();
       this.loadSitesFromEnvironment();
       this.initialized = true;
     }
   }
 
+  /**
+   * Load site configurations from the config file, if one is set. Its
+   * default site is the one marked `default: true`, else the first.
+   */
+  private loadSitesFromConfigFile() {
+    const file = this.getConfigFile();
+    if (!file) return;
+
+    const sites = loadSiteConfigFile(file);
+    for (const site of sites) {
+      this.sites.set(site.id, site);
+    }
+    this.defaultSiteId = (sites.find(site => site.default) ?? sites[0]).id;
+    logToFile(`Loaded ${sites.length} WordPress site(s) from ${file}`);
+  }
+
   /**
    * Load site configurations from environment variables
    */
   private loadSitesFromEnvironment() {
     let sitesFound = 0;
 
-    // Check for numbered multi-site configuration (WORDPRESS_1_URL, WORDPRESS_2_URL, etc.)
-    for (let i = 1; i <= 10; i++) { // Support up to 10 sites
+    // Numbered multi-site configuration (WORDPRESS_1_URL, WORDPRESS_2_URL, etc.), any count
+    const indices = Object.keys(process.env)
+      .map(key => /^WORDPRESS_(\d+)_URL$/.exec(key)?.[1])
+      .filter((index): index is string => index !== undefined)
+      .map(Number)
+      .sort((a, b) => a - b);
+
+    for (const i of indices) {
       const urlKey = `WORDPRESS_${i}_URL`;
-      const usernameKey = `WORDPRESS_${i}_USERNAME`;
-      const passwordKey = `WORDPRESS_${i}_PASSWORD`;
       const idKey = `WORDPRESS_${i}_ID`;
       const aliasesKey = `WORDPRESS_${i}_ALIASES`;
       const defaultKey = `WORDPRESS_${i}_DEFAULT`;
+      const timeoutKey = `WORDPRESS_${i}_TIMEOUT`;
 
-      if (process.env[urlKey] && process.env[usernameKey] && process.env[passwordKey]) {
+      const auth = process.env[urlKey] ? parseAuthConfig(process.env, `WORDPRESS_${i}_`) : undefined;
+      if (process.env[urlKey] && auth) {
         const siteConfig: SiteConfig = {
           id: process.env[idKey] || `site${i}`,
           url: process.env[urlKey]!,
-          username: process.env[usernameKey]!,
-          password: process.env[passwordKey]!,
+          auth,
           aliases: process.env[aliasesKey] ? process.env[aliasesKey]!.split(',').map(s => s.trim()) : undefined,
-          default: process.env[defaultKey] === 'true' || (sitesFound === 0 && i === 1) // First site is default unless explicitly set
+          default: process.env[defaultKey] === 'true' || (this.sites.size === 0 && i === 1), // First site is default unless explicitly set
+          timeout: parseTimeout(process.env[timeoutKey]),
+          retry: parseRetryPolicy(process.env, `WORDPRESS_${i}_`),
+          limits: parseRequestLimits(process.env, `WORDPRESS_${i}_`),
+          restAllowlist: parseRestAllowlist(process.env[`WORDPRESS_${i}_REST_ALLOWLIST`])
         };
 
+        if (this.sites.has(siteConfig.id)) {
+          throw new Error(`Site '${siteConfig.id}' from WORDPRESS_${i}_* is already defined in the site config file`);
+        }
         this.sites.set(siteConfig.id, siteConfig);
         if (siteConfig.default) {
           this.defaultSiteId = siteConfig.id;
@@ -63,14 +142,14 @@ export class SiteManager {
       }
     }
 
-    // If no numbered sites found, fall back to single-site configuration
-    if (sitesFound === 0 && process.env.WORDPRESS_API_URL && process.env.WORDPRESS_USERNAME && process.env.WORDPRESS_PASSWORD) {
+    // If no numbered or file sites found, fall back to single-site configuration
+    if (this.sites.size === 0 && process.env.WORDPRESS_API_URL && process.env.WORDPRESS_USERNAME && process.env.WORDPRESS_PASSWORD) {
       const siteConfig: SiteConfig = {
         id: 'default',
         url: process.env.WORDPRESS_API_URL,
-        username: process.env.WORDPRESS_USERNAME,
-        password: process.env.WORDPRESS_PASSWORD,
-        default: true
+        auth: { type: 'basic', username: process.env.WORDPRESS_USERNAME, password: process.env.WORDPRESS_PASSWORD },
+        default: true,
+        timeout: parseTimeout(process.env.WORDPRESS_TIMEOUT)
       };
       this.sites.set('default', siteConfig);
       this.defaultSiteId = 'default';
@@ -80,16 +159,17 @@ export class SiteManager {
 
     if (sitesFound > 0) {
       logToFile(`Loaded ${sitesFound} WordPress site(s) from environment variables`);
-      if (this.defaultSiteId) {
-        logToFile(`Default site: ${this.defaultSiteId}`);
-      }
-    } else {
-      throw new Error('No WordPress configuration found. Set WORDPRESS_1_URL, WORDPRESS_1_USERNAME, WORDPRESS_1_PASSWORD (and optionally WORDPRESS_2_*, etc.) or use legacy WORDPRESS_API_URL variables.');
+    }
+    if (this.sites.size === 0) {
+      throw new Error('No WordPress configuration found. Set WORDPRESS_CONFIG_FILE to a site config file, set WORDPRESS_1_URL, WORDPRESS_1_USERNAME, WORDPRESS_1_PASSWORD (and optionally WORDPRESS_2_*, etc.), or use legacy WORDPRESS_API_URL variables.');
+    }
+    if (this.defaultSiteId) {
+      logToFile(`Default site: ${this.defaultSiteId}`);
     }
   }
 
   /**
-   * Get site configuration by ID
+   * Get site configuration by ID or alias
    */
   getSite(siteId?: string): SiteConfig {
     this.ensureInitialized();
@@ -99,7 +179,8 @@ export class SiteManager {
       throw new Error('No site specified and no default site configured');
     }
 
-    const site = this.sites.get(targetSiteId);
+    // Aliases are offered as site_id completions, so they must resolve here too
+    const site = this.sites.get(targetSiteId) ?? this.findSiteByAlias(targetSiteId);
     if (!site) {
       const availableSites = Array.from(this.sites.keys()).join(', ');
       throw new Error(`Site '${targetSiteId}' not found. Available sites: ${availableSites}`);
@@ -108,6 +189,99 @@ export class SiteManager {
     return site;
   }
 
+  private findSiteByAlias(alias: string): SiteConfig | undefined {
+    const lowerAlias = alias.toLowerCase();
+    for (const site of this.sites.values()) {
+      if (site.aliases?.some(a => a.toLowerCase() === lowerAlias)) {
+        return site;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Add a site at runtime. It is kept only if it connects; otherwise it is
+   * dropped again and the connection error returned. `commit` runs once the
+   * site connects (e.g. to save it); if it throws, the site is dropped and
+   * the error rethrown.
+   */
+  async addSite(site: SiteConfig, commit?: () => void): Promise<{ success: boolean; error?: string }> {
+    this.ensureInitialized();
+    if (this.sites.has(site.id)) {
+      throw new Error(`Site '${site.id}' already exists`);
+    }
+    return this.applySite(site, commit);
+  }
+
+  /**
+   * Replace a site's configuration at runtime. The new configuration is kept
+   * only if it connects and `commit` succeeds; otherwise the old one is
+   * restored and the connection error returned, or the commit error rethrown.
+   */
+  async updateSite(site: SiteConfig, commit?: () => void): Promise<{ success: boolean; error?: string }> {
+    this.ensureInitialized();
+    if (!this.sites.has(site.id)) {
+      throw new Error(`Site '${site.id}' not found`);
+    }
+    return this.applySite(site, commit);
+  }
+
+  /**
+   * Remove a site at runtime. If it was the default, the first remaining
+   * site becomes the default.
+   */
+  removeSite(siteId: string): SiteConfig {
+    const site = this.getSite(siteId);
+    this.sites.delete(site.id);
+    this.clients.delete(site.id);
+    if (this.defaultSiteId === site.id) {
+      this.defaultSiteId = this.sites.keys().next().value ?? null;
+    }
+    logToFile(`Removed site '${site.id}'`, 'info');
+    return site;
+  }
+
+  private async applySite(site: SiteConfig, commit?: () => void): Promise<{ success: boolean; error?: string }> {
+    // IDs and aliases share one case-insensitive namespace, as in the config file
+    const siteNames = (config: SiteConfig) => [config.id, ...(config.aliases ?? [])].map(name => name.toLowerCase());
+    for (const name of [site.id, ...(site.aliases ?? [])]) {
+      const owner = [...this.sites.values()].find(other => other.id !== site.id && siteNames(other).includes(name.toLowerCase()));
+      if (owner) {
+        throw new Error(`"${name}" is already used by site '${owner.id}'`);
+      }
+    }
+
+    const previous = this.sites.get(site.id);
+    const previousDefault = this.defaultSiteId;
+    this.sites.set(site.id, site);
+    this.clients.delete(site.id);
+    if (site.default || !this.defaultSiteId) {
+      this.defaultSiteId = site.id;
+    }
+
+    const restore = () => {
+      if (previous) this.sites.set(site.id, previous);
+      else this.sites.delete(site.id);
+      this.defaultSiteId = previousDefault;
+      this.clients.delete(site.id);
+    };
+
+    const result = await this.testSite(site.id);
+    if (!result.success) {
+      restore();
+      return result;
+    }
+    try {
+      commit?.();
+    } catch (error) {
+      restore();
+      throw error;
+    }
+
+    logToFile(`${previous ? 'Updated' : 'Added'} site '${site.id}' at ${site.url}`, 'info');
+    return result;
+  }
+
   /**
    * Get all configured sites
    */
@@ -178,18 +352,33 @@ export class SiteManager {
     
     const site = this.getSite(siteId);
     
-    if (!this.clients.has(site.id)) {
-      const client = await this.createClient(site);
-      this.clients.set(site.id, client);
+    let client = this.clients.get(site.id);
+    if (!client) {
+      const created = this.createClient(site);
+      this.clients.set(site.id, created);
+      // Not cached on failure, so the next call tries again
+      created.catch(() => {
+        if (this.clients.get(site.id) === created) this.clients.delete(site.id);
+      });
+      client = created;
     }
 
-    return this.clients.get(site.id)!;
+    return client;
   }
 
   /**
    * Create authenticated WordPress client for a site
    */
   private async createClient(site: SiteConfig): Promise<AxiosInstance> {
+    // Fetched only now, so an unused site never runs its secret command
+    let auth: SiteAuth;
+    try {
+      auth = await resolveAuthSecrets(site.auth);
+    } catch (error: any) {
+      logToFile(`Cannot resolve credentials for site '${site.id}': ${error.message}`, 'error');
+      throw new Error(`Cannot resolve credentials for site '${site.id}': ${error.message}`);
+    }
+
     // Ensure the API URL has the WordPress REST API path
     let baseURL = site.url.endsWith('/') ? site.url : `${site.url}/`;
     
@@ -199,16 +388,41 @@ export class SiteManager {
       baseURL = baseURL + '/';
     }
 
-    const auth = Buffer.from(`${site.username}:${site.password}`).toString('base64');
-    
+    // Per-site timeout, then the global WORDPRESS_TIMEOUT, then the built-in
+    // default — a hung host should fail the tool call, not stall it forever.
+    const timeout = site.timeout ?? parseTimeout(process.env.WORDPRESS_TIMEOUT) ?? DEFAULT_REQUEST_TIMEOUT;
+
     const client = axios.create({
       baseURL,
+      timeout,
       headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${auth}`
+        'Content-Type': 'application/json'
       }
     });
 
+    // Limiter first, so a retrying request frees its slot while it backs off
+    attachRequestLimiter(client, {
+      ...DEFAULT_REQUEST_LIMITS,
+      ...parseRequestLimits(process.env, 'WORDPRESS_'),
+      ...site.limits
+    }, site.id);
+
+    // Installed before the connection test so a single 502 at startup
+    // doesn't fail the whole site.
+    attachRetryPolicy(client, {
+      ...DEFAULT_RETRY_POLICY,
+      ...parseRetryPolicy(process.env, 'WORDPRESS_'),
+      ...site.retry
+    }, site.id);
+
+    // After the limiter, so a JWT login doesn't hold a request slot
+    attachAuth(client, createAuthStrategy(auth));
+
+    // Record/replay sits below the interceptors, at the adapter
+    attachHttpFixtures(client, { url: site.url, username: authUsername(auth), password: authSecret(auth) });
+    // Outermost adapter, so each span times one attempt as it went out
+    attachTracing(client, site.id);
+
     // Test the connection
     try {
       await client.get('');
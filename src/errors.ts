@@ -0,0 +1,260 @@
+// src/errors.ts
+import axios from 'axios';
+
+// One error model for everything the tools report. WordPress REST failures
+// carry a machine-readable body — { code, message, data: { status, params } } —
+// that axios buries under "Request failed with status code 403".
+// makeWordPressRequest rethrows failures as WordPressRestError, and every tool
+// renders errors through toolErrorResult(), so an agent sees the WordPress
+// code, the per-field problems for rest_invalid_param and a hint about what to
+// do next.
+
+export interface WordPressErrorContext {
+  method?: string;
+  endpoint?: string;
+  siteId?: string;
+}
+
+/**
+ * Hint overrides for one tool, keyed by WordPress error code
+ * (`rest_no_route`) or HTTP status (`'404'`). Checked before the defaults.
+ */
+export type ErrorHints = Record<string, string>;
+
+// Hints for WordPress core error codes. The REST API reports a missing
+// capability as a generic "Sorry, you are not allowed to ..." message, so the
+// hints name the capability involved.
+const CODE_HINTS: ErrorHints = {
+  rest_cannot_edit: "The authenticated user (the application password's owner) can't edit this item. Editing other users' content needs edit_others_posts (edit_others_pages for pages), and published content needs edit_published_posts — use an Editor or Administrator account.",
+  rest_cannot_edit_others: "The authenticated user lacks edit_others_posts, so it can only create or edit content it authored. Use an Editor or Administrator account, or drop the author argument.",
+  rest_cannot_create: "The authenticated user lacks the capability to create this content type (edit_posts for posts). Check the user's role.",
+  rest_cannot_publish: "The authenticated user lacks publish_posts. Save with status 'draft' or 'pending', or use an account that can publish.",
+  rest_cannot_delete: "The authenticated user can't delete this item. Deleting other users' content needs delete_others_posts, and published content needs delete_published_posts.",
+  rest_trash_not_supported: "This content type doesn't support the trash. Retry with force: true to delete it permanently.",
+  rest_already_trashed: "The item is already in the trash. Use force: true to delete it permanently.",
+  rest_cannot_assign_term: "The authenticated user lacks the assign_terms capability for this taxonomy.",
+  rest_cannot_create_term: "The authenticated user can't create terms in this taxonomy (manage_categories for categories and tags).",
+  rest_cannot_update_term: "The authenticated user can't edit terms in this taxonomy (manage_categories for categories and tags).",
+  rest_cannot_delete_term: "The authenticated user can't delete terms in this taxonomy (manage_categories for categories and tags).",
+  term_exists: "A term with this name already exists at this level. Use the existing term's ID (in data.term_id) or choose another name or parent.",
+  rest_forbidden_context: "context=edit needs edit access to this item. Retry without include_raw_content or context: 'edit', or use an account that can edit it.",
+  rest_forbidden: "The authenticated user isn't allowed to do this. Check the user's role and capabilities.",
+  rest_cannot_view: "The authenticated user can't view this item. Private, draft and password-protected content needs edit access.",
+  rest_cannot_read: "The authenticated user can't read this item. Private, draft and password-protected content needs edit access.",
+  rest_not_logged_in: "WordPress didn't accept the credentials. Check the site's username and application password, and that the server passes the Authorization header through to PHP.",
+  incorrect_password: "WordPress rejected the application password. Create a new one under Users → Profile → Application Passwords.",
+  invalid_username: "WordPress doesn't know this username. Use the login name, not the display name or email.",
+  rest_cookie_invalid_nonce: "The request was treated as cookie-authenticated. Check that the Authorization header reaches WordPress.",
+  rest_post_invalid_id: "No item with this ID exists for this content type. Check content_type, or look the item up with find_content_by_url or get_content_by_slug.",
+  rest_post_invalid_parent: "The parent ID doesn't exist or belongs to a different content type.",
+  rest_term_invalid: "No term with this ID exists in this taxonomy. List terms with list_terms.",
+  rest_taxonomy_invalid: "This taxonomy isn't available over the REST API. Run discover_taxonomies to see the available ones.",
+  rest_user_invalid_id: "No user with this ID exists. List users with list_users.",
+  rest_comment_invalid_id: "No comment with this ID exists.",
+  rest_comment_invalid_post_id: "The comment's post doesn't exist or doesn't accept comments.",
+  rest_post_exists: "Creating with an ID isn't allowed. Use update_content to change existing content.",
+  existing_user_login: "That username is taken. Choose another username.",
+  existing_user_email: "That email address belongs to another user.",
+  rest_no_route: "WordPress has no REST route for this request. The content type or taxonomy may not exist or may not have show_in_rest enabled, or the plugin that provides it is inactive. Run discover_content_types or discover_taxonomies.",
+  rest_invalid_param: "Fix the parameters listed above and try again.",
+  rest_missing_callback_param: "Add the required parameters listed above and try again.",
+  rest_upload_no_data: "The upload was empty. Check file_path or source_url.",
+  rest_upload_sideload_error: "WordPress refused the file. Its type may not be allowed (check the upload_mimes filter) or it exceeds upload_max_filesize.",
+  rest_upload_unknown_error: "WordPress couldn't store the upload. Check the uploads directory's permissions and PHP's upload_max_filesize and post_max_size.",
+  rest_cannot_manage_plugins: "Managing plugins needs the activate_plugins capability (Administrator). On multisite, network plugins need a Super Admin.",
+  rest_cannot_install_plugin: "Installing plugins needs install_plugins, and DISALLOW_FILE_MODS must be off.",
+  rest_cannot_activate_plugin: "The authenticated user can't activate this plugin. Network-only plugins need a Super Admin.",
+  rest_cannot_deactivate_plugin: "The authenticated user can't deactivate this plugin. Network-activated plugins need a Super Admin.",
+  rest_plugin_not_found: "No plugin matches this slug. Use the plugin file path without .php, e.g. 'akismet/akismet'."
+};
+
+// Fallbacks when the code has no specific hint
+const STATUS_HINTS: ErrorHints = {
+  '400': "WordPress rejected the request. Check the arguments against the tool's input schema.",
+  '401': "WordPress didn't accept the credentials. Check the site's username and application password.",
+  '403': "The authenticated user lacks the capability for this action. Check the user's role.",
+  '404': "The item or route doesn't exist. Check the ID, content type or taxonomy.",
+  '413': "The request body is too large for the server. Raise the web server's or PHP's upload limits, or send less data.",
+  '429': "The site is rate limiting requests. Wait and retry, or lower WORDPRESS_REQUESTS_PER_SECOND.",
+  '500': "WordPress hit a server error. Check the site's PHP error log.",
+  '502': "A proxy or gateway in front of WordPress failed. The site may be overloaded or restarting.",
+  '503': "The site is unavailable, often because of maintenance mode. Try again later.",
+  '504': "A gateway timed out waiting for WordPress. The request may still have succeeded, so check before retrying a write."
+};
+
+// Connection-level failures (no HTTP response)
+const NETWORK_HINTS: ErrorHints = {
+  ECONNABORTED: "The request timed out. Raise WORDPRESS_TIMEOUT (or the site's WORDPRESS_N_TIMEOUT) for slow endpoints.",
+  ETIMEDOUT: "The connection timed out. Check that the site URL is reachable from this server.",
+  ECONNREFUSED: "The connection was refused. Check the site URL and that the web server is running.",
+  ENOTFOUND: "The site's hostname doesn't resolve. Check the site URL.",
+  EAI_AGAIN: "DNS lookup failed temporarily. Try again.",
+  CERT_HAS_EXPIRED: "The site's TLS certificate has expired.",
+  DEPTH_ZERO_SELF_SIGNED_CERT: "The site uses a self-signed TLS certificate that Node doesn't trust. Set NODE_EXTRA_CA_CERTS to its CA."
+};
+
+export class WordPressRestError extends Error {
+  /** WordPress error code (`rest_cannot_edit`), network code (`ECONNABORTED`), or `http_<status>`. */
+  readonly code: string;
+  /** HTTP status, when WordPress responded. */
+  readonly status?: number;
+  /** Per-parameter messages from rest_invalid_param / rest_missing_callback_param. */
+  readonly params?: Record<string, string>;
+  /** The REST error's raw `data` object; plugin-specific details live here. */
+  readonly data?: Record<string, unknown>;
+  readonly method?: string;
+  readonly endpoint?: string;
+  readonly siteId?: string;
+
+  constructor(
+    message: string,
+    details: {
+      code: string;
+      status?: number;
+      params?: Record<string, string>;
+      data?: Record<string, unknown>;
+      cause?: unknown;
+    } & WordPressErrorContext
+  ) {
+    super(message, { cause: details.cause });
+    this.name = 'WordPressRestError';
+    this.code = details.code;
+    this.status = details.status;
+    this.params = details.params;
+    this.data = details.data;
+    this.method = details.method;
+    this.endpoint = details.endpoint;
+    this.siteId = details.siteId;
+  }
+
+  /** The most specific hint for this error, or undefined. */
+  hint(overrides: ErrorHints = {}): string | undefined {
+    const status = this.status !== undefined ? String(this.status) : undefined;
+    return overrides[this.code]
+      ?? (status && overrides[status])
+      ?? CODE_HINTS[this.code]
+      ?? NETWORK_HINTS[this.code]
+      ?? (status && STATUS_HINTS[status])
+      ?? undefined;
+  }
+
+  /** Plain-object form for structured tool output and JSON.stringify. */
+  toJSON(): { code: string; message: string; status?: number; params?: Record<string, string>; hint?: string } {
+    return { code: this.code, message: this.message, status: this.status, params: this.params, hint: this.hint() };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// rest_invalid_param sends { name: message }; rest_missing_callback_param
+// sends an array of names.
+function extractParams(data: unknown): Record<string, string> | undefined {
+  if (!isRecord(data)) return undefined;
+  const { params } = data;
+  if (Array.isArray(params)) {
+    return params.length > 0
+      ? Object.fromEntries(params.map(name => [String(name), 'Missing required parameter.']))
+      : undefined;
+  }
+  if (isRecord(params) && Object.keys(params).length > 0) {
+    return Object.fromEntries(Object.entries(params).map(([name, message]) => [name, String(message)]));
+  }
+  return undefined;
+}
+
+/**
+ * Convert an axios failure into a WordPressRestError. Other errors, including
+ * ones that are already normalized, are returned unchanged.
+ */
+export function normalizeWordPressError(error: unknown, context: WordPressErrorContext = {}): unknown {
+  if (error instanceof WordPressRestError || !axios.isAxiosError(error)) return error;
+
+  const method = context.method ?? error.config?.method?.toUpperCase();
+  const endpoint = context.endpoint ?? error.config?.url;
+  const response = error.response;
+
+  if (!response) {
+    return new WordPressRestError(error.message, {
+      code: error.code ?? 'network_error',
+      cause: error,
+      method,
+      endpoint,
+      siteId: context.siteId
+    });
+  }
+
+  const restError = wordPressErrorFromBody(response.data, response.status, { method, endpoint, siteId: context.siteId }, error);
+  if (restError) return restError;
+
+  // Anything other than a REST error object: an HTML error page from a
+  // proxy, a security plugin's block page, or an empty body.
+  return new WordPressRestError(error.message, {
+    code: `http_${response.status}`,
+    status: response.status,
+    cause: error,
+    method,
+    endpoint,
+    siteId: context.siteId
+  });
+}
+
+/**
+ * Build a WordPressRestError from a REST error body ({ code, message, data }),
+ * e.g. one item of a /batch/v1 response. Returns undefined when `body` isn't
+ * a REST error.
+ */
+export function wordPressErrorFromBody(
+  body: unknown,
+  status: number,
+  context: WordPressErrorContext = {},
+  cause?: unknown
+): WordPressRestError | undefined {
+  if (!isRecord(body) || typeof body.code !== 'string') return undefined;
+
+  const data = isRecord(body.data) ? body.data : undefined;
+  return new WordPressRestError(typeof body.message === 'string' && body.message ? body.message : `HTTP ${status}`, {
+    code: body.code,
+    status: typeof data?.status === 'number' ? data.status : status,
+    params: extractParams(data),
+    data,
+    cause,
+    ...context
+  });
+}
+
+/**
+ * Text for a failed tool call: "Error <action>: <message>", then the
+ * WordPress code and status, per-parameter problems and a hint when known.
+ */
+export function formatToolError(action: string, error: unknown, hints?: ErrorHints): string {
+  const normalized = normalizeWordPressError(error);
+  if (!(normalized instanceof WordPressRestError)) {
+    const message = normalized instanceof Error ? normalized.message : String(normalized);
+    return `Error ${action}: ${message}`;
+  }
+
+  const lines = [`Error ${action}: ${normalized.message}`];
+  const status = normalized.status !== undefined ? ` (HTTP ${normalized.status})` : '';
+  lines.push(`WordPress error: ${normalized.code}${status}`);
+  if (normalized.params) {
+    lines.push('Invalid parameters:');
+    for (const [name, message] of Object.entries(normalized.params)) {
+      lines.push(`  - ${name}: ${message}`);
+    }
+  }
+  const hint = normalized.hint(hints);
+  if (hint) lines.push(`Hint: ${hint}`);
+  return lines.join('\n');
+}
+
+/** Tool result for a failed call; see formatToolError(). */
+export function toolErrorResult(action: string, error: unknown, hints?: ErrorHints) {
+  return {
+    toolResult: {
+      isError: true,
+      content: [{ type: 'text', text: formatToolError(action, error, hints) }]
+    }
+  };
+}
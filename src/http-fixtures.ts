@@ -0,0 +1,320 @@
+// src/http-fixtures.ts
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import axios, { AxiosAdapter, AxiosError, AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { logToFile, redactSecrets } from './logging.js';
+
+// Record/replay of WordPress HTTP traffic. SiteManager.createClient installs
+// attachHttpFixtures() as the site client's adapter, below the limiter and
+// retry interceptors, so recordings capture exactly what went over the wire
+// (retries included) and replays go through the same interceptors.
+//
+//   record  requests go to the real site; each exchange is sanitized and
+//           appended to the fixture file as it completes
+//   replay  requests are answered from the fixture file; nothing touches
+//           the network, and an unrecorded request fails the call
+//
+// Fixtures never hold request headers. The site's origin and hostname become
+// example.test, the username becomes fixture-user, the password is removed,
+// and credential-looking fields are redacted the same way log entries are.
+//
+// Turn it on for a process with MCP_WP_HTTP_FIXTURES=record|replay and
+// MCP_WP_HTTP_FIXTURE_FILE=<path>, or from a test with useHttpFixtures().
+
+export type FixtureMode = 'record' | 'replay';
+
+export const FIXTURE_ORIGIN = 'https://example.test';
+const FIXTURE_HOST = 'example.test';
+const FIXTURE_USER = 'fixture-user';
+const DEFAULT_FIXTURE_DIR = path.join('tests', 'fixtures', 'http');
+
+// Response headers worth keeping; the rest vary per request or identify the host
+const KEPT_RESPONSE_HEADERS = ['content-type', 'x-wp-total', 'x-wp-totalpages', 'retry-after', 'allow', 'link'];
+
+export interface FixtureRequest {
+  method: string;
+  /** Path and sorted query string relative to the site URL, e.g. `/wp-json/wp/v2/posts?per_page=5`. */
+  path: string;
+  body?: unknown;
+}
+
+export interface FixtureResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** Parsed JSON body, when the response was JSON. */
+  body?: unknown;
+  /** Raw body otherwise. */
+  text?: string;
+}
+
+export interface FixtureEntry {
+  request: FixtureRequest;
+  response: FixtureResponse;
+}
+
+interface FixtureFile {
+  version: 1;
+  entries: FixtureEntry[];
+}
+
+/** Credentials and location of the site being recorded, for sanitizing. */
+export interface FixtureSite {
+  url: string;
+  username?: string;
+  password?: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Sanitizer for one site: replaces its origin, hostname, username and
+ * password inside any JSON-serializable value, then redacts credential-like
+ * keys. Applied to both recorded entries and live requests being replayed,
+ * so the two compare equal.
+ *
+ * Replacements run on each string as it is, not on serialized JSON, where a
+ * password holding `"` or `\` would appear escaped and slip through.
+ */
+export function createFixtureSanitizer(site: FixtureSite): <T>(value: T) => T {
+  const url = new URL(site.url);
+  const replacements: [RegExp, string][] = [
+    [new RegExp(`https?://${escapeRegExp(url.host)}`, 'gi'), FIXTURE_ORIGIN],
+    [new RegExp(escapeRegExp(url.hostname), 'gi'), FIXTURE_HOST]
+  ];
+  if (site.password) {
+    // Application passwords work with or without their spaces, and a
+    // password may sit in a query string or in JSON held as text
+    const forms = [site.password, site.password.replace(/\s+/g, '')].flatMap(form => [
+      form,
+      encodeURIComponent(form),
+      new URLSearchParams({ p: form }).toString().slice(2),
+      JSON.stringify(form).slice(1, -1)
+    ]);
+    for (const form of new Set(forms)) {
+      replacements.push([new RegExp(escapeRegExp(form), 'g'), '[REDACTED]']);
+    }
+  }
+  if (site.username) {
+    replacements.push([new RegExp(`\\b${escapeRegExp(site.username)}\\b`, 'g'), FIXTURE_USER]);
+  }
+
+  const scrub = (text: string) => replacements.reduce((out, [pattern, replacement]) => out.replace(pattern, replacement), text);
+  const scrubValue = (value: unknown): unknown => {
+    if (typeof value === 'string') return scrub(value);
+    if (Array.isArray(value)) return value.map(scrubValue);
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [scrub(key), scrubValue(item)]));
+    }
+    return value;
+  };
+
+  return <T>(value: T): T => {
+    if (value === undefined) return value;
+    // Through JSON first, so the result is exactly what the fixture file holds
+    return redactSecrets(scrubValue(JSON.parse(JSON.stringify(value)))) as T;
+  };
+}
+
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  ) ?? '';
+}
+
+/** A fixture file being recorded or replayed. */
+export class HttpFixtures {
+  readonly entries: FixtureEntry[];
+  private readonly used = new Set<number>();
+
+  constructor(readonly file: string, readonly mode: FixtureMode) {
+    if (mode === 'record') {
+      this.entries = [];
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      this.save();
+    } else {
+      if (!fs.existsSync(file)) {
+        throw new Error(`HTTP fixture ${file} does not exist. Record it first with MCP_WP_HTTP_FIXTURES=record.`);
+      }
+      this.entries = (JSON.parse(fs.readFileSync(file, 'utf8')) as FixtureFile).entries;
+    }
+  }
+
+  record(entry: FixtureEntry): void {
+    this.entries.push(entry);
+    // Written through so a recording survives an interrupted run
+    this.save();
+  }
+
+  /**
+   * The recorded response for `request`. Entries are used in order: the
+   * first unused one with the same method, path and body, else the first
+   * unused one with the same method and path (bodies often hold timestamps),
+   * else the last one used for that method and path.
+   */
+  take(request: FixtureRequest): FixtureResponse {
+    const samePath = (entry: FixtureEntry) => entry.request.method === request.method && entry.request.path === request.path;
+    const body = canonical(request.body);
+    const unused = (index: number) => !this.used.has(index);
+
+    let index = this.entries.findIndex((entry, i) => unused(i) && samePath(entry) && canonical(entry.request.body) === body);
+    if (index === -1) index = this.entries.findIndex((entry, i) => unused(i) && samePath(entry));
+    if (index === -1) {
+      const reused = this.entries.map((entry, i) => samePath(entry) ? i : -1).filter(i => i !== -1);
+      index = reused[reused.length - 1] ?? -1;
+    }
+    if (index === -1) {
+      throw new Error(`No recorded response for ${request.method} ${request.path} in ${this.file}. Re-record it with MCP_WP_HTTP_FIXTURES=record.`);
+    }
+    this.used.add(index);
+    return this.entries[index].response;
+  }
+
+  private save(): void {
+    const contents: FixtureFile = { version: 1, entries: this.entries };
+    fs.writeFileSync(this.file, `${JSON.stringify(contents, null, 2)}\n`);
+  }
+}
+
+let active: HttpFixtures | undefined;
+let envFixturesLoaded = false;
+
+/** Mode from MCP_WP_HTTP_FIXTURES, if set to a valid value. */
+export function resolveFixtureMode(env: NodeJS.ProcessEnv = process.env): FixtureMode | undefined {
+  const mode = env.MCP_WP_HTTP_FIXTURES?.trim().toLowerCase();
+  if (!mode) return undefined;
+  if (mode === 'record' || mode === 'replay') return mode;
+  logToFile(`Ignoring MCP_WP_HTTP_FIXTURES="${env.MCP_WP_HTTP_FIXTURES}" — expected "record" or "replay"`, 'error');
+  return undefined;
+}
+
+function activeFixtures(): HttpFixtures | undefined {
+  if (!active && !envFixturesLoaded) {
+    envFixturesLoaded = true;
+    const mode = resolveFixtureMode();
+    const file = process.env.MCP_WP_HTTP_FIXTURE_FILE;
+    if (mode && file) {
+      active = new HttpFixtures(path.resolve(file), mode);
+      logToFile(`HTTP fixtures: ${mode === 'record' ? 'recording to' : 'replaying from'} ${active.file}`, 'info');
+    }
+  }
+  return active;
+}
+
+/**
+ * Record or replay site traffic for the rest of the process (or until
+ * stopHttpFixtures). `name` is a file in tests/fixtures/http unless `dir`
+ * says otherwise; the mode defaults to MCP_WP_HTTP_FIXTURES, else replay.
+ */
+export function useHttpFixtures(name: string, options: { mode?: FixtureMode; dir?: string } = {}): HttpFixtures {
+  const file = path.resolve(options.dir ?? DEFAULT_FIXTURE_DIR, name.endsWith('.json') ? name : `${name}.json`);
+  active = new HttpFixtures(file, options.mode ?? resolveFixtureMode() ?? 'replay');
+  return active;
+}
+
+export function stopHttpFixtures(): void {
+  active = undefined;
+}
+
+/** Whether a fixture file exists, for skipping replay tests that were never recorded. */
+export function hasHttpFixture(name: string, dir = DEFAULT_FIXTURE_DIR): boolean {
+  return fs.existsSync(path.resolve(dir, name.endsWith('.json') ? name : `${name}.json`));
+}
+
+function describeRequest(config: InternalAxiosRequestConfig, siteUrl: URL): FixtureRequest {
+  const url = new URL(axios.getUri(config));
+  const prefix = siteUrl.pathname.replace(/\/+$/, '');
+  const pathname = prefix && url.pathname.startsWith(prefix) ? url.pathname.slice(prefix.length) : url.pathname;
+  url.searchParams.sort();
+  const query = url.searchParams.toString();
+
+  let body: unknown;
+  if (typeof config.data === 'string') {
+    try {
+      body = JSON.parse(config.data);
+    } catch {
+      body = config.data;
+    }
+  } else if (config.data !== undefined && config.data !== null) {
+    body = '[binary]'; // FormData uploads
+  }
+
+  return {
+    method: (config.method ?? 'get').toUpperCase(),
+    path: `${pathname}${query ? `?${query}` : ''}`,
+    ...(body !== undefined && { body })
+  };
+}
+
+function toFixtureResponse(response: AxiosResponse): FixtureResponse {
+  const headers: Record<string, string> = {};
+  for (const name of KEPT_RESPONSE_HEADERS) {
+    const value = response.headers?.[name];
+    if (value !== undefined && value !== null) headers[name] = String(value);
+  }
+
+  // Adapters hand back the raw body; transformResponse parses it afterwards
+  const raw = response.data;
+  if (typeof raw === 'string') {
+    try {
+      return { status: response.status, headers, body: JSON.parse(raw) };
+    } catch {
+      return { status: response.status, headers, text: raw };
+    }
+  }
+  return { status: response.status, headers, body: raw };
+}
+
+// Same outcome as axios's own settle(): resolve within validateStatus, reject otherwise
+function settle(fixture: FixtureResponse, config: InternalAxiosRequestConfig): AxiosResponse {
+  const response: AxiosResponse = {
+    data: fixture.text ?? JSON.stringify(fixture.body),
+    status: fixture.status,
+    statusText: '',
+    headers: AxiosHeaders.from(fixture.headers),
+    config,
+    request: {}
+  };
+  if (!config.validateStatus || config.validateStatus(fixture.status)) return response;
+  throw new AxiosError(
+    `Request failed with status code ${fixture.status}`,
+    fixture.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    {},
+    response
+  );
+}
+
+/**
+ * Wrap the client's adapter so requests are recorded or replayed while
+ * fixtures are active. With none active, requests pass straight through.
+ */
+export function attachHttpFixtures(client: AxiosInstance, site: FixtureSite): void {
+  const passthrough: AxiosAdapter = axios.getAdapter(client.defaults.adapter ?? axios.defaults.adapter);
+  const siteUrl = new URL(site.url);
+  const sanitize = createFixtureSanitizer(site);
+
+  client.defaults.adapter = async (config) => {
+    const fixtures = activeFixtures();
+    if (!fixtures) return passthrough(config);
+
+    const request = sanitize(describeRequest(config, siteUrl));
+    if (fixtures.mode === 'replay') {
+      return settle(fixtures.take(request), config);
+    }
+
+    try {
+      const response = await passthrough(config);
+      fixtures.record({ request, response: sanitize(toFixtureResponse(response)) });
+      return response;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        fixtures.record({ request, response: sanitize(toFixtureResponse(error.response)) });
+      }
+      throw error;
+    }
+  };
+}
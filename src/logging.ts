@@ -0,0 +1,273 @@
+// src/logging.ts
+import fs from 'node:fs';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingLevel, LoggingLevelSchema, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { getRequestContext } from './request-context.js';
+
+// Log sinks behind logToFile():
+//
+//   - stderr (stdout carries the stdio protocol), gated by WORDPRESS_LOG_LEVEL
+//   - an optional append-only file at WORDPRESS_LOG_FILE, same gate, rotated
+//     by size when WORDPRESS_LOG_FILE_MAX_BYTES is set
+//   - MCP notifications/message to connected sessions, each gated by its own
+//     level, which the client sets with logging/setLevel
+//
+// DISABLE_LOGGING=true silences the local sinks only; MCP sessions still get
+// what they asked for.
+//
+// Every entry is a structured object — message, level, the tool call's
+// request_id and tool name, plus caller fields — and passes through
+// redactSecrets() and a per-field size cap before reaching any sink. Local
+// sinks print it as text (default) or one JSON object per line
+// (WORDPRESS_LOG_FORMAT=json); MCP clients always get the object.
+
+export type LogLevel = 'debug' | 'info' | 'error';
+
+const LOGGER_NAME = 'mcp-wp';
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose values are credentials wherever they appear: request headers,
+// create_user / update_user arguments, plugin settings payloads, ...
+// `token` must end the key so counters like max_response_tokens stay visible.
+const SECRET_KEY_PATTERN = /^(authorization|proxy-authorization|cookie|set-cookie|x-wp-nonce)$|pass(word|wd)?$|secret|(^|[-_])(access|refresh|auth|bearer|id|csrf)?[-_]?token$|api[-_]?key|private[-_]?key/i;
+
+// Credentials embedded in free text (error messages, interpolated headers).
+// Minimum lengths keep prose like "Basic settings" readable.
+const SECRET_VALUE_PATTERN = /\b(Basic\s+[A-Za-z0-9+/]{16,}={0,2}|Bearer\s+[A-Za-z0-9._~+/-]{16,}=*)/g;
+
+const DEFAULT_MAX_FIELD_SIZE = 4096;
+
+// Resolved site secrets (see secrets.ts), masked wherever they appear verbatim.
+// Very short values are skipped so they don't mask ordinary words.
+const knownSecrets = new Set<string>();
+const MIN_KNOWN_SECRET_LENGTH = 6;
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  /** Shared by a tool call and every HTTP request it makes. */
+  request_id?: string;
+  tool?: string;
+  [field: string]: unknown;
+}
+
+// MCP levels in ascending severity (debug ... emergency)
+const LEVEL_SEVERITY = new Map<LoggingLevel, number>(
+  LoggingLevelSchema.options.map((level, index) => [level, index])
+);
+
+function isEnabled(level: LoggingLevel, threshold: LoggingLevel): boolean {
+  return LEVEL_SEVERITY.get(level)! >= LEVEL_SEVERITY.get(threshold)!;
+}
+
+/** Threshold for the local sinks and the starting level for new MCP sessions. */
+export function resolveLogLevel(envValue?: string): LogLevel {
+  return envValue === 'debug' || envValue === 'info' || envValue === 'error' ? envValue : 'error';
+}
+
+/**
+ * One connected MCP server instance. The stdio transport has exactly one;
+ * the HTTP transport has one per client session, so a setLevel from one
+ * teammate's client doesn't turn on debug output for everyone else.
+ */
+export class McpLogSession {
+  level: LoggingLevel = resolveLogLevel(process.env.WORDPRESS_LOG_LEVEL);
+
+  constructor(private readonly server: Server) {}
+
+  wants(level: LogLevel): boolean {
+    return Boolean(this.server.transport) && isEnabled(level, this.level);
+  }
+
+  send(entry: LogEntry): void {
+    if (!this.wants(entry.level)) return;
+
+    // Fire-and-forget: a failed notification must not fail the tool call, and
+    // must not be logged (that would recurse straight back here).
+    const { timestamp, level, ...data } = entry;
+    this.server
+      .sendLoggingMessage({ level, logger: LOGGER_NAME, data })
+      .catch(() => {});
+  }
+}
+
+const sessions = new Set<McpLogSession>();
+
+/**
+ * Route logs to an MCP server's client and handle its logging/setLevel
+ * requests. The server must declare the `logging` capability.
+ */
+export function attachMcpLogging(server: Server): McpLogSession {
+  const session = new McpLogSession(server);
+  sessions.add(session);
+
+  // Replaces the SDK's built-in handler: that one sends every level until the
+  // client calls setLevel, which would flood clients with debug output.
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    session.level = request.params.level;
+    return {};
+  });
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    sessions.delete(session);
+    previousOnClose?.();
+  };
+
+  return session;
+}
+
+/**
+ * Mask `secret` in every later log entry, wherever it appears. Called with
+ * each secret a provider resolves, since those needn't look like credentials.
+ */
+export function registerSecret(secret: string): void {
+  if (secret.length >= MIN_KNOWN_SECRET_LENGTH) knownSecrets.add(secret);
+}
+
+/**
+ * Return a deep copy of `value` with credential-bearing keys replaced and
+ * Basic / Bearer credentials and registered secrets masked inside strings.
+ * Safe on cycles.
+ */
+export function redactSecrets(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    let redacted = value.replace(SECRET_VALUE_PATTERN, match => `${match.split(/\s+/)[0]} ${REDACTED}`);
+    for (const secret of knownSecrets) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+    return redacted;
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item, seen));
+  }
+
+  const out: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    out[key] = SECRET_KEY_PATTERN.test(key) && item !== undefined && item !== null && item !== ''
+      ? REDACTED
+      : redactSecrets(item, seen);
+  }
+  return out;
+}
+
+function resolveMaxFieldSize(envValue?: string): number {
+  const parsed = parseInt(envValue || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_FIELD_SIZE;
+}
+
+/**
+ * Cap a field's serialized size. Oversized values (typically REST response
+ * bodies) are replaced with a truncated JSON preview and their full length.
+ */
+export function capFieldSize(value: unknown, maxSize: number): unknown {
+  const serialized = typeof value === 'string' ? value : JSON.stringify(value);
+  if (serialized === undefined || serialized.length <= maxSize) return value;
+  return `${serialized.slice(0, maxSize)}… [truncated, ${serialized.length} chars total]`;
+}
+
+function buildEntry(message: string, level: LogLevel, fields?: Record<string, unknown>): LogEntry {
+  const context = getRequestContext();
+  const maxSize = resolveMaxFieldSize(process.env.WORDPRESS_LOG_MAX_FIELD_SIZE);
+  const entry: LogEntry = {
+    timestamp: new Date().toISOString(),
+    level,
+    message: redactSecrets(message) as string
+  };
+  if (context?.requestId) entry.request_id = context.requestId;
+  if (context?.toolName) entry.tool = context.toolName;
+
+  const redacted = redactSecrets(fields ?? {}) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(redacted)) {
+    if (value !== undefined) entry[key] = capFieldSize(value, maxSize);
+  }
+  return entry;
+}
+
+function formatEntry(entry: LogEntry): string {
+  if (process.env.WORDPRESS_LOG_FORMAT === 'json') {
+    return `${JSON.stringify(entry)}\n`;
+  }
+
+  const { timestamp, level, message, request_id, tool, ...fields } = entry;
+  const tags = [request_id && `request ${request_id}`, tool && `tool ${tool}`].filter(Boolean);
+  const prefix = `[${timestamp}] [${level.toUpperCase()}]${tags.length ? ` [${tags.join(', ')}]` : ''}`;
+  const details = Object.keys(fields).length ? `\n${JSON.stringify(fields, null, 2)}` : '';
+  return `${prefix} ${message}${details}\n`;
+}
+
+// Rotation keeps WORDPRESS_LOG_FILE_MAX_FILES old files as <file>.1 (newest)
+// through <file>.N; unset WORDPRESS_LOG_FILE_MAX_BYTES means never rotate.
+function rotateIfNeeded(filePath: string, incomingBytes: number): void {
+  const maxBytes = parseInt(process.env.WORDPRESS_LOG_FILE_MAX_BYTES || '', 10);
+  if (!Number.isInteger(maxBytes) || maxBytes <= 0) return;
+
+  let size: number;
+  try {
+    size = fs.statSync(filePath).size;
+  } catch {
+    return; // no file yet
+  }
+  if (size === 0 || size + incomingBytes <= maxBytes) return;
+
+  const parsedMaxFiles = parseInt(process.env.WORDPRESS_LOG_FILE_MAX_FILES || '', 10);
+  const maxFiles = Number.isInteger(parsedMaxFiles) && parsedMaxFiles > 0 ? parsedMaxFiles : 5;
+
+  fs.rmSync(`${filePath}.${maxFiles}`, { force: true });
+  for (let i = maxFiles - 1; i >= 1; i--) {
+    if (fs.existsSync(`${filePath}.${i}`)) {
+      fs.renameSync(`${filePath}.${i}`, `${filePath}.${i + 1}`);
+    }
+  }
+  fs.renameSync(filePath, `${filePath}.1`);
+}
+
+let fileErrorReported = false;
+
+function writeToFile(filePath: string, line: string): void {
+  try {
+    rotateIfNeeded(filePath, Buffer.byteLength(line));
+    fs.appendFileSync(filePath, line);
+    fileErrorReported = false;
+  } catch (error: any) {
+    // A bad path shouldn't crash the server or spam stderr once per line
+    if (!fileErrorReported) {
+      process.stderr.write(`[${new Date().toISOString()}] [ERROR] Log file ${filePath} unavailable: ${error.message}\n`);
+      fileErrorReported = true;
+    }
+  }
+}
+
+/**
+ * Log a message, optionally with structured fields (headers, bodies, timings).
+ * Fields are redacted and size-capped; never pre-serialize them into the
+ * message, or redaction only sees a string.
+ */
+export function logToFile(message: string, level: LogLevel = 'debug', fields?: Record<string, unknown>) {
+  // Inside a tool call, only the calling session hears about it; anything
+  // else (startup, site loading) goes to every connected session.
+  const contextSession = getRequestContext()?.logSession;
+  const listeners = (contextSession ? [contextSession] : [...sessions]).filter(session => session.wants(level));
+  const local = process.env.DISABLE_LOGGING !== 'true'
+    && isEnabled(level, resolveLogLevel(process.env.WORDPRESS_LOG_LEVEL));
+  // Redacting and capping fields copies and serializes them (often whole
+  // REST bodies), so a debug line nobody listens to must cost nothing
+  if (listeners.length === 0 && !local) return;
+
+  const entry = buildEntry(message, level, fields);
+  for (const session of listeners) session.send(entry);
+  if (!local) return;
+
+  const line = formatEntry(entry);
+  // MCP uses stdout for protocol, so local logs go to stderr
+  process.stderr.write(line);
+  if (process.env.WORDPRESS_LOG_FILE) {
+    writeToFile(process.env.WORDPRESS_LOG_FILE, line);
+  }
+}
@@ -0,0 +1,327 @@
+// src/mcp-server.ts
+import { randomUUID } from "node:crypto";
+import {
+  McpServer,
+  RegisteredTool,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Tool, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { allTools, toolHandlers } from "./tools/index.js";
+import { wordpressResourceTemplates } from "./resources/wordpress-resources.js";
+import { editorialPrompts } from "./prompts/editorial.js";
+import { runWithRequestContext } from "./request-context.js";
+import { isTracingEnabled, startSpan } from "./telemetry.js";
+import { siteManager } from "./config/site-manager.js";
+import {
+  applyResponseBudget,
+  resolveResponseBudget,
+} from "./response-budget.js";
+import { attachMcpLogging, logToFile, McpLogSession } from "./logging.js";
+import { getRouteTools } from "./tools/route-tools.js";
+import {
+  ensureRouteDiscovery,
+  onRoutesChanged,
+  routeToolsEnabled,
+} from "./route-discovery.js";
+import { z } from "zod";
+
+/**
+ * Build a fully-registered MCP server instance.
+ *
+ * An McpServer can only be connected to one transport at a time, so the
+ * stdio entry point calls this once while the HTTP transport calls it once
+ * per session.
+ */
+export function createMcpServer(): McpServer {
+  // capabilities.tools must be the capability flags object, NOT a map of tool
+  // definitions — registerTool() registration below handles tool advertisement.
+  // Stuffing tool objects here serialized their zod schemas into every
+  // initialize response (~65KB of internals per connection).
+  const server = new McpServer(
+    {
+      name: "wordpress",
+      version: "0.0.1",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+        logging: {},
+      },
+    },
+  );
+
+  const logSession = attachMcpLogging(server.server);
+
+  // Register each tool from our tools list with its corresponding handler
+  for (const tool of allTools) {
+    const handler = toolHandlers[tool.name as keyof typeof toolHandlers];
+    if (!handler) continue;
+    registerWordPressTool(server, logSession, tool, handler);
+  }
+
+  if (routeToolsEnabled()) {
+    attachRouteTools(server, logSession);
+  }
+
+  for (const resource of wordpressResourceTemplates) {
+    const { list } = resource;
+    const template = new ResourceTemplate(resource.uriTemplate, {
+      list: list && (async () => ({ resources: await list() })),
+      complete: resource.complete,
+    });
+
+    server.registerResource(
+      resource.name,
+      template,
+      {
+        title: resource.title,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      },
+      async (uri, variables) => {
+        // Template variables arrive still percent-encoded and may be arrays
+        // for explode-style expressions; the WP templates only use scalars.
+        const decoded = Object.fromEntries(
+          Object.entries(variables).map(([key, value]) => [
+            key,
+            decodeURIComponent(Array.isArray(value) ? value[0] : value),
+          ]),
+        );
+        const data = await resource.read(decoded);
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: resource.mimeType,
+              text: JSON.stringify(data, null, 2),
+            },
+          ],
+        };
+      },
+    );
+  }
+
+  for (const prompt of editorialPrompts) {
+    // Same TS2589 workaround as registerTool above.
+    (
+      server.registerPrompt as (
+        name: string,
+        config: {
+          title: string;
+          description: string;
+          argsSchema: z.ZodRawShape;
+        },
+        cb: (args: Record<string, string | undefined>) => {
+          messages: {
+            role: "user";
+            content: { type: "text"; text: string };
+          }[];
+        },
+      ) => unknown
+    )(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: prompt.argsSchema,
+      },
+      (args) => ({
+        messages: [
+          {
+            role: "user",
+            content: { type: "text", text: prompt.build(args) },
+          },
+        ],
+      }),
+    );
+  }
+
+  return server;
+}
+
+type ToolHandler = (args: any) => Promise<{ toolResult: { content: any[] } }>;
+
+/**
+ * Register one tool on `server`, running its handler inside a request
+ * context. Returns the SDK's handle so generated tools can be removed again.
+ */
+function registerWordPressTool(
+  server: McpServer,
+  logSession: McpLogSession,
+  tool: Tool,
+  handler: ToolHandler,
+): RegisteredTool {
+  const wrappedHandler = async (
+    args: any,
+    extra: { signal: AbortSignal },
+  ) => {
+    // The handler functions are already typed with their specific parameter types.
+    // The request context carries the MCP request's AbortSignal down to every
+    // axios call the handler makes, so client cancellation stops HTTP work,
+    // and scopes logs from the call to this session under one request_id.
+    // max_response_tokens belongs to the budgeter, not the tool
+    const { max_response_tokens: maxResponseTokens, ...toolArgs } = args ?? {};
+    const requestId = randomUUID();
+    const span = startSpan(`tools/call ${tool.name}`, {
+      kind: "server",
+      attributes: {
+        "mcp.tool.name": tool.name,
+        "mcp.request.id": requestId,
+        "wordpress.site_id": isTracingEnabled()
+          ? resolveSiteId(toolArgs.site_id)
+          : undefined,
+      },
+    });
+    const context = {
+      signal: extra.signal,
+      logSession,
+      requestId,
+      toolName: tool.name,
+      span,
+    };
+    const { content, structuredContent, isError } = await runWithRequestContext(context, async () => {
+      const started = Date.now();
+      logToFile("Tool call started", "debug", { arguments: toolArgs });
+      const { toolResult } = await handler(toolArgs);
+      logToFile("Tool call finished", "debug", {
+        duration_ms: Date.now() - started,
+        is_error: Boolean((toolResult as { isError?: boolean }).isError),
+      });
+      return applyResponseBudget(
+        toolResult as {
+          content: { type: string; text: string }[];
+          structuredContent?: Record<string, unknown>;
+          isError?: boolean;
+        },
+        {
+          budget: resolveResponseBudget(tool.name, maxResponseTokens),
+          toolName: tool.name,
+          inputKeys: Object.keys(rawShape),
+        },
+      );
+    }).catch((error: unknown) => {
+      span.setError(error instanceof Error ? error.message : String(error));
+      span.end();
+      throw error;
+    });
+    span.setAttribute(
+      "mcp.tool.response.size",
+      content.reduce((size, item) => size + Buffer.byteLength(item.text ?? ""), 0),
+    );
+    span.setAttribute("mcp.tool.is_error", Boolean(isError));
+    if (isError) span.setError(content[0]?.text ?? "Tool call failed");
+    span.end();
+    return {
+      content: content.map((item) => ({
+        ...item,
+        type: "text" as const,
+      })),
+      // Tools with an outputSchema return structuredContent alongside the
+      // text block; the SDK validates it against the schema on success.
+      ...(structuredContent !== undefined && { structuredContent }),
+      isError,
+    };
+  };
+
+  // Tool modules define inputSchema.properties (and outputSchema.properties,
+  // where present) as zod shapes (see CLAUDE.md); passing raw JSON Schema
+  // here collapses the published schema to {}.
+  const rawShape = tool.inputSchema.properties as z.ZodRawShape;
+  const inputShape = {
+    ...rawShape,
+    max_response_tokens: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe(
+        "Token budget for this response; larger results are trimmed with a note on what was left out. 0 means unlimited.",
+      ),
+  };
+  const outputShape = tool.outputSchema?.properties as
+    | z.ZodRawShape
+    | undefined;
+  // Cast bypasses TS2589: registerTool's generic resolves ShapeOutput<Args>
+  // against the SDK's z3|z4 union schema type, exploding instantiation depth.
+  return (
+    server.registerTool as (
+      name: string,
+      config: {
+        description: string;
+        inputSchema: z.ZodRawShape;
+        outputSchema?: z.ZodRawShape;
+        annotations: ToolAnnotations;
+      },
+      cb: typeof wrappedHandler,
+    ) => RegisteredTool
+  )(
+    tool.name,
+    {
+      description: tool.description ?? "",
+      inputSchema: inputShape,
+      outputSchema: outputShape,
+      annotations: tool.annotations ?? {},
+    },
+    wrappedHandler,
+  );
+}
+
+/** The configured site a tool call targets, for its trace span. */
+function resolveSiteId(siteId?: string): string | undefined {
+  try {
+    return siteManager.getSite(siteId).id;
+  } catch {
+    return siteId;
+  }
+}
+
+/**
+ * Keep tools generated from discovered REST routes registered on `server`,
+ * adding and removing them as routes are discovered. Clients get one
+ * tools/list_changed per change.
+ */
+function attachRouteTools(server: McpServer, logSession: McpLogSession): void {
+  const registered = new Map<string, { tool: RegisteredTool; fingerprint: string }>();
+
+  const sync = () => {
+    const next = new Map(getRouteTools().map((routeTool) => [routeTool.tool.name, routeTool]));
+    let changed = false;
+
+    // registerTool() and remove() each send tools/list_changed; hold those
+    // back and send one for the whole sync.
+    const sendToolListChanged = server.sendToolListChanged.bind(server);
+    server.sendToolListChanged = () => {
+      changed = true;
+    };
+    try {
+      for (const [name, entry] of registered) {
+        if (next.get(name)?.fingerprint === entry.fingerprint) continue;
+        entry.tool.remove();
+        registered.delete(name);
+      }
+      for (const [name, routeTool] of next) {
+        if (registered.has(name) || toolHandlers[name as keyof typeof toolHandlers]) continue;
+        registered.set(name, {
+          tool: registerWordPressTool(server, logSession, routeTool.tool, routeTool.handler),
+          fingerprint: routeTool.fingerprint,
+        });
+      }
+    } finally {
+      server.sendToolListChanged = sendToolListChanged;
+    }
+    if (changed) sendToolListChanged();
+  };
+
+  sync();
+  const unsubscribe = onRoutesChanged(sync);
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribe();
+    previousOnClose?.();
+  };
+
+  // The first server to start discovers routes for all sites
+  void ensureRouteDiscovery();
+}
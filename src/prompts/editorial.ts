@@ -0,0 +1,132 @@
+// src/prompts/editorial.ts
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { z } from 'zod';
+import { Completer, CompletionContext, completeContentType, completeSiteId } from '../completions.js';
+
+// MCP prompts for common editorial workflows. Each prompt expands into a
+// single user message that spells out which tools to call, with which
+// arguments, and in what order — so a one-click workflow in the client runs
+// the same way every time instead of depending on how the request is phrased.
+//
+// Prompt arguments are always strings on the wire (MCP spec), so schemas
+// here use z.string() and handle defaults in build(). completable() must wrap
+// the outermost schema — .describe() / .optional() return a new schema that
+// drops the completion hook.
+
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  argsSchema: z.ZodRawShape;
+  /** Tools the expanded prompt instructs the model to call. Checked by tests. */
+  tools: string[];
+  build: (args: Record<string, string | undefined>) => string;
+}
+
+function completableArg(schema: z.ZodTypeAny, complete: Completer): z.ZodTypeAny {
+  // Cast bypasses TS2589, as with registerTool in mcp-server.ts: completable's
+  // generic resolves against the SDK's z3|z4 union schema type.
+  const wrap = completable as unknown as (
+    schema: z.ZodTypeAny,
+    complete: (value: string | undefined, context?: CompletionContext) => Promise<string[]>
+  ) => z.ZodTypeAny;
+  return wrap(schema, (value, context) => complete(value ?? '', context));
+}
+
+const siteIdArg = completableArg(
+  z.string().optional().describe("Site ID (for multi-site setups). Uses the default site if omitted."),
+  completeSiteId
+);
+
+// Rendered into tool-call instructions; omitted entirely for the default site
+// so the model doesn't pass an empty string.
+function siteClause(siteId?: string): string {
+  return siteId ? `, site_id: "${siteId}"` : '';
+}
+
+export const editorialPrompts: PromptDefinition[] = [
+  {
+    name: 'seo_audit',
+    title: 'Audit a URL for SEO',
+    description: 'Audit a published page or post for on-page SEO: title, meta description, focus keyword, length, and taxonomy coverage.',
+    argsSchema: {
+      url: z.string().describe("Public URL of the content to audit"),
+      focus_keyword: z.string().optional().describe("Keyword to audit against. Defaults to the Yoast focus keyword, if set."),
+      site_id: siteIdArg
+    },
+    tools: ['get_content_summary'],
+    build: ({ url, focus_keyword, site_id }) => [
+      `Audit this URL for on-page SEO: ${url}`,
+      '',
+      'Steps:',
+      `1. Call get_content_summary with { url: "${url}"${siteClause(site_id)} }. Do not fetch the full content — the summary has every field this audit needs.`,
+      '2. Assess and report, one line per check with PASS / WARN / FAIL:',
+      `   - Focus keyword: ${focus_keyword ? `"${focus_keyword}"` : 'use yoast_focus_keyword; FAIL if it is null'}. Is it present in the title, slug, excerpt, and meta description?`,
+      '   - SEO title (yoast_meta_title, falling back to title): 30–60 characters.',
+      '   - Meta description (yoast_meta_description): 120–160 characters; FAIL if missing.',
+      '   - Slug: short, lowercase, hyphenated, no stop-word padding.',
+      '   - Word count: WARN below 300 words for a post.',
+      '   - Featured image: WARN if featured_media is 0.',
+      '   - Taxonomy: WARN if there are no tags, or categories is only [1] (the default "Uncategorized").',
+      '3. Finish with the three highest-impact fixes, each with concrete replacement text.',
+      '',
+      'This is read-only: do not call update_content unless I ask you to apply the fixes.'
+    ].join('\n')
+  },
+  {
+    name: 'draft_post_from_outline',
+    title: 'Draft a post from an outline',
+    description: 'Expand an outline into a full article and save it as a draft. Never publishes.',
+    argsSchema: {
+      outline: z.string().describe("Outline or bullet points for the article"),
+      title: z.string().optional().describe("Working title. Generated from the outline if omitted."),
+      content_type: completableArg(
+        z.string().optional().describe("Content type slug to create (default 'post')"),
+        completeContentType
+      ),
+      tone: z.string().optional().describe("Voice and tone, e.g. 'friendly', 'technical'"),
+      site_id: siteIdArg
+    },
+    tools: ['discover_taxonomies', 'list_terms', 'create_content'],
+    build: ({ outline, title, content_type, tone, site_id }) => {
+      const contentType = content_type || 'post';
+      return [
+        `Draft a ${contentType} from this outline${title ? ` titled "${title}"` : ''}:`,
+        '',
+        outline ?? '',
+        '',
+        'Steps:',
+        `1. Write the full article in Markdown, following the outline's structure: one ## heading per top-level point, short paragraphs, and a closing summary.${tone ? ` Tone: ${tone}.` : ''}`,
+        `2. Call discover_taxonomies with { content_type: "${contentType}"${siteClause(site_id)} }, then list_terms for each relevant taxonomy to pick existing term IDs. Do not create new terms.`,
+        `3. Call create_content with { content_type: "${contentType}", status: "draft", content_format: "markdown", convert_to_blocks: true${siteClause(site_id)} }, plus title, content, a one-sentence excerpt, and the chosen term IDs (categories / tags for posts).`,
+        '4. Reply with the new draft\'s ID, its edit link, and the terms assigned.',
+        '',
+        'The status MUST be "draft". Do not publish or schedule this content.'
+      ].join('\n');
+    }
+  },
+  {
+    name: 'moderate_comments',
+    title: 'Moderate the pending comment queue',
+    description: 'Review comments awaiting moderation and propose approve / spam / trash decisions, applying them only after confirmation.',
+    argsSchema: {
+      post: z.string().optional().describe("Limit moderation to comments on this post ID"),
+      per_page: z.string().optional().describe("How many pending comments to review (default 20, max 100)")
+    },
+    tools: ['list_comments', 'update_comment'],
+    build: ({ post, per_page }) => {
+      const perPage = Math.min(Math.max(parseInt(per_page || '', 10) || 20, 1), 100);
+      return [
+        'Moderate the pending comment queue.',
+        '',
+        'Steps:',
+        `1. Call list_comments with { status: "hold", per_page: ${perPage}, orderby: "date", order: "asc"${post ? `, post: ${Number(post)}` : ''} }.`,
+        '2. Classify each comment as APPROVE (genuine and on-topic), SPAM (promotional, link-stuffed, or machine-generated), or TRASH (abusive or off-topic but not spam).',
+        '3. Show a table: id, author_name, first 80 characters of the content, decision, one-line reason.',
+        '4. Wait for my confirmation. Then call update_comment for each comment with { id, status: "approve" | "spam" | "trash" }.',
+        '',
+        'Never call delete_comment, and never change a comment before I confirm.'
+      ].join('\n');
+    }
+  }
+];
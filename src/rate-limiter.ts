@@ -0,0 +1,199 @@
+// src/rate-limiter.ts
+import { AxiosInstance, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { logToFile } from './logging.js';
+import { getRequestContext } from './request-context.js';
+
+// Per-site request limiter. SiteManager.createClient installs one per site
+// client as axios interceptors: a request waits for a slot before it is sent
+// and frees it when the response (or error) comes back.
+//
+// Waiting requests are queued per tool and served round-robin across tools,
+// so one tool's fan-out (findContentAcrossTypes hits every post type at once)
+// or a bulk agent loop can't starve other tools sharing the site.
+
+export interface RequestLimits {
+  /** In-flight requests allowed at once. 0 means unlimited. */
+  maxConcurrent: number;
+  /** Request starts allowed per second. 0 means unlimited. */
+  requestsPerSecond: number;
+}
+
+export const DEFAULT_REQUEST_LIMITS: RequestLimits = {
+  maxConcurrent: 6,
+  requestsPerSecond: 0
+};
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Milliseconds this request waited for a limiter slot (set by the limiter). */
+    queueWaitMs?: number;
+    /** Frees the limiter slot; safe to call more than once. */
+    releaseSlot?: () => void;
+  }
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (waitMs: number) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+function parseLimit(value?: string): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    logToFile(`Ignoring invalid request limit "${value}" — expected a non-negative number`, 'error');
+    return undefined;
+  }
+  return parsed;
+}
+
+/**
+ * Read `<prefix>MAX_CONCURRENT` and `<prefix>REQUESTS_PER_SECOND`. Prefix is
+ * `WORDPRESS_` for the global defaults and `WORDPRESS_<n>_` per site. Only
+ * keys that are set appear in the result.
+ */
+export function parseRequestLimits(env: NodeJS.ProcessEnv, prefix: string): Partial<RequestLimits> {
+  const limits: Partial<RequestLimits> = {};
+  const maxConcurrent = parseLimit(env[`${prefix}MAX_CONCURRENT`]);
+  const requestsPerSecond = parseLimit(env[`${prefix}REQUESTS_PER_SECOND`]);
+  if (maxConcurrent !== undefined) limits.maxConcurrent = Math.floor(maxConcurrent);
+  if (requestsPerSecond !== undefined) limits.requestsPerSecond = requestsPerSecond;
+  return limits;
+}
+
+export class SiteRequestLimiter {
+  private active = 0;
+  private lastStartAt = 0;
+  private timer: NodeJS.Timeout | undefined;
+  // Map preserves insertion order; a key that still has waiters after being
+  // served is re-inserted at the end, which gives round-robin across keys.
+  private readonly queues = new Map<string, Waiter[]>();
+
+  constructor(private readonly limits: RequestLimits) {}
+
+  /** Requests currently waiting for a slot. */
+  get queued(): number {
+    let count = 0;
+    for (const queue of this.queues.values()) count += queue.length;
+    return count;
+  }
+
+  /**
+   * Wait for a slot. Resolves with the time spent queued; rejects with the
+   * signal's reason if the caller gives up first.
+   */
+  acquire(key: string, signal?: AbortSignal): Promise<number> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { enqueuedAt: Date.now(), resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.remove(key, waiter);
+          reject(signal.reason);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      const queue = this.queues.get(key);
+      if (queue) queue.push(waiter);
+      else this.queues.set(key, [waiter]);
+      this.drain();
+    });
+  }
+
+  release(): void {
+    this.active = Math.max(0, this.active - 1);
+    this.drain();
+  }
+
+  private remove(key: string, waiter: Waiter): void {
+    const queue = this.queues.get(key);
+    if (!queue) return;
+    const index = queue.indexOf(waiter);
+    if (index !== -1) queue.splice(index, 1);
+    if (queue.length === 0) this.queues.delete(key);
+  }
+
+  private drain(): void {
+    const { maxConcurrent, requestsPerSecond } = this.limits;
+    const minInterval = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+
+    while (this.queues.size > 0 && (maxConcurrent === 0 || this.active < maxConcurrent)) {
+      const wait = this.lastStartAt + minInterval - Date.now();
+      if (wait > 0) {
+        this.timer ??= setTimeout(() => {
+          this.timer = undefined;
+          this.drain();
+        }, wait);
+        return;
+      }
+
+      const [key, queue] = this.queues.entries().next().value as [string, Waiter[]];
+      const waiter = queue.shift()!;
+      this.queues.delete(key);
+      if (queue.length > 0) this.queues.set(key, queue);
+
+      if (waiter.onAbort) waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      this.active++;
+      this.lastStartAt = Date.now();
+      waiter.resolve(this.lastStartAt - waiter.enqueuedAt);
+    }
+  }
+}
+
+/**
+ * Install the limiter on a site client. Must be attached before the retry
+ * interceptor, so a request frees its slot before backing off and queues
+ * again for the retry.
+ */
+export function attachRequestLimiter(client: AxiosInstance, limits: RequestLimits, siteId: string): void {
+  if (limits.maxConcurrent === 0 && limits.requestsPerSecond === 0) return;
+
+  const limiter = new SiteRequestLimiter(limits);
+
+  client.interceptors.request.use(async (config: InternalAxiosRequestConfig) => {
+    // Fairness is per tool: calls made outside a tool (startup, resources)
+    // share one queue.
+    const key = getRequestContext()?.toolName ?? '__internal__';
+    const queuedBehind = limiter.queued;
+    let waitMs: number;
+    try {
+      waitMs = await limiter.acquire(key, config.signal as AbortSignal | undefined);
+    } catch {
+      // Surface the same error axios raises for an aborted in-flight request
+      throw new CanceledError(undefined, undefined, config);
+    }
+
+    let released = false;
+    config.releaseSlot = () => {
+      if (released) return;
+      released = true;
+      limiter.release();
+    };
+    config.queueWaitMs = (config.queueWaitMs ?? 0) + waitMs;
+
+    if (waitMs > 0) {
+      logToFile(`Waited ${waitMs}ms for a request slot on site '${siteId}'`, 'debug', {
+        site: siteId,
+        queue_wait_ms: waitMs,
+        queued_behind: queuedBehind
+      });
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => {
+      response.config.releaseSlot?.();
+      return response;
+    },
+    (error) => {
+      error?.config?.releaseSlot?.();
+      throw error;
+    }
+  );
+}
@@ -0,0 +1,49 @@
+// src/request-context.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
+import axios from 'axios';
+import type { McpLogSession } from './logging.js';
+import type { Span } from './telemetry.js';
+
+/**
+ * Per-tool-call state that must reach the HTTP layer without being threaded
+ * through every handler and helper signature (getContentEndpoint,
+ * findContentAcrossTypes, resolveTaxonomy, ...).
+ *
+ * mcp-server.ts opens a context around each tool invocation; code that runs
+ * inside it — including parallel fan-outs — sees the same context.
+ */
+export interface RequestContext {
+  /** Aborted when the MCP client cancels the request or the transport closes. */
+  signal?: AbortSignal;
+  /** The calling session, so logs from this tool call reach only its client. */
+  logSession?: McpLogSession;
+  /** Stamped on every log entry from the tool call, including its HTTP requests. */
+  requestId?: string;
+  toolName?: string;
+  /** The tool call's trace span; HTTP spans from the call become its children. */
+  span?: Span;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Throw if the current tool call has been cancelled. Use in loops that catch
+ * and skip per-item errors, so a cancellation stops the loop instead of being
+ * swallowed as one more failed item.
+ */
+export function throwIfAborted(): void {
+  getRequestContext()?.signal?.throwIfAborted();
+}
+
+/** True for axios cancellations and DOM-style AbortErrors. */
+export function isAbortError(error: unknown): boolean {
+  return axios.isCancel(error) || (error instanceof Error && error.name === 'AbortError');
+}
@@ -0,0 +1,170 @@
+// src/resources/wordpress-resources.ts
+import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { makeWordPressRequest, logToFile } from '../wordpress.js';
+import { siteManager } from '../config/site-manager.js';
+import { getContentEndpoint } from '../tools/unified-content.js';
+import { resolveTaxonomy } from '../tools/unified-taxonomies.js';
+import { Completer, completeContentType, completePluginSlug, completeSiteId, completeTaxonomy, percentEncoded } from '../completions.js';
+import { htmlToPlainText } from '../tools/content-summary.js';
+
+// Resources let clients browse WordPress content and attach a single post or
+// media item as context, instead of routing every read through get_content.
+// URIs are addressed by configured site ID so they stay stable when the same
+// content type exists on several sites:
+//
+//   wp://{site_id}/media/{id}
+//   wp://{site_id}/term/{taxonomy}/{id}
+//   wp://{site_id}/plugin/{plugin}
+//   wp://{site_id}/{content_type}/{id}
+//
+// Template variables support completion/complete, which is how clients
+// discover valid site IDs, content type slugs, taxonomies and plugins.
+
+const RESOURCE_MIME_TYPE = 'application/json';
+
+export interface WordPressResourceTemplate {
+  name: string;
+  title: string;
+  uriTemplate: string;
+  description: string;
+  mimeType: string;
+  /** Enumerate recent resources across every configured site. Omit for templates that are read-only by URI. */
+  list?: () => Promise<Resource[]>;
+  /** Fetch the resource for a matched set of URI template variables. */
+  read: (variables: Record<string, string>) => Promise<unknown>;
+  /** Completers keyed by URI template variable name. */
+  complete: Record<string, Completer>;
+}
+
+/**
+ * Per-site cap on how many items each template enumerates in resources/list.
+ * Listing is a browse aid, not an export — clients read anything else by URI.
+ */
+function resolveListLimit(envValue?: string): number {
+  const parsed = parseInt(envValue || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? Math.min(parsed, 100) : 20;
+}
+
+/**
+ * Content types enumerated by resources/list. Reads work for any type whose
+ * rest_base resolves; this only controls what is advertised up front.
+ */
+export function resolveListedContentTypes(envValue?: string): string[] {
+  if (envValue === undefined) return ['post', 'page'];
+  return envValue
+    .split(',')
+    .map(t => t.trim())
+    .filter(t => t.length > 0);
+}
+
+export function buildResourceUri(siteId: string, contentType: string, id: number | string): string {
+  return `wp://${encodeURIComponent(siteId)}/${encodeURIComponent(contentType)}/${encodeURIComponent(String(id))}`;
+}
+
+function parseResourceId(raw: string): number {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error(`Invalid resource ID "${raw}" — expected a positive integer`);
+  }
+  return id;
+}
+
+function toResource(siteId: string, contentType: string, item: any): Resource {
+  const title = htmlToPlainText(item?.title?.rendered) || `${contentType} ${item.id}`;
+  const details = [contentType, item?.status, item?.link].filter(Boolean).join(' · ');
+
+  return {
+    uri: buildResourceUri(siteId, contentType, item.id),
+    name: title,
+    description: details,
+    mimeType: RESOURCE_MIME_TYPE
+  };
+}
+
+// Fan out one list request per site. A site that is down or rejects the
+// credentials is logged and skipped so one bad site doesn't empty the list.
+async function listAcrossSites(
+  contentType: string,
+  resolveEndpoint: (siteId: string) => Promise<string>
+): Promise<Resource[]> {
+  const perPage = resolveListLimit(process.env.MCP_WP_RESOURCE_LIST_LIMIT);
+  const resources: Resource[] = [];
+
+  for (const site of siteManager.getAllSites()) {
+    try {
+      const endpoint = await resolveEndpoint(site.id);
+      const items = await makeWordPressRequest('GET', endpoint, {
+        per_page: perPage,
+        orderby: 'date',
+        order: 'desc'
+      }, { siteId: site.id });
+
+      if (Array.isArray(items)) {
+        resources.push(...items.map(item => toResource(site.id, contentType, item)));
+      }
+    } catch (error: any) {
+      logToFile(`Failed to list ${contentType} resources for site '${site.id}': ${error.message}`, 'error');
+    }
+  }
+
+  return resources;
+}
+
+// Order matters: the SDK matches templates in registration order, and the
+// generic content template would otherwise swallow media and plugin URIs.
+export const wordpressResourceTemplates: WordPressResourceTemplate[] = [
+  {
+    name: 'wordpress-media',
+    title: 'WordPress media item',
+    uriTemplate: 'wp://{site_id}/media/{id}',
+    description: 'A media library item (attachment) on a configured WordPress site, as returned by /wp/v2/media.',
+    mimeType: RESOURCE_MIME_TYPE,
+    list: () => listAcrossSites('media', async () => 'media'),
+    read: async ({ site_id, id }) => {
+      return makeWordPressRequest('GET', `media/${parseResourceId(id)}`, undefined, { siteId: site_id });
+    },
+    complete: { site_id: completeSiteId }
+  },
+  {
+    name: 'wordpress-term',
+    title: 'WordPress taxonomy term',
+    uriTemplate: 'wp://{site_id}/term/{taxonomy}/{id}',
+    description: 'A term in any taxonomy on a configured WordPress site. taxonomy is the taxonomy slug or rest_base (e.g. category, tags).',
+    mimeType: RESOURCE_MIME_TYPE,
+    read: async ({ site_id, taxonomy, id }) => {
+      const { restBase } = await resolveTaxonomy(taxonomy, site_id);
+      return makeWordPressRequest('GET', `${restBase}/${parseResourceId(id)}`, undefined, { siteId: site_id });
+    },
+    complete: { site_id: completeSiteId, taxonomy: completeTaxonomy }
+  },
+  {
+    name: 'wordpress-plugin',
+    title: 'WordPress plugin',
+    uriTemplate: 'wp://{site_id}/plugin/{plugin}',
+    description: 'An installed plugin on a configured WordPress site. plugin is the percent-encoded plugin identifier from list_plugins (e.g. akismet%2Fakismet).',
+    mimeType: RESOURCE_MIME_TYPE,
+    read: async ({ site_id, plugin }) => {
+      return makeWordPressRequest('GET', `plugins/${plugin}`, undefined, { siteId: site_id });
+    },
+    complete: { site_id: completeSiteId, plugin: percentEncoded(completePluginSlug) }
+  },
+  {
+    name: 'wordpress-content',
+    title: 'WordPress content',
+    uriTemplate: 'wp://{site_id}/{content_type}/{id}',
+    description: 'A post, page, or custom post type entry on a configured WordPress site. content_type is the post type slug (e.g. post, page, product).',
+    mimeType: RESOURCE_MIME_TYPE,
+    list: async () => {
+      const resources: Resource[] = [];
+      for (const contentType of resolveListedContentTypes(process.env.MCP_WP_RESOURCE_CONTENT_TYPES)) {
+        resources.push(...await listAcrossSites(contentType, siteId => getContentEndpoint(contentType, siteId)));
+      }
+      return resources;
+    },
+    read: async ({ site_id, content_type, id }) => {
+      const endpoint = await getContentEndpoint(content_type, site_id);
+      return makeWordPressRequest('GET', `${endpoint}/${parseResourceId(id)}`, undefined, { siteId: site_id });
+    },
+    complete: { site_id: completeSiteId, content_type: completeContentType }
+  }
+];
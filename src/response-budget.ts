@@ -0,0 +1,274 @@
+// src/response-budget.ts
+import { logToFile } from './logging.js';
+
+// Response budgeter. mcp-server.ts runs every tool result through
+// applyResponseBudget() before it reaches the client, so no single call can
+// flood the context window. Oversized JSON is shrunk in steps while staying
+// valid JSON:
+//
+//   1. long HTML strings (rendered content, excerpts) are cut short,
+//   2. long arrays keep their first items plus a "… N more items" marker,
+//   3. any remaining long strings are cut short,
+//
+// stopping at the first step that fits. JSON that is still too big after the
+// last step (e.g. an object with thousands of keys) is cut as plain text and
+// reported as no longer valid JSON. A final text block says what was
+// omitted and how to fetch it. structuredContent is trimmed the same way but
+// without markers, so it still matches the tool's outputSchema.
+//
+// Budgets are in estimated tokens: MCP_WP_RESPONSE_BUDGET globally,
+// MCP_WP_RESPONSE_BUDGET_<TOOL_NAME> per tool, max_response_tokens per call.
+
+/** About 50,000 characters. */
+export const DEFAULT_RESPONSE_BUDGET = 12500;
+
+// Rough size of a token in JSON-heavy text
+const CHARS_PER_TOKEN = 4;
+
+const HTML_LIMITS = [2000, 500, 200];
+const ARRAY_LIMITS = [50, 20, 10, 5, 3, 1];
+const STRING_LIMITS = [1000, 200];
+
+const HTML_PATTERN = /<\/?[a-z][^>]*>/i;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function parseBudget(value?: string): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    logToFile(`Ignoring invalid response budget "${value}" — expected a non-negative integer`, 'error');
+    return undefined;
+  }
+  return parsed;
+}
+
+/**
+ * The token budget for one call: the call's max_response_tokens, else
+ * MCP_WP_RESPONSE_BUDGET_<TOOL_NAME>, else MCP_WP_RESPONSE_BUDGET, else the
+ * default. 0 means unlimited.
+ */
+export function resolveResponseBudget(toolName: string, perCall?: number, env: NodeJS.ProcessEnv = process.env): number {
+  const toolKey = `MCP_WP_RESPONSE_BUDGET_${toolName.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  return perCall
+    ?? parseBudget(env[toolKey])
+    ?? parseBudget(env.MCP_WP_RESPONSE_BUDGET)
+    ?? DEFAULT_RESPONSE_BUDGET;
+}
+
+export interface Omission {
+  /** Where in the value, e.g. `items` or `[0].content.rendered`; empty for the root. */
+  path: string;
+  kind: 'items' | 'chars';
+  /** Items or characters left out. */
+  count: number;
+}
+
+interface TrimLimits {
+  html?: number;
+  array?: number;
+  string?: number;
+  markers: boolean;
+}
+
+function childPath(path: string, key: string | number): string {
+  return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+function cutString(value: string, limit: number, path: string, omissions: Omission[]): string {
+  let cut = value.slice(0, limit);
+  // Don't leave half a tag behind
+  const openTag = cut.lastIndexOf('<');
+  if (openTag > cut.lastIndexOf('>')) cut = cut.slice(0, openTag);
+  const omitted = value.length - cut.length;
+  omissions.push({ path, kind: 'chars', count: omitted });
+  return `${cut}… [${omitted} more characters]`;
+}
+
+function trimValue(value: unknown, limits: TrimLimits, path: string, omissions: Omission[]): unknown {
+  if (typeof value === 'string') {
+    if (limits.html !== undefined && value.length > limits.html && HTML_PATTERN.test(value)) {
+      return cutString(value, limits.html, path, omissions);
+    }
+    if (limits.string !== undefined && value.length > limits.string) {
+      return cutString(value, limits.string, path, omissions);
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    const keep = limits.array !== undefined && value.length > limits.array ? limits.array : value.length;
+    const items = value.slice(0, keep).map((item, index) => trimValue(item, limits, childPath(path, index), omissions));
+    if (keep < value.length) {
+      omissions.push({ path, kind: 'items', count: value.length - keep });
+      if (limits.markers) items.push(`… ${value.length - keep} more items`);
+    }
+    return items;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, trimValue(item, limits, childPath(path, key), omissions)]));
+  }
+  return value;
+}
+
+function* trimSteps(markers: boolean): Generator<TrimLimits> {
+  for (const html of HTML_LIMITS) yield { html, markers };
+  const html = HTML_LIMITS[HTML_LIMITS.length - 1];
+  for (const array of ARRAY_LIMITS) yield { html, array, markers };
+  const array = ARRAY_LIMITS[ARRAY_LIMITS.length - 1];
+  for (const string of STRING_LIMITS) yield { html, array, string, markers };
+}
+
+function serialize(value: unknown): string {
+  return JSON.stringify(value, null, 2) ?? '';
+}
+
+/**
+ * Shrink a JSON value until it serializes within `maxChars`, trying the
+ * gentlest step first. With `markers`, collapsed arrays end in a
+ * "… N more items" string. Returns the value unchanged when it already fits;
+ * `fits` is false when even the last step was too big.
+ */
+export function budgetJson(
+  value: unknown,
+  maxChars: number,
+  options: { markers?: boolean } = {}
+): { value: unknown; omissions: Omission[]; fits: boolean } {
+  if (serialize(value).length <= maxChars) return { value, omissions: [], fits: true };
+
+  let last: { value: unknown; omissions: Omission[] } = { value, omissions: [] };
+  for (const limits of trimSteps(options.markers ?? true)) {
+    const omissions: Omission[] = [];
+    const trimmed = trimValue(value, limits, '', omissions);
+    last = { value: trimmed, omissions };
+    if (serialize(trimmed).length <= maxChars) return { ...last, fits: true };
+  }
+  return { ...last, fits: false };
+}
+
+function cutText(text: string, maxChars: number): { text: string; omission?: Omission } {
+  if (text.length <= maxChars) return { text };
+  const cut = text.slice(0, Math.max(0, maxChars));
+  return { text: `${cut}\n… [${text.length - cut.length} more characters]`, omission: { path: '', kind: 'chars', count: text.length - cut.length } };
+}
+
+function tryParseJson(text: string): { json: unknown } | undefined {
+  const trimmed = text.trimStart();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return undefined;
+  try {
+    return { json: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+/** One line for the report, e.g. "80 more items at items; 12 strings shortened by 48000 characters (e.g. items[0].content.rendered)". */
+export function describeOmissions(omissions: Omission[]): string {
+  const arrays = omissions.filter(omission => omission.kind === 'items');
+  const strings = omissions.filter(omission => omission.kind === 'chars');
+  const parts: string[] = [];
+  for (const omission of arrays.slice(0, 5)) {
+    parts.push(`${omission.count} more items at ${omission.path || 'the top level'}`);
+  }
+  if (arrays.length > 5) parts.push(`${arrays.length - 5} more arrays shortened`);
+  if (strings.length > 0) {
+    const chars = strings.reduce((sum, omission) => sum + omission.count, 0);
+    const example = strings.find(omission => omission.path)?.path;
+    parts.push(`${strings.length} ${strings.length === 1 ? 'string' : 'strings'} shortened by ${chars} characters${example ? ` (e.g. ${example})` : ''}`);
+  }
+  return parts.join('; ');
+}
+
+function fetchHints(inputKeys: string[]): string {
+  const hints: string[] = [];
+  if (inputKeys.includes('page')) hints.push('page through with page / per_page');
+  if (inputKeys.includes('fields')) hints.push('request only the fields you need with fields');
+  if (inputKeys.includes('id')) hints.push('fetch single items by id');
+  hints.push('raise the limit with max_response_tokens');
+  return hints.join(', ');
+}
+
+interface BudgetedToolResult {
+  content: { type: string; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Fit a tool result into `budget` tokens (0 means unlimited). Text blocks
+ * holding JSON are trimmed structurally and share what the plain-text blocks
+ * leave; structuredContent gets the whole budget. Adds a text block
+ * reporting what was omitted.
+ */
+export function applyResponseBudget<T extends BudgetedToolResult>(
+  result: T,
+  options: { budget: number; toolName: string; inputKeys?: string[] }
+): T {
+  const { budget, toolName } = options;
+  if (budget <= 0) return result;
+  const maxChars = budget * CHARS_PER_TOKEN;
+
+  const textSize = result.content.reduce((sum, block) => sum + (block.text?.length ?? 0), 0);
+  const structuredFits = result.structuredContent === undefined || serialize(result.structuredContent).length <= maxChars;
+  if (textSize <= maxChars && structuredFits) return result;
+
+  const omissions: Omission[] = [];
+  const notes: string[] = [];
+  let content = result.content;
+  if (textSize > maxChars) {
+    const parsed = result.content.map(block => block.type === 'text' ? tryParseJson(block.text) : undefined);
+    const jsonCount = parsed.filter(Boolean).length;
+    const plainCount = result.content.length - jsonCount;
+    // Plain text (summaries, warnings) may use up to half the budget; JSON blocks share the rest
+    const plainLimit = Math.floor(maxChars / 2 / Math.max(plainCount, 1));
+    const plainUsed = result.content.reduce(
+      (sum, block, index) => sum + (parsed[index] ? 0 : Math.min(block.text?.length ?? 0, plainLimit)),
+      0
+    );
+    const jsonShare = Math.floor((maxChars - plainUsed) / Math.max(jsonCount, 1));
+
+    content = result.content.map((block, index) => {
+      const json = parsed[index];
+      if (json) {
+        const budgeted = budgetJson(json.json, jsonShare, { markers: true });
+        omissions.push(...budgeted.omissions);
+        if (!budgeted.fits) {
+          const cut = cutText(serialize(budgeted.value), jsonShare);
+          if (cut.omission) omissions.push(cut.omission);
+          if (notes.length === 0) notes.push('JSON too big to trim structurally was cut short and is no longer valid JSON.');
+          return { ...block, text: cut.text };
+        }
+        return budgeted.omissions.length > 0 ? { ...block, text: serialize(budgeted.value) } : block;
+      }
+      if (block.type !== 'text') return block;
+      const cut = cutText(block.text, plainLimit);
+      if (cut.omission) omissions.push(cut.omission);
+      return { ...block, text: cut.text };
+    });
+  }
+
+  let structuredContent = result.structuredContent;
+  if (!structuredFits) {
+    const budgeted = budgetJson(structuredContent, maxChars, { markers: false });
+    structuredContent = budgeted.value as Record<string, unknown>;
+    // The text blocks usually mirror structuredContent; report it only if they didn't
+    if (omissions.length === 0) omissions.push(...budgeted.omissions);
+    // Cutting it as text would break the outputSchema, so it is sent trimmed as far as it goes
+    if (!budgeted.fits) notes.push('structuredContent is still over the budget after trimming.');
+  }
+
+  const estimated = estimateTokens(result.content.map(block => block.text ?? '').join(''));
+  logToFile(`Trimmed ${toolName} response to the ${budget}-token budget`, 'debug', { estimated_tokens: estimated, omissions: omissions.length });
+
+  const report = `Response trimmed to fit the ${budget}-token budget (about ${estimated} tokens in full). ` +
+    `Omitted: ${describeOmissions(omissions) || 'nothing structural; text shortened'}. ` +
+    notes.map(note => `${note} `).join('') +
+    `To get the rest, ${fetchHints(options.inputKeys ?? [])}.`;
+
+  return {
+    ...result,
+    content: [...content, { type: 'text', text: report }],
+    ...(structuredContent !== undefined && { structuredContent })
+  };
+}
@@ -0,0 +1,131 @@
+// src/rest-allowlist.ts
+import { logToFile } from './logging.js';
+
+// Route allowlist for the generic wp_rest_request tool. Nothing is allowed
+// until a rule is configured, globally with WORDPRESS_REST_ALLOWLIST or per
+// site with WORDPRESS_<n>_REST_ALLOWLIST (which replaces the global list).
+//
+// Rules are comma-separated `[METHODS] /route/pattern` entries:
+//
+//   GET /wc/v3/**                 any read under wc/v3
+//   GET|POST /yoast/v1/*          one segment under yoast/v1
+//   * /acf/v3/posts/*             every method
+//   /wp/v2/settings               no methods means GET
+//
+// `*` matches within one path segment and `**` across segments.
+
+export const REST_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+export type RestMethod = typeof REST_METHODS[number];
+
+export interface RestAllowRule {
+  /** Methods this rule allows; '*' for all. */
+  methods: RestMethod[] | '*';
+  /** The pattern as configured, for error messages. */
+  pattern: string;
+  regex: RegExp;
+}
+
+function compilePattern(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\*\*|\*)/)
+    .map(part => part === '**' ? '.*' : part === '*' ? '[^/]*' : part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}/?$`);
+}
+
+/** Parse one `[METHODS] /route/pattern` entry; undefined when it is malformed. */
+export function parseRestAllowRule(entry: string): RestAllowRule | undefined {
+  const parts = entry.trim().split(/\s+/);
+  const [methodPart, pattern] = parts.length === 1 ? ['GET', parts[0]] : parts;
+  if (parts.length > 2 || !pattern?.startsWith('/')) return undefined;
+
+  if (methodPart === '*') {
+    return { methods: '*', pattern, regex: compilePattern(pattern) };
+  }
+  const methods = methodPart.toUpperCase().split('|');
+  if (!methods.every(method => (REST_METHODS as readonly string[]).includes(method))) return undefined;
+  return { methods: methods as RestMethod[], pattern, regex: compilePattern(pattern) };
+}
+
+/**
+ * Parse an allowlist value. Returns undefined when unset, so a site without
+ * its own list falls back to the global one; invalid entries are logged and
+ * skipped.
+ */
+export function parseRestAllowlist(value?: string): RestAllowRule[] | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+
+  const rules: RestAllowRule[] = [];
+  for (const entry of value.split(',').filter(entry => entry.trim() !== '')) {
+    const rule = parseRestAllowRule(entry);
+    if (rule) rules.push(rule);
+    else logToFile(`Ignoring invalid REST allowlist entry "${entry.trim()}" — expected "[METHOD|METHOD] /route/pattern"`, 'error');
+  }
+  return rules;
+}
+
+/**
+ * Canonical form of a route relative to /wp-json: a leading slash, no query
+ * string, no trailing slash. The HTTP client resolves the URL with WHATWG
+ * URL parsing after the allowlist check, which turns `\` into `/`, drops
+ * tabs and newlines and resolves dot segments, so routes that parse to
+ * anything other than themselves are rejected rather than matched.
+ */
+export function normalizeRestRoute(route: string): string {
+  const trimmed = route.trim();
+  if (/[?#]/.test(trimmed)) {
+    throw new Error(`Route "${route}" must not include a query string; pass query parameters in "query"`);
+  }
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(trimmed);
+  } catch {
+    throw new Error(`Route "${route}" is not a valid URL path`);
+  }
+  if (/[\\\s\x00-\x1f\x7f]/.test(decoded)) {
+    throw new Error(`Route "${route}" must not contain backslashes, whitespace or control characters`);
+  }
+  if (decoded.split('/').some(segment => segment === '.' || segment === '..')) {
+    throw new Error(`Route "${route}" must not contain "." or ".." segments`);
+  }
+  const withSlash = trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+  const canonical = new URL(withSlash, 'http://route.invalid').pathname;
+  if (decodeURIComponent(canonical) !== decodeURIComponent(withSlash)) {
+    throw new Error(`Route "${route}" is not in canonical form`);
+  }
+  return withSlash.length > 1 ? withSlash.replace(/\/+$/, '') : withSlash;
+}
+
+// Query parameters WordPress reads as instructions rather than arguments:
+// `_method` overrides the HTTP method and `rest_route` replaces the route, so
+// either would sidestep the allowlist; `_jsonp` and `_envelope` change how
+// the response is wrapped.
+const RESERVED_QUERY_KEYS = ['_method', 'rest_route', '_jsonp', '_envelope'];
+
+/**
+ * Throw if `query` holds a parameter WordPress treats as a request override.
+ * Keys are compared the way PHP parses them: leading spaces dropped, `.` and
+ * spaces turned into `_`, and an array suffix such as `[]` ignored.
+ */
+export function assertSafeRestQuery(query?: Record<string, unknown>): void {
+  const reserved = Object.keys(query ?? {}).filter(key => {
+    const parsed = key.trimStart().replace(/\[.*$/, '').replace(/[. ]/g, '_').toLowerCase();
+    return RESERVED_QUERY_KEYS.includes(parsed);
+  });
+  if (reserved.length > 0) {
+    throw new Error(`Query parameter ${reserved.map(key => `"${key}"`).join(', ')} is not allowed: WordPress reads it as an override of the request (${RESERVED_QUERY_KEYS.join(', ')} are refused); set the method and route directly`);
+  }
+}
+
+/** The first rule allowing `method` on `route`, if any. */
+export function findAllowRule(rules: RestAllowRule[], method: string, route: string): RestAllowRule | undefined {
+  const upper = method.toUpperCase();
+  return rules.find(rule =>
+    (rule.methods === '*' || (rule.methods as string[]).includes(upper)) && rule.regex.test(route)
+  );
+}
+
+/** Rules as configured, e.g. "GET|POST /yoast/v1/*". */
+export function describeRestAllowlist(rules: RestAllowRule[]): string {
+  return rules.map(rule => `${rule.methods === '*' ? '*' : rule.methods.join('|')} ${rule.pattern}`).join(', ');
+}
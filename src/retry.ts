@@ -0,0 +1,164 @@
+// src/retry.ts
+import axios, { AxiosError, AxiosInstance } from 'axios';
+import { logToFile } from './logging.js';
+
+// Retry policy for WordPress REST clients. SiteManager.createClient installs
+// it as an axios response interceptor, so every call through a site client —
+// the connection test, makeWordPressRequest, testSite — retries the same way.
+//
+// Only transient failures are retried: 408/425/429/5xx gateway statuses and
+// connection-level errors. Timeouts (ECONNABORTED) and cancellations are not:
+// the caller already waited the full timeout or gave up on purpose.
+
+export interface RetryPolicy {
+  /** Retries after the first attempt. 0 disables retrying. */
+  maxRetries: number;
+  /** Backoff base in ms; attempt n waits a random 0..base*2^n (full jitter). */
+  baseDelayMs: number;
+  /** Cap for a single wait, including a server's Retry-After. */
+  maxDelayMs: number;
+  /** Also retry POST/PATCH, which WordPress uses for creates and updates. */
+  retryNonIdempotent: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  retryNonIdempotent: false
+};
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'ETIMEDOUT', 'EAI_AGAIN']);
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Attempts already retried for this request (set by the retry interceptor). */
+    retryCount?: number;
+  }
+}
+
+function parseNonNegativeInt(value?: string): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    logToFile(`Ignoring invalid retry setting "${value}" — expected a non-negative integer`, 'error');
+    return undefined;
+  }
+  return parsed;
+}
+
+/**
+ * Read retry overrides from `<prefix>RETRIES`, `<prefix>RETRY_BASE_DELAY`,
+ * `<prefix>RETRY_MAX_DELAY` and `<prefix>RETRY_NON_IDEMPOTENT`. Prefix is
+ * `WORDPRESS_` for the global defaults and `WORDPRESS_<n>_` per site.
+ * Only keys that are set appear in the result.
+ */
+export function parseRetryPolicy(env: NodeJS.ProcessEnv, prefix: string): Partial<RetryPolicy> {
+  const policy: Partial<RetryPolicy> = {};
+  const maxRetries = parseNonNegativeInt(env[`${prefix}RETRIES`]);
+  const baseDelayMs = parseNonNegativeInt(env[`${prefix}RETRY_BASE_DELAY`]);
+  const maxDelayMs = parseNonNegativeInt(env[`${prefix}RETRY_MAX_DELAY`]);
+  const nonIdempotent = env[`${prefix}RETRY_NON_IDEMPOTENT`];
+
+  if (maxRetries !== undefined) policy.maxRetries = maxRetries;
+  if (baseDelayMs !== undefined) policy.baseDelayMs = baseDelayMs;
+  if (maxDelayMs !== undefined) policy.maxDelayMs = maxDelayMs;
+  if (nonIdempotent !== undefined && nonIdempotent !== '') policy.retryNonIdempotent = nonIdempotent === 'true';
+  return policy;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns undefined when absent or unparseable.
+ */
+export function parseRetryAfter(header: unknown, now = Date.now()): number | undefined {
+  if (typeof header !== 'string' || header.trim() === '') return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function isRetryable(error: AxiosError, policy: RetryPolicy): boolean {
+  const method = (error.config?.method || 'get').toUpperCase();
+  if (!policy.retryNonIdempotent && !IDEMPOTENT_METHODS.has(method)) return false;
+
+  // Streamed bodies (media uploads) are consumed by the first attempt
+  const data = error.config?.data;
+  if (data && typeof data.pipe === 'function') return false;
+
+  if (error.response) return RETRYABLE_STATUSES.has(error.response.status);
+  return error.code !== undefined && RETRYABLE_ERROR_CODES.has(error.code);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): the server's Retry-After
+ * when it sent one, otherwise full-jitter exponential backoff. Returns
+ * undefined when Retry-After asks for longer than the policy allows, in which
+ * case failing now beats stalling the tool call.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number | undefined {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : undefined;
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Install the retry interceptor on a site client.
+ */
+export function attachRetryPolicy(client: AxiosInstance, policy: RetryPolicy, siteId: string): void {
+  if (policy.maxRetries === 0) return;
+
+  client.interceptors.response.use(undefined, async (error: unknown) => {
+    if (!axios.isAxiosError(error) || !error.config || !isRetryable(error, policy)) {
+      throw error;
+    }
+
+    const config = error.config;
+    const attempt = config.retryCount ?? 0;
+    if (attempt >= policy.maxRetries) throw error;
+
+    const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+    const delay = computeRetryDelay(attempt, policy, retryAfterMs);
+    if (delay === undefined) {
+      logToFile(`Not retrying ${config.method?.toUpperCase()} ${config.url} on site '${siteId}': Retry-After ${retryAfterMs}ms exceeds the ${policy.maxDelayMs}ms limit`, 'info');
+      throw error;
+    }
+
+    logToFile(`Retrying ${config.method?.toUpperCase()} ${config.url} on site '${siteId}' in ${delay}ms`, 'info', {
+      site: siteId,
+      attempt: attempt + 1,
+      max_retries: policy.maxRetries,
+      status: error.response?.status,
+      code: error.code
+    });
+
+    await sleep(delay, config.signal as AbortSignal | undefined);
+    config.retryCount = attempt + 1;
+    return client.request(config);
+  });
+}
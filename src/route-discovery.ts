@@ -0,0 +1,162 @@
+// src/route-discovery.ts
+import { makeWordPressRequest, logToFile } from './wordpress.js';
+import { siteManager } from './config/site-manager.js';
+
+// Route discovery from the REST index (GET /wp-json/, or /wp-json/<namespace>
+// for one namespace) and per-route OPTIONS schemas. Discovered routes are kept
+// per site so generated route tools (src/tools/route-tools.ts) can be rebuilt
+// whenever a site's route set changes.
+
+/** One argument as WordPress describes it in the index (a JSON Schema subset). */
+export interface RestRouteArg {
+  type?: string | string[];
+  description?: string;
+  required?: boolean;
+  default?: unknown;
+  enum?: unknown[];
+  items?: RestRouteArg;
+  properties?: Record<string, RestRouteArg>;
+  [keyword: string]: unknown;
+}
+
+export interface RestRouteEndpoint {
+  methods: string[];
+  args: Record<string, RestRouteArg>;
+}
+
+export interface RestRoute {
+  /** Route as registered, e.g. `/wc/v3/products/(?P<id>[\d]+)`. */
+  route: string;
+  namespace: string;
+  methods: string[];
+  endpoints: RestRouteEndpoint[];
+}
+
+export interface RouteSchema extends RestRoute {
+  /** The resource schema, when the route declares one. */
+  schema?: Record<string, any>;
+}
+
+type RoutesListener = () => void;
+
+const discoveredRoutes = new Map<string, RestRoute[]>();
+const listeners = new Set<RoutesListener>();
+
+function toRestRoute(route: string, data: any): RestRoute {
+  return {
+    route,
+    namespace: typeof data?.namespace === 'string' ? data.namespace : '',
+    methods: Array.isArray(data?.methods) ? data.methods : [],
+    endpoints: (Array.isArray(data?.endpoints) ? data.endpoints : []).map((endpoint: any) => ({
+      methods: Array.isArray(endpoint?.methods) ? endpoint.methods : [],
+      args: endpoint?.args && typeof endpoint.args === 'object' && !Array.isArray(endpoint.args) ? endpoint.args : {}
+    }))
+  };
+}
+
+// Compared to decide whether generated tools need rebuilding
+function fingerprint(routes: RestRoute[]): string {
+  return JSON.stringify(routes.map(route => [route.route, route.endpoints.map(endpoint => [endpoint.methods, Object.keys(endpoint.args)])]));
+}
+
+/**
+ * Read the REST index for a site, or one namespace of it, and remember the
+ * routes. Listeners are told when the site's route set changed.
+ */
+export async function discoverRoutes(
+  siteId?: string,
+  options: { namespace?: string } = {}
+): Promise<{ namespaces: string[]; routes: RestRoute[] }> {
+  const site = siteManager.getSite(siteId);
+  const namespace = options.namespace?.replace(/^\/+|\/+$/g, '');
+  const index: any = await makeWordPressRequest('GET', namespace ?? '', undefined, { siteId: site.id, namespace: '' });
+
+  const routes = Object.entries(index?.routes ?? {})
+    .map(([route, data]) => toRestRoute(route, data))
+    // The namespace index lists itself as a route (`/wc/v3`)
+    .filter(route => route.route !== '/' && route.route !== `/${route.namespace}`);
+  const namespaces: string[] = Array.isArray(index?.namespaces) ? index.namespaces : namespace ? [namespace] : [];
+
+  // A namespace index only replaces that namespace's routes
+  const previous = discoveredRoutes.get(site.id) ?? [];
+  const next = namespace
+    ? [...previous.filter(route => route.namespace !== namespace), ...routes]
+    : routes;
+  discoveredRoutes.set(site.id, next);
+
+  if (fingerprint(previous) !== fingerprint(next)) {
+    logToFile(`Discovered ${routes.length} REST routes on site '${site.id}'${namespace ? ` in ${namespace}` : ''}`, 'info');
+    notifyRoutesChanged();
+  }
+  return { namespaces, routes };
+}
+
+/**
+ * OPTIONS for a concrete route (`/wc/v3/products/12`, not the registered
+ * pattern): its endpoints, arguments and resource schema.
+ */
+export async function fetchRouteSchema(route: string, siteId?: string): Promise<RouteSchema> {
+  const data: any = await makeWordPressRequest('OPTIONS', route, undefined, { siteId, namespace: '' });
+  return {
+    ...toRestRoute(route, data),
+    ...(data?.schema && { schema: data.schema })
+  };
+}
+
+/** Routes discovered so far, by site id. */
+export function getDiscoveredRoutes(): ReadonlyMap<string, RestRoute[]> {
+  return discoveredRoutes;
+}
+
+/** Call `listener` whenever a site's discovered routes change. Returns an unsubscribe function. */
+export function onRoutesChanged(listener: RoutesListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notifyRoutesChanged(): void {
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (error: any) {
+      logToFile(`Route change listener failed: ${error.message}`, 'error');
+    }
+  }
+}
+
+/** Whether WORDPRESS_ROUTE_TOOLS turns on tools generated from discovered routes. */
+export function routeToolsEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.WORDPRESS_ROUTE_TOOLS?.toLowerCase() === 'true';
+}
+
+let startupDiscovery: Promise<void> | undefined;
+
+/**
+ * Discover routes on every configured site once per process. Failures are
+ * logged, not thrown: a site that is down just contributes no tools until
+ * discover_routes is called for it.
+ */
+export function ensureRouteDiscovery(): Promise<void> {
+  startupDiscovery ??= (async () => {
+    for (const site of siteManager.getAllSites()) {
+      try {
+        await discoverRoutes(site.id);
+      } catch (error: any) {
+        logToFile(`Route discovery failed for site '${site.id}': ${error.message}`, 'error');
+      }
+    }
+  })();
+  return startupDiscovery;
+}
+
+/** Forget discovered routes (tests, or after a site's config changes). */
+export function resetRouteDiscoveryCache(siteId?: string): void {
+  const changed = siteId === undefined ? discoveredRoutes.size > 0 : discoveredRoutes.has(siteId);
+  if (siteId === undefined) {
+    discoveredRoutes.clear();
+    startupDiscovery = undefined;
+  } else {
+    discoveredRoutes.delete(siteId);
+  }
+  if (changed) notifyRoutesChanged();
+}
@@ -0,0 +1,261 @@
+// src/secrets.ts
+import { exec } from 'node:child_process';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+import { registerSecret } from './logging.js';
+
+// Where a site's password or token comes from. Secrets are resolved when
+// SiteManager first builds the site's client, not at startup, and every
+// resolved value is registered with the logger so it is masked wherever it
+// would appear in a log entry.
+//
+//   'abcd efgh ...'             the secret itself
+//   { env: 'PROD_WP_PASSWORD' } an environment variable
+//   { command: 'pass show wp' } stdout of a shell command (pass, op read, ...)
+//   { file: '~/.wp/prod' }      a file only its owner can read (chmod 600)
+//   { vault: 'prod' }           an entry in the encrypted local vault
+//
+// The vault is one AES-256-GCM encrypted JSON file (MCP_WP_VAULT_FILE,
+// default ~/.mcp-wp/vault.json) keyed by a scrypt hash of the master key in
+// MCP_WP_VAULT_KEY. `mcp-wp vault set|remove|list` manages it.
+
+export type SecretRef =
+  | string
+  | { env: string }
+  | { command: string }
+  | { file: string }
+  | { vault: string };
+
+export const VAULT_FILE_ENV = 'MCP_WP_VAULT_FILE';
+export const VAULT_KEY_ENV = 'MCP_WP_VAULT_KEY';
+const DEFAULT_VAULT_FILE = path.join(os.homedir(), '.mcp-wp', 'vault.json');
+
+// Generous, since password managers may wait for the user to unlock them
+const COMMAND_TIMEOUT_MS = 60_000;
+
+const execAsync = promisify(exec);
+
+/** How a secret is sourced, for error messages. Never includes the value. */
+export function describeSecretRef(ref: SecretRef): string {
+  if (typeof ref === 'string') return 'inline value';
+  if ('env' in ref) return `environment variable ${ref.env}`;
+  if ('command' in ref) return `command "${ref.command}"`;
+  if ('file' in ref) return `file ${ref.file}`;
+  return `vault entry "${ref.vault}"`;
+}
+
+function expandHome(file: string): string {
+  return file === '~' || file.startsWith('~/') ? path.join(os.homedir(), file.slice(1)) : file;
+}
+
+// Secrets in files and command output usually end with a newline
+function stripTrailingNewline(value: string): string {
+  return value.replace(/\r?\n$/, '');
+}
+
+async function runSecretCommand(command: string): Promise<string> {
+  try {
+    const { stdout } = await execAsync(command, { timeout: COMMAND_TIMEOUT_MS, windowsHide: true });
+    return stripTrailingNewline(stdout);
+  } catch (error: any) {
+    const reason = error.killed ? `timed out after ${COMMAND_TIMEOUT_MS}ms` : `exited with code ${error.code}`;
+    const stderr = String(error.stderr ?? '').trim().split('\n')[0];
+    throw new Error(`command "${command}" ${reason}${stderr ? `: ${stderr}` : ''}`);
+  }
+}
+
+function readSecretFile(file: string): string {
+  const resolved = expandHome(file);
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(resolved);
+  } catch (error: any) {
+    throw new Error(`cannot read file ${resolved}: ${error.code ?? error.message}`);
+  }
+  // Windows has no POSIX mode bits to check
+  if (process.platform !== 'win32' && (stat.mode & 0o077) !== 0) {
+    const mode = (stat.mode & 0o777).toString(8).padStart(4, '0');
+    throw new Error(`file ${resolved} is accessible to other users (mode ${mode}); run chmod 600 ${resolved}`);
+  }
+  return stripTrailingNewline(fs.readFileSync(resolved, 'utf8'));
+}
+
+interface VaultFile {
+  version: 1;
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export function resolveVaultFile(env: NodeJS.ProcessEnv = process.env): string {
+  return expandHome(env[VAULT_FILE_ENV] || DEFAULT_VAULT_FILE);
+}
+
+function requireMasterKey(masterKey: string | undefined): string {
+  if (!masterKey) throw new Error(`${VAULT_KEY_ENV} is not set; it holds the vault's master key`);
+  return masterKey;
+}
+
+/** Decrypt the vault. A missing file is an empty vault. */
+export function readVault(file: string, masterKey: string | undefined): Record<string, string> {
+  if (!fs.existsSync(file)) return {};
+  const key = requireMasterKey(masterKey);
+
+  let vault: VaultFile;
+  try {
+    vault = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`cannot read vault ${file}: ${error.message}`);
+  }
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', scryptSync(key, Buffer.from(vault.salt, 'base64'), 32), Buffer.from(vault.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(vault.tag, 'base64'));
+    const plain = Buffer.concat([decipher.update(Buffer.from(vault.data, 'base64')), decipher.final()]);
+    return JSON.parse(plain.toString('utf8'));
+  } catch {
+    throw new Error(`cannot unlock vault ${file}: wrong master key or damaged file`);
+  }
+}
+
+/** Encrypt `entries` into the vault with a fresh salt and IV, readable only by its owner. */
+export function writeVault(file: string, masterKey: string | undefined, entries: Record<string, string>): void {
+  const key = requireMasterKey(masterKey);
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', scryptSync(key, salt, 32), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(entries), 'utf8'), cipher.final()]);
+  const vault: VaultFile = {
+    version: 1,
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  // `mode` only applies to a new file, so write one and move it over the
+  // vault: an existing vault others could read doesn't keep its permissions
+  const temp = `${file}.${process.pid}.tmp`;
+  fs.rmSync(temp, { force: true });
+  fs.writeFileSync(temp, `${JSON.stringify(vault, null, 2)}\n`, { mode: 0o600 });
+  fs.renameSync(temp, file);
+}
+
+// Decrypted once per process; sites built later reuse it
+const openVaults = new Map<string, Record<string, string>>();
+
+function readVaultEntry(name: string): string {
+  const file = resolveVaultFile();
+  let entries = openVaults.get(file);
+  if (!entries) {
+    entries = readVault(file, process.env[VAULT_KEY_ENV]);
+    openVaults.set(file, entries);
+  }
+  if (!Object.hasOwn(entries, name)) throw new Error(`vault ${file} has no entry "${name}"`);
+  return entries[name];
+}
+
+/** Set one entry in the vault, creating the vault if needed. */
+export function storeVaultEntry(name: string, value: string): void {
+  const file = resolveVaultFile();
+  const masterKey = process.env[VAULT_KEY_ENV];
+  const entries = { ...readVault(file, masterKey), [name]: value };
+  writeVault(file, masterKey, entries);
+  openVaults.set(file, entries);
+}
+
+/** Delete one entry from the vault. Returns false when it had no such entry. */
+export function deleteVaultEntry(name: string): boolean {
+  const file = resolveVaultFile();
+  const masterKey = process.env[VAULT_KEY_ENV];
+  const entries = readVault(file, masterKey);
+  if (!Object.hasOwn(entries, name)) return false;
+  delete entries[name];
+  writeVault(file, masterKey, entries);
+  openVaults.set(file, entries);
+  return true;
+}
+
+async function readSecret(ref: SecretRef): Promise<string> {
+  if (typeof ref === 'string') return ref;
+  if ('env' in ref) {
+    const value = process.env[ref.env];
+    if (value === undefined) throw new Error(`environment variable ${ref.env} is not set`);
+    return value;
+  }
+  if ('command' in ref) return runSecretCommand(ref.command);
+  if ('file' in ref) return readSecretFile(ref.file);
+  return readVaultEntry(ref.vault);
+}
+
+/**
+ * Fetch a secret from its provider. The value is registered with the
+ * logger before it is returned, so it never reaches a log unmasked.
+ */
+export async function resolveSecret(ref: SecretRef): Promise<string> {
+  const value = await readSecret(ref);
+  if (value === '') throw new Error(`${describeSecretRef(ref)} is empty`);
+  registerSecret(value);
+  return value;
+}
+
+/**
+ * Read a secret reference from env: `<key>` itself, or `<key>_COMMAND`,
+ * `<key>_FILE` or `<key>_VAULT` naming a provider. Returns undefined when
+ * none is set.
+ */
+export function parseSecretRef(env: NodeJS.ProcessEnv, key: string): SecretRef | undefined {
+  if (env[key]) return env[key];
+  if (env[`${key}_COMMAND`]) return { command: env[`${key}_COMMAND`]! };
+  if (env[`${key}_FILE`]) return { file: env[`${key}_FILE`]! };
+  if (env[`${key}_VAULT`]) return { vault: env[`${key}_VAULT`]! };
+  return undefined;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return stripTrailingNewline(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * `mcp-wp vault <set|remove|list> [name]`. `set` reads the secret from
+ * stdin, so it stays out of shell history. Returns the exit code.
+ */
+export async function runVaultCommand(args: string[]): Promise<number> {
+  const [action, name] = args;
+  const file = resolveVaultFile();
+  const masterKey = process.env[VAULT_KEY_ENV];
+
+  try {
+    const entries = readVault(file, masterKey);
+    if (action === 'list') {
+      process.stdout.write(Object.keys(entries).sort().map(entry => `${entry}\n`).join(''));
+      return 0;
+    }
+    if ((action === 'set' || action === 'remove') && name) {
+      if (action === 'set') {
+        const value = await readStdin();
+        if (!value) throw new Error('no secret on stdin');
+        entries[name] = value;
+      } else if (!Object.hasOwn(entries, name)) {
+        throw new Error(`vault ${file} has no entry "${name}"`);
+      } else {
+        delete entries[name];
+      }
+      writeVault(file, masterKey, entries);
+      process.stderr.write(`${action === 'set' ? 'Stored' : 'Removed'} "${name}" in ${file}\n`);
+      return 0;
+    }
+    process.stderr.write('Usage: mcp-wp vault set <name> < secret\n       mcp-wp vault remove <name>\n       mcp-wp vault list\n');
+    return 2;
+  } catch (error: any) {
+    process.stderr.write(`Vault error: ${error.message}\n`);
+    return 1;
+  }
+}
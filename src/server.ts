@@ -3,64 +3,34 @@
 import * as dotenv from "dotenv";
 dotenv.config(); // Load environment variables from .env first
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { allTools, toolHandlers } from "./tools/index.js";
-import { z } from "zod";
-import { zodToJsonSchema } from "zod-to-json-schema";
+import { parseArgs } from "node:util";
+import { allTools } from "./tools/index.js";
+import { createMcpServer } from "./mcp-server.js";
+import { shutdownTelemetry } from "./telemetry.js";
+import { siteManager } from "./config/site-manager.js";
 
-// Create MCP server instance.
-// capabilities.tools must be the capability flags object, NOT a map of tool
-// definitions — server.tool() registration below handles tool advertisement.
-// Stuffing tool objects here serialized their zod schemas into every
-// initialize response (~65KB of internals per connection).
-const server = new McpServer(
-  {
-    name: "wordpress",
-    version: "0.0.1",
+// --transport stdio|http (default stdio; MCP_TRANSPORT env also accepted).
+// --port / --host only apply to the HTTP transport.
+// --config <file> loads sites from a JSON/YAML file (WORDPRESS_CONFIG_FILE).
+// `vault set|remove|list` manages the encrypted secret vault and exits.
+const { values: cliArgs, positionals } = parseArgs({
+  options: {
+    transport: { type: "string" },
+    config: { type: "string" },
+    port: { type: "string" },
+    host: { type: "string" },
   },
-  {
-    capabilities: {
-      tools: {},
-    },
-  },
-);
-
-// Register each tool from our tools list with its corresponding handler
-for (const tool of allTools) {
-  const handler = toolHandlers[tool.name as keyof typeof toolHandlers];
-  if (!handler) continue;
-
-  const wrappedHandler = async (args: any) => {
-    // The handler functions are already typed with their specific parameter types
-    const result = await handler(args);
-    return {
-      content: result.toolResult.content.map(
-        (item: { type: string; text: string }) => ({
-          ...item,
-          type: "text" as const,
-        }),
-      ),
-      isError: result.toolResult.isError,
-    };
-  };
-
-  // Tool modules define inputSchema.properties as zod shapes (see CLAUDE.md);
-  // passing raw JSON Schema here collapses the published schema to {}.
-  const rawShape = tool.inputSchema.properties as z.ZodRawShape;
-  // Cast bypasses TS2589: server.tool's generic resolves ShapeOutput<Args>
-  // against the SDK's z3|z4 union schema type, exploding instantiation depth.
-  (
-    server.tool as (
-      name: string,
-      description: string,
-      schema: z.ZodRawShape,
-      cb: typeof wrappedHandler,
-    ) => unknown
-  )(tool.name, tool.description ?? "", rawShape, wrappedHandler);
-}
+  strict: false,
+  allowPositionals: true,
+});
 
 async function main() {
+  if (positionals[0] === "vault") {
+    const { runVaultCommand } = await import("./secrets.js");
+    process.exit(await runVaultCommand(positionals.slice(1)));
+  }
+
   const { logToFile } = await import("./wordpress.js");
 
   // Log startup info to stderr (MCP protocol uses stdout)
@@ -69,15 +39,41 @@ async function main() {
   logToFile(`Working directory: ${process.cwd()}`, "info");
 
   try {
+    if (cliArgs.config) {
+      siteManager.useConfigFile(String(cliArgs.config));
+    }
     logToFile("Initializing WordPress client...");
     const { initWordPress } = await import("./wordpress.js");
     await initWordPress();
     logToFile("WordPress client initialized successfully.");
 
-    logToFile("Setting up server transport...");
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    logToFile("WordPress MCP Server running on stdio");
+    const transportMode = String(
+      cliArgs.transport ?? process.env.MCP_TRANSPORT ?? "stdio",
+    );
+    logToFile(`Setting up ${transportMode} server transport...`);
+
+    if (transportMode === "http") {
+      const { startHttpServer, resolveHttpTransportOptions } = await import(
+        "./transports/http.js"
+      );
+      const options = resolveHttpTransportOptions({
+        port: cliArgs.port as string | undefined,
+        host: cliArgs.host as string | undefined,
+      });
+      await startHttpServer(createMcpServer, options);
+      logToFile(
+        `WordPress MCP Server listening on http://${options.host}:${options.port}${options.path}`,
+        "info",
+      );
+    } else if (transportMode === "stdio") {
+      const transport = new StdioServerTransport();
+      await createMcpServer().connect(transport);
+      logToFile("WordPress MCP Server running on stdio");
+    } else {
+      throw new Error(
+        `Unknown transport "${transportMode}". Use "stdio" or "http".`,
+      );
+    }
     logToFile(`Registered ${allTools.length} tools`);
   } catch (error: any) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -94,11 +90,12 @@ async function main() {
 // IMPORTANT: MCP uses stdout for JSON-RPC — never use console.log here
 process.on("SIGTERM", () => {
   process.stderr.write("[SHUTDOWN] Received SIGTERM, shutting down...\n");
-  process.exit(0);
+  // Send spans still queued for export before exiting
+  void shutdownTelemetry().finally(() => process.exit(0));
 });
 process.on("SIGINT", () => {
   process.stderr.write("[SHUTDOWN] Received SIGINT, shutting down...\n");
-  process.exit(0);
+  void shutdownTelemetry().finally(() => process.exit(0));
 });
 process.on("uncaughtException", (error) => {
   process.stderr.write(
@@ -0,0 +1,368 @@
+// src/telemetry.ts
+import { randomBytes } from 'node:crypto';
+import axios, { AxiosAdapter, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { logToFile } from './logging.js';
+import { getRequestContext } from './request-context.js';
+
+// Optional OpenTelemetry tracing. mcp-server.ts opens a span per tool
+// invocation and stores it in the request context; attachTracing() wraps each
+// site client's adapter so every HTTP attempt (retries included) becomes a
+// child span of the tool call that made it.
+//
+// Spans are exported as OTLP/HTTP JSON to the collector named by the
+// standard OTEL_EXPORTER_OTLP_TRACES_ENDPOINT or OTEL_EXPORTER_OTLP_ENDPOINT
+// variables. With neither set, tracing is off and spans are no-ops.
+//
+// Span attributes never carry request or response bodies — only their sizes.
+
+export type AttributeValue = string | number | boolean;
+
+// OTLP enum values for Span.kind and Status.code
+const SPAN_KINDS = { internal: 1, server: 2, client: 3 } as const;
+export type SpanKind = keyof typeof SPAN_KINDS;
+const STATUS_UNSET = 0;
+const STATUS_ERROR = 2;
+
+export interface Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  setAttribute(key: string, value: AttributeValue | undefined): void;
+  /** Mark the span failed; the message is truncated to keep spans small. */
+  setError(message: string): void;
+  end(): void;
+}
+
+export interface TelemetryConfig {
+  /** Full OTLP/HTTP traces URL, e.g. `http://localhost:4318/v1/traces`. */
+  endpoint: string;
+  headers: Record<string, string>;
+  resource: Record<string, AttributeValue>;
+  timeoutMs: number;
+  scheduleDelayMs: number;
+  maxQueueSize: number;
+  maxExportBatchSize: number;
+}
+
+const SCOPE = { name: '@instawp/mcp-wp' };
+const DEFAULT_SERVICE_NAME = 'mcp-wp';
+const MAX_STATUS_MESSAGE = 256;
+
+interface FinishedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: Record<string, AttributeValue>;
+  status: { code: number; message?: string };
+}
+
+// hrtime is monotonic but has no epoch; anchor it to the wall clock once
+const clockOrigin = BigInt(Date.now()) * 1_000_000n - process.hrtime.bigint();
+
+function nowUnixNano(): bigint {
+  return clockOrigin + process.hrtime.bigint();
+}
+
+function parseKeyValueList(value: string | undefined): Record<string, string> {
+  const entries: Record<string, string> = {};
+  for (const pair of (value ?? '').split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) continue;
+    const key = decodeURIComponent(pair.slice(0, separator).trim());
+    entries[key] = decodeURIComponent(pair.slice(separator + 1).trim());
+  }
+  return entries;
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Read the exporter settings from the standard OTEL_* variables. Returns
+ * null when tracing is off: no endpoint, OTEL_SDK_DISABLED=true,
+ * OTEL_TRACES_EXPORTER=none, or a protocol other than http/json.
+ */
+export function resolveTelemetryConfig(env: NodeJS.ProcessEnv): TelemetryConfig | null {
+  if (env.OTEL_SDK_DISABLED?.toLowerCase() === 'true') return null;
+  if (env.OTEL_TRACES_EXPORTER?.toLowerCase() === 'none') return null;
+
+  const base = env.OTEL_EXPORTER_OTLP_ENDPOINT?.trim();
+  const endpoint = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT?.trim()
+    || (base ? `${base.replace(/\/+$/, '')}/v1/traces` : '');
+  if (!endpoint) return null;
+
+  const protocol = env.OTEL_EXPORTER_OTLP_TRACES_PROTOCOL ?? env.OTEL_EXPORTER_OTLP_PROTOCOL;
+  if (protocol && protocol !== 'http/json') {
+    logToFile(`Tracing disabled: OTLP protocol "${protocol}" is not supported, only http/json`, 'error');
+    return null;
+  }
+
+  return {
+    endpoint,
+    headers: {
+      ...parseKeyValueList(env.OTEL_EXPORTER_OTLP_HEADERS),
+      ...parseKeyValueList(env.OTEL_EXPORTER_OTLP_TRACES_HEADERS)
+    },
+    resource: {
+      ...parseKeyValueList(env.OTEL_RESOURCE_ATTRIBUTES),
+      'service.name': env.OTEL_SERVICE_NAME || DEFAULT_SERVICE_NAME
+    },
+    timeoutMs: parsePositiveInt(env.OTEL_EXPORTER_OTLP_TRACES_TIMEOUT ?? env.OTEL_EXPORTER_OTLP_TIMEOUT, 10000),
+    scheduleDelayMs: parsePositiveInt(env.OTEL_BSP_SCHEDULE_DELAY, 5000),
+    maxQueueSize: parsePositiveInt(env.OTEL_BSP_MAX_QUEUE_SIZE, 2048),
+    maxExportBatchSize: parsePositiveInt(env.OTEL_BSP_MAX_EXPORT_BATCH_SIZE, 512)
+  };
+}
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === 'string'
+      ? { stringValue: value }
+      : typeof value === 'boolean'
+        ? { boolValue: value }
+        : Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+  }));
+}
+
+/**
+ * Queues finished spans and posts them to the collector in batches, like
+ * the SDK's BatchSpanProcessor: after a delay, or as soon as a batch fills.
+ * Export failures are logged and the batch dropped; tracing never fails a
+ * tool call.
+ */
+class SpanExporter {
+  private queue: FinishedSpan[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private inFlight = new Set<Promise<void>>();
+  private dropped = 0;
+
+  constructor(private readonly config: TelemetryConfig) {}
+
+  enqueue(span: FinishedSpan): void {
+    if (this.queue.length >= this.config.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+    this.queue.push(span);
+    if (this.queue.length >= this.config.maxExportBatchSize) {
+      this.exportQueued();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.exportQueued(), this.config.scheduleDelayMs);
+      this.timer.unref();
+    }
+  }
+
+  async flush(): Promise<void> {
+    this.exportQueued();
+    await Promise.all(this.inFlight);
+  }
+
+  private exportQueued(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.config.maxExportBatchSize);
+      const pending = this.send(batch).finally(() => this.inFlight.delete(pending));
+      this.inFlight.add(pending);
+    }
+  }
+
+  private async send(batch: FinishedSpan[]): Promise<void> {
+    if (this.dropped > 0) {
+      logToFile(`Trace queue full: dropped ${this.dropped} spans`, 'error');
+      this.dropped = 0;
+    }
+    const body = {
+      resourceSpans: [{
+        resource: { attributes: toOtlpAttributes(this.config.resource) },
+        scopeSpans: [{
+          scope: SCOPE,
+          spans: batch.map(span => ({ ...span, attributes: toOtlpAttributes(span.attributes) }))
+        }]
+      }]
+    };
+    try {
+      await axios.post(this.config.endpoint, body, {
+        headers: { ...this.config.headers, 'Content-Type': 'application/json' },
+        timeout: this.config.timeoutMs
+      });
+    } catch (error: any) {
+      logToFile(`Trace export to ${this.config.endpoint} failed: ${error.message}`, 'error', {
+        spans: batch.length,
+        status: error.response?.status
+      });
+    }
+  }
+}
+
+class RecordingSpan implements Span {
+  readonly traceId: string;
+  readonly spanId = randomBytes(8).toString('hex');
+  private readonly attributes: Record<string, AttributeValue> = {};
+  private readonly start = nowUnixNano();
+  private status: FinishedSpan['status'] = { code: STATUS_UNSET };
+  private ended = false;
+
+  constructor(
+    private readonly exporter: SpanExporter,
+    private readonly name: string,
+    private readonly kind: SpanKind,
+    private readonly parent?: Span
+  ) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString('hex');
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): void {
+    if (value !== undefined) this.attributes[key] = value;
+  }
+
+  setError(message: string): void {
+    this.status = { code: STATUS_ERROR, message: message.slice(0, MAX_STATUS_MESSAGE) };
+  }
+
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.exporter.enqueue({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parent && { parentSpanId: this.parent.spanId }),
+      name: this.name,
+      kind: SPAN_KINDS[this.kind],
+      startTimeUnixNano: String(this.start),
+      endTimeUnixNano: String(nowUnixNano()),
+      attributes: this.attributes,
+      status: this.status
+    });
+  }
+}
+
+const NOOP_SPAN: Span = {
+  traceId: '',
+  spanId: '',
+  setAttribute() {},
+  setError() {},
+  end() {}
+};
+
+// undefined until first use, so the OTEL_* variables are read after dotenv
+let exporter: SpanExporter | null | undefined;
+
+function getExporter(): SpanExporter | null {
+  if (exporter === undefined) {
+    const config = resolveTelemetryConfig(process.env);
+    exporter = config ? new SpanExporter(config) : null;
+    if (config) logToFile(`Exporting traces to ${config.endpoint}`, 'info');
+  }
+  return exporter;
+}
+
+export function isTracingEnabled(): boolean {
+  return getExporter() !== null;
+}
+
+/**
+ * Start a span. Without an explicit parent it becomes a child of the
+ * current tool call's span, if any. Returns a no-op span when tracing is off.
+ */
+export function startSpan(
+  name: string,
+  options: { kind?: SpanKind; parent?: Span; attributes?: Record<string, AttributeValue | undefined> } = {}
+): Span {
+  const active = getExporter();
+  if (!active) return NOOP_SPAN;
+
+  const parent = options.parent ?? getRequestContext()?.span;
+  const span = new RecordingSpan(active, name, options.kind ?? 'internal', parent?.spanId ? parent : undefined);
+  for (const [key, value] of Object.entries(options.attributes ?? {})) {
+    span.setAttribute(key, value);
+  }
+  return span;
+}
+
+/** Export every finished span now; resolves once the collector answered. */
+export async function flushTelemetry(): Promise<void> {
+  await exporter?.flush();
+}
+
+/**
+ * Flush and forget the exporter, so the next span re-reads the OTEL_*
+ * variables. Called on shutdown, and by tests that change the environment.
+ */
+export async function shutdownTelemetry(): Promise<void> {
+  await flushTelemetry();
+  exporter = undefined;
+}
+
+function byteLength(data: unknown): number | undefined {
+  if (typeof data === 'string') return Buffer.byteLength(data);
+  if (Buffer.isBuffer(data)) return data.length;
+  return undefined;
+}
+
+function headerLength(value: unknown): number | undefined {
+  const parsed = Number(value);
+  return value !== undefined && value !== null && Number.isInteger(parsed) ? parsed : undefined;
+}
+
+/**
+ * REST route relative to /wp-json, e.g. `/wp/v2/posts/12`. Numeric path
+ * segments become `{id}` in the span name, so spans group by route.
+ */
+function describeEndpoint(config: InternalAxiosRequestConfig): { endpoint: string; host: string } {
+  const url = new URL(axios.getUri({ ...config, params: undefined }));
+  const index = url.pathname.indexOf('/wp-json/');
+  return {
+    endpoint: index >= 0 ? url.pathname.slice(index + '/wp-json'.length) : url.pathname,
+    host: url.hostname
+  };
+}
+
+/**
+ * Wrap the site client's adapter so each HTTP attempt is recorded as a
+ * CLIENT span under the current tool call. Install it last, so the span
+ * times the request as it went out (or was replayed from a fixture).
+ */
+export function attachTracing(client: AxiosInstance, siteId: string): void {
+  const adapter: AxiosAdapter = axios.getAdapter(client.defaults.adapter ?? axios.defaults.adapter);
+
+  client.defaults.adapter = async (config) => {
+    if (!isTracingEnabled()) return adapter(config);
+
+    const method = (config.method ?? 'get').toUpperCase();
+    const { endpoint, host } = describeEndpoint(config);
+    const span = startSpan(`${method} ${endpoint.replace(/\/\d+(?=\/|$)/g, '/{id}')}`, {
+      kind: 'client',
+      attributes: {
+        'http.request.method': method,
+        'server.address': host,
+        'wordpress.site_id': siteId,
+        'wordpress.endpoint': endpoint,
+        'http.request.body.size': byteLength(config.data) ?? headerLength(config.headers?.['Content-Length']),
+        'http.request.resend_count': config.retryCount || undefined
+      }
+    });
+
+    try {
+      const response = await adapter(config);
+      span.setAttribute('http.response.status_code', response.status);
+      span.setAttribute('http.response.body.size', byteLength(response.data) ?? headerLength(response.headers?.['content-length']));
+      return response;
+    } catch (error: any) {
+      const status: number | undefined = error.response?.status;
+      span.setAttribute('http.response.status_code', status);
+      span.setAttribute('http.response.body.size', byteLength(error.response?.data));
+      span.setAttribute('error.type', status ? String(status) : error.code ?? error.name);
+      span.setError(error.message);
+      throw error;
+    } finally {
+      span.end();
+    }
+  };
+}
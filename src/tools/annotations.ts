@@ -0,0 +1,42 @@
+// src/tools/annotations.ts
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+// Shared MCP tool annotation presets. Clients use these hints to decide what
+// to auto-approve (reads) and what to always confirm (deletes), so every tool
+// definition must set one — tests/tools/annotations.test.ts enforces it.
+//
+// openWorldHint is false for calls to the configured WordPress sites (a
+// closed, known domain) and true only where a tool reaches arbitrary external
+// hosts (WordPress.org, remote media URLs). Override per tool by spreading.
+
+/** Reads that never change site state. */
+export const READ_ONLY: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false
+};
+
+/** Creates a new object; repeating the call creates another one. */
+export const CREATE: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: false
+};
+
+/** Overwrites fields on an existing object; repeating with the same args is a no-op. */
+export const UPDATE: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: true,
+  openWorldHint: false
+};
+
+/** Removes an object (trash or permanent). */
+export const DELETE: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: true,
+  openWorldHint: false
+};
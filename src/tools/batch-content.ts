@@ -0,0 +1,161 @@
+// src/tools/batch-content.ts
+import { z } from 'zod';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DELETE } from './annotations.js';
+import { getContentEndpoint } from './unified-content.js';
+import { BATCH_MAX_REQUESTS, BatchItemResult, BatchRequest, runBatch } from '../batch.js';
+import { toolErrorResult } from '../errors.js';
+
+// Operations per call. The batch layer splits them into chunks of 25.
+const MAX_OPERATIONS = 100;
+
+const batchOperationSchema = z.object({
+  action: z.enum(['create', 'update', 'delete']).describe("What to do with this item"),
+  content_type: z.string().describe("The content type slug (e.g., 'post', 'page', 'product')"),
+  id: z.coerce.number().optional().describe("Content ID (required for update and delete)"),
+  data: z.record(z.any()).optional().describe(
+    "Fields to write, as the WordPress REST API takes them (title, content, status, excerpt, slug, meta, categories, ...). " +
+    "Sent as-is: unlike create_content, Markdown is not converted."
+  ),
+  force: z.boolean().optional().describe("For delete: bypass the trash")
+});
+
+const batchContentSchema = z.object({
+  site_id: z.string().optional().describe("Site ID (for multi-site setups)"),
+  operations: z.array(batchOperationSchema).min(1).max(MAX_OPERATIONS).describe(
+    `Writes to apply, up to ${MAX_OPERATIONS}. Sent ${BATCH_MAX_REQUESTS} at a time through the WordPress batch API; results come back in the same order.`
+  ),
+  require_all_validate: z.boolean().optional().describe(
+    `Validate every operation in a batch of ${BATCH_MAX_REQUESTS} before running any, and run none if one is invalid. ` +
+    `Applies per batch of ${BATCH_MAX_REQUESTS}; later batches are skipped after a failure.`
+  )
+});
+
+type BatchContentParams = z.infer<typeof batchContentSchema>;
+type BatchOperation = z.infer<typeof batchOperationSchema>;
+
+// Output schemas (structuredContent)
+const batchItemOutputSchema = z.object({
+  index: z.number().describe("Position in operations"),
+  action: z.string(),
+  content_type: z.string(),
+  id: z.number().nullable().describe("Content ID; for creates, the new ID"),
+  ok: z.boolean(),
+  status: z.number().nullable().describe("HTTP status of this item; null if it was not run"),
+  skipped: z.boolean().optional().describe("Not run because validation failed elsewhere"),
+  content: z.object({
+    id: z.number(),
+    status: z.string().optional(),
+    slug: z.string().optional(),
+    link: z.string().optional(),
+    modified: z.string().optional()
+  }).passthrough().optional(),
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    status: z.number().optional(),
+    params: z.record(z.string()).optional(),
+    hint: z.string().optional()
+  }).optional()
+});
+
+const batchContentOutputShape = {
+  mode: z.enum(['batch', 'sequential']).describe("'sequential' when the site has no /batch/v1 route"),
+  succeeded: z.number(),
+  failed: z.number(),
+  skipped: z.number(),
+  results: z.array(batchItemOutputSchema)
+};
+
+export const batchContentTools: Tool[] = [
+  {
+    name: "batch_content",
+    description: "Creates, updates, or deletes many content items in few round trips using the WordPress batch API (/batch/v1), with per-item results. Falls back to one request per item on sites without the batch API.",
+    inputSchema: { type: "object", properties: batchContentSchema.shape },
+    outputSchema: { type: "object", properties: batchContentOutputShape },
+    // Repeating a batch of creates creates duplicates
+    annotations: { ...DELETE, idempotentHint: false }
+  }
+];
+
+async function toBatchRequest(operation: BatchOperation, index: number, siteId?: string): Promise<BatchRequest> {
+  if (operation.action !== 'create' && operation.id === undefined) {
+    throw new Error(`operations[${index}]: id is required for ${operation.action}`);
+  }
+  if (operation.action === 'create' && operation.id !== undefined) {
+    throw new Error(`operations[${index}]: id must not be set for create`);
+  }
+
+  const endpoint = await getContentEndpoint(operation.content_type, siteId);
+  switch (operation.action) {
+    case 'create':
+      return { method: 'POST', endpoint, body: operation.data ?? {} };
+    case 'update':
+      return { method: 'POST', endpoint: `${endpoint}/${operation.id}`, body: operation.data ?? {} };
+    case 'delete':
+      return { method: 'DELETE', endpoint: `${endpoint}/${operation.id}`, body: { force: operation.force || false } };
+  }
+}
+
+// Just enough of the written item to identify it; full objects for 100
+// posts would swamp the context window. Forced deletes answer
+// { deleted, previous }.
+function summarizeContent(body: any) {
+  const item = body?.previous ?? body;
+  if (typeof item?.id !== 'number') return undefined;
+  return { id: item.id, status: item.status, slug: item.slug, link: item.link, modified: item.modified };
+}
+
+function toOutputItem(operation: BatchOperation, index: number, result: BatchItemResult) {
+  const content = result.body !== undefined ? summarizeContent(result.body) : undefined;
+  return {
+    index,
+    action: operation.action,
+    content_type: operation.content_type,
+    id: content?.id ?? operation.id ?? null,
+    ok: result.error === undefined && !result.skipped,
+    status: result.status,
+    ...(result.skipped && { skipped: true }),
+    ...(content && { content }),
+    ...(result.error && { error: result.error.toJSON() })
+  };
+}
+
+export const batchContentHandlers = {
+  batch_content: async (params: BatchContentParams) => {
+    try {
+      const requests = await Promise.all(
+        params.operations.map((operation, index) => toBatchRequest(operation, index, params.site_id))
+      );
+      const batch = await runBatch(requests, {
+        siteId: params.site_id,
+        validation: params.require_all_validate ? 'require-all-validate' : 'normal'
+      });
+
+      const results = params.operations.map((operation, index) => toOutputItem(operation, index, batch.results[index]));
+      const succeeded = results.filter(item => item.ok).length;
+      const skipped = results.filter(item => item.skipped).length;
+      const failed = results.length - succeeded - skipped;
+      const summary = {
+        mode: batch.mode,
+        succeeded,
+        failed,
+        skipped,
+        results
+      };
+
+      return {
+        toolResult: {
+          content: [
+            { type: 'text', text: `${succeeded} of ${results.length} operations succeeded (${failed} failed, ${skipped} skipped) via ${batch.mode === 'batch' ? 'the batch API' : 'sequential requests'}.` },
+            { type: 'text', text: JSON.stringify(results, null, 2) }
+          ],
+          structuredContent: summary,
+          isError: succeeded === 0
+        }
+      };
+    } catch (error: any) {
+      return toolErrorResult('running batch', error);
+    }
+  }
+};
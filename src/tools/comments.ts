@@ -1,7 +1,11 @@
 // src/tools/comments.ts
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CREATE, DELETE, READ_ONLY, UPDATE } from './annotations.js';
+import { commentItemSchema, listOutputShape } from './output-schemas.js';
+import { fetchPaginatedList, paginatedResult, paginationParamsShape } from './pagination.js';
 import { makeWordPressRequest } from '../wordpress.js';
 import { WPComment } from '../types/wordpress-types.js';
+import { toolErrorResult } from '../errors.js';
 import { z } from 'zod';
 
 // Schema for listing comments
@@ -17,7 +21,8 @@ const listCommentsSchema = z.object({
   status: z.enum(['approve', 'hold', 'spam', 'trash']).optional().describe("Comment status"),
   type: z.string().optional().describe("Comment type"),
   orderby: z.enum(['date', 'date_gmt', 'id', 'include', 'post', 'parent', 'type']).optional().describe("Sort comments by parameter"),
-  order: z.enum(['asc', 'desc']).optional().describe("Order sort attribute ascending or descending")
+  order: z.enum(['asc', 'desc']).optional().describe("Order sort attribute ascending or descending"),
+  ...paginationParamsShape
 });
 
 // Schema for getting a single comment
@@ -68,27 +73,33 @@ export const commentTools: Tool[] = [
   {
     name: "list_comments",
     description: "Lists comments with filtering, sorting, and pagination options",
-    inputSchema: { type: "object", properties: listCommentsSchema.shape }
+    inputSchema: { type: "object", properties: listCommentsSchema.shape },
+    outputSchema: { type: "object", properties: listOutputShape(commentItemSchema) },
+    annotations: READ_ONLY
   },
   {
     name: "get_comment",
     description: "Gets a comment by ID",
-    inputSchema: { type: "object", properties: getCommentSchema.shape }
+    inputSchema: { type: "object", properties: getCommentSchema.shape },
+    annotations: READ_ONLY
   },
   {
     name: "create_comment",
     description: "Creates a new comment",
-    inputSchema: { type: "object", properties: createCommentSchema.shape }
+    inputSchema: { type: "object", properties: createCommentSchema.shape },
+    annotations: CREATE
   },
   {
     name: "update_comment",
     description: "Updates an existing comment",
-    inputSchema: { type: "object", properties: updateCommentSchema.shape }
+    inputSchema: { type: "object", properties: updateCommentSchema.shape },
+    annotations: UPDATE
   },
   {
     name: "delete_comment",
     description: "Deletes a comment",
-    inputSchema: { type: "object", properties: deleteCommentSchema.shape }
+    inputSchema: { type: "object", properties: deleteCommentSchema.shape },
+    annotations: DELETE
   }
 ];
 
@@ -96,21 +107,9 @@ export const commentTools: Tool[] = [
 export const commentHandlers = {
   list_comments: async (params: ListCommentsParams) => {
     try {
-      const response = await makeWordPressRequest('GET', "comments", params);
-      const comments: WPComment[] = response;
-      return {
-        toolResult: {
-          content: [{ type: 'text', text: JSON.stringify(comments, null, 2) }],
-        },
-      };
+      return paginatedResult(await fetchPaginatedList<WPComment>("comments", params));
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error listing comments: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('listing comments', error);
     }
   },
   
@@ -124,13 +123,7 @@ export const commentHandlers = {
         },
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error getting comment: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('getting comment', error);
     }
   },
   
@@ -144,13 +137,7 @@ export const commentHandlers = {
         },
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error creating comment: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('creating comment', error);
     }
   },
   
@@ -165,13 +152,7 @@ export const commentHandlers = {
         },
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error updating comment: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('updating comment', error);
     }
   },
   
@@ -185,13 +166,7 @@ export const commentHandlers = {
         },
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error deleting comment: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('deleting comment', error);
     }
   }
 };
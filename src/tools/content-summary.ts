@@ -1,7 +1,9 @@
 // src/tools/content-summary.ts
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { READ_ONLY } from './annotations.js';
 import { z } from 'zod';
 import { makeWordPressRequest } from '../wordpress.js';
+import { toolErrorResult } from '../errors.js';
 import { findContentByUrl, getContentEndpoint } from './unified-content.js';
 
 const getContentSummarySchema = z.object({
@@ -61,22 +63,24 @@ export function extractYoastWordCount(yoastJson: any): number | null {
   return null;
 }
 
-export interface ContentSummary {
-  id: number;
-  title: string;
-  slug: string;
-  status: string;
-  link: string;
-  excerpt: string;
-  date_modified: string;
-  categories: number[];
-  tags: number[];
-  featured_media: number;
-  word_count: number;
-  yoast_focus_keyword: string | null;
-  yoast_meta_title: string | null;
-  yoast_meta_description: string | null;
-}
+const contentSummarySchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  slug: z.string(),
+  status: z.string(),
+  link: z.string(),
+  excerpt: z.string(),
+  date_modified: z.string(),
+  categories: z.array(z.number()),
+  tags: z.array(z.number()),
+  featured_media: z.number(),
+  word_count: z.number(),
+  yoast_focus_keyword: z.string().nullable(),
+  yoast_meta_title: z.string().nullable(),
+  yoast_meta_description: z.string().nullable()
+});
+
+export type ContentSummary = z.infer<typeof contentSummarySchema>;
 
 export function buildContentSummary(post: any): ContentSummary {
   const yoast = post?.yoast_head_json;
@@ -107,7 +111,9 @@ export const contentSummaryTools: Tool[] = [
     name: "get_content_summary",
     description:
       "Returns a minimal summary of a single piece of content — id, title, slug, status, link, excerpt, modified date, taxonomy IDs, featured media, word count, and Yoast SEO fields. Designed for audit and lookup workflows where the full WP REST response (which can exceed 50KB on recipe posts) is overkill. Look up by `id` (with optional `content_type`, defaulting to 'post') or by `url`.",
-    inputSchema: { type: "object", properties: getContentSummarySchema.shape }
+    inputSchema: { type: "object", properties: getContentSummarySchema.shape },
+    outputSchema: { type: "object", properties: contentSummarySchema.shape },
+    annotations: READ_ONLY
   }
 ];
 
@@ -156,19 +162,12 @@ export const contentSummaryHandlers = {
             type: 'text',
             text: JSON.stringify(summary, null, 2)
           }],
+          structuredContent: summary,
           isError: false
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error getting content summary: ${error.message}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('getting content summary', error);
     }
   }
 };
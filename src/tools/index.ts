@@ -10,6 +10,9 @@ import { commentTools, commentHandlers } from './comments.js';
 import { sqlQueryTools, sqlQueryHandlers } from './sql-query.js';
 import { siteManagementTools, siteManagementHandlers } from './site-management.js';
 import { contentSummaryTools, contentSummaryHandlers } from './content-summary.js';
+import { batchContentTools, batchContentHandlers } from './batch-content.js';
+import { restRequestTools, restRequestHandlers } from './rest-request.js';
+import { routeDiscoveryTools, routeDiscoveryHandlers } from './route-tools.js';
 
 // Combine all tools
 export const allTools: Tool[] = [
@@ -21,8 +24,11 @@ export const allTools: Tool[] = [
   ...pluginRepositoryTools,     // ~2 tools
   ...commentTools,              // ~5 tools
   ...sqlQueryTools,             // 1 tool (database queries)
-  ...siteManagementTools,       // 3 tools (multi-site support)
-  ...contentSummaryTools        // 1 tool (audit/lookup summary)
+  ...siteManagementTools,       // 6 tools (multi-site support, runtime add/update/remove)
+  ...contentSummaryTools,       // 1 tool (audit/lookup summary)
+  ...batchContentTools,         // 1 tool (bulk writes via /batch/v1)
+  ...restRequestTools,          // 1 tool (allowlisted calls to any REST route)
+  ...routeDiscoveryTools        // 1 tool (REST index / OPTIONS discovery)
 ];
 
 // Combine all handlers
@@ -36,5 +42,8 @@ export const toolHandlers = {
   ...commentHandlers,
   ...sqlQueryHandlers,
   ...siteManagementHandlers,
-  ...contentSummaryHandlers
+  ...contentSummaryHandlers,
+  ...batchContentHandlers,
+  ...restRequestHandlers,
+  ...routeDiscoveryHandlers
 };
\ No newline at end of file
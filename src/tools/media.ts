@@ -4,8 +4,14 @@ import FormData from 'form-data';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { makeWordPressRequest } from '../wordpress.js';
+import { CREATE, DELETE, READ_ONLY, UPDATE } from './annotations.js';
+import { listOutputShape, mediaItemSchema } from './output-schemas.js';
+import { fetchPaginatedList, paginatedResult, paginationParamsShape } from './pagination.js';
+import { fieldsParamShape, projectionQuery } from './projection.js';
+import { makeWordPressRequest, DEFAULT_REQUEST_TIMEOUT } from '../wordpress.js';
+import { getRequestContext } from '../request-context.js';
 import { WPMedia } from '../types/wordpress-types.js';
+import { toolErrorResult } from '../errors.js';
 import { z } from 'zod';
 
 const mediaContextSchema = z.enum(['view', 'embed', 'edit']);
@@ -36,13 +42,16 @@ const listMediaSchema = z.object({
   orderby: mediaOrderBySchema.optional().describe("Sort media by parameter"),
   order: mediaOrderSchema.optional().describe("Order sort attribute ascending or descending"),
   after: z.string().optional().describe("ISO8601 date string to get media published after this date"),
-  before: z.string().optional().describe("ISO8601 date string to get media published before this date")
+  before: z.string().optional().describe("ISO8601 date string to get media published before this date"),
+  ...fieldsParamShape,
+  ...paginationParamsShape
 }).strict();
 
 const getMediaSchema = z.object({
   id: z.coerce.number().describe("Media ID"),
   site_id: z.string().optional().describe("Site ID (for multi-site setups)"),
-  context: mediaContextSchema.optional().describe("Scope under which the request is made")
+  context: mediaContextSchema.optional().describe("Scope under which the request is made"),
+  ...fieldsParamShape
 }).strict();
 
 const createMediaSchema = z.object({
@@ -122,24 +131,12 @@ const DEFAULT_EXTENSION_BY_MIME_TYPE: Record<string, string> = {
   'video/webm': '.webm'
 };
 
-function successResult(payload: unknown) {
+function successResult(payload: unknown, structuredContent?: Record<string, unknown>) {
   return {
     toolResult: {
       isError: false,
-      content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }]
-    }
-  };
-}
-
-function errorResult(action: string, error: unknown) {
-  const errorMessage = error instanceof Error
-    ? error.message
-    : ((error as any)?.response?.data?.message || (error as any)?.message || String(error));
-
-  return {
-    toolResult: {
-      isError: true,
-      content: [{ type: 'text', text: `Error ${action}: ${errorMessage}` }]
+      content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }],
+      structuredContent
     }
   };
 }
@@ -254,7 +251,11 @@ async function loadUploadFromUrl(sourceUrl: string, explicitTitle?: string): Pro
     throw new Error('source_url must be an absolute http or https URL');
   }
 
-  const response = await axios.get<ArrayBuffer>(sourceUrl, { responseType: 'arraybuffer' });
+  const response = await axios.get<ArrayBuffer>(sourceUrl, {
+    responseType: 'arraybuffer',
+    timeout: DEFAULT_REQUEST_TIMEOUT,
+    signal: getRequestContext()?.signal
+  });
   const contentTypeHeader = response.headers['content-type'];
   const mimeType = normalizeMimeType(typeof contentTypeHeader === 'string' ? contentTypeHeader : undefined);
   const originalFilename = deriveFilenameFromUrl(sourceUrl, mimeType);
@@ -342,9 +343,9 @@ const updateMediaHandler = async (params: UpdateMediaParams) => {
     );
 
     const media: WPMedia = response;
-    return successResult(media);
+    return successResult(media, media as unknown as Record<string, unknown>);
   } catch (error: any) {
-    return errorResult('updating media', error);
+    return toolErrorResult('updating media', error);
   }
 };
 
@@ -352,69 +353,82 @@ export const mediaTools: Tool[] = [
   {
     name: 'list_media',
     description: 'Lists media items with filtering and pagination options',
-    inputSchema: { type: 'object', properties: listMediaSchema.shape }
+    inputSchema: { type: 'object', properties: listMediaSchema.shape },
+    outputSchema: { type: 'object', properties: listOutputShape(mediaItemSchema) },
+    annotations: READ_ONLY
   },
   {
     name: 'get_media',
     description: 'Gets a media item by ID',
-    inputSchema: { type: 'object', properties: getMediaSchema.shape }
+    inputSchema: { type: 'object', properties: getMediaSchema.shape },
+    outputSchema: { type: 'object', properties: mediaItemSchema.shape },
+    annotations: READ_ONLY
   },
   {
     name: 'create_media',
     description: 'Creates a new media item from a URL or local file path',
-    inputSchema: { type: 'object', properties: createMediaSchema.shape }
+    inputSchema: { type: 'object', properties: createMediaSchema.shape },
+    outputSchema: { type: 'object', properties: mediaItemSchema.shape },
+    annotations: { ...CREATE, openWorldHint: true }
   },
   {
     name: 'update_media',
     description: 'Updates an existing media item',
-    inputSchema: { type: 'object', properties: updateMediaSchema.shape }
+    inputSchema: { type: 'object', properties: updateMediaSchema.shape },
+    outputSchema: { type: 'object', properties: mediaItemSchema.shape },
+    annotations: UPDATE
   },
   {
     name: 'edit_media',
     description: 'Legacy alias for update_media',
-    inputSchema: { type: 'object', properties: updateMediaSchema.shape }
+    inputSchema: { type: 'object', properties: updateMediaSchema.shape },
+    outputSchema: { type: 'object', properties: mediaItemSchema.shape },
+    annotations: UPDATE
   },
   {
     name: 'delete_media',
     description: 'Deletes a media item',
-    inputSchema: { type: 'object', properties: deleteMediaSchema.shape }
+    inputSchema: { type: 'object', properties: deleteMediaSchema.shape },
+    annotations: DELETE
   }
 ];
 
 export const mediaHandlers = {
   list_media: async (params: ListMediaParams) => {
     try {
-      const { site_id, ...queryParams } = params;
-      const response = await makeWordPressRequest('GET', 'media', queryParams, { siteId: site_id });
-      const media: WPMedia[] = response;
-      return successResult(media);
+      const { site_id, fields, ...queryParams } = params;
+      return paginatedResult(await fetchPaginatedList<WPMedia>('media', { ...queryParams, ...projectionQuery({ fields }) }, site_id));
     } catch (error: any) {
-      return errorResult('listing media', error);
+      return toolErrorResult('listing media', error);
     }
   },
 
   get_media: async (params: GetMediaParams) => {
     try {
+      const query = {
+        ...(params.context && { context: params.context }),
+        ...projectionQuery({ fields: params.fields })
+      };
       const response = await makeWordPressRequest(
         'GET',
         `media/${params.id}`,
-        params.context ? { context: params.context } : undefined,
+        Object.keys(query).length > 0 ? query : undefined,
         { siteId: params.site_id }
       );
 
       const media: WPMedia = response;
-      return successResult(media);
+      return successResult(media, media as unknown as Record<string, unknown>);
     } catch (error: any) {
-      return errorResult('getting media', error);
+      return toolErrorResult('getting media', error);
     }
   },
 
   create_media: async (params: CreateMediaParams) => {
     try {
       const media = await uploadMedia(params);
-      return successResult(media);
+      return successResult(media, media as unknown as Record<string, unknown>);
     } catch (error: any) {
-      return errorResult('creating media', error);
+      return toolErrorResult('creating media', error);
     }
   },
 
@@ -427,7 +441,7 @@ export const mediaHandlers = {
       const response = await makeWordPressRequest('DELETE', `media/${id}`, { force }, { siteId: site_id });
       return successResult(response);
     } catch (error: any) {
-      return errorResult('deleting media', error);
+      return toolErrorResult('deleting media', error);
     }
   }
 };
@@ -0,0 +1,106 @@
+// src/tools/output-schemas.ts
+import { z } from 'zod';
+
+// Zod shapes for tool outputSchema / structuredContent. Like inputSchema, tool
+// definitions publish these as `{ type: 'object', properties: <zod shape> }`
+// and mcp-server.ts hands the raw shape to the SDK, which validates every
+// successful result against it.
+//
+// WordPress objects vary by site (custom fields, plugin-added properties,
+// context=edit extras), so entity schemas pin down the stable core fields and
+// pass everything else through. Only `id` is required: response trimming
+// (MCP_WP_STRIP_FIELDS) and partial REST responses can drop anything else.
+
+const renderedSchema = z.object({
+  rendered: z.string(),
+  raw: z.string().optional()
+}).passthrough();
+
+// Compact form of `_embed` output; see normalizeEmbedded() in projection.ts
+const embeddedSummarySchema = z.object({
+  author: z.object({ id: z.number() }).passthrough().nullable(),
+  featured_media: z.object({ id: z.number() }).passthrough().nullable(),
+  terms: z.record(z.array(z.object({ id: z.number() }).passthrough()))
+});
+
+export const contentItemSchema = z.object({
+  id: z.number(),
+  type: z.string().optional(),
+  slug: z.string().optional(),
+  status: z.string().optional(),
+  link: z.string().optional(),
+  date: z.string().nullable().optional(),
+  modified: z.string().optional(),
+  author: z.number().optional(),
+  parent: z.number().optional(),
+  featured_media: z.number().optional(),
+  title: renderedSchema.optional(),
+  content: renderedSchema.optional(),
+  excerpt: renderedSchema.optional(),
+  content_raw: z.string().optional(),
+  embedded: embeddedSummarySchema.optional()
+}).passthrough();
+
+export const termItemSchema = z.object({
+  id: z.number(),
+  name: z.string().optional(),
+  slug: z.string().optional(),
+  taxonomy: z.string().optional(),
+  description: z.string().optional(),
+  parent: z.number().optional(),
+  count: z.number().optional(),
+  link: z.string().optional()
+}).passthrough();
+
+export const mediaItemSchema = z.object({
+  id: z.number(),
+  slug: z.string().optional(),
+  status: z.string().optional(),
+  link: z.string().optional(),
+  title: renderedSchema.optional(),
+  alt_text: z.string().optional(),
+  caption: renderedSchema.optional(),
+  media_type: z.string().optional(),
+  mime_type: z.string().optional(),
+  source_url: z.string().optional(),
+  post: z.number().nullable().optional()
+}).passthrough();
+
+export const commentItemSchema = z.object({
+  id: z.number(),
+  post: z.number().optional(),
+  parent: z.number().optional(),
+  author: z.number().optional(),
+  author_name: z.string().optional(),
+  date: z.string().optional(),
+  status: z.string().optional(),
+  type: z.string().optional(),
+  link: z.string().optional(),
+  content: renderedSchema.optional()
+}).passthrough();
+
+export const userItemSchema = z.object({
+  id: z.number(),
+  username: z.string().optional(),
+  name: z.string().optional(),
+  slug: z.string().optional(),
+  email: z.string().optional(),
+  roles: z.array(z.string()).optional(),
+  link: z.string().optional()
+}).passthrough();
+
+/**
+ * structuredContent must be a JSON object, so list tools wrap the REST array
+ * as `{ items: [...] }` plus the paging metadata from pagination.ts. The first
+ * text block keeps the bare array for clients that still parse it.
+ */
+export function listOutputShape<T extends z.ZodTypeAny>(item: T) {
+  return {
+    items: z.array(item).describe("Items returned by WordPress for the requested page(s)"),
+    total: z.number().nullable().describe("Total matching items (X-WP-Total), or null if WordPress did not report it"),
+    total_pages: z.number().nullable().describe("Total pages at this per_page (X-WP-TotalPages), or null if not reported"),
+    page: z.number().describe("First page included in items"),
+    per_page: z.number().nullable().describe("Page size used, or null for the WordPress default"),
+    next_page: z.number().nullable().describe("Pass as `page` to continue; null when there are no more pages")
+  };
+}
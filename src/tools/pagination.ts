@@ -0,0 +1,137 @@
+// src/tools/pagination.ts
+import { z } from 'zod';
+import { makeWordPressRequest, resolveStripFields, trimResponseFields } from '../wordpress.js';
+import { throwIfAborted } from '../request-context.js';
+
+// Shared paging for the list_* tools. WordPress reports collection size in
+// the X-WP-Total / X-WP-TotalPages headers, which makeWordPressRequest drops
+// unless asked for the raw response, so list tools route through here.
+//
+// The "cursor" is just the next page number: pass next_page back as `page`
+// with the same filters and per_page.
+
+/** Default item cap for fetch_all when max_items is omitted. */
+export const DEFAULT_FETCH_ALL_MAX_ITEMS = 500;
+/** Hard ceiling for max_items, whatever the caller asks for. */
+export const FETCH_ALL_HARD_LIMIT = 1000;
+
+const WP_MAX_PER_PAGE = 100;
+
+/** Spread into a list tool's input schema. */
+export const paginationParamsShape = {
+  fetch_all: z.boolean().optional().describe(
+    `Walk every page and return all matching items, up to max_items. Uses per_page 100 unless per_page is set.`
+  ),
+  max_items: z.coerce.number().int().min(1).max(FETCH_ALL_HARD_LIMIT).optional().describe(
+    `Item cap for fetch_all (default ${DEFAULT_FETCH_ALL_MAX_ITEMS}, max ${FETCH_ALL_HARD_LIMIT}). Paging stops at a page boundary, so fewer items may be returned; check next_page.`
+  )
+};
+
+export interface PaginationParams {
+  page?: number;
+  per_page?: number;
+  fetch_all?: boolean;
+  max_items?: number;
+}
+
+export interface PaginatedList<T> {
+  items: T[];
+  total: number | null;
+  total_pages: number | null;
+  page: number;
+  per_page: number | null;
+  next_page: number | null;
+}
+
+function parseCountHeader(value: unknown): number | null {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+async function fetchPage(endpoint: string, query: Record<string, unknown>, siteId?: string) {
+  const response: any = await makeWordPressRequest('GET', endpoint, query, { siteId, rawResponse: true });
+  const items = trimResponseFields(response.data, resolveStripFields(process.env.MCP_WP_STRIP_FIELDS));
+  return {
+    items: Array.isArray(items) ? items : [],
+    total: parseCountHeader(response.headers?.['x-wp-total']),
+    totalPages: parseCountHeader(response.headers?.['x-wp-totalpages'])
+  };
+}
+
+/**
+ * GET a WordPress collection with paging metadata. With fetch_all, walks
+ * pages from `page` until the last page or the item cap.
+ */
+export async function fetchPaginatedList<T = any>(
+  endpoint: string,
+  params: PaginationParams & Record<string, unknown>,
+  siteId?: string
+): Promise<PaginatedList<T>> {
+  const { fetch_all, max_items, ...query } = params;
+  const startPage = params.page ?? 1;
+
+  if (!fetch_all) {
+    const { items, total, totalPages } = await fetchPage(endpoint, query, siteId);
+    return {
+      items,
+      total,
+      total_pages: totalPages,
+      page: startPage,
+      per_page: params.per_page ?? null,
+      next_page: totalPages !== null && startPage < totalPages ? startPage + 1 : null
+    };
+  }
+
+  const cap = Math.min(max_items ?? DEFAULT_FETCH_ALL_MAX_ITEMS, FETCH_ALL_HARD_LIMIT);
+  const perPage = Math.min(params.per_page ?? WP_MAX_PER_PAGE, cap);
+  const items: T[] = [];
+  let page = startPage;
+  let total: number | null = null;
+  let totalPages: number | null = null;
+
+  // Only fetch a page that fits under the cap in full, so next_page never
+  // skips items that were fetched but cut off.
+  while (items.length + perPage <= cap) {
+    throwIfAborted();
+    const result = await fetchPage(endpoint, { ...query, page, per_page: perPage }, siteId);
+    items.push(...result.items);
+    total = result.total;
+    totalPages = result.totalPages;
+    page++;
+
+    const lastPage = totalPages === null ? result.items.length < perPage : page > totalPages;
+    if (lastPage || result.items.length === 0) {
+      return { items, total, total_pages: totalPages, page: startPage, per_page: perPage, next_page: null };
+    }
+  }
+
+  return { items, total, total_pages: totalPages, page: startPage, per_page: perPage, next_page: page };
+}
+
+/** Summary for the text block, e.g. "Returned 10 items starting at page 1 of 5 (47 items total). Next page: 2 ..." */
+export function describePagination(list: PaginatedList<unknown>): string {
+  const of = list.total_pages !== null ? ` of ${list.total_pages}` : '';
+  const total = list.total !== null ? ` (${list.total} items total)` : '';
+  const next = list.next_page !== null
+    ? ` Next page: ${list.next_page} — pass page: ${list.next_page}${list.per_page ? `, per_page: ${list.per_page}` : ''} to continue.`
+    : ' No more pages.';
+  return `Returned ${list.items.length} items starting at page ${list.page}${of}${total}.${next}`;
+}
+
+/**
+ * Tool result for a paginated list: the bare item array as the first text
+ * block (unchanged for clients that parse it), a paging summary as the
+ * second, and everything in structuredContent.
+ */
+export function paginatedResult(list: PaginatedList<unknown>) {
+  return {
+    toolResult: {
+      content: [
+        { type: 'text', text: JSON.stringify(list.items, null, 2) },
+        { type: 'text', text: describePagination(list) }
+      ],
+      structuredContent: { ...list } as Record<string, unknown>,
+      isError: false
+    }
+  };
+}
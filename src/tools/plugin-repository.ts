@@ -1,6 +1,9 @@
 // src/tools/plugin-repository.ts
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { searchWordPressPluginRepository } from '../wordpress.js';
+import { READ_ONLY } from './annotations.js';
+import { searchWordPressPluginRepository, DEFAULT_REQUEST_TIMEOUT } from '../wordpress.js';
+import { getRequestContext } from '../request-context.js';
+import { toolErrorResult } from '../errors.js';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 
@@ -24,12 +27,14 @@ export const pluginRepositoryTools: Tool[] = [
   {
     name: "search_plugin_repository",
     description: "Search for plugins in the WordPress.org plugin repository",
-    inputSchema: { type: "object", properties: searchPluginRepositorySchema.shape }
+    inputSchema: { type: "object", properties: searchPluginRepositorySchema.shape },
+    annotations: { ...READ_ONLY, openWorldHint: true }
   },
   {
     name: "get_plugin_details",
     description: "Get detailed information about a plugin from the WordPress.org repository",
-    inputSchema: { type: "object", properties: getPluginDetailsSchema.shape }
+    inputSchema: { type: "object", properties: getPluginDetailsSchema.shape },
+    annotations: { ...READ_ONLY, openWorldHint: true }
   }
 ];
 
@@ -75,13 +80,7 @@ export const pluginRepositoryHandlers = {
         },
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error searching plugin repository: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('searching plugin repository', error);
     }
   },
   
@@ -119,7 +118,9 @@ export const pluginRepositoryHandlers = {
       const response = await axios.post(apiUrl, requestData, {
         headers: {
           'Content-Type': 'application/json'
-        }
+        },
+        signal: getRequestContext()?.signal,
+        timeout: DEFAULT_REQUEST_TIMEOUT
       });
       
       // Format the plugin details
@@ -156,13 +157,7 @@ export const pluginRepositoryHandlers = {
         },
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error getting plugin details: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('getting plugin details', error);
     }
   }
 };
@@ -1,7 +1,9 @@
 // src/tools/plugins.ts
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CREATE, READ_ONLY, UPDATE } from './annotations.js';
 import { makeWordPressRequest } from '../wordpress.js';
 import { WPPlugin } from '../types/wordpress-types.js';
+import { toolErrorResult } from '../errors.js';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 
@@ -15,15 +17,15 @@ const listPluginsSchema = z.object({
 }).strict();
 
 const getPluginSchema = z.object({
-  plugin: z.string().describe("Plugin slug (e.g., 'akismet', 'elementor', 'wordpress-seo')")
+  plugin: z.string().describe("Plugin file without .php, as list_plugins reports it (e.g., 'akismet/akismet', 'hello')")
 }).strict();
 
 const activatePluginSchema = z.object({
-  plugin: z.string().describe("Plugin slug (e.g., 'akismet', 'elementor', 'wordpress-seo')")
+  plugin: z.string().describe("Plugin file without .php, as list_plugins reports it (e.g., 'akismet/akismet', 'hello')")
 }).strict();
 
 const deactivatePluginSchema = z.object({
-  plugin: z.string().describe("Plugin slug (e.g., 'akismet', 'elementor', 'wordpress-seo')")
+  plugin: z.string().describe("Plugin file without .php, as list_plugins reports it (e.g., 'akismet/akismet', 'hello')")
 }).strict();
 
 const createPluginSchema = z.object({
@@ -42,27 +44,32 @@ export const pluginTools: Tool[] = [
   {
     name: "list_plugins",
     description: "Lists all plugins with filtering options",
-    inputSchema: { type: "object", properties: listPluginsSchema.shape }
+    inputSchema: { type: "object", properties: listPluginsSchema.shape },
+    annotations: READ_ONLY
   },
   {
     name: "get_plugin",
     description: "Retrieves plugin details",
-    inputSchema: { type: "object", properties: getPluginSchema.shape }
+    inputSchema: { type: "object", properties: getPluginSchema.shape },
+    annotations: READ_ONLY
   },
   {
     name: "activate_plugin",
     description: "Activates a plugin",
-    inputSchema: { type: "object", properties: activatePluginSchema.shape }
+    inputSchema: { type: "object", properties: activatePluginSchema.shape },
+    annotations: UPDATE
   },
   {
     name: "deactivate_plugin",
     description: "Deactivates a plugin",
-    inputSchema: { type: "object", properties: deactivatePluginSchema.shape }
+    inputSchema: { type: "object", properties: deactivatePluginSchema.shape },
+    annotations: UPDATE
   },
   {
     name: "create_plugin",
     description: "Creates a plugin from the WordPress.org repository",
-    inputSchema: { type: "object", properties: createPluginSchema.shape }
+    inputSchema: { type: "object", properties: createPluginSchema.shape },
+    annotations: { ...CREATE, openWorldHint: true }
   }
 ];
 
@@ -77,13 +84,7 @@ export const pluginHandlers = {
         }
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: "text", text: `Error listing plugins: ${errorMessage}` }]
-        }
-      };
+      return toolErrorResult('listing plugins', error);
     }
   },
   get_plugin: async (params: z.infer<typeof getPluginSchema>) => {
@@ -95,49 +96,31 @@ export const pluginHandlers = {
         }
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: "text", text: `Error retrieving plugin: ${errorMessage}` }]
-        }
-      };
+      return toolErrorResult('retrieving plugin', error);
     }
   },
   activate_plugin: async (params: z.infer<typeof activatePluginSchema>) => {
     try {
-      const response = await makeWordPressRequest("POST", `plugins/${params.plugin}/activate`, params);
+      const response = await makeWordPressRequest("POST", `plugins/${params.plugin}`, { status: 'active' });
       return {
         toolResult: {
           content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
         }
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: "text", text: `Error activating plugin: ${errorMessage}` }]
-        }
-      };
+      return toolErrorResult('activating plugin', error);
     }
   },
   deactivate_plugin: async (params: z.infer<typeof deactivatePluginSchema>) => {
     try {
-      const response = await makeWordPressRequest("POST", `plugins/${params.plugin}/deactivate`, params);
+      const response = await makeWordPressRequest("POST", `plugins/${params.plugin}`, { status: 'inactive' });
       return {
         toolResult: {
           content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
         }
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: "text", text: `Error deactivating plugin: ${errorMessage}` }]
-        }
-      };
+      return toolErrorResult('deactivating plugin', error);
     }
   },
   create_plugin: async (params: z.infer<typeof createPluginSchema>) => {
@@ -149,13 +132,7 @@ export const pluginHandlers = {
         }
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: "text", text: `Error creating plugin: ${errorMessage}` }]
-        }
-      };
+      return toolErrorResult('creating plugin', error);
     }
   }
 };
\ No newline at end of file
@@ -0,0 +1,148 @@
+// src/tools/projection.ts
+import { z } from 'zod';
+
+// Response size controls for read tools, on top of MCP_WP_STRIP_FIELDS:
+//
+//   - `fields` maps to WordPress `_fields`, so the server only serializes the
+//     requested top-level (or dotted, e.g. `meta.price`) fields
+//   - `embed` maps to `_embed`, which inlines linked objects; WordPress returns
+//     them in a bulky `_embedded` / `_links` envelope, so normalizeEmbedded()
+//     folds that into a compact `embedded` object
+
+// Relations to inline. Replies, revisions and ancestors are left out: they
+// can be larger than the post itself.
+const EMBED_RELATIONS = ['author', 'wp:featuredmedia', 'wp:term'];
+
+/** Spread into a read tool's input schema. */
+export const fieldsParamShape = {
+  fields: z.union([z.array(z.string()), z.string()]).optional().describe(
+    "Only return these fields (WordPress _fields), as an array or comma-separated string, e.g. ['title', 'link', 'meta.price']. id is always included."
+  )
+};
+
+/** Spread into a content read tool's input schema. */
+export const embedParamShape = {
+  embed: z.boolean().optional().describe(
+    "Inline the author, featured media and terms (WordPress _embed) as a compact `embedded` object"
+  )
+};
+
+export interface ProjectionParams {
+  fields?: string[] | string;
+  embed?: boolean;
+}
+
+export interface EmbeddedAuthor {
+  id: number;
+  name?: string;
+  slug?: string;
+  link?: string;
+}
+
+export interface EmbeddedMedia {
+  id: number;
+  source_url?: string;
+  alt_text?: string;
+  media_type?: string;
+  mime_type?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface EmbeddedTerm {
+  id: number;
+  name?: string;
+  slug?: string;
+}
+
+export interface EmbeddedSummary {
+  author: EmbeddedAuthor | null;
+  featured_media: EmbeddedMedia | null;
+  /** Terms grouped by taxonomy slug, e.g. { category: [...], post_tag: [...] } */
+  terms: Record<string, EmbeddedTerm[]>;
+}
+
+/** Accept `fields` as an array or a comma-separated string. */
+export function normalizeFieldList(fields: string[] | string): string[] {
+  const list = Array.isArray(fields) ? fields : fields.split(',');
+  return list.map(field => field.trim()).filter(field => field.length > 0);
+}
+
+/**
+ * Query parameters for a projection. `id` is always requested because every
+ * output schema requires it; with embed, `_links` and `_embedded` are added
+ * to `_fields` since WordPress only embeds what `_fields` lets through.
+ */
+export function projectionQuery(params: ProjectionParams): Record<string, string> {
+  const query: Record<string, string> = {};
+  const fields = params.fields !== undefined ? normalizeFieldList(params.fields) : [];
+
+  if (fields.length > 0) {
+    const requested = new Set(['id', ...fields]);
+    if (params.embed) {
+      requested.add('_links');
+      requested.add('_embedded');
+    }
+    query._fields = [...requested].join(',');
+  }
+  if (params.embed) {
+    query._embed = EMBED_RELATIONS.join(',');
+  }
+  return query;
+}
+
+// Embedded entries the user can't see come back as REST error objects
+// ({ code, message, data }) rather than being omitted.
+function isEntity(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && typeof (value as any).id === 'number';
+}
+
+function compactAuthor(author: Record<string, any>): EmbeddedAuthor {
+  return { id: author.id, name: author.name, slug: author.slug, link: author.link };
+}
+
+function compactMedia(media: Record<string, any>): EmbeddedMedia {
+  return {
+    id: media.id,
+    source_url: media.source_url,
+    alt_text: media.alt_text,
+    media_type: media.media_type,
+    mime_type: media.mime_type,
+    width: media.media_details?.width,
+    height: media.media_details?.height
+  };
+}
+
+/**
+ * Replace WordPress's `_embedded` / `_links` envelope with a compact
+ * `embedded` summary. Objects without `_embedded` only lose `_links`.
+ */
+export function normalizeEmbedded<T>(item: T): T {
+  if (item === null || typeof item !== 'object' || Array.isArray(item)) return item;
+
+  const { _embedded, _links, ...rest } = item as Record<string, any>;
+  if (!_embedded || typeof _embedded !== 'object') return rest as T;
+
+  const author = Array.isArray(_embedded.author) ? _embedded.author.find(isEntity) : undefined;
+  const media = Array.isArray(_embedded['wp:featuredmedia'])
+    ? _embedded['wp:featuredmedia'].find(isEntity)
+    : undefined;
+
+  // wp:term is one array per taxonomy linked from the post
+  const terms: Record<string, EmbeddedTerm[]> = {};
+  const termGroups: unknown[] = Array.isArray(_embedded['wp:term']) ? _embedded['wp:term'] : [];
+  for (const group of termGroups) {
+    if (!Array.isArray(group)) continue;
+    for (const term of group.filter(isEntity)) {
+      const taxonomy = typeof term.taxonomy === 'string' ? term.taxonomy : 'unknown';
+      (terms[taxonomy] ??= []).push({ id: term.id, name: term.name, slug: term.slug });
+    }
+  }
+
+  const embedded: EmbeddedSummary = {
+    author: author ? compactAuthor(author) : null,
+    featured_media: media ? compactMedia(media) : null,
+    terms
+  };
+  return { ...rest, embedded } as T;
+}
@@ -0,0 +1,117 @@
+// src/tools/rest-request.ts
+import { z } from 'zod';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DELETE } from './annotations.js';
+import { makeWordPressRequest, resolveStripFields, trimResponseFields } from '../wordpress.js';
+import { siteManager } from '../config/site-manager.js';
+import {
+  REST_METHODS,
+  RestAllowRule,
+  RestMethod,
+  assertSafeRestQuery,
+  describeRestAllowlist,
+  findAllowRule,
+  normalizeRestRoute,
+  parseRestAllowlist
+} from '../rest-allowlist.js';
+import { toolErrorResult } from '../errors.js';
+
+const restRequestSchema = z.object({
+  method: z.enum(REST_METHODS).describe("HTTP method"),
+  route: z.string().describe("Route under /wp-json, including the namespace (e.g., '/wc/v3/products', '/yoast/v1/get_head')"),
+  query: z.record(z.any()).optional().describe("Query string parameters"),
+  body: z.record(z.any()).optional().describe("JSON body for POST, PUT, PATCH and DELETE"),
+  site_id: z.string().optional().describe("Site ID (for multi-site setups)")
+});
+
+type RestRequestParams = z.infer<typeof restRequestSchema>;
+
+export const restRequestOutputShape = {
+  status: z.number().describe("HTTP status"),
+  total: z.number().nullable().describe("X-WP-Total, for collection routes"),
+  total_pages: z.number().nullable().describe("X-WP-TotalPages, for collection routes"),
+  data: z.any().describe("Response body")
+};
+
+export const restRequestTools: Tool[] = [
+  {
+    name: "wp_rest_request",
+    description: "Calls any WordPress REST route, including plugin namespaces such as wc/v3, yoast/v1 or acf/v3. Only routes and methods on the site's allowlist (WORDPRESS_REST_ALLOWLIST) can be called; prefer the dedicated tools for core content.",
+    inputSchema: { type: "object", properties: restRequestSchema.shape },
+    outputSchema: { type: "object", properties: restRequestOutputShape },
+    // The method decides; a POST to an arbitrary route can do anything
+    annotations: { ...DELETE, idempotentHint: false }
+  }
+];
+
+function parseCountHeader(value: unknown): number | null {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/** The site's own allowlist, else the global one; empty (deny all) when neither is set. */
+export function resolveRestAllowlist(siteId?: string): RestAllowRule[] {
+  const site = siteManager.getSite(siteId);
+  return site.restAllowlist ?? parseRestAllowlist(process.env.WORDPRESS_REST_ALLOWLIST) ?? [];
+}
+
+/**
+ * Throw unless the site's allowlist permits `method` on the normalized
+ * `route`. Returns the resolved site id.
+ */
+export function assertRouteAllowed(method: string, route: string, siteId?: string): string {
+  const site = siteManager.getSite(siteId);
+  const rules = resolveRestAllowlist(site.id);
+  if (!findAllowRule(rules, method, route)) {
+    throw new Error(rules.length === 0
+      ? `No REST routes are allowed on site '${site.id}'. Set WORDPRESS_REST_ALLOWLIST (or WORDPRESS_<n>_REST_ALLOWLIST for one site), e.g. "GET /wc/v3/**".`
+      : `${method} ${route} is not allowed on site '${site.id}'. Allowed: ${describeRestAllowlist(rules)}`);
+  }
+  return site.id;
+}
+
+/** Send an already-allowed request and shape the result for restRequestOutputShape. */
+export async function sendRestRequest(request: {
+  method: RestMethod;
+  route: string;
+  query?: Record<string, unknown>;
+  body?: Record<string, unknown>;
+  siteId: string;
+}) {
+  const isGet = request.method === 'GET';
+  const response: any = await makeWordPressRequest(request.method, request.route, isGet ? request.query : request.body, {
+    siteId: request.siteId,
+    // An empty namespace resolves the route against /wp-json itself
+    namespace: '',
+    rawResponse: true,
+    query: isGet ? undefined : request.query
+  });
+
+  return {
+    status: response.status,
+    total: parseCountHeader(response.headers?.['x-wp-total']),
+    total_pages: parseCountHeader(response.headers?.['x-wp-totalpages']),
+    data: trimResponseFields(response.data, resolveStripFields(process.env.MCP_WP_STRIP_FIELDS)) ?? null
+  };
+}
+
+export const restRequestHandlers = {
+  wp_rest_request: async (params: RestRequestParams) => {
+    try {
+      const route = normalizeRestRoute(params.route);
+      assertSafeRestQuery(params.query);
+      const siteId = assertRouteAllowed(params.method, route, params.site_id);
+      const result = await sendRestRequest({ method: params.method, route, query: params.query, body: params.body, siteId });
+
+      return {
+        toolResult: {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          structuredContent: result,
+          isError: false
+        }
+      };
+    } catch (error: any) {
+      return toolErrorResult(`calling ${params.method} ${params.route}`, error);
+    }
+  }
+};
@@ -0,0 +1,356 @@
+// src/tools/route-tools.ts
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CREATE, DELETE, READ_ONLY, UPDATE } from './annotations.js';
+import { assertRouteAllowed, resolveRestAllowlist, restRequestOutputShape, sendRestRequest } from './rest-request.js';
+import {
+  RestRoute,
+  RestRouteArg,
+  discoverRoutes,
+  fetchRouteSchema,
+  getDiscoveredRoutes,
+  routeToolsEnabled
+} from '../route-discovery.js';
+import { REST_METHODS, RestAllowRule, RestMethod, assertSafeRestQuery, findAllowRule, normalizeRestRoute } from '../rest-allowlist.js';
+import { siteManager } from '../config/site-manager.js';
+import { toolErrorResult } from '../errors.js';
+
+// discover_routes, plus the tools generated from discovered routes when
+// WORDPRESS_ROUTE_TOOLS=true. A generated tool exists for each endpoint with a
+// method the site's REST allowlist permits; mcp-server.ts keeps the registered
+// set in step with getRouteTools().
+
+// Dedicated tools already cover these
+const SKIPPED_NAMESPACES = new Set(['wp/v2', 'batch/v1']);
+
+// Many MCP clients reject longer tool names
+const MAX_TOOL_NAME_LENGTH = 64;
+
+const discoverRoutesSchema = z.object({
+  site_id: z.string().optional().describe("Site ID (for multi-site setups)"),
+  namespace: z.string().optional().describe("Only list routes in this namespace (e.g., 'wc/v3')"),
+  route: z.string().optional().describe(
+    "A concrete route to describe with OPTIONS, including IDs (e.g., '/wc/v3/products/12'). Returns its arguments and resource schema instead of the route list."
+  )
+});
+
+type DiscoverRoutesParams = z.infer<typeof discoverRoutesSchema>;
+
+const routeArgOutputSchema = z.object({
+  type: z.string().optional(),
+  required: z.boolean(),
+  description: z.string().optional(),
+  enum: z.array(z.any()).optional()
+});
+
+const discoverRoutesOutputShape = {
+  site_id: z.string(),
+  namespaces: z.array(z.string()).optional().describe("Namespaces the site registers"),
+  routes: z.array(z.object({
+    route: z.string(),
+    namespace: z.string(),
+    methods: z.array(z.string()),
+    allowed_methods: z.array(z.string()).describe("Methods the REST allowlist permits for wp_rest_request")
+  })).optional(),
+  generated_tools: z.array(z.string()).optional().describe("Tools generated from these routes (WORDPRESS_ROUTE_TOOLS=true)"),
+  route: z.string().optional(),
+  endpoints: z.array(z.object({
+    methods: z.array(z.string()),
+    args: z.record(routeArgOutputSchema)
+  })).optional(),
+  schema: z.record(z.any()).optional().describe("Resource schema: title and properties")
+};
+
+export const routeDiscoveryTools: Tool[] = [
+  {
+    name: "discover_routes",
+    description: "Lists the REST routes a site registers (from /wp-json/), including plugin namespaces, and which methods the REST allowlist permits. With `route`, describes one route's arguments and schema via OPTIONS. Use with wp_rest_request.",
+    inputSchema: { type: "object", properties: discoverRoutesSchema.shape },
+    outputSchema: { type: "object", properties: discoverRoutesOutputShape },
+    annotations: READ_ONLY
+  }
+];
+
+export interface RouteTool {
+  tool: Tool;
+  /** The registered route the tool calls. */
+  route: string;
+  handler: (params: Record<string, any>) => Promise<any>;
+  /** Changes whenever the tool's definition does. */
+  fingerprint: string;
+}
+
+/**
+ * `(?P<name>pattern)` groups in a registered route, with their positions.
+ * Patterns may nest groups, e.g. `(?P<plugin>[^.\/]+(?:\/[^.\/]+)?)`.
+ */
+function scanPathParams(route: string): { name: string; pattern: string; start: number; end: number }[] {
+  const found: { name: string; pattern: string; start: number; end: number }[] = [];
+  for (const match of route.matchAll(/\(\?P<(\w+)>/g)) {
+    const start = match.index ?? 0;
+    let depth = 1;
+    let index = start + match[0].length;
+    for (; index < route.length && depth > 0; index++) {
+      if (route[index] === '\\') index++;
+      else if (route[index] === '[') {
+        // Parentheses inside a character class don't count
+        while (index + 1 < route.length && route[index + 1] !== ']') index += route[index + 1] === '\\' ? 2 : 1;
+        index++;
+      } else if (route[index] === '(') depth++;
+      else if (route[index] === ')') depth--;
+    }
+    if (depth === 0 && !found.some(param => start < param.end)) {
+      found.push({ name: match[1], pattern: route.slice(start + match[0].length, index - 1), start, end: index });
+    }
+  }
+  return found;
+}
+
+/** Names and patterns of `(?P<name>pattern)` groups in a registered route. */
+function pathParams(route: string): { name: string; pattern: string }[] {
+  return scanPathParams(route).map(({ name, pattern }) => ({ name, pattern }));
+}
+
+/** The route with each path parameter replaced by `{name}`, e.g. `/wc/v3/products/{id}`. */
+export function routeTemplate(route: string): string {
+  let template = '';
+  let last = 0;
+  for (const param of scanPathParams(route)) {
+    template += `${route.slice(last, param.start)}{${param.name}}`;
+    last = param.end;
+  }
+  return template + route.slice(last);
+}
+
+export function routeToolName(method: string, route: string): string {
+  const slug = routeTemplate(route).toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  const name = `${method.toLowerCase()}_${slug}`;
+  if (name.length <= MAX_TOOL_NAME_LENGTH) return name;
+  const hash = createHash('sha256').update(name).digest('hex').slice(0, 8);
+  return `${name.slice(0, MAX_TOOL_NAME_LENGTH - 9)}_${hash}`;
+}
+
+function describeArg(arg: RestRouteArg): string | undefined {
+  const parts = [arg.description, arg.default !== undefined ? `Default: ${JSON.stringify(arg.default)}` : undefined].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : undefined;
+}
+
+/**
+ * Convert one WordPress argument schema to zod. Only types, enums and
+ * descriptions carry over; WordPress still validates formats, ranges and
+ * patterns and reports failures as rest_invalid_param.
+ */
+export function restArgToZod(arg: RestRouteArg): z.ZodTypeAny {
+  const types = (Array.isArray(arg.type) ? arg.type : arg.type ? [arg.type] : []).filter(type => type !== 'null');
+  const nullable = Array.isArray(arg.type) && arg.type.includes('null');
+
+  const convert = (type: string): z.ZodTypeAny => {
+    switch (type) {
+      case 'string': {
+        const values = (arg.enum ?? []).filter((value): value is string => typeof value === 'string');
+        return values.length > 0 && values.length === arg.enum?.length
+          ? z.enum(values as [string, ...string[]])
+          : z.string();
+      }
+      case 'integer':
+        return z.number().int();
+      case 'number':
+        return z.number();
+      case 'boolean':
+        return z.boolean();
+      case 'array':
+        return z.array(arg.items ? restArgToZod({ ...arg.items, required: true }) : z.any());
+      case 'object':
+        return arg.properties
+          ? z.object(restArgsToZodShape(arg.properties)).passthrough()
+          : z.record(z.any());
+      default:
+        return z.any();
+    }
+  };
+
+  let schema: z.ZodTypeAny = types.length === 0
+    ? z.any()
+    : types.length === 1
+      ? convert(types[0])
+      : z.union(types.map(convert) as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  if (nullable) schema = schema.nullable();
+  if (!arg.required) schema = schema.optional();
+  const description = describeArg(arg);
+  return description ? schema.describe(description) : schema;
+}
+
+export function restArgsToZodShape(args: Record<string, RestRouteArg>): z.ZodRawShape {
+  return Object.fromEntries(Object.entries(args).map(([name, arg]) => [name, restArgToZod(arg)]));
+}
+
+function annotationsFor(method: RestMethod, hasPathParams: boolean) {
+  switch (method) {
+    case 'GET': return READ_ONLY;
+    // POST to a collection creates; POST to an item updates it
+    case 'POST': return hasPathParams ? { ...UPDATE, idempotentHint: false } : CREATE;
+    case 'PUT':
+    case 'PATCH': return UPDATE;
+    case 'DELETE': return DELETE;
+  }
+}
+
+function buildRouteTool(route: RestRoute, method: RestMethod, args: Record<string, RestRouteArg>): RouteTool {
+  const params = pathParams(route.route);
+  const template = routeTemplate(route.route);
+  const shape: z.ZodRawShape = {
+    ...restArgsToZodShape(args),
+    // Path parameters win over same-named arguments; they go in the URL
+    ...Object.fromEntries(params.map(param => [
+      param.name,
+      (/^\[?\\d\]?[+*]$/.test(param.pattern) ? z.number().int() : z.string()).describe(`Path parameter {${param.name}}`)
+    ])),
+    site_id: z.string().optional().describe("Site ID (for multi-site setups)")
+  };
+  const name = routeToolName(method, route.route);
+
+  return {
+    tool: {
+      name,
+      description: `${method} ${template} (${route.namespace} REST namespace). Generated from the site's REST index; arguments follow the route's own schema.`,
+      inputSchema: { type: "object", properties: shape },
+      outputSchema: { type: "object", properties: restRequestOutputShape },
+      annotations: annotationsFor(method, params.length > 0)
+    },
+    route: route.route,
+    handler: async ({ site_id, ...input }: Record<string, any>) => {
+      try {
+        const path = params.reduce(
+          (filled, param) => filled.replace(`{${param.name}}`, encodeURIComponent(String(input[param.name]))),
+          template
+        );
+        const fields = Object.fromEntries(Object.entries(input).filter(([key]) => !params.some(param => param.name === key)));
+        const concrete = normalizeRestRoute(path);
+        if (method === 'GET') assertSafeRestQuery(fields);
+        // The allowlist may have changed, or site_id may name another site
+        const siteId = assertRouteAllowed(method, concrete, site_id);
+        const result = await sendRestRequest({
+          method,
+          route: concrete,
+          ...(method === 'GET' ? { query: fields } : { body: fields }),
+          siteId
+        });
+        return {
+          toolResult: {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+            structuredContent: result,
+            isError: false
+          }
+        };
+      } catch (error: any) {
+        return toolErrorResult(`calling ${method} ${template}`, error);
+      }
+    },
+    fingerprint: JSON.stringify([method, route.route, args])
+  };
+}
+
+/** The first method of an endpoint the rules allow, checked against the route template. */
+function allowedMethod(rules: RestAllowRule[], methods: string[], template: string): RestMethod | undefined {
+  return methods.find((method): method is RestMethod =>
+    (REST_METHODS as readonly string[]).includes(method) && findAllowRule(rules, method, template) !== undefined
+  );
+}
+
+/**
+ * Tools for every discovered endpoint the site's allowlist permits, across
+ * all sites (the first site to register a tool name wins). Empty unless
+ * WORDPRESS_ROUTE_TOOLS=true.
+ */
+export function getRouteTools(): RouteTool[] {
+  if (!routeToolsEnabled()) return [];
+
+  const tools = new Map<string, RouteTool>();
+  for (const [siteId, routes] of getDiscoveredRoutes()) {
+    let rules: RestAllowRule[];
+    try {
+      rules = resolveRestAllowlist(siteId);
+    } catch {
+      continue; // site removed since discovery
+    }
+    for (const route of routes) {
+      if (SKIPPED_NAMESPACES.has(route.namespace)) continue;
+      const template = routeTemplate(route.route);
+      for (const endpoint of route.endpoints) {
+        // EDITABLE endpoints list POST, PUT and PATCH; one tool is enough
+        const method = allowedMethod(rules, endpoint.methods, template);
+        if (!method) continue;
+        const tool = buildRouteTool(route, method, endpoint.args);
+        if (!tools.has(tool.tool.name)) tools.set(tool.tool.name, tool);
+      }
+    }
+  }
+  return [...tools.values()];
+}
+
+function summarizeArgs(args: Record<string, RestRouteArg>) {
+  return Object.fromEntries(Object.entries(args).map(([name, arg]) => [name, {
+    type: Array.isArray(arg.type) ? arg.type.join('|') : arg.type,
+    required: Boolean(arg.required),
+    description: arg.description,
+    enum: arg.enum
+  }]));
+}
+
+// Property names and types only; full schemas repeat every field's context list
+function summarizeSchema(schema: Record<string, any>) {
+  return {
+    title: schema.title,
+    properties: Object.fromEntries(Object.entries(schema.properties ?? {}).map(([name, property]: [string, any]) => [name, {
+      type: property?.type,
+      description: property?.description,
+      ...(property?.readonly && { readonly: true })
+    }]))
+  };
+}
+
+export const routeDiscoveryHandlers = {
+  discover_routes: async (params: DiscoverRoutesParams) => {
+    try {
+      const siteId = siteManager.getSite(params.site_id).id;
+      let result: Record<string, unknown>;
+
+      if (params.route) {
+        const described = await fetchRouteSchema(normalizeRestRoute(params.route), siteId);
+        result = {
+          site_id: siteId,
+          route: described.route,
+          namespaces: described.namespace ? [described.namespace] : [],
+          endpoints: described.endpoints.map(endpoint => ({ methods: endpoint.methods, args: summarizeArgs(endpoint.args) })),
+          ...(described.schema && { schema: summarizeSchema(described.schema) })
+        };
+      } else {
+        const { namespaces, routes } = await discoverRoutes(siteId, { namespace: params.namespace });
+        const rules = resolveRestAllowlist(siteId);
+        const discovered = new Set(routes.map(route => route.route));
+        result = {
+          site_id: siteId,
+          namespaces,
+          routes: routes.map(route => ({
+            route: routeTemplate(route.route),
+            namespace: route.namespace,
+            methods: route.methods,
+            allowed_methods: route.methods.filter(method => findAllowRule(rules, method, routeTemplate(route.route)))
+          })),
+          generated_tools: getRouteTools().filter(tool => discovered.has(tool.route)).map(tool => tool.tool.name)
+        };
+      }
+
+      return {
+        toolResult: {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          structuredContent: result,
+          isError: false
+        }
+      };
+    } catch (error: any) {
+      return toolErrorResult('discovering routes', error);
+    }
+  }
+};
@@ -1,10 +1,22 @@
 // src/tools/site-management.ts
 import { z } from 'zod';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { siteManager } from '../config/site-manager.js';
+import { CREATE, DELETE, READ_ONLY, UPDATE } from './annotations.js';
+import { SiteConfig, siteManager } from '../config/site-manager.js';
+import { addSiteToConfigFile, loadSiteConfigFile, removeSiteFromConfigFile, updateSiteInConfigFile } from '../config/site-config-file.js';
+import { toolErrorResult } from '../errors.js';
+import { AUTH_TYPES, authSecret, authUsername, HEADER_NAME_PATTERN, SiteAuth, withAuthSecret } from '../auth.js';
+import { deleteVaultEntry, SecretRef, storeVaultEntry, VAULT_KEY_ENV } from '../secrets.js';
+import { resetBatchSupportCache } from '../batch.js';
+import { resetRouteDiscoveryCache } from '../route-discovery.js';
+import { resetCompletionCache } from '../completions.js';
+import { resetPostTypesCache } from './unified-content.js';
+import { resetTaxonomiesCache } from './unified-taxonomies.js';
 
 // Schemas
-const listSitesSchema = z.object({});
+const listSitesSchema = z.object({
+  tag: z.string().optional().describe('Only list sites with this tag (tags come from the site config file).')
+});
 
 const getSiteSchema = z.object({
   site_id: z.string().optional().describe('Site ID to get details for. If not provided, returns the default site.')
@@ -14,16 +26,86 @@ const testSiteSchema = z.object({
   site_id: z.string().optional().describe('Site ID to test connection. If not provided, tests the default site.')
 });
 
+// Sites added here take secrets inline only. A provider reference (env,
+// command, file, vault) would let a tool call run commands or send another
+// site's secret to any URL; those belong in the config file.
+const siteFieldsShape = {
+  url: z.string().url().describe('Site URL, e.g. https://example.com (without /wp-json).'),
+  auth_type: z.enum(AUTH_TYPES).optional().describe('How to authenticate. Default: basic (username + application password).'),
+  username: z.string().min(1).optional().describe('Username for basic and jwt auth.'),
+  password: z.string().min(1).optional().describe('Application password (basic) or account password (jwt).'),
+  token: z.string().min(1).optional().describe('Token for bearer auth, or the header value for header auth.'),
+  auth_header: z.string().regex(HEADER_NAME_PATTERN, 'Invalid header name').optional().describe('Header name for header auth, e.g. X-Proxy-Token.'),
+  aliases: z.array(z.string().min(1)).optional().describe('Other names the site can be addressed by.'),
+  tags: z.array(z.string().min(1)).optional().describe('Labels for grouping sites (see list_sites).'),
+  timeout: z.number().int().positive().optional().describe('Per-request timeout in milliseconds.'),
+  default: z.boolean().optional().describe('Make this the default site.'),
+  persist: z.boolean().optional().default(false).describe('Also save the change to the site config file, so it survives a restart. Requires the server to run with WORDPRESS_CONFIG_FILE or --config; a password or token is saved to the encrypted vault, which needs MCP_WP_VAULT_KEY.')
+};
+
+const addSiteSchema = z.object({
+  site_id: z.string().min(1).describe('ID for the new site.'),
+  ...siteFieldsShape
+});
+
+const updateSiteSchema = z.object({
+  site_id: z.string().min(1).describe('ID of the site to change.'),
+  ...siteFieldsShape,
+  url: siteFieldsShape.url.optional()
+});
+
+const removeSiteSchema = z.object({
+  site_id: z.string().min(1).describe('ID or alias of the site to remove.'),
+  persist: siteFieldsShape.persist.describe('Also remove the site from the site config file.')
+});
+
+// Output schemas (structuredContent)
+const siteSummarySchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  auth_type: z.enum(AUTH_TYPES),
+  username: z.string().nullable(),
+  aliases: z.array(z.string()),
+  tags: z.array(z.string()),
+  isDefault: z.boolean()
+});
+
+const listSitesOutputSchema = z.object({
+  sites: z.array(siteSummarySchema),
+  count: z.number(),
+  default_site: z.string().nullable()
+});
+
+const siteChangeOutputSchema = z.object({
+  site: siteSummarySchema,
+  /** The config file the change was saved to, when persisted. */
+  config_file: z.string().nullable(),
+  message: z.string()
+});
+
+const testSiteOutputSchema = z.object({
+  site_id: z.string(),
+  site_url: z.string(),
+  success: z.boolean(),
+  error: z.string().nullable(),
+  message: z.string()
+});
+
 // Tools
 export const siteManagementTools: Tool[] = [
   {
     name: 'list_sites',
-    description: 'List all configured WordPress sites. Shows site IDs, URLs, and which is the default.',
+    description: 'List all configured WordPress sites, optionally only those with a tag. Shows site IDs, URLs, tags, and which is the default.',
     inputSchema: {
       type: 'object',
       properties: listSitesSchema.shape,
       required: []
-    }
+    },
+    outputSchema: {
+      type: 'object',
+      properties: listSitesOutputSchema.shape
+    },
+    annotations: READ_ONLY
   },
   {
     name: 'get_site',
@@ -32,7 +114,12 @@ export const siteManagementTools: Tool[] = [
       type: 'object',
       properties: getSiteSchema.shape,
       required: []
-    }
+    },
+    outputSchema: {
+      type: 'object',
+      properties: siteSummarySchema.shape
+    },
+    annotations: READ_ONLY
   },
   {
     name: 'test_site',
@@ -41,78 +128,214 @@ export const siteManagementTools: Tool[] = [
       type: 'object',
       properties: testSiteSchema.shape,
       required: []
-    }
+    },
+    outputSchema: {
+      type: 'object',
+      properties: testSiteOutputSchema.shape
+    },
+    annotations: READ_ONLY
+  },
+  {
+    name: 'add_site',
+    description: 'Add a WordPress site at runtime. The site is only added if it connects with the given credentials. Set persist to also save it to the site config file.',
+    inputSchema: {
+      type: 'object',
+      properties: addSiteSchema.shape,
+      required: ['site_id', 'url']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: siteChangeOutputSchema.shape
+    },
+    // Connects to whatever URL it is given
+    annotations: { ...CREATE, openWorldHint: true }
+  },
+  {
+    name: 'update_site',
+    description: 'Change a configured site (URL, credentials, aliases, tags, timeout, default). The change is only kept if the site still connects. Changing the URL requires the credentials again.',
+    inputSchema: {
+      type: 'object',
+      properties: updateSiteSchema.shape,
+      required: ['site_id']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: siteChangeOutputSchema.shape
+    },
+    annotations: { ...UPDATE, openWorldHint: true }
+  },
+  {
+    name: 'remove_site',
+    description: 'Remove a configured site. Set persist to also remove it from the site config file.',
+    inputSchema: {
+      type: 'object',
+      properties: removeSiteSchema.shape,
+      required: ['site_id']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: siteChangeOutputSchema.shape
+    },
+    annotations: DELETE
   }
 ];
 
+function siteSummary(site: SiteConfig) {
+  return {
+    id: site.id,
+    url: site.url,
+    auth_type: site.auth.type,
+    username: authUsername(site.auth) ?? null,
+    aliases: site.aliases || [],
+    tags: site.tags || [],
+    isDefault: site.id === siteManager.getDefaultSiteId()
+  };
+}
+
+type SiteFields = Omit<z.infer<typeof updateSiteSchema>, 'site_id' | 'persist'>;
+
+/**
+ * Build a site's auth from tool arguments. Fields left out are kept from
+ * `current` when the auth type stays the same, except the secret when
+ * `keepSecret` is false.
+ */
+function buildAuth(params: SiteFields, current?: SiteAuth<SecretRef>, keepSecret = true): SiteAuth<SecretRef> {
+  const type = params.auth_type ?? current?.type ?? 'basic';
+  const kept = current?.type === type ? current : undefined;
+  const secret = kept && keepSecret ? authSecret(kept) : undefined;
+
+  switch (type) {
+    case 'basic':
+    case 'jwt': {
+      const username = params.username ?? (kept && authUsername(kept));
+      const password = params.password ?? secret;
+      if (!username || !password) throw new Error(`${type} auth needs username and password`);
+      return kept?.type === 'jwt' ? { ...kept, username, password } : { type, username, password };
+    }
+    case 'bearer': {
+      const token = params.token ?? secret;
+      if (!token) throw new Error('bearer auth needs token');
+      return { type, token };
+    }
+    case 'header': {
+      const name = params.auth_header ?? (kept?.type === 'header' ? kept.name : undefined);
+      const value = params.token ?? secret;
+      if (!name || !value) throw new Error('header auth needs auth_header and token');
+      return { type, name, value };
+    }
+  }
+}
+
+/**
+ * Fail before changing anything when `persist` can't be honoured: there is
+ * no config file, or the site lives in environment variables instead.
+ */
+function requireConfigFile(siteId: string, inFile: boolean): string {
+  const file = siteManager.getConfigFile();
+  if (!file) {
+    throw new Error('No site config file to save to. Start the server with WORDPRESS_CONFIG_FILE or --config to persist sites.');
+  }
+  const defined = loadSiteConfigFile(file).some(site => site.id === siteId);
+  if (inFile && !defined) {
+    throw new Error(`Site '${siteId}' is not defined in ${file} (it comes from environment variables); change it there`);
+  }
+  if (!inFile && defined) {
+    throw new Error(`Site '${siteId}' is already defined in ${file}`);
+  }
+  return file;
+}
+
+// The vault entry holding the secret of a site saved by these tools
+function siteVaultEntry(siteId: string): string {
+  return `site-${siteId}`;
+}
+
+// Inline secrets are never written to the config file: they go to the vault
+// and the file references them. Checked before anything changes.
+function requireVaultFor(auth: SiteAuth<SecretRef>): void {
+  if (typeof authSecret(auth) === 'string' && !process.env[VAULT_KEY_ENV]) {
+    throw new Error(`Saving a password or token needs the encrypted vault, so it is not written to the config file in plaintext. Set ${VAULT_KEY_ENV}, or add the site to the config file by hand with a secret provider.`);
+  }
+}
+
+/** Move an inline secret into the vault and return the auth to save in the config file. */
+function vaultAuth(siteId: string, auth: SiteAuth<SecretRef>): SiteAuth<SecretRef> {
+  const secret = authSecret(auth);
+  if (typeof secret !== 'string') return auth;
+  const entry = siteVaultEntry(siteId);
+  storeVaultEntry(entry, secret);
+  return withAuthSecret(auth, { vault: entry });
+}
+
+// Everything cached about a site's REST API. Most caches are keyed by the
+// site_id a caller passed (an alias, or nothing for the default), so those
+// are cleared whole; they refill on the next call.
+async function forgetSiteCaches(siteId: string): Promise<void> {
+  resetRouteDiscoveryCache(siteId);
+  resetBatchSupportCache();
+  resetTaxonomiesCache();
+  resetCompletionCache();
+  await resetPostTypesCache();
+}
+
+function siteChangeResult(summary: ReturnType<typeof siteSummary>, configFile: string | undefined, message: string) {
+  const result = { site: summary, config_file: configFile ?? null, message };
+  return {
+    toolResult: {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      }],
+      structuredContent: result
+    }
+  };
+}
+
 // Handlers
 export const siteManagementHandlers = {
   list_sites: async (params: z.infer<typeof listSitesSchema>) => {
     try {
-      const sites = siteManager.getAllSites();
+      const sites = siteManager.getAllSites()
+        .filter(site => !params.tag || site.tags?.includes(params.tag));
       const defaultSiteId = siteManager.getDefaultSiteId();
 
-      const sitesList = sites.map(site => ({
-        id: site.id,
-        url: site.url,
-        username: site.username,
-        aliases: site.aliases || [],
-        isDefault: site.id === defaultSiteId
-      }));
+      const sitesList = sites.map(siteSummary);
 
-      return {
-        toolResult: {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({
-              sites: sitesList,
-              count: sites.length,
-              default_site: defaultSiteId
-            }, null, 2)
-          }]
-        }
+      const result = {
+        sites: sitesList,
+        count: sites.length,
+        default_site: defaultSiteId
       };
-    } catch (error: any) {
+
       return {
         toolResult: {
           content: [{
             type: 'text' as const,
-            text: `Error listing sites: ${error.message}`
+            text: JSON.stringify(result, null, 2)
           }],
-          isError: true
+          structuredContent: result
         }
       };
+    } catch (error: any) {
+      return toolErrorResult('listing sites', error);
     }
   },
 
   get_site: async (params: z.infer<typeof getSiteSchema>) => {
     try {
-      const site = siteManager.getSite(params.site_id);
-      
-      return {
-        toolResult: {
-          content: [{
-            type: 'text' as const,
-            text: JSON.stringify({
-              id: site.id,
-              url: site.url,
-              username: site.username,
-              aliases: site.aliases || [],
-              isDefault: site.id === siteManager.getDefaultSiteId()
-            }, null, 2)
-          }]
-        }
-      };
-    } catch (error: any) {
+      const result = siteSummary(siteManager.getSite(params.site_id));
+
       return {
         toolResult: {
           content: [{
             type: 'text' as const,
-            text: `Error getting site: ${error.message}`
+            text: JSON.stringify(result, null, 2)
           }],
-          isError: true
+          structuredContent: result
         }
       };
+    } catch (error: any) {
+      return toolErrorResult('getting site', error);
     }
   },
 
@@ -121,33 +344,143 @@ export const siteManagementHandlers = {
       const result = await siteManager.testSite(params.site_id);
       const site = siteManager.getSite(params.site_id);
       
+      const report = {
+        site_id: site.id,
+        site_url: site.url,
+        success: result.success,
+        error: result.error || null,
+        message: result.success 
+          ? `Successfully connected to ${site.url}`
+          : `Failed to connect to ${site.url}: ${result.error}`
+      };
+
       return {
         toolResult: {
           content: [{
             type: 'text' as const,
-            text: JSON.stringify({
-              site_id: site.id,
-              site_url: site.url,
-              success: result.success,
-              error: result.error || null,
-              message: result.success 
-                ? `Successfully connected to ${site.url}`
-                : `Failed to connect to ${site.url}: ${result.error}`
-            }, null, 2)
+            text: JSON.stringify(report, null, 2)
           }],
+          structuredContent: report,
           isError: !result.success
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{
-            type: 'text' as const,
-            text: `Error testing site: ${error.message}`
-          }],
-          isError: true
-        }
+      return toolErrorResult('testing site', error);
+    }
+  },
+
+  add_site: async (params: z.infer<typeof addSiteSchema>) => {
+    try {
+      const configFile = params.persist ? requireConfigFile(params.site_id, false) : undefined;
+      const site: SiteConfig = {
+        id: params.site_id,
+        url: params.url,
+        auth: buildAuth(params),
+        aliases: params.aliases,
+        default: params.default,
+        tags: params.tags,
+        timeout: params.timeout
+      };
+      if (configFile) requireVaultFor(site.auth);
+
+      // Saved only once the site connects; a failed save drops the site again
+      const save = configFile ? () => addSiteToConfigFile(configFile, {
+        id: site.id,
+        url: site.url,
+        auth: vaultAuth(site.id, site.auth),
+        aliases: site.aliases,
+        default: site.default,
+        tags: site.tags,
+        timeout: site.timeout
+      }) : undefined;
+      const connection = await siteManager.addSite(site, save);
+      if (!connection.success) {
+        throw new Error(`Site '${site.id}' was not added: ${connection.error}`);
+      }
+      await forgetSiteCaches(site.id);
+
+      return siteChangeResult(siteSummary(site), configFile, `Added site '${site.id}' at ${site.url}${configFile ? ` and saved it to ${configFile}` : ''}`);
+    } catch (error: any) {
+      return toolErrorResult('adding site', error);
+    }
+  },
+
+  update_site: async (params: z.infer<typeof updateSiteSchema>) => {
+    try {
+      const current = siteManager.getSite(params.site_id);
+      const configFile = params.persist ? requireConfigFile(current.id, true) : undefined;
+
+      // A new URL gets no stored secret: the auth it ends up with must be
+      // given its password or token in this call
+      const urlChanged = params.url !== undefined && params.url !== current.url;
+      const authChanged = urlChanged || params.auth_type !== undefined || params.username !== undefined
+        || params.password !== undefined || params.token !== undefined || params.auth_header !== undefined;
+      let auth: SiteAuth<SecretRef> | undefined;
+      try {
+        auth = authChanged ? buildAuth(params, current.auth, !urlChanged) : undefined;
+      } catch (error: any) {
+        if (!urlChanged) throw error;
+        throw new Error(`Changing url needs the credentials again, so a site's existing ones are never sent to another host: ${error.message}`);
+      }
+      if (configFile && auth) requireVaultFor(auth);
+
+      const changes: Partial<SiteConfig> = {
+        ...(params.url !== undefined && { url: params.url }),
+        ...(auth && { auth }),
+        ...(params.aliases !== undefined && { aliases: params.aliases }),
+        ...(params.tags !== undefined && { tags: params.tags }),
+        ...(params.timeout !== undefined && { timeout: params.timeout }),
+        ...(params.default && { default: true })
       };
+      const site: SiteConfig = { ...current, ...changes };
+
+      // Saved only once the site connects; a failed save restores the old site
+      const save = configFile ? () => updateSiteInConfigFile(configFile, site.id, {
+        ...changes,
+        ...(auth && { auth: vaultAuth(site.id, auth) })
+      }) : undefined;
+      const connection = await siteManager.updateSite(site, save);
+      if (!connection.success) {
+        throw new Error(`Site '${site.id}' was not changed: ${connection.error}`);
+      }
+      await forgetSiteCaches(site.id);
+
+      return siteChangeResult(siteSummary(site), configFile, `Updated site '${site.id}'${configFile ? ` and saved it to ${configFile}` : ''}`);
+    } catch (error: any) {
+      return toolErrorResult('updating site', error);
+    }
+  },
+
+  remove_site: async (params: z.infer<typeof removeSiteSchema>) => {
+    try {
+      const current = siteManager.getSite(params.site_id);
+      const configFile = params.persist ? requireConfigFile(current.id, true) : undefined;
+
+      // A secret these tools saved for the site goes with it. The file is
+      // checked rather than `current`, which holds the secret itself after an
+      // update_site in this session.
+      const saved = configFile && loadSiteConfigFile(configFile).find(site => site.id === current.id);
+      const secret = saved ? authSecret(saved.auth) : undefined;
+      const vaultEntry = typeof secret === 'object' && 'vault' in secret && secret.vault === siteVaultEntry(current.id)
+        ? secret.vault
+        : undefined;
+      if (vaultEntry && !process.env[VAULT_KEY_ENV]) {
+        throw new Error(`Site '${current.id}' keeps its secret in the vault entry "${vaultEntry}"; set ${VAULT_KEY_ENV} so it can be deleted with the site`);
+      }
+
+      const summary = siteSummary(current);
+      // The file goes first: if it can't be written, the site stays
+      if (configFile) {
+        removeSiteFromConfigFile(configFile, current.id);
+      }
+      if (vaultEntry) deleteVaultEntry(vaultEntry);
+      siteManager.removeSite(current.id);
+      await forgetSiteCaches(current.id);
+
+      const deleted = [configFile && ` and deleted it from ${configFile}`, vaultEntry && ` and its vault entry "${vaultEntry}"`];
+      return siteChangeResult(summary, configFile, `Removed site '${current.id}'${deleted.filter(Boolean).join('')}`);
+    } catch (error: any) {
+      return toolErrorResult('removing site', error);
     }
   }
 };
@@ -1,13 +1,14 @@
 // src/tools/sql-query.ts
 import { z } from 'zod';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import axios from 'axios';
-import { siteManager } from '../config/site-manager.js';
+import { READ_ONLY } from './annotations.js';
+import { makeWordPressRequest } from '../wordpress.js';
+import { toolErrorResult } from '../errors.js';
 
 // Schema for SQL query execution
 const executeSqlQuerySchema = z.object({
   query: z.string().describe('SQL query to execute (read-only queries: SELECT, WITH...SELECT, EXPLAIN only)'),
-  site_id: z.string().optional().describe('Site ID for multi-site setups. Must match a configured site id (WORDPRESS_<n>_ID, e.g. "site1", or "default" for single-site). Domains and aliases are not resolved here; omit to use the default site.')
+  site_id: z.string().optional().describe('Site ID or alias for multi-site setups (WORDPRESS_<n>_ID, e.g. "site1", or "default" for single-site). Omit to use the default site.')
 });
 
 // Type definition
@@ -36,7 +37,8 @@ export const sqlQueryTools: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: executeSqlQuerySchema.shape
-    } as unknown as Tool['inputSchema']
+    } as unknown as Tool['inputSchema'],
+    annotations: READ_ONLY
   }
 ];
 
@@ -83,64 +85,26 @@ export const sqlQueryHandlers = {
         }
       }
 
-      // Build absolute URL directly from site config.
-      // makeWordPressRequest prepends /wp-json/wp/v2/ to all paths, so it cannot
-      // be used for the SQL endpoint which lives at /wp-json/mcp/v1/query.
-      const site = siteManager.getSite(params.site_id);
       const sqlPath = process.env.WORDPRESS_SQL_ENDPOINT || '/mcp/v1/query';
-      const siteBase = site.url.replace(/\/$/, '');
-      const url = `${siteBase}/wp-json${sqlPath}`;
-
-      const auth = Buffer.from(`${site.username}:${site.password}`).toString('base64');
-
-      const response = await axios.post(url, { query }, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Basic ${auth}`,
-          'User-Agent': 'Mozilla/5.0'
-        },
-        timeout: 30000
+      const data = await makeWordPressRequest('POST', sqlPath, { query }, {
+        siteId: params.site_id,
+        // The endpoint is a full route outside wp/v2
+        namespace: '',
+        headers: { 'User-Agent': 'Mozilla/5.0' }
       });
 
-      // Handle large result sets
-      const text = JSON.stringify(response.data, null, 2);
-      const MAX_LENGTH = 50000;
-      const resultText = text.length > MAX_LENGTH
-        ? text.slice(0, MAX_LENGTH) + '\n\n...(truncated - result too large)'
-        : text;
-
       return {
         toolResult: {
-          content: [{ type: 'text' as const, text: resultText }]
+          content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }],
+          isError: false
         }
       };
 
     } catch (error: any) {
       const sqlPath = process.env.WORDPRESS_SQL_ENDPOINT || '/mcp/v1/query';
-
-      if (error.response?.status === 404) {
-        return {
-          toolResult: {
-            content: [{
-              type: 'text' as const,
-              text: `Error: SQL query endpoint not found (HTTP 404). The custom REST API endpoint is not enabled on your WordPress site.
-
-To enable this feature, see the setup instructions in README.md under "Enabling SQL Query Tool (Optional)".
-
-Expected endpoint: ${sqlPath}
-You can customize this by setting the WORDPRESS_SQL_ENDPOINT environment variable.`
-            }],
-            isError: true
-          }
-        };
-      }
-
-      return {
-        toolResult: {
-          content: [{ type: 'text' as const, text: `Error executing SQL query: ${error.message}` }],
-          isError: true
-        }
-      };
+      return toolErrorResult('executing SQL query', error, {
+        '404': `The SQL query endpoint (${sqlPath}) is not enabled on this site. See "Enabling SQL Query Tool (Optional)" in README.md, or set WORDPRESS_SQL_ENDPOINT to your endpoint's path.`
+      });
     }
   }
 };
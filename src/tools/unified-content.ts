@@ -1,6 +1,12 @@
 // src/tools/unified-content.ts
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CREATE, DELETE, READ_ONLY, UPDATE } from './annotations.js';
+import { contentItemSchema, listOutputShape } from './output-schemas.js';
+import { fetchPaginatedList, paginatedResult, paginationParamsShape } from './pagination.js';
+import { embedParamShape, fieldsParamShape, normalizeEmbedded, normalizeFieldList, projectionQuery } from './projection.js';
 import { makeWordPressRequest, logToFile } from '../wordpress.js';
+import { isAbortError, throwIfAborted } from '../request-context.js';
+import { toolErrorResult } from '../errors.js';
 import { z } from 'zod';
 import * as fs from 'fs-extra';
 import * as path from 'path';
@@ -54,8 +60,26 @@ async function saveCacheToDisk(data: any, siteId?: string): Promise<void> {
   }
 }
 
+/**
+ * Forget cached post types, in memory and on disk (after a site's config
+ * changes). The memory cache isn't per site, so everything goes.
+ */
+export async function resetPostTypesCache(): Promise<void> {
+  postTypesCache = null;
+  cacheTimestamp = 0;
+  try {
+    const files = await fs.readdir(CACHE_DIR);
+    await Promise.all(files
+      .filter(file => file.startsWith('content-types-'))
+      .map(file => fs.remove(path.join(CACHE_DIR, file))));
+  } catch (error) {
+    logToFile(`Failed to clear post type cache: ${error}`, 'debug');
+  }
+}
+
 // Helper function to get all post types with caching
-async function getPostTypes(forceRefresh = false, siteId?: string) {
+// Exported for argument completion (src/completions.ts)
+export async function getPostTypes(forceRefresh = false, siteId?: string) {
   const now = Date.now();
 
   // Try memory cache first
@@ -112,6 +136,7 @@ export async function getContentEndpoint(contentType: string, siteId?: string):
       return postTypes[contentType].rest_base;
     }
   } catch (error) {
+    if (isAbortError(error)) throw error;
     logToFile(`Failed to get rest_base for content type ${contentType}: ${error}`);
   }
 
@@ -174,6 +199,9 @@ async function findContentAcrossTypes(slug: string, contentTypes?: string[], sit
           return { content: response[0], contentType };
         }
       } catch (error) {
+        // A cancelled tool call must reject the whole fan-out, not read as
+        // "not found in this type"
+        if (isAbortError(error)) throw error;
         logToFile(`Error searching ${contentType}: ${error}`, 'debug');
       }
       return null;
@@ -188,6 +216,7 @@ async function findContentAcrossTypes(slug: string, contentTypes?: string[], sit
   } else {
     // Sequential search (fallback or when only 1 type)
     for (const contentType of typesToSearch) {
+      throwIfAborted();
       try {
         const endpoint = await getContentEndpoint(contentType, siteId);
 
@@ -201,6 +230,7 @@ async function findContentAcrossTypes(slug: string, contentTypes?: string[], sit
           return { content: response[0], contentType };
         }
       } catch (error) {
+        if (isAbortError(error)) throw error;
         logToFile(`Error searching ${contentType}: ${error}`, 'debug');
       }
     }
@@ -617,16 +647,19 @@ async function fetchContentById(
   endpoint: string,
   id: number,
   siteId?: string,
-  includeRawContent: boolean = false
+  includeRawContent: boolean = false,
+  projection: Record<string, string> = {}
 ) {
+  const query = { ...(includeRawContent && { context: 'edit' }), ...projection };
   const response = await makeWordPressRequest(
     'GET',
     `${endpoint}/${id}`,
-    includeRawContent ? { context: 'edit' } : undefined,
+    Object.keys(query).length > 0 ? query : undefined,
     { siteId }
   );
 
-  return includeRawContent ? withContentRawAlias(response) : response;
+  const content = projection._embed ? normalizeEmbedded(response) : response;
+  return includeRawContent ? withContentRawAlias(content) : content;
 }
 
 async function resolveUpdatedContent(
@@ -714,7 +747,10 @@ const listContentSchema = z.object({
   orderby: z.string().optional().describe("Sort content by parameter"),
   order: z.enum(['asc', 'desc']).optional().describe("Order sort attribute"),
   after: z.string().optional().describe("ISO8601 date string to get content published after this date"),
-  before: z.string().optional().describe("ISO8601 date string to get content published before this date")
+  before: z.string().optional().describe("ISO8601 date string to get content published before this date"),
+  ...fieldsParamShape,
+  ...embedParamShape,
+  ...paginationParamsShape
 });
 
 const getContentSchema = z.object({
@@ -723,7 +759,9 @@ const getContentSchema = z.object({
   site_id: z.string().optional().describe("Site ID (for multi-site setups)"),
   include_raw_content: z.boolean().optional().default(false).describe(
     "Fetch the content with WordPress edit context and include a top-level content_raw field for exact matching"
-  )
+  ),
+  ...fieldsParamShape,
+  ...embedParamShape
 });
 
 const createContentSchema = z.object({
@@ -870,6 +908,35 @@ const getContentBySlugSchema = z.object({
   content_types: z.array(z.string()).optional().describe("Content types to search in (defaults to all)")
 });
 
+// Output schemas (structuredContent)
+const contentWriteOutputShape = {
+  content: contentItemSchema,
+  dropped_meta_keys: z.array(z.string()).describe("Meta keys that were sent but not persisted by WordPress")
+};
+
+const contentTypesOutputShape = {
+  types: z.array(z.object({
+    slug: z.string(),
+    name: z.string().optional(),
+    description: z.string().optional(),
+    rest_base: z.string().optional(),
+    hierarchical: z.boolean().optional(),
+    supports: z.record(z.any()).optional(),
+    taxonomies: z.array(z.string()).optional()
+  }))
+};
+
+const contentLookupOutputShape = {
+  found: z.boolean(),
+  content_type: z.string(),
+  content_id: z.number().optional(),
+  original_url: z.string().optional(),
+  updated: z.boolean().optional(),
+  content: contentItemSchema,
+  content_raw: z.string().optional(),
+  dropped_meta_keys: z.array(z.string()).optional()
+};
+
 // Type definitions
 type ListContentParams = z.infer<typeof listContentSchema>;
 type GetContentParams = z.infer<typeof getContentSchema>;
@@ -884,32 +951,44 @@ export const unifiedContentTools: Tool[] = [
   {
     name: "list_content",
     description: "Lists content of any type (posts, pages, or custom post types) with filtering and pagination",
-    inputSchema: { type: "object", properties: listContentSchema.shape }
+    inputSchema: { type: "object", properties: listContentSchema.shape },
+    outputSchema: { type: "object", properties: listOutputShape(contentItemSchema) },
+    annotations: READ_ONLY
   },
   {
     name: "get_content",
     description: "Gets specific content by ID and content type",
-    inputSchema: { type: "object", properties: getContentSchema.shape }
+    inputSchema: { type: "object", properties: getContentSchema.shape },
+    outputSchema: { type: "object", properties: contentItemSchema.shape },
+    annotations: READ_ONLY
   },
   {
     name: "create_content",
     description: "Creates new content of any type",
-    inputSchema: { type: "object", properties: createContentSchema.shape }
+    inputSchema: { type: "object", properties: createContentSchema.shape },
+    outputSchema: { type: "object", properties: contentWriteOutputShape },
+    annotations: CREATE
   },
   {
     name: "update_content",
     description: "Updates existing content of any type",
-    inputSchema: { type: "object", properties: updateContentSchemaShape }
+    inputSchema: { type: "object", properties: updateContentSchemaShape },
+    outputSchema: { type: "object", properties: contentWriteOutputShape },
+    // content_edit append/prepend applies again on every repeat call
+    annotations: { ...UPDATE, idempotentHint: false }
   },
   {
     name: "delete_content",
     description: "Deletes content of any type",
-    inputSchema: { type: "object", properties: deleteContentSchema.shape }
+    inputSchema: { type: "object", properties: deleteContentSchema.shape },
+    annotations: DELETE
   },
   {
     name: "discover_content_types",
     description: "Discovers all available content types (built-in and custom) in the WordPress site",
-    inputSchema: { type: "object", properties: discoverContentTypesSchema.shape }
+    inputSchema: { type: "object", properties: discoverContentTypesSchema.shape },
+    outputSchema: { type: "object", properties: contentTypesOutputShape },
+    annotations: READ_ONLY
   },
   {
     name: "find_content_by_url", 
@@ -921,12 +1000,16 @@ export const unifiedContentTools: Tool[] = [
         "Fetch the matched content with WordPress edit context and include a top-level content_raw field for exact matching"
       ),
       update_fields: z.object(findContentByUrlUpdateFieldsShape).optional().describe("Optional fields to update after finding the content")
-    } }
+    } },
+    outputSchema: { type: "object", properties: contentLookupOutputShape },
+    annotations: { ...UPDATE, idempotentHint: false }
   },
   {
     name: "get_content_by_slug",
     description: "Searches for content by slug across one or more content types",
-    inputSchema: { type: "object", properties: getContentBySlugSchema.shape }
+    inputSchema: { type: "object", properties: getContentBySlugSchema.shape },
+    outputSchema: { type: "object", properties: contentLookupOutputShape },
+    annotations: READ_ONLY
   }
 ];
 
@@ -934,44 +1017,29 @@ export const unifiedContentHandlers = {
   list_content: async (params: ListContentParams) => {
     try {
       const endpoint = await getContentEndpoint(params.content_type, params.site_id);
-      const { content_type, site_id, ...queryParams } = params;
-
-      const response = await makeWordPressRequest('GET', endpoint, queryParams, { siteId: site_id });
+      const { content_type, site_id, fields, embed, ...queryParams } = params;
 
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: JSON.stringify(response, null, 2)
-          }],
-          isError: false
-        }
-      };
+      const list = await fetchPaginatedList(endpoint, { ...queryParams, ...projectionQuery({ fields, embed }) }, site_id);
+      return paginatedResult(embed ? { ...list, items: list.items.map(normalizeEmbedded) } : list);
     } catch (error: any) {
-      // Add helpful guidance for agents
-      const guidance = error.message.includes('404') || error.message.includes('Not Found')
-        ? '\nHint: Try running discover_content_types first to see available content types.'
-        : '';
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error listing content: ${error.message}${guidance}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('listing content', error);
     }
   },
 
   get_content: async (params: GetContentParams) => {
     try {
       const endpoint = await getContentEndpoint(params.content_type, params.site_id);
+      const includeRawContent = params.include_raw_content || false;
+      // content_raw is derived from content.raw, so a projection must keep it
+      const fields = includeRawContent && params.fields !== undefined
+        ? [...normalizeFieldList(params.fields), 'content']
+        : params.fields;
       const response = await fetchContentById(
         endpoint,
         params.id,
         params.site_id,
-        params.include_raw_content || false
+        includeRawContent,
+        projectionQuery({ fields, embed: params.embed })
       );
 
       return {
@@ -980,22 +1048,12 @@ export const unifiedContentHandlers = {
             type: 'text',
             text: JSON.stringify(response, null, 2)
           }],
+          structuredContent: response,
           isError: false
         }
       };
     } catch (error: any) {
-      const guidance = error.message.includes('404') || error.message.includes('Not Found')
-        ? '\nHint: Check if the content type exists with discover_content_types.'
-        : '';
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error getting content: ${error.message}${guidance}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('getting content', error);
     }
   },
 
@@ -1056,22 +1114,12 @@ export const unifiedContentHandlers = {
       return {
         toolResult: {
           content: responseContent,
+          structuredContent: { content: response, dropped_meta_keys: droppedMeta },
           isError: false
         }
       };
     } catch (error: any) {
-      const guidance = error.message.includes('404') || error.message.includes('Not Found')
-        ? '\nHint: The content type may not exist. Run discover_content_types to see available types.'
-        : '';
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error creating content: ${error.message}${guidance}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('creating content', error);
     }
   },
 
@@ -1094,19 +1142,12 @@ export const unifiedContentHandlers = {
       return {
         toolResult: {
           content: responseContent,
+          structuredContent: { content: response, dropped_meta_keys: droppedMeta },
           isError: false
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error updating content: ${error.message}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('updating content', error);
     }
   },
 
@@ -1128,15 +1169,7 @@ export const unifiedContentHandlers = {
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{ 
-            type: 'text', 
-            text: `Error deleting content: ${error.message}` 
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('deleting content', error);
     }
   },
 
@@ -1161,19 +1194,12 @@ export const unifiedContentHandlers = {
             type: 'text', 
             text: JSON.stringify(formattedTypes, null, 2) 
           }],
+          structuredContent: { types: formattedTypes },
           isError: false
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{ 
-            type: 'text', 
-            text: `Error discovering content types: ${error.message}` 
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('discovering content types', error);
     }
   },
 
@@ -1199,17 +1225,18 @@ export const unifiedContentHandlers = {
         await makeWordPressRequest('POST', `${endpoint}/${content.id}`, updateData, { siteId: params.site_id });
         const updatedContent = await fetchContentById(endpoint, content.id, params.site_id, params.include_raw_content || false);
 
+        const result = {
+          found: true,
+          content_type: contentType,
+          content_id: content.id,
+          original_url: params.url,
+          updated: true,
+          content: updatedContent,
+          content_raw: params.include_raw_content ? updatedContent.content_raw : undefined
+        };
         const responseContent: any[] = [{
           type: 'text',
-          text: JSON.stringify({
-            found: true,
-            content_type: contentType,
-            content_id: content.id,
-            original_url: params.url,
-            updated: true,
-            content: updatedContent,
-            content_raw: params.include_raw_content ? updatedContent.content_raw : undefined
-          }, null, 2)
+          text: JSON.stringify(result, null, 2)
         }];
         const droppedMeta = detectDroppedMetaKeys(params.update_fields.meta, updatedContent);
         if (droppedMeta.length > 0) {
@@ -1219,6 +1246,7 @@ export const unifiedContentHandlers = {
         return {
           toolResult: {
             content: responseContent,
+            structuredContent: { ...result, dropped_meta_keys: droppedMeta },
             isError: false
           }
         };
@@ -1228,32 +1256,27 @@ export const unifiedContentHandlers = {
         ? await fetchContentById(await getContentEndpoint(contentType, params.site_id), content.id, params.site_id, true)
         : content;
 
+      const lookup = {
+        found: true,
+        content_type: contentType,
+        content_id: content.id,
+        original_url: params.url,
+        content: responseContent,
+        content_raw: params.include_raw_content ? responseContent.content_raw : undefined
+      };
+
       return {
         toolResult: {
           content: [{
             type: 'text',
-            text: JSON.stringify({
-              found: true,
-              content_type: contentType,
-              content_id: content.id,
-              original_url: params.url,
-              content: responseContent,
-              content_raw: params.include_raw_content ? responseContent.content_raw : undefined
-            }, null, 2)
+            text: JSON.stringify(lookup, null, 2)
           }],
+          structuredContent: lookup,
           isError: false
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error finding content by URL: ${error.message}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('finding content by URL', error);
     }
   },
 
@@ -1265,29 +1288,25 @@ export const unifiedContentHandlers = {
         throw new Error(`No content found with slug: ${params.slug}`);
       }
       
+      const lookup = {
+        found: true,
+        content_type: result.contentType,
+        content_id: result.content.id,
+        content: result.content
+      };
+
       return {
         toolResult: {
           content: [{ 
             type: 'text', 
-            text: JSON.stringify({
-              found: true,
-              content_type: result.contentType,
-              content: result.content
-            }, null, 2)
+            text: JSON.stringify(lookup, null, 2)
           }],
+          structuredContent: lookup,
           isError: false
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{ 
-            type: 'text', 
-            text: `Error getting content by slug: ${error.message}` 
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('getting content by slug', error);
     }
   }
 };
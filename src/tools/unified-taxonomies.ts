@@ -1,6 +1,11 @@
 // src/tools/unified-taxonomies.ts
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CREATE, DELETE, READ_ONLY, UPDATE } from './annotations.js';
+import { listOutputShape, termItemSchema } from './output-schemas.js';
+import { fetchPaginatedList, paginatedResult, paginationParamsShape } from './pagination.js';
+import { fieldsParamShape, projectionQuery } from './projection.js';
 import { makeWordPressRequest, logToFile } from '../wordpress.js';
+import { toolErrorResult } from '../errors.js';
 import { getContentEndpoint } from './unified-content.js';
 import { z } from 'zod';
 
@@ -12,8 +17,17 @@ interface TaxonomyCacheEntry {
 const taxonomiesCache = new Map<string, TaxonomyCacheEntry>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+/**
+ * Forget cached taxonomies (after a site's config changes). Entries are keyed
+ * by the site_id callers passed, possibly an alias, so everything goes.
+ */
+export function resetTaxonomiesCache(): void {
+  taxonomiesCache.clear();
+}
+
 // Helper function to get all taxonomies for a site with caching
-async function getTaxonomies(forceRefresh = false, siteId?: string) {
+// Exported for argument completion (src/completions.ts)
+export async function getTaxonomies(forceRefresh = false, siteId?: string) {
   const cacheKey = siteId || '__default__';
   const now = Date.now();
   const cached = taxonomiesCache.get(cacheKey);
@@ -47,7 +61,7 @@ async function getTaxonomies(forceRefresh = false, siteId?: string) {
  * Hard-errors on unknown taxonomies: a silent slug fallback is what
  * previously let writes report success while writing nothing.
  */
-async function resolveTaxonomy(input: string, siteId?: string): Promise<{ slug: string; restBase: string }> {
+export async function resolveTaxonomy(input: string, siteId?: string): Promise<{ slug: string; restBase: string }> {
   const findIn = (taxonomies: any) => {
     for (const [slug, info] of Object.entries<any>(taxonomies)) {
       if (slug === input || info.rest_base === input) {
@@ -90,13 +104,16 @@ const listTermsSchema = z.object({
   hide_empty: z.boolean().optional().describe("Whether to hide terms not assigned to any content"),
   orderby: z.enum(['id', 'include', 'name', 'slug', 'term_group', 'description', 'count']).optional().describe("Sort terms by parameter"),
   order: z.enum(['asc', 'desc']).optional().describe("Order sort attribute"),
-  site_id: siteIdSchema
+  site_id: siteIdSchema,
+  ...fieldsParamShape,
+  ...paginationParamsShape
 });
 
 const getTermSchema = z.object({
   taxonomy: z.string().describe("The taxonomy slug or rest_base"),
   id: z.number().describe("Term ID"),
-  site_id: siteIdSchema
+  site_id: siteIdSchema,
+  ...fieldsParamShape
 });
 
 const createTermSchema = z.object({
@@ -143,6 +160,37 @@ const getContentTermsSchema = z.object({
   site_id: siteIdSchema
 });
 
+// Output schemas (structuredContent)
+const taxonomiesOutputShape = {
+  taxonomies: z.array(z.object({
+    slug: z.string(),
+    name: z.string().optional(),
+    description: z.string().optional(),
+    types: z.array(z.string()).optional(),
+    hierarchical: z.boolean().optional(),
+    rest_base: z.string().optional(),
+    labels: z.record(z.any()).optional()
+  }))
+};
+
+const assignTermsOutputShape = {
+  success: z.boolean(),
+  verified: z.boolean(),
+  content_id: z.number(),
+  content_type: z.string(),
+  taxonomy: z.string(),
+  rest_base: z.string(),
+  assigned_terms: z.array(z.number()),
+  appended: z.boolean()
+};
+
+const contentTermsOutputShape = {
+  content_id: z.number(),
+  content_type: z.string(),
+  terms: z.record(z.array(termItemSchema.extend({ error: z.string().optional() })))
+    .describe("Assigned terms keyed by taxonomy slug")
+};
+
 // Type definitions
 type DiscoverTaxonomiesParams = z.infer<typeof discoverTaxonomiesSchema>;
 type ListTermsParams = z.infer<typeof listTermsSchema>;
@@ -157,42 +205,57 @@ export const unifiedTaxonomyTools: Tool[] = [
   {
     name: "discover_taxonomies",
     description: "Discovers all available taxonomies (built-in and custom) in the WordPress site, including each taxonomy's rest_base",
-    inputSchema: { type: "object", properties: discoverTaxonomiesSchema.shape }
+    inputSchema: { type: "object", properties: discoverTaxonomiesSchema.shape },
+    outputSchema: { type: "object", properties: taxonomiesOutputShape },
+    annotations: READ_ONLY
   },
   {
     name: "list_terms",
     description: "Lists terms in any taxonomy (categories, tags, or custom taxonomies) with filtering and pagination",
-    inputSchema: { type: "object", properties: listTermsSchema.shape }
+    inputSchema: { type: "object", properties: listTermsSchema.shape },
+    outputSchema: { type: "object", properties: listOutputShape(termItemSchema) },
+    annotations: READ_ONLY
   },
   {
     name: "get_term",
     description: "Gets a specific term by ID from any taxonomy",
-    inputSchema: { type: "object", properties: getTermSchema.shape }
+    inputSchema: { type: "object", properties: getTermSchema.shape },
+    outputSchema: { type: "object", properties: termItemSchema.shape },
+    annotations: READ_ONLY
   },
   {
     name: "create_term",
     description: "Creates a new term in any taxonomy",
-    inputSchema: { type: "object", properties: createTermSchema.shape }
+    inputSchema: { type: "object", properties: createTermSchema.shape },
+    outputSchema: { type: "object", properties: termItemSchema.shape },
+    annotations: CREATE
   },
   {
     name: "update_term",
     description: "Updates an existing term in any taxonomy",
-    inputSchema: { type: "object", properties: updateTermSchema.shape }
+    inputSchema: { type: "object", properties: updateTermSchema.shape },
+    outputSchema: { type: "object", properties: termItemSchema.shape },
+    annotations: UPDATE
   },
   {
     name: "delete_term",
     description: "Deletes a term from any taxonomy",
-    inputSchema: { type: "object", properties: deleteTermSchema.shape }
+    inputSchema: { type: "object", properties: deleteTermSchema.shape },
+    annotations: DELETE
   },
   {
     name: "assign_terms_to_content",
     description: "Assigns taxonomy terms to content of any type. Verifies the write against the WordPress response and errors if the terms were not actually saved.",
-    inputSchema: { type: "object", properties: assignTermsToContentSchema.shape }
+    inputSchema: { type: "object", properties: assignTermsToContentSchema.shape },
+    outputSchema: { type: "object", properties: assignTermsOutputShape },
+    annotations: UPDATE
   },
   {
     name: "get_content_terms",
     description: "Gets all taxonomy terms assigned to content of any type",
-    inputSchema: { type: "object", properties: getContentTermsSchema.shape }
+    inputSchema: { type: "object", properties: getContentTermsSchema.shape },
+    outputSchema: { type: "object", properties: contentTermsOutputShape },
+    annotations: READ_ONLY
   }
 ];
 
@@ -228,48 +291,23 @@ export const unifiedTaxonomyHandlers = {
             type: 'text',
             text: JSON.stringify(formattedTaxonomies, null, 2)
           }],
+          structuredContent: { taxonomies: formattedTaxonomies },
           isError: false
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error discovering taxonomies: ${error.message}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('discovering taxonomies', error);
     }
   },
 
   list_terms: async (params: ListTermsParams) => {
     try {
       const { restBase } = await resolveTaxonomy(params.taxonomy, params.site_id);
-      const { taxonomy, site_id, ...queryParams } = params;
+      const { taxonomy, site_id, fields, ...queryParams } = params;
 
-      const response = await makeWordPressRequest('GET', restBase, queryParams, { siteId: site_id });
-
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: JSON.stringify(response, null, 2)
-          }],
-          isError: false
-        }
-      };
+      return paginatedResult(await fetchPaginatedList(restBase, { ...queryParams, ...projectionQuery({ fields }) }, site_id));
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error listing terms: ${error.message}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('listing terms', error);
     }
   },
 
@@ -277,7 +315,13 @@ export const unifiedTaxonomyHandlers = {
     try {
       const { restBase } = await resolveTaxonomy(params.taxonomy, params.site_id);
 
-      const response = await makeWordPressRequest('GET', `${restBase}/${params.id}`, undefined, { siteId: params.site_id });
+      const projection = projectionQuery({ fields: params.fields });
+      const response = await makeWordPressRequest(
+        'GET',
+        `${restBase}/${params.id}`,
+        Object.keys(projection).length > 0 ? projection : undefined,
+        { siteId: params.site_id }
+      );
 
       return {
         toolResult: {
@@ -285,19 +329,12 @@ export const unifiedTaxonomyHandlers = {
             type: 'text',
             text: JSON.stringify(response, null, 2)
           }],
+          structuredContent: response,
           isError: false
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error getting term: ${error.message}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('getting term', error);
     }
   },
 
@@ -322,19 +359,12 @@ export const unifiedTaxonomyHandlers = {
             type: 'text',
             text: JSON.stringify(response, null, 2)
           }],
+          structuredContent: response,
           isError: false
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error creating term: ${error.message}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('creating term', error);
     }
   },
 
@@ -358,19 +388,12 @@ export const unifiedTaxonomyHandlers = {
             type: 'text',
             text: JSON.stringify(response, null, 2)
           }],
+          structuredContent: response,
           isError: false
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error updating term: ${error.message}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('updating term', error);
     }
   },
 
@@ -392,15 +415,7 @@ export const unifiedTaxonomyHandlers = {
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error deleting term: ${error.message}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('deleting term', error);
     }
   },
 
@@ -449,39 +464,34 @@ export const unifiedTaxonomyHandlers = {
         };
       }
 
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              success: true,
-              verified: true,
-              content_id: params.content_id,
-              content_type: params.content_type,
-              taxonomy: slug,
-              rest_base: restBase,
-              assigned_terms: savedTerms,
-              appended: params.append || false,
-              content: {
-                id: response.id,
-                link: response.link,
-                [restBase]: savedTerms
-              }
-            }, null, 2)
-          }],
-          isError: false
+      const result = {
+        success: true,
+        verified: true,
+        content_id: params.content_id,
+        content_type: params.content_type,
+        taxonomy: slug,
+        rest_base: restBase,
+        assigned_terms: savedTerms as number[],
+        appended: params.append || false,
+        content: {
+          id: response.id,
+          link: response.link,
+          [restBase]: savedTerms
         }
       };
-    } catch (error: any) {
+
       return {
         toolResult: {
           content: [{
             type: 'text',
-            text: `Error assigning terms to content: ${error.message}`
+            text: JSON.stringify(result, null, 2)
           }],
-          isError: true
+          structuredContent: result,
+          isError: false
         }
       };
+    } catch (error: any) {
+      return toolErrorResult('assigning terms to content', error);
     }
   },
 
@@ -531,29 +541,24 @@ export const unifiedTaxonomyHandlers = {
         }
       }
 
+      const result = {
+        content_id: params.content_id,
+        content_type: params.content_type,
+        terms: terms
+      };
+
       return {
         toolResult: {
           content: [{
             type: 'text',
-            text: JSON.stringify({
-              content_id: params.content_id,
-              content_type: params.content_type,
-              terms: terms
-            }, null, 2)
+            text: JSON.stringify(result, null, 2)
           }],
+          structuredContent: result,
           isError: false
         }
       };
     } catch (error: any) {
-      return {
-        toolResult: {
-          content: [{
-            type: 'text',
-            text: `Error getting content terms: ${error.message}`
-          }],
-          isError: true
-        }
-      };
+      return toolErrorResult('getting content terms', error);
     }
   }
 };
@@ -1,7 +1,12 @@
 // src/tools/users.ts
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CREATE, DELETE, READ_ONLY, UPDATE } from './annotations.js';
+import { listOutputShape, userItemSchema } from './output-schemas.js';
+import { fetchPaginatedList, paginatedResult, paginationParamsShape } from './pagination.js';
+import { fieldsParamShape, projectionQuery } from './projection.js';
 import { makeWordPressRequest } from '../wordpress.js';
 import { WPUser } from '../types/wordpress-types.js';
+import { toolErrorResult } from '../errors.js';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 
@@ -12,7 +17,9 @@ const listUsersSchema = z.object({
   context: z.enum(['view', 'embed', 'edit']).optional().describe("Scope under which the request is made"),
   orderby: z.enum(['id', 'include', 'name', 'registered_date', 'slug', 'email', 'url']).optional().describe("Sort users by parameter"),
   order: z.enum(['asc', 'desc']).optional().describe("Order sort attribute ascending or descending"),
-  roles: z.array(z.string()).optional().describe("Array of role names to filter by")
+  roles: z.array(z.string()).optional().describe("Array of role names to filter by"),
+  ...fieldsParamShape,
+  ...paginationParamsShape
 });
 
 const getUserSchema = z.object({
@@ -67,48 +74,46 @@ export const userTools: Tool[] = [
   {
     name: "list_users",
     description: "Lists all users with filtering, sorting, and pagination options",
-    inputSchema: { type: "object", properties: listUsersSchema.shape }
+    inputSchema: { type: "object", properties: listUsersSchema.shape },
+    outputSchema: { type: "object", properties: listOutputShape(userItemSchema) },
+    annotations: READ_ONLY
   },
   {
     name: "get_user",
     description: "Gets a user by ID",
-    inputSchema: { type: "object", properties: getUserSchema.shape }
+    inputSchema: { type: "object", properties: getUserSchema.shape },
+    outputSchema: { type: "object", properties: userItemSchema.shape },
+    annotations: READ_ONLY
   },
   {
     name: "create_user",
     description: "Creates a new user",
-    inputSchema: { type: "object", properties: createUserSchema.shape }
+    inputSchema: { type: "object", properties: createUserSchema.shape },
+    outputSchema: { type: "object", properties: userItemSchema.shape },
+    annotations: CREATE
   },
   {
     name: "update_user",
     description: "Updates an existing user",
-    inputSchema: { type: "object", properties: updateUserSchema.shape }
+    inputSchema: { type: "object", properties: updateUserSchema.shape },
+    outputSchema: { type: "object", properties: userItemSchema.shape },
+    annotations: UPDATE
   },
   {
     name: "delete_user",
     description: "Deletes a user",
-    inputSchema: { type: "object", properties: deleteUserSchema.shape }
+    inputSchema: { type: "object", properties: deleteUserSchema.shape },
+    annotations: DELETE
   }
 ];
 
 export const userHandlers = {
   list_users: async (params: ListUsersParams) => {
     try {
-      const response = await makeWordPressRequest('GET', "users", params);
-      const users: WPUser[] = response;
-      return {
-        toolResult: {
-          content: [{ type: 'text', text: JSON.stringify(users, null, 2) }],
-        },
-      };
+      const { fields, ...queryParams } = params;
+      return paginatedResult(await fetchPaginatedList<WPUser>("users", { ...queryParams, ...projectionQuery({ fields }) }));
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error listing users: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('listing users', error);
     }
   },
   get_user: async (params: GetUserParams) => {
@@ -118,16 +123,11 @@ export const userHandlers = {
       return {
         toolResult: {
           content: [{ type: 'text', text: JSON.stringify(user, null, 2) }],
+          structuredContent: user,
         },
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error getting user: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('getting user', error);
     }
   },
   create_user: async (params: CreateUserParams) => {
@@ -137,16 +137,11 @@ export const userHandlers = {
       return {
         toolResult: {
           content: [{ type: 'text', text: JSON.stringify(user, null, 2) }],
+          structuredContent: user,
         },
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error creating user: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('creating user', error);
     }
   },
   update_user: async (params: UpdateUserParams) => {
@@ -157,16 +152,11 @@ export const userHandlers = {
       return {
         toolResult: {
           content: [{ type: 'text', text: JSON.stringify(user, null, 2) }],
+          structuredContent: user,
         },
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error updating user: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('updating user', error);
     }
   },
   delete_user: async (params: DeleteUserParams) => {
@@ -182,13 +172,7 @@ export const userHandlers = {
         },
       };
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || error.message;
-      return {
-        toolResult: {
-          isError: true,
-          content: [{ type: 'text', text: `Error deleting user: ${errorMessage}` }],
-        },
-      };
+      return toolErrorResult('deleting user', error);
     }
   }
 };
@@ -0,0 +1,244 @@
+// src/transports/http.ts
+import * as http from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logToFile } from '../wordpress.js';
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Shared secret clients must send as `Authorization: Bearer <token>`. */
+  authToken: string;
+  /** URL path the MCP endpoint is served on. Defaults to `/mcp`. */
+  path?: string;
+  /**
+   * Close sessions with no open request for this long, in milliseconds.
+   * Defaults to 30 minutes; 0 keeps sessions until the client deletes them.
+   */
+  sessionIdleTimeout?: number;
+}
+
+// Tool payloads are JSON arguments (media uploads go through file_path or
+// source_url, not the request body), so a few MB is plenty.
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Clients that crash or drop off without DELETE leave their session behind
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * Resolve HTTP transport options from CLI flags, falling back to environment
+ * variables. Throws when no bearer token is configured: an unauthenticated
+ * shared instance would hand every caller the configured sites' credentials.
+ */
+export function resolveHttpTransportOptions(
+  args: Record<string, string | undefined>,
+  env: NodeJS.ProcessEnv = process.env
+): HttpTransportOptions {
+  const authToken = env.MCP_HTTP_AUTH_TOKEN;
+  if (!authToken) {
+    throw new Error('HTTP transport requires MCP_HTTP_AUTH_TOKEN to be set. Clients must send it as "Authorization: Bearer <token>".');
+  }
+
+  const rawPort = args.port ?? env.MCP_HTTP_PORT ?? '3000';
+  const port = Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${rawPort}`);
+  }
+
+  const rawTimeout = env.MCP_HTTP_SESSION_TIMEOUT;
+  const sessionIdleTimeout = rawTimeout ? Number(rawTimeout) : DEFAULT_SESSION_IDLE_TIMEOUT;
+  if (!Number.isInteger(sessionIdleTimeout) || sessionIdleTimeout < 0) {
+    throw new Error(`Invalid MCP_HTTP_SESSION_TIMEOUT: ${rawTimeout}`);
+  }
+
+  return {
+    host: args.host ?? env.MCP_HTTP_HOST ?? '127.0.0.1',
+    port,
+    authToken,
+    path: env.MCP_HTTP_PATH || '/mcp',
+    sessionIdleTimeout
+  };
+}
+
+function isAuthorized(header: string | undefined, token: string): boolean {
+  if (!header || !header.startsWith('Bearer ')) return false;
+  const provided = Buffer.from(header.slice('Bearer '.length).trim());
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null
+  }));
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+interface HttpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  /** Requests still open, including a client's SSE stream. */
+  openRequests: number;
+  lastActive: number;
+}
+
+/**
+ * Serve MCP over the Streamable HTTP transport.
+ *
+ * Each client session gets its own McpServer (built by `createServer`) and
+ * transport, keyed by the `Mcp-Session-Id` header the transport issues on
+ * initialize. The WordPress site configuration and clients are shared
+ * process-wide through SiteManager, so one instance can front every
+ * configured site for a whole team.
+ *
+ * Sessions end when the client sends DELETE, or after `sessionIdleTimeout`
+ * with no open request. Closing the returned server closes every session
+ * first, so open SSE streams don't keep it from shutting down.
+ */
+export async function startHttpServer(
+  createServer: () => McpServer,
+  options: HttpTransportOptions
+): Promise<http.Server> {
+  const endpointPath = options.path || '/mcp';
+  const idleTimeout = options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+  const sessions = new Map<string, HttpSession>();
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== endpointPath) {
+      sendJsonRpcError(res, 404, `Not found. The MCP endpoint is ${endpointPath}`);
+      return;
+    }
+
+    if (!isAuthorized(req.headers.authorization, options.authToken)) {
+      sendJsonRpcError(res, 401, 'Unauthorized: missing or invalid bearer token', {
+        'WWW-Authenticate': 'Bearer'
+      });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error: any) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          jsonrpc: '2.0',
+          error: { code: -32700, message: `Parse error: ${error.message}` },
+          id: null
+        }));
+        return;
+      }
+    }
+
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+        return;
+      }
+      session.openRequests++;
+      res.once('close', () => {
+        session.openRequests--;
+        session.lastActive = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, openRequests: 0, lastActive: Date.now() });
+        logToFile(`HTTP session opened: ${id} (${sessions.size} active)`, 'info');
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logToFile(`HTTP session closed: ${transport.sessionId} (${sessions.size} active)`, 'info');
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  // Closing the server closes its transport, whose onclose forgets the session
+  const closeSession = (session: HttpSession) => session.server.close().catch(() => {});
+
+  const sweep = idleTimeout > 0
+    ? setInterval(() => {
+      const cutoff = Date.now() - idleTimeout;
+      for (const [id, session] of sessions) {
+        if (session.openRequests === 0 && session.lastActive < cutoff) {
+          logToFile(`HTTP session ${id} idle for ${idleTimeout} ms; closing it`, 'info');
+          void closeSession(session);
+        }
+      }
+    }, Math.min(idleTimeout, 60 * 1000))
+    : undefined;
+  sweep?.unref();
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      logToFile(`HTTP transport error: ${error instanceof Error ? error.stack || error.message : error}`, 'error');
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  // http.Server.close() waits for open connections, and SSE streams stay
+  // open until their session is closed, so sessions go first
+  const closeHttpServer = httpServer.close.bind(httpServer);
+  httpServer.close = ((callback?: (error?: Error) => void) => {
+    clearInterval(sweep);
+    void Promise.all([...sessions.values()].map(closeSession)).then(() => {
+      sessions.clear();
+      closeHttpServer(callback);
+    });
+    return httpServer;
+  }) as typeof httpServer.close;
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
@@ -1,13 +1,20 @@
 // src/wordpress.ts
 import * as dotenv from 'dotenv';
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
 import { siteManager } from './config/site-manager.js';
+import { getRequestContext, isAbortError } from './request-context.js';
+import { logToFile } from './logging.js';
+import { normalizeWordPressError } from './errors.js';
 
-// Legacy global WordPress API client instance for backward compatibility
-let wpClient: AxiosInstance;
+// logToFile lives in logging.ts; re-exported so existing imports keep working
+export { logToFile };
 
 const DEFAULT_STRIP_FIELDS = ['yoast_head', 'yoast_head_json'];
 
+// Applied to calls that don't belong to a configured site (WordPress.org
+// plugin API). Per-site timeouts live on SiteConfig.timeout.
+export const DEFAULT_REQUEST_TIMEOUT = 30000;
+
 /**
  * Resolve the list of top-level fields to strip from WP REST responses.
  * Reads MCP_WP_STRIP_FIELDS (comma-separated) and falls back to the default list.
@@ -51,25 +58,18 @@ export function trimResponseFields<T>(data: T, fields: string[]): T {
  * Now uses SiteManager for multi-site support
  */
 export async function initWordPress() {
-  // Initialize the default site client
-  const client = await siteManager.getClient();
-  wpClient = client;
+  // Connect the default site up front. Requests look the client up on each
+  // call, so a default site changed by update_site or remove_site is followed.
+  await siteManager.getClient();
   logToFile('WordPress client initialized successfully via SiteManager', 'info');
 }
 
-export function logToFile(message: string, level: 'debug' | 'info' | 'error' = 'debug') {
-  // Enable logging to stderr (MCP uses stdout for protocol, so we use stderr for logs)
-  // Can be disabled by setting DISABLE_LOGGING=true or controlled via LOG_LEVEL
-  if (process.env.DISABLE_LOGGING === 'true') return;
-
-  const logLevel = process.env.WORDPRESS_LOG_LEVEL || 'error'; // Default to error only
-  const levels = { debug: 0, info: 1, error: 2 };
-
-  if (levels[level] >= levels[logLevel as keyof typeof levels]) {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[${timestamp}] [${level.toUpperCase()}] ${message}\n`;
-    process.stderr.write(logMessage);
-  }
+/**
+ * REST API root for a client baseURL, e.g. `https://example.com/wp-json/`
+ * for `https://example.com/wp-json/wp/v2/`.
+ */
+export function restRootUrl(baseURL: string): string {
+  return baseURL.replace(/wp\/v2\/?$/, '');
 }
 
 /**
@@ -77,7 +77,12 @@ export function logToFile(message: string, level: 'debug' | 'info' | 'error' = '
  * @param method HTTP method
  * @param endpoint API endpoint (relative to the baseURL)
  * @param data Request data
- * @param options Additional request options including siteId for multi-site support
+ * @param options Additional request options including siteId for multi-site support.
+ *   `signal` defaults to the current tool call's AbortSignal (see request-context.ts),
+ *   so a cancelled MCP request aborts its in-flight HTTP calls. `namespace` sends the
+ *   request to another REST namespace (e.g. `batch/v1`, `wc/v3`) instead of `wp/v2`;
+ *   an empty namespace makes `endpoint` a full route such as `mcp/v1/query`. `query`
+ *   adds query-string parameters to non-GET requests (GET sends `data` as the query).
  * @returns Response data
  */
 export async function makeWordPressRequest(
@@ -89,31 +94,33 @@ export async function makeWordPressRequest(
     isFormData?: boolean;
     rawResponse?: boolean;
     siteId?: string;
+    signal?: AbortSignal;
+    namespace?: string;
+    query?: Record<string, unknown>;
   }
 ) {
   // Get the appropriate client for the site
-  const client = options?.siteId 
-    ? await siteManager.getClient(options.siteId)
-    : (wpClient || await siteManager.getClient());
-
-  // Log data (skip for FormData which can't be stringified)
-  if (!options?.isFormData) {
-    logToFile(`Data: ${JSON.stringify(data, null, 2)}`, 'debug');
-  } else {
-    logToFile('Request contains FormData (not shown in logs)', 'debug');
-  }
-  
+  const client = await siteManager.getClient(options?.siteId);
+
   // Handle potential leading slash in endpoint
-  const path = endpoint.startsWith('/') ? endpoint.substring(1) : endpoint;
+  let path = endpoint.startsWith('/') ? endpoint.substring(1) : endpoint;
+  const namespace = options?.namespace?.replace(/^\/+|\/+$/g, '');
+  if (namespace !== undefined) {
+    // An absolute URL overrides the client's wp/v2 baseURL
+    path = `${restRootUrl(client.defaults.baseURL ?? '')}${[namespace, path].filter(Boolean).join('/')}`;
+  }
 
-  try {
-    const fullUrl = `${client.defaults.baseURL}${path}`;
-    
+  const fullUrl = namespace !== undefined ? path : `${client.defaults.baseURL}${path}`;
+  const site = options?.siteId || 'default';
+  const started = Date.now();
+
+  try {    
     // Prepare request config
     const requestConfig: any = {
       method,
       url: path,
-      headers: options?.headers || {}
+      headers: options?.headers || {},
+      signal: options?.signal ?? getRequestContext()?.signal
     };
     
     // Handle different data formats based on method and options
@@ -127,38 +134,45 @@ export async function makeWordPressRequest(
     } else {
       requestConfig.data = data;
     }
+    if (options?.query) {
+      requestConfig.params = { ...requestConfig.params, ...options.query };
+    }
     
-    const requestLog = `
-REQUEST:
-URL: ${fullUrl}
-Method: ${method}
-Site: ${options?.siteId || 'default'}
-Headers: ${JSON.stringify({...client.defaults.headers, ...requestConfig.headers}, null, 2)}
-Data: ${options?.isFormData ? '(FormData not shown)' : JSON.stringify(data, null, 2)}
-`;
-    logToFile(requestLog, 'debug');
+    // Headers and bodies go in as fields so logToFile can redact the
+    // Authorization header and password fields (create_user / update_user).
+    logToFile(`WordPress request: ${method} ${fullUrl}`, 'debug', {
+      site,
+      headers: { ...client.defaults.headers, ...requestConfig.headers },
+      body: options?.isFormData ? '(FormData not shown)' : data
+    });
 
     const response = await client.request(requestConfig);
 
-    const responseLog = `
-RESPONSE:
-Status: ${response.status}
-Data: ${JSON.stringify(response.data, null, 2)}
-`;
-    logToFile(responseLog, 'debug');
+    logToFile(`WordPress response: ${response.status} ${method} ${fullUrl}`, 'debug', {
+      site,
+      status: response.status,
+      duration_ms: Date.now() - started,
+      queue_wait_ms: response.config.queueWaitMs,
+      body: response.data
+    });
 
     if (options?.rawResponse) return response;
     const stripFields = resolveStripFields(process.env.MCP_WP_STRIP_FIELDS);
     return trimResponseFields(response.data, stripFields);
   } catch (error: any) {
-    const errorLog = `
-ERROR:
-Message: ${error.message}
-Status: ${error.response?.status || 'N/A'}
-Data: ${JSON.stringify(error.response?.data || {}, null, 2)}
-`;
-    logToFile(errorLog, 'error');
-    throw error;
+    if (isAbortError(error)) {
+      logToFile(`Request cancelled: ${method} ${fullUrl}`, 'debug', { site, duration_ms: Date.now() - started });
+      throw error;
+    }
+
+    logToFile(`WordPress request failed: ${method} ${fullUrl}: ${error.message}`, 'error', {
+      site,
+      status: error.response?.status,
+      duration_ms: Date.now() - started,
+      queue_wait_ms: error.config?.queueWaitMs,
+      body: error.response?.data
+    });
+    throw normalizeWordPressError(error, { method, endpoint: path, siteId: options?.siteId });
   }
 }
 
@@ -207,7 +221,9 @@ Data: ${JSON.stringify(requestData, null, 2)}
     const response = await axios.post(apiUrl, requestData, {
       headers: {
         'Content-Type': 'application/json'
-      }
+      },
+      signal: getRequestContext()?.signal,
+      timeout: DEFAULT_REQUEST_TIMEOUT
     });
     
     const responseLog = `
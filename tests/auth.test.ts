@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SiteManager } from '../src/config/site-manager.js';
+import { jwtExpiry, parseAuthConfig } from '../src/auth.js';
+
+// Local stand-in for a site behind the jwt-auth plugin. /wp/v2 accepts only
+// the most recently issued token (or the fixed credentials the other
+// strategies send); tests revoke or expire tokens to force a refresh.
+
+function makeJwt(expiresInSeconds: number, serial: number): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256' })}.${encode({ exp: Math.floor(Date.now() / 1000) + expiresInSeconds, serial })}.sig`;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let issued = 0;
+let validToken: string | undefined;
+let tokenLifetime = 3600;
+let issueRefreshTokens = false;
+const hits: string[] = [];
+const seenHeaders: http.IncomingHttpHeaders[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+      const route = `${req.method} ${req.url?.replace(/^\/wp-json/, '')}`;
+      hits.push(route);
+      const send = (status: number, data: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+
+      if (route === 'POST /jwt-auth/v1/token') {
+        if (body.password !== 'app-secret') return send(403, { code: '[jwt_auth] incorrect_password', message: 'Wrong password', data: { status: 403 } });
+        validToken = makeJwt(tokenLifetime, ++issued);
+        return send(200, { success: true, data: { token: validToken, ...(issueRefreshTokens && { refresh_token: `refresh-${issued}` }) } });
+      }
+      if (route === 'POST /jwt-auth/v1/token/refresh') {
+        if (body.refresh_token !== `refresh-${issued}`) return send(401, { code: 'jwt_auth_invalid_refresh_token', message: 'Invalid refresh token' });
+        validToken = makeJwt(tokenLifetime, ++issued);
+        return send(200, { token: validToken, refresh_token: `refresh-${issued}` });
+      }
+
+      seenHeaders.push(req.headers);
+      const authorized = req.headers.authorization === `Bearer ${validToken}`
+        || req.headers.authorization === 'Bearer oauth-token'
+        || req.headers['x-proxy-token'] === 'proxy-secret';
+      if (!authorized) return send(401, { code: 'rest_not_logged_in', message: 'You are not currently logged in.', data: { status: 401 } });
+      send(200, { ok: true });
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+const ENV_KEYS = [
+  'WORDPRESS_1_URL', 'WORDPRESS_1_USERNAME', 'WORDPRESS_1_PASSWORD', 'WORDPRESS_1_ID',
+  'WORDPRESS_1_AUTH_TYPE', 'WORDPRESS_1_TOKEN', 'WORDPRESS_1_AUTH_HEADER', 'WORDPRESS_1_RETRIES',
+];
+let envBackup: Record<string, string | undefined>;
+
+beforeEach(() => {
+  envBackup = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+  for (const key of ENV_KEYS) delete process.env[key];
+  Object.assign(process.env, { WORDPRESS_1_URL: baseUrl, WORDPRESS_1_ID: 'secured', WORDPRESS_1_RETRIES: '0' });
+  issued = 0;
+  validToken = undefined;
+  tokenLifetime = 3600;
+  issueRefreshTokens = false;
+  hits.length = 0;
+  seenHeaders.length = 0;
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (envBackup[key] === undefined) delete process.env[key];
+    else process.env[key] = envBackup[key];
+  }
+});
+
+function useJwt(password = 'app-secret') {
+  Object.assign(process.env, { WORDPRESS_1_AUTH_TYPE: 'jwt', WORDPRESS_1_USERNAME: 'editor', WORDPRESS_1_PASSWORD: password });
+}
+
+describe('parseAuthConfig', () => {
+  it('builds each strategy from env and skips incomplete ones', () => {
+    expect(parseAuthConfig({ S_USERNAME: 'u', S_PASSWORD: 'p' }, 'S_')).toEqual({ type: 'basic', username: 'u', password: 'p' });
+    expect(parseAuthConfig({ S_AUTH_TYPE: 'JWT', S_USERNAME: 'u', S_PASSWORD: 'p' }, 'S_')).toEqual({ type: 'jwt', username: 'u', password: 'p' });
+    expect(parseAuthConfig({ S_AUTH_TYPE: 'bearer', S_TOKEN: 't' }, 'S_')).toEqual({ type: 'bearer', token: 't' });
+    expect(parseAuthConfig({ S_AUTH_TYPE: 'header', S_AUTH_HEADER: 'X-Key', S_TOKEN: 't' }, 'S_')).toEqual({ type: 'header', name: 'X-Key', value: 't' });
+    expect(parseAuthConfig({ S_AUTH_TYPE: 'bearer' }, 'S_')).toBeUndefined();
+    expect(parseAuthConfig({ S_AUTH_TYPE: 'oauth', S_TOKEN: 't' }, 'S_')).toBeUndefined();
+  });
+
+  it('reads the exp claim of a JWT', () => {
+    const token = makeJwt(60, 1);
+    expect(jwtExpiry(token)).toBeGreaterThan(Date.now());
+    expect(jwtExpiry('not-a-jwt')).toBeUndefined();
+  });
+});
+
+describe('site client authentication', () => {
+  it('sends a fixed bearer token or custom header', async () => {
+    Object.assign(process.env, { WORDPRESS_1_AUTH_TYPE: 'bearer', WORDPRESS_1_TOKEN: 'oauth-token' });
+    await new SiteManager().getClient();
+    expect(seenHeaders.at(-1)?.authorization).toBe('Bearer oauth-token');
+
+    Object.assign(process.env, { WORDPRESS_1_AUTH_TYPE: 'header', WORDPRESS_1_AUTH_HEADER: 'X-Proxy-Token', WORDPRESS_1_TOKEN: 'proxy-secret' });
+    await new SiteManager().getClient();
+    expect(seenHeaders.at(-1)).toMatchObject({ 'x-proxy-token': 'proxy-secret' });
+    expect(seenHeaders.at(-1)?.authorization).toBeUndefined();
+  });
+
+  it('logs in once with JWT and shares the token across concurrent requests', async () => {
+    useJwt();
+    const client = await new SiteManager().getClient();
+
+    await Promise.all([client.get('posts'), client.get('pages'), client.get('users/me')]);
+
+    expect(hits.filter(hit => hit === 'POST /jwt-auth/v1/token')).toHaveLength(1);
+    expect(seenHeaders.every(headers => headers.authorization === `Bearer ${validToken}`)).toBe(true);
+  });
+
+  it('logs in again and replays the request once after a 401', async () => {
+    useJwt();
+    const client = await new SiteManager().getClient();
+    validToken = 'revoked';
+
+    const response = await client.get('posts');
+
+    expect(response.data).toEqual({ ok: true });
+    expect(hits).toEqual(['POST /jwt-auth/v1/token', 'GET /wp/v2/', 'GET /wp/v2/posts', 'POST /jwt-auth/v1/token', 'GET /wp/v2/posts']);
+  });
+
+  it('renews a token that is about to expire with the refresh token', async () => {
+    useJwt();
+    issueRefreshTokens = true;
+    tokenLifetime = 30; // inside the renewal margin
+    const client = await new SiteManager().getClient();
+
+    await client.get('posts');
+
+    expect(hits).toEqual(['POST /jwt-auth/v1/token', 'GET /wp/v2/', 'POST /jwt-auth/v1/token/refresh', 'GET /wp/v2/posts']);
+  });
+
+  it('fails the connection with the login error', async () => {
+    useJwt('wrong');
+    await expect(new SiteManager().getClient()).rejects.toThrow(/Failed to connect to site 'secured'.*403/);
+  });
+});
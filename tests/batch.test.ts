@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+vi.mock('../src/wordpress.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/wordpress.js')>()),
+  makeWordPressRequest: vi.fn(),
+}));
+
+const { makeWordPressRequest } = await import('../src/wordpress.js');
+const { createMcpServer } = await import('../src/mcp-server.js');
+const { runBatch, resetBatchSupportCache } = await import('../src/batch.js');
+const { WordPressRestError } = await import('../src/errors.js');
+
+const request = vi.mocked(makeWordPressRequest);
+
+function updates(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    method: 'POST' as const,
+    endpoint: `posts/${i + 1}`,
+    body: { status: 'publish' }
+  }));
+}
+
+// /batch/v1 stand-in: every sub-request succeeds and echoes its post ID
+function serveBatch() {
+  request.mockImplementation(async (_method, _endpoint, data: any) => ({
+    responses: data.requests.map((item: any) => ({
+      status: 200,
+      body: { id: Number(item.path.split('/').pop()), status: 'publish' },
+      headers: {}
+    }))
+  }));
+}
+
+const noBatchRoute = new WordPressRestError('No route was found matching the URL and request method.', {
+  code: 'rest_no_route',
+  status: 404
+});
+
+beforeEach(() => {
+  request.mockReset();
+  resetBatchSupportCache();
+});
+
+describe('runBatch', () => {
+  it('sends up to 25 requests per /batch/v1 call and keeps input order', async () => {
+    serveBatch();
+
+    const batch = await runBatch(updates(30), { siteId: 'prod' });
+
+    expect(request).toHaveBeenCalledTimes(2);
+    const [method, endpoint, body, options] = request.mock.calls[0];
+    expect([method, endpoint, options]).toEqual(['POST', '', { siteId: 'prod', namespace: 'batch/v1' }]);
+    expect(body).toMatchObject({ validation: 'normal' });
+    expect((body as any).requests).toHaveLength(25);
+    expect((body as any).requests[0]).toEqual({ method: 'POST', path: '/wp/v2/posts/1', body: { status: 'publish' } });
+    expect(batch.mode).toBe('batch');
+    expect(batch.results.map(r => (r.body as any).id)).toEqual(Array.from({ length: 30 }, (_, i) => i + 1));
+  });
+
+  it('maps per-item REST errors back to their request', async () => {
+    request.mockResolvedValueOnce({
+      responses: [
+        { status: 200, body: { id: 1 } },
+        { status: 403, body: { code: 'rest_cannot_edit', message: 'Sorry, you are not allowed to edit this post.', data: { status: 403 } } }
+      ]
+    });
+
+    const { results } = await runBatch(updates(2));
+
+    expect(results[0]).toEqual({ status: 200, body: { id: 1 } });
+    expect(results[1].error).toMatchObject({ code: 'rest_cannot_edit', status: 403, endpoint: '/wp/v2/posts/2' });
+  });
+
+  it('skips the rest of the chunk and later chunks when require-all-validate fails', async () => {
+    const invalid = { status: 400, body: { code: 'rest_invalid_param', message: 'Invalid parameter(s): status', data: { status: 400, params: { status: 'Invalid.' } } } };
+    request.mockResolvedValueOnce({
+      failed: 'validation',
+      responses: [null, invalid, ...Array(23).fill(null)]
+    });
+
+    const { results } = await runBatch(updates(30), { validation: 'require-all-validate' });
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect((request.mock.calls[0][2] as any).validation).toBe('require-all-validate');
+    expect(results).toHaveLength(30);
+    expect(results[1].error?.params).toEqual({ status: 'Invalid.' });
+    expect(results.filter(r => r.skipped)).toHaveLength(29);
+  });
+
+  it('falls back to sequential requests on sites without /batch/v1 and remembers it', async () => {
+    request
+      .mockRejectedValueOnce(noBatchRoute)
+      .mockResolvedValue({ status: 200, data: { id: 9 } });
+
+    const first = await runBatch(updates(2), { siteId: 'legacy' });
+    expect(first.mode).toBe('sequential');
+    expect(first.results[0]).toEqual({ status: 200, body: { id: 9 } });
+    expect(request.mock.calls.slice(1).map(call => call.slice(0, 2))).toEqual([['POST', 'posts/1'], ['POST', 'posts/2']]);
+
+    request.mockClear();
+    const second = await runBatch(updates(1), { siteId: 'legacy' });
+    expect(second.mode).toBe('sequential');
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls[0][3]).toEqual({ siteId: 'legacy', namespace: undefined, rawResponse: true });
+  });
+
+  it('stops sequential fallback at the first failure under require-all-validate', async () => {
+    request
+      .mockRejectedValueOnce(noBatchRoute)
+      .mockResolvedValueOnce({ status: 200, data: { id: 1 } })
+      .mockRejectedValueOnce(new WordPressRestError('Invalid post ID.', { code: 'rest_post_invalid_id', status: 404 }));
+
+    const { results } = await runBatch(updates(4), { validation: 'require-all-validate' });
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(results.map(r => r.status)).toEqual([200, 404, null, null]);
+    expect(results[3].skipped).toBe(true);
+  });
+
+  it('reports the real status of sequential creates', async () => {
+    request
+      .mockRejectedValueOnce(noBatchRoute)
+      .mockResolvedValueOnce({ status: 201, data: { id: 12 } });
+
+    const { results } = await runBatch([{ method: 'POST', endpoint: 'posts', body: { title: 'New' } }]);
+
+    expect(results).toEqual([{ status: 201, body: { id: 12 } }]);
+  });
+
+  it('keeps the applied chunks when a later chunk\'s request fails', async () => {
+    const timeout = new WordPressRestError('timeout of 30000ms exceeded', { code: 'ECONNABORTED' });
+    serveBatch();
+    request.mockImplementationOnce(request.getMockImplementation()!).mockRejectedValueOnce(timeout);
+
+    const { mode, results } = await runBatch(updates(60));
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(mode).toBe('batch');
+    expect(results).toHaveLength(60);
+    expect(results.slice(0, 25).every(r => r.status === 200)).toBe(true);
+    expect(results.slice(25, 50)).toEqual(Array(25).fill({ status: null, error: timeout }));
+    expect(results.slice(50).every(r => r.skipped)).toBe(true);
+  });
+
+  it('rejects when the first chunk\'s request fails', async () => {
+    request.mockRejectedValueOnce(new WordPressRestError('Bad gateway', { code: 'http_502', status: 502 }));
+
+    await expect(runBatch(updates(30))).rejects.toThrow('Bad gateway');
+  });
+});
+
+describe('batch_content tool', () => {
+  it('returns one result per operation with compact content', async () => {
+    request.mockResolvedValueOnce({
+      responses: [
+        { status: 201, body: { id: 101, status: 'draft', slug: 'new', link: 'https://example.test/new/', content: { rendered: 'long' } } },
+        { status: 200, body: { deleted: true, previous: { id: 7, status: 'publish' } } },
+        { status: 404, body: { code: 'rest_post_invalid_id', message: 'Invalid post ID.', data: { status: 404 } } }
+      ]
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    await client.connect(clientTransport);
+
+    const result = await client.callTool({
+      name: 'batch_content',
+      arguments: {
+        operations: [
+          { action: 'create', content_type: 'post', data: { title: 'New' } },
+          { action: 'delete', content_type: 'page', id: 7, force: true },
+          { action: 'update', content_type: 'post', id: 999, data: { status: 'publish' } }
+        ]
+      }
+    });
+
+    expect((request.mock.calls[0][2] as any).requests).toEqual([
+      { method: 'POST', path: '/wp/v2/posts', body: { title: 'New' } },
+      { method: 'DELETE', path: '/wp/v2/pages/7', body: { force: true } },
+      { method: 'POST', path: '/wp/v2/posts/999', body: { status: 'publish' } }
+    ]);
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toMatchObject({
+      mode: 'batch',
+      succeeded: 2,
+      failed: 1,
+      skipped: 0,
+      results: [
+        { index: 0, id: 101, ok: true, status: 201, content: { id: 101, slug: 'new' } },
+        { index: 1, id: 7, ok: true, content: { id: 7 } },
+        { index: 2, id: 999, ok: false, status: 404, error: { code: 'rest_post_invalid_id' } }
+      ]
+    });
+    expect((result.structuredContent as any).results[0].content).not.toHaveProperty('content');
+  });
+
+  it('rejects updates without an id before sending anything', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    await client.connect(clientTransport);
+
+    const result = await client.callTool({
+      name: 'batch_content',
+      arguments: { operations: [{ action: 'update', content_type: 'post', data: {} }] }
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as { text: string }[])[0].text).toBe('Error running batch: operations[0]: id is required for update');
+    expect(request).not.toHaveBeenCalled();
+  });
+});
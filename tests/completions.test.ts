@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('../src/wordpress.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/wordpress.js')>()),
+  makeWordPressRequest: vi.fn(),
+}));
+
+vi.mock('../src/config/site-manager.js', () => ({
+  siteManager: {
+    getAllSites: () => [
+      { id: 'production', url: 'https://prod.test', aliases: ['prod', 'main'] },
+      { id: 'staging', url: 'https://staging.test' },
+    ],
+  },
+}));
+
+// getPostTypes persists to a disk cache; isolate it so runs don't see each other
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wp-completions-'));
+process.env.UNIFIED_CONTENT_CACHE_DIR = cacheDir;
+
+const { makeWordPressRequest } = await import('../src/wordpress.js');
+const { createMcpServer } = await import('../src/mcp-server.js');
+const { completeSiteId, completeTaxonomy, completePluginSlug } = await import('../src/completions.js');
+
+const request = vi.mocked(makeWordPressRequest);
+
+async function connectClient() {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer().connect(serverTransport);
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+beforeEach(() => {
+  request.mockReset();
+});
+
+afterAll(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+describe('completers', () => {
+  it('suggests site IDs and aliases by case-insensitive prefix', async () => {
+    expect(await completeSiteId('')).toEqual(['production', 'prod', 'main', 'staging']);
+    expect(await completeSiteId('PRO')).toEqual(['production', 'prod']);
+  });
+
+  it('suggests taxonomy slugs and differing rest_bases for the site in context', async () => {
+    request.mockResolvedValueOnce({
+      category: { rest_base: 'categories' },
+      post_tag: { rest_base: 'tags' },
+      genre: { rest_base: 'genre' },
+    });
+
+    expect(await completeTaxonomy('', { arguments: { site_id: 'staging' } })).toEqual([
+      'category', 'categories', 'post_tag', 'tags', 'genre',
+    ]);
+    expect(request).toHaveBeenCalledWith('GET', 'taxonomies', undefined, { siteId: 'staging' });
+  });
+
+  it('suggests installed plugin identifiers and caches them briefly', async () => {
+    request.mockResolvedValueOnce([{ plugin: 'akismet/akismet' }, { plugin: 'hello' }]);
+
+    expect(await completePluginSlug('ak', { arguments: { site_id: 'production' } })).toEqual(['akismet/akismet']);
+    expect(await completePluginSlug('', { arguments: { site_id: 'production' } })).toEqual(['akismet/akismet', 'hello']);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns no suggestions instead of throwing when the site fails', async () => {
+    request.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    expect(await completePluginSlug('', { arguments: { site_id: 'staging' } })).toEqual([]);
+  });
+});
+
+describe('completion/complete', () => {
+  it('completes prompt site_id arguments', async () => {
+    const client = await connectClient();
+    const result = await client.complete({
+      ref: { type: 'ref/prompt', name: 'seo_audit' },
+      argument: { name: 'site_id', value: 'st' },
+    });
+    expect(result.completion.values).toEqual(['staging']);
+  });
+
+  it('completes resource template content types using the chosen site', async () => {
+    request.mockResolvedValueOnce({ post: {}, page: {}, product: {} });
+    const client = await connectClient();
+
+    const result = await client.complete({
+      ref: { type: 'ref/resource', uri: 'wp://{site_id}/{content_type}/{id}' },
+      argument: { name: 'content_type', value: 'p' },
+      context: { arguments: { site_id: 'production' } },
+    });
+
+    expect(result.completion.values).toEqual(['post', 'page', 'product']);
+    expect(request).toHaveBeenCalledWith('GET', 'types', undefined, { siteId: 'production' });
+  });
+
+  it('completes plugin identifiers percent-encoded, as the plugin template needs them', async () => {
+    request.mockResolvedValueOnce([{ plugin: 'akismet/akismet' }, { plugin: 'hello' }]);
+    const client = await connectClient();
+    const complete = (value: string) => client.complete({
+      ref: { type: 'ref/resource', uri: 'wp://{site_id}/plugin/{plugin}' },
+      argument: { name: 'plugin', value },
+      context: { arguments: { site_id: 'staging' } },
+    });
+
+    expect((await complete('ak')).completion.values).toEqual(['akismet%2Fakismet']);
+    expect((await complete('akismet%2F')).completion.values).toEqual(['akismet%2Fakismet']);
+    expect((await complete('akismet/')).completion.values).toEqual(['akismet%2Fakismet']);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { addSiteToConfigFile, loadSiteConfigFile, removeSiteFromConfigFile, updateSiteInConfigFile } from '../../src/config/site-config-file.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wp-config-'));
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function writeConfig(name: string, content: unknown): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+  return file;
+}
+
+describe('loadSiteConfigFile', () => {
+  it('reads every per-site setting from YAML', () => {
+    const file = writeConfig('sites.yaml', `
+sites:
+  - id: production
+    url: https://example.com
+    auth:
+      username: admin
+      password: abcd efgh
+    aliases: [prod]
+    default: true
+    tags: [client-a, woocommerce]
+    timeout: 20000
+    retry: { maxRetries: 4, retryNonIdempotent: true }
+    limits: { maxConcurrent: 2, requestsPerSecond: 0.5 }
+    restAllowlist: ['GET|POST /wc/v3/**']
+`);
+
+    const [site] = loadSiteConfigFile(file);
+
+    expect(site).toMatchObject({
+      id: 'production',
+      url: 'https://example.com',
+      auth: { type: 'basic', username: 'admin', password: 'abcd efgh' },
+      aliases: ['prod'],
+      default: true,
+      tags: ['client-a', 'woocommerce'],
+      timeout: 20000,
+      retry: { maxRetries: 4, retryNonIdempotent: true },
+      limits: { maxConcurrent: 2, requestsPerSecond: 0.5 }
+    });
+    expect(site.restAllowlist).toEqual([expect.objectContaining({ methods: ['GET', 'POST'], pattern: '/wc/v3/**' })]);
+  });
+
+  it('reads JSON and keeps secret references for later resolution', () => {
+    const file = writeConfig('sites.json', {
+      sites: [
+        { id: 'staging', url: 'https://staging.test', auth: { username: 'bot', password: { env: 'TEST_SITE_PASSWORD' } } },
+        { id: 'pass', url: 'https://pass.test', auth: { username: 'bot', password: { command: 'pass show wp/pass' } } },
+        { id: 'file', url: 'https://file.test', auth: { username: 'bot', password: { file: 'secrets/file' } } },
+        { id: 'vault', url: 'https://vault.test', auth: { type: 'bearer', token: { vault: 'vault-token' } } }
+      ]
+    });
+
+    // Unset variables and missing files only fail once the site is used
+    expect(loadSiteConfigFile(file).map(site => site.auth)).toEqual([
+      { type: 'basic', username: 'bot', password: { env: 'TEST_SITE_PASSWORD' } },
+      { type: 'basic', username: 'bot', password: { command: 'pass show wp/pass' } },
+      { type: 'basic', username: 'bot', password: { file: path.join(dir, 'secrets/file') } },
+      { type: 'bearer', token: { vault: 'vault-token' } }
+    ]);
+    expect(() => loadSiteConfigFile(writeConfig('bad-secret.json', {
+      sites: [{ id: 'x', url: 'https://x.test', auth: { username: 'bot', password: { keychain: 'wp' } } }]
+    }))).toThrow(/sites\[0\]\.auth\.password: Invalid input/);
+  });
+
+  it('reads token, JWT and custom-header auth', () => {
+    const file = writeConfig('auth.yaml', `
+sites:
+  - { id: api, url: https://api.test, auth: { type: bearer, token: { env: TEST_SITE_PASSWORD } } }
+  - { id: jwt, url: https://jwt.test, auth: { type: jwt, username: bot, password: pw, tokenEndpoint: custom/v1/login } }
+  - { id: proxied, url: https://proxied.test, auth: { type: header, name: X-Proxy-Token, value: abc } }
+`);
+
+    expect(loadSiteConfigFile(file).map(site => site.auth)).toEqual([
+      { type: 'bearer', token: { env: 'TEST_SITE_PASSWORD' } },
+      { type: 'jwt', username: 'bot', password: 'pw', tokenEndpoint: 'custom/v1/login' },
+      { type: 'header', name: 'X-Proxy-Token', value: 'abc' }
+    ]);
+    expect(() => loadSiteConfigFile(writeConfig('bad-auth.json', {
+      sites: [{ id: 'x', url: 'https://x.test', auth: { type: 'header', name: 'X Token', value: 'abc' } }]
+    }))).toThrow(/sites\[0\]\.auth\.name: Invalid header name/);
+  });
+
+  it('reports every invalid field with its path', () => {
+    const file = writeConfig('invalid.json', {
+      sites: [
+        { id: 'one', url: 'not a url', auth: { username: 'admin', password: 'pw' }, timeout: -1 },
+        { id: 'two', url: 'https://two.test', auth: { username: 'admin' }, restAllowlist: ['FETCH /wp/v2/*'], colour: 'blue' }
+      ]
+    });
+
+    let message = '';
+    try {
+      loadSiteConfigFile(file);
+    } catch (error: any) {
+      message = error.message;
+    }
+
+    expect(message).toContain('sites[0].url: Invalid url');
+    expect(message).toContain('sites[0].timeout:');
+    expect(message).toContain('sites[1].auth.password:');
+    expect(message).toContain('sites[1].restAllowlist[0]: Invalid rule "FETCH /wp/v2/*"');
+    expect(message).toContain("Unrecognized key(s) in object: 'colour'");
+  });
+
+  it('rejects clashing ids and aliases and more than one default', () => {
+    const site = (id: string, extra = {}) => ({ id, url: `https://${id}.test`, auth: { username: 'admin', password: 'pw' }, ...extra });
+    const file = writeConfig('clash.json', {
+      sites: [site('prod', { default: true }), site('staging', { aliases: ['PROD'], default: true })]
+    });
+
+    expect(() => loadSiteConfigFile(file)).toThrow(/sites\[1\]: "PROD" is already used by site 'prod'/);
+    expect(() => loadSiteConfigFile(file)).toThrow(/Only one site can be the default/);
+  });
+
+  it('names the file when it cannot be read or parsed', () => {
+    expect(() => loadSiteConfigFile(path.join(dir, 'nope.yaml'))).toThrow(/Cannot read site config file .*nope\.yaml/);
+    expect(() => loadSiteConfigFile(writeConfig('broken.json', '{ "sites": ['))).toThrow(/Cannot parse site config file/);
+  });
+});
+
+describe('editing a site config file', () => {
+  it('adds, updates and removes sites, keeping comments and a single default', () => {
+    const file = writeConfig('edit.yaml', `# Client sites
+sites:
+  - id: production # live shop
+    url: https://example.com
+    auth: { username: admin, password: { env: PROD_WP_PASSWORD } }
+    default: true
+`);
+
+    addSiteToConfigFile(file, { id: 'staging', url: 'https://staging.test', auth: { type: 'bearer', token: 'abc123' }, tags: undefined, default: true });
+    updateSiteInConfigFile(file, 'production', { tags: ['live'], timeout: undefined });
+
+    const text = fs.readFileSync(file, 'utf8');
+    expect(text).toContain('# Client sites');
+    expect(text).toContain('# live shop');
+    expect(loadSiteConfigFile(file)).toEqual([
+      expect.objectContaining({ id: 'production', tags: ['live'], default: undefined, auth: { type: 'basic', username: 'admin', password: { env: 'PROD_WP_PASSWORD' } } }),
+      expect.objectContaining({ id: 'staging', default: true, auth: { type: 'bearer', token: 'abc123' } })
+    ]);
+
+    removeSiteFromConfigFile(file, 'staging');
+    expect(loadSiteConfigFile(file).map(site => site.id)).toEqual(['production']);
+  });
+
+  it('rewrites JSON files and leaves invalid results unwritten', () => {
+    const file = writeConfig('edit.json', { sites: [{ id: 'one', url: 'https://one.test', auth: { username: 'admin', password: 'pw' } }] });
+
+    updateSiteInConfigFile(file, 'one', { aliases: ['first'] });
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).sites[0].aliases).toEqual(['first']);
+
+    expect(() => addSiteToConfigFile(file, { id: 'two', url: 'https://two.test', auth: { username: 'admin', password: 'pw' }, aliases: ['FIRST'] }))
+      .toThrow(/"FIRST" is already used by site 'one'/);
+    expect(() => updateSiteInConfigFile(file, 'three', { tags: ['x'] })).toThrow(/Site 'three' is not defined in/);
+    expect(loadSiteConfigFile(file).map(site => site.id)).toEqual(['one']);
+  });
+});
@@ -1,12 +1,17 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import { SiteManager } from '../../src/config/site-manager.js';
 
 const WP_KEYS: string[] = [
   'WORDPRESS_API_URL',
   'WORDPRESS_USERNAME',
   'WORDPRESS_PASSWORD',
+  'WORDPRESS_TIMEOUT',
+  'WORDPRESS_CONFIG_FILE',
 ];
-for (let i = 1; i <= 10; i++) {
+for (let i = 1; i <= 12; i++) {
   WP_KEYS.push(
     `WORDPRESS_${i}_URL`,
     `WORDPRESS_${i}_USERNAME`,
@@ -14,6 +19,7 @@ for (let i = 1; i <= 10; i++) {
     `WORDPRESS_${i}_ID`,
     `WORDPRESS_${i}_ALIASES`,
     `WORDPRESS_${i}_DEFAULT`,
+    `WORDPRESS_${i}_TIMEOUT`,
   );
 }
 
@@ -95,6 +101,22 @@ describe('SiteManager environment loading', () => {
     expect(sm.getSite('site1').aliases).toEqual(['prod', 'main', 'primary']);
   });
 
+  it('parses WORDPRESS_N_TIMEOUT and ignores invalid values', () => {
+    process.env.WORDPRESS_1_URL = 'https://one.test';
+    process.env.WORDPRESS_1_USERNAME = 'admin';
+    process.env.WORDPRESS_1_PASSWORD = 'pw';
+    process.env.WORDPRESS_1_TIMEOUT = '5000';
+
+    process.env.WORDPRESS_2_URL = 'https://two.test';
+    process.env.WORDPRESS_2_USERNAME = 'admin';
+    process.env.WORDPRESS_2_PASSWORD = 'pw';
+    process.env.WORDPRESS_2_TIMEOUT = 'soon';
+
+    const sm = new SiteManager();
+    expect(sm.getSite('site1').timeout).toBe(5000);
+    expect(sm.getSite('site2').timeout).toBeUndefined();
+  });
+
   it('falls back to legacy single-site variables when no numbered sites exist', () => {
     process.env.WORDPRESS_API_URL = 'https://legacy.test';
     process.env.WORDPRESS_USERNAME = 'admin';
@@ -163,6 +185,13 @@ describe('SiteManager.getSite', () => {
     expect(sm.getSite('staging').id).toBe('staging');
   });
 
+  it('resolves aliases to their site', () => {
+    process.env.WORDPRESS_2_ALIASES = 'stage,dev';
+    const sm = new SiteManager();
+    expect(sm.getSite('dev').id).toBe('staging');
+    expect(sm.getSite('STAGE').id).toBe('staging');
+  });
+
   it('throws a helpful error for unknown ids', () => {
     const sm = new SiteManager();
     expect(() => sm.getSite('nope')).toThrow(/not found/);
@@ -217,3 +246,65 @@ describe('SiteManager.detectSiteFromContext', () => {
     expect(sm.detectSiteFromContext('')).toBeNull();
   });
 });
+
+describe('SiteManager config file', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wp-sites-'));
+  const file = path.join(dir, 'sites.yaml');
+  fs.writeFileSync(file, [
+    'sites:',
+    '  - id: client-a',
+    '    url: https://a.test',
+    '    auth: { username: admin, password: pw }',
+    '    tags: [agency]',
+    '  - id: client-b',
+    '    url: https://b.test',
+    '    auth: { username: admin, password: pw }',
+    '    default: true',
+  ].join('\n'));
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads sites from WORDPRESS_CONFIG_FILE with the marked default', () => {
+    process.env.WORDPRESS_CONFIG_FILE = file;
+
+    const sm = new SiteManager();
+    expect(sm.getAllSites().map((s) => s.id)).toEqual(['client-a', 'client-b']);
+    expect(sm.getDefaultSiteId()).toBe('client-b');
+    expect(sm.getSite('client-a').tags).toEqual(['agency']);
+  });
+
+  it('keeps numbered env sites alongside file sites without taking the default', () => {
+    process.env.WORDPRESS_1_URL = 'https://env.test';
+    process.env.WORDPRESS_1_USERNAME = 'admin';
+    process.env.WORDPRESS_1_PASSWORD = 'pw';
+
+    const sm = new SiteManager();
+    sm.useConfigFile(file);
+    expect(sm.getAllSites().map((s) => s.id)).toEqual(['client-a', 'client-b', 'site1']);
+    expect(sm.getDefaultSiteId()).toBe('client-b');
+  });
+
+  it('rejects an env site that reuses a file site id', () => {
+    process.env.WORDPRESS_CONFIG_FILE = file;
+    process.env.WORDPRESS_3_URL = 'https://env.test';
+    process.env.WORDPRESS_3_USERNAME = 'admin';
+    process.env.WORDPRESS_3_PASSWORD = 'pw';
+    process.env.WORDPRESS_3_ID = 'client-a';
+
+    const sm = new SiteManager();
+    expect(() => sm.getAllSites()).toThrow(/client-a.*WORDPRESS_3_/);
+  });
+
+  it('loads numbered env sites past ten', () => {
+    for (const i of [1, 2, 11, 12]) {
+      process.env[`WORDPRESS_${i}_URL`] = `https://${i}.test`;
+      process.env[`WORDPRESS_${i}_USERNAME`] = 'admin';
+      process.env[`WORDPRESS_${i}_PASSWORD`] = 'pw';
+    }
+
+    const sm = new SiteManager();
+    expect(sm.getAllSites().map((s) => s.id)).toEqual(['site1', 'site2', 'site11', 'site12']);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe('batch_content against a WordPress site', () => {
+  it('runs mixed writes in one /batch/v1 request, custom types included', async () => {
+    const result = await callTool(client, 'batch_content', {
+      operations: [
+        { action: 'create', content_type: 'documentation', data: { title: 'FAQ', status: 'publish' } },
+        { action: 'update', content_type: 'post', id: 1, data: { title: 'Hello again' } },
+        { action: 'delete', content_type: 'post', id: 999, force: true }
+      ]
+    });
+
+    expect(result.structured).toMatchObject({
+      mode: 'batch',
+      succeeded: 2,
+      failed: 1,
+      results: [
+        { index: 0, ok: true, status: 201, content: { slug: 'faq' } },
+        { index: 1, ok: true, id: 1 },
+        { index: 2, ok: false, status: 404, error: { code: 'rest_post_invalid_id' } }
+      ]
+    });
+    expect(fake.requests.filter(request => request.path === '/batch/v1')).toHaveLength(1);
+    expect(fake.requests).toContainEqual(expect.objectContaining({ method: 'POST', path: '/wp/v2/docs' }));
+    expect(fake.state.posts.get(1)?.title).toBe('Hello again');
+  });
+});
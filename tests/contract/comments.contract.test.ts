@@ -0,0 +1,62 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.reset();
+});
+
+// The seeded "Hello world!" post
+const POST_ID = 1;
+
+describe('comment tools against a WordPress site', () => {
+  it('creates, reads and lists comments on a post', async () => {
+    const created = await callTool(client, 'create_comment', { post: POST_ID, content: 'Nice post!' });
+    expect(created.isError).toBe(false);
+    expect(created.json).toMatchObject({ post: POST_ID, status: 'approved', link: `${fake.url}/hello-world/#comment-${created.json.id}` });
+
+    const read = await callTool(client, 'get_comment', { id: created.json.id });
+    expect(read.json.content.rendered).toContain('Nice post!');
+
+    const listed = await callTool(client, 'list_comments', { post: POST_ID });
+    expect(listed.structured).toMatchObject({ total: 1, items: [{ id: created.json.id }] });
+  });
+
+  it('moderates comments through status', async () => {
+    const { json: comment } = await callTool(client, 'create_comment', { post: POST_ID, content: 'Buy now', status: 'hold' });
+
+    const approved = await callTool(client, 'list_comments', { post: POST_ID });
+    expect(approved.structured.items).toEqual([]);
+    const held = await callTool(client, 'list_comments', { post: POST_ID, status: 'hold' });
+    expect(held.structured.items.map((item: any) => item.id)).toEqual([comment.id]);
+
+    const updated = await callTool(client, 'update_comment', { id: comment.id, status: 'approve' });
+    expect(updated.json.status).toBe('approved');
+  });
+
+  it('rejects comments on content that does not exist', async () => {
+    const result = await callTool(client, 'create_comment', { post: 999, content: 'Hello?' });
+
+    expect(result.isError).toBe(true);
+    expect(result.texts[0]).toContain('rest_comment_invalid_post_id');
+  });
+
+  it('trashes by default and deletes with force', async () => {
+    const { json: comment } = await callTool(client, 'create_comment', { post: POST_ID, content: 'Bye' });
+
+    const trashed = await callTool(client, 'delete_comment', { id: comment.id });
+    expect(trashed.json.status).toBe('trash');
+
+    const deleted = await callTool(client, 'delete_comment', { id: comment.id, force: true });
+    expect(deleted.json).toMatchObject({ deleted: true });
+    expect(fake.state.comments.size).toBe(0);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe('get_content_summary against a WordPress site', () => {
+  it('summarizes content by id', async () => {
+    const result = await callTool(client, 'get_content_summary', { id: 1 });
+
+    expect(result.isError).toBe(false);
+    expect(result.structured).toMatchObject({
+      id: 1,
+      title: 'Hello world!',
+      slug: 'hello-world',
+      status: 'publish',
+      categories: [1],
+      word_count: 3
+    });
+  });
+
+  it('resolves a custom type URL before summarizing', async () => {
+    const { structured } = await callTool(client, 'create_content', {
+      content_type: 'documentation',
+      title: 'Install guide',
+      content: '<p>Run the installer twice.</p>',
+      content_format: 'html',
+      status: 'publish'
+    });
+
+    const result = await callTool(client, 'get_content_summary', { url: `${fake.url}/documentation/install-guide/` });
+
+    expect(result.structured).toMatchObject({ id: structured.content.id, slug: 'install-guide', word_count: 4 });
+    expect(fake.requests).toContainEqual(expect.objectContaining({ method: 'GET', path: `/wp/v2/docs/${structured.content.id}` }));
+  });
+});
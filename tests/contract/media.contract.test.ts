@@ -0,0 +1,74 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wp-media-'));
+
+afterAll(async () => {
+  await client.close();
+  await fake.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe('media tools against a WordPress site', () => {
+  it('uploads a local file as multipart form data', async () => {
+    const file = path.join(dir, 'team_photo.png');
+    fs.writeFileSync(file, Buffer.from('89504e470d0a1a0a0000', 'hex'));
+
+    const created = await callTool(client, 'create_media', { file_path: file, alt_text: 'The team' });
+
+    expect(created.isError).toBe(false);
+    expect(created.structured).toMatchObject({
+      title: { raw: 'team photo' },
+      alt_text: 'The team',
+      media_type: 'image',
+      mime_type: 'image/png',
+      source_url: `${fake.url}/wp-content/uploads/team_photo.png`
+    });
+    expect(fake.state.posts.get(created.structured.id)?.filesize).toBe(10);
+  });
+
+  it('uploads a remote file under an explicit title', async () => {
+    const created = await callTool(client, 'create_media', { source_url: `${fake.url}/files/photo.png`, title: 'Hero image' });
+
+    expect(created.isError).toBe(false);
+    expect(created.structured).toMatchObject({ title: { raw: 'Hero image' }, source_url: `${fake.url}/wp-content/uploads/Hero_image.png` });
+  });
+
+  it('updates, reads and lists media', async () => {
+    const file = path.join(dir, 'doc.pdf');
+    fs.writeFileSync(file, '%PDF-1.4');
+    const { structured: media } = await callTool(client, 'create_media', { file_path: file });
+
+    const updated = await callTool(client, 'update_media', { id: media.id, caption: 'Spec sheet' });
+    expect(updated.structured.caption.raw).toBe('Spec sheet');
+
+    const read = await callTool(client, 'get_media', { id: media.id, context: 'edit' });
+    expect(read.structured).toMatchObject({ id: media.id, media_type: 'file', mime_type: 'application/pdf' });
+
+    const images = await callTool(client, 'list_media', { media_type: 'image' });
+    expect(images.structured.items).toEqual([]);
+    const files = await callTool(client, 'list_media', { media_type: 'application' });
+    expect(files.structured.items.map((item: any) => item.id)).toEqual([media.id]);
+  });
+
+  it('needs force to delete, since attachments have no trash', async () => {
+    const { structured: media } = await callTool(client, 'create_media', { source_url: `${fake.url}/files/photo.png` });
+
+    const refused = await callTool(client, 'delete_media', { id: media.id });
+    expect(refused.isError).toBe(true);
+    expect(refused.texts[0]).toContain('rest_trash_not_supported');
+
+    const deleted = await callTool(client, 'delete_media', { id: media.id, force: true });
+    expect(deleted.json).toMatchObject({ deleted: true, previous: { id: media.id } });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe('plugin tools against a WordPress site', () => {
+  it('lists plugins by status', async () => {
+    const active = await callTool(client, 'list_plugins');
+    expect(active.json.map((plugin: any) => plugin.plugin)).toEqual(['hello']);
+
+    const inactive = await callTool(client, 'list_plugins', { status: 'inactive' });
+    expect(inactive.json.map((plugin: any) => plugin.plugin)).toEqual(['akismet/akismet']);
+  });
+
+  it('activates and deactivates through the plugin route', async () => {
+    const activated = await callTool(client, 'activate_plugin', { plugin: 'akismet/akismet' });
+    expect(activated.isError).toBe(false);
+    expect(fake.state.plugins.get('akismet/akismet')?.status).toBe('active');
+    expect(fake.requests).toContainEqual(expect.objectContaining({ method: 'POST', path: '/wp/v2/plugins/akismet/akismet', body: { status: 'active' } }));
+
+    await callTool(client, 'deactivate_plugin', { plugin: 'akismet/akismet' });
+    expect(fake.state.plugins.get('akismet/akismet')?.status).toBe('inactive');
+  });
+
+  it('gets a plugin and reports unknown ones', async () => {
+    const found = await callTool(client, 'get_plugin', { plugin: 'hello' });
+    expect(found.json).toMatchObject({ plugin: 'hello', name: 'Hello Dolly' });
+
+    const missing = await callTool(client, 'get_plugin', { plugin: 'akismet' });
+    expect(missing.isError).toBe(true);
+    expect(missing.texts[0]).toContain('rest_plugin_not_found');
+  });
+
+  it('installs a plugin from its directory slug', async () => {
+    const created = await callTool(client, 'create_plugin', { slug: 'classic-editor' });
+
+    expect(created.json).toMatchObject({ plugin: 'classic-editor/classic-editor', status: 'active' });
+  });
+});
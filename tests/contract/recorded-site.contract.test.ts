@@ -0,0 +1,67 @@
+// Replays tests/fixtures/http/content-tools.json, a sanitized recording of
+// the content tools against the fake WordPress, so the record/replay path
+// runs in CI. Re-record it with MCP_WP_HTTP_FIXTURES=record.
+import { describe, it, expect, afterAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+import { resolveFixtureMode, stopHttpFixtures, useHttpFixtures } from '../../src/http-fixtures.js';
+
+const FIXTURE = 'content-tools';
+const mode = resolveFixtureMode() ?? 'replay';
+
+const ENV_KEYS = ['WORDPRESS_1_URL', 'WORDPRESS_1_USERNAME', 'WORDPRESS_1_PASSWORD', 'WORDPRESS_1_ID', 'WORDPRESS_1_RETRIES', 'UNIFIED_CONTENT_CACHE_DIR'];
+const envBackup = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wp-recorded-'));
+
+const fake = mode === 'record' ? await startFakeWordPress() : undefined;
+if (!fake) {
+  // Any site will do; replayed requests never leave the process
+  Object.assign(process.env, {
+    WORDPRESS_1_URL: 'https://example.test',
+    WORDPRESS_1_USERNAME: 'fixture-user',
+    WORDPRESS_1_PASSWORD: 'fixture-password',
+    WORDPRESS_1_ID: 'fake',
+    WORDPRESS_1_RETRIES: '0'
+  });
+}
+// Post types are cached on disk; start from nothing so they come from the fixture
+process.env.UNIFIED_CONTENT_CACHE_DIR = cacheDir;
+const fixtures = useHttpFixtures(FIXTURE, { mode });
+
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  stopHttpFixtures();
+  await fake?.close();
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+  for (const key of ENV_KEYS) {
+    if (envBackup[key] === undefined) delete process.env[key];
+    else process.env[key] = envBackup[key];
+  }
+});
+
+describe(`content tools (${mode === 'record' ? 'recording' : 'replaying'} ${FIXTURE})`, () => {
+  it('lists, reads and creates content', async () => {
+    const listed = await callTool(client, 'list_content', { content_type: 'post', per_page: 2 });
+    expect(listed.isError).toBe(false);
+    expect(listed.structured.items[0]).toMatchObject({ id: 1, slug: 'hello-world' });
+
+    const read = await callTool(client, 'get_content', { content_type: 'post', id: 1 });
+    expect(read.structured).toMatchObject({ id: 1, title: { rendered: 'Hello world!' } });
+
+    const created = await callTool(client, 'create_content', { content_type: 'post', title: 'Recorded draft', content: 'Body', status: 'draft' });
+    expect(created.isError).toBe(false);
+    expect(created.json).toMatchObject({ title: { rendered: 'Recorded draft' }, status: 'draft' });
+  });
+
+  it('holds only sanitized traffic', () => {
+    const recorded = fs.readFileSync(fixtures.file, 'utf8');
+    expect(recorded).not.toMatch(/127\.0\.0\.1|localhost/);
+    expect(recorded).not.toMatch(/authorization/i);
+    expect(fixtures.entries.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+
+const fake = await startFakeWordPress();
+process.env.WORDPRESS_REST_ALLOWLIST = 'GET /wp/v2/**, POST /wp/v2/docs';
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  delete process.env.WORDPRESS_REST_ALLOWLIST;
+  await client.close();
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe('wp_rest_request against a WordPress site', () => {
+  it('passes collection headers through', async () => {
+    const result = await callTool(client, 'wp_rest_request', { method: 'GET', route: '/wp/v2/posts', query: { per_page: 1 } });
+
+    expect(result.structured).toMatchObject({ status: 200, total: 1, total_pages: 1 });
+    expect(result.structured.data[0].slug).toBe('hello-world');
+  });
+
+  it('sends allowed writes and returns WordPress errors as tool errors', async () => {
+    const created = await callTool(client, 'wp_rest_request', { method: 'POST', route: '/wp/v2/docs', body: { title: 'FAQ' } });
+    expect(created.structured).toMatchObject({ status: 201, data: { type: 'documentation', status: 'draft' } });
+
+    const missing = await callTool(client, 'wp_rest_request', { method: 'GET', route: '/wp/v2/docs/999' });
+    expect(missing.isError).toBe(true);
+    expect(missing.texts[0]).toContain('rest_post_invalid_id');
+  });
+
+  it('never sends a request the allowlist denies', async () => {
+    const result = await callTool(client, 'wp_rest_request', { method: 'DELETE', route: '/wp/v2/posts/1' });
+
+    expect(result.isError).toBe(true);
+    expect(fake.requests).toEqual([]);
+    expect(fake.state.posts.has(1)).toBe(true);
+  });
+});
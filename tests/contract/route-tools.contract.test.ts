@@ -0,0 +1,31 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  await fake.close();
+});
+
+describe('discover_routes against a WordPress site', () => {
+  it('lists routes from the REST index, custom rest_bases included', async () => {
+    const result = await callTool(client, 'discover_routes', { namespace: 'wp/v2' });
+
+    expect(result.isError).toBe(false);
+    const routes = result.structured.routes.map((route: any) => route.route);
+    expect(routes).toContain('/wp/v2/docs');
+    expect(routes).toContain('/wp/v2/documentation-categories/{id}');
+    expect(routes).toContain('/wp/v2/plugins/{plugin}');
+  });
+
+  it('describes one route from OPTIONS', async () => {
+    const result = await callTool(client, 'discover_routes', { route: '/wp/v2/docs' });
+
+    expect(result.structured.schema).toMatchObject({ title: 'documentation' });
+    expect(result.structured.endpoints.map((endpoint: any) => endpoint.methods)).toEqual([['GET'], ['POST']]);
+    expect(fake.requests).toContainEqual(expect.objectContaining({ method: 'OPTIONS', path: '/wp/v2/docs' }));
+  });
+});
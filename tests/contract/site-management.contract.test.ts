@@ -0,0 +1,156 @@
+import { describe, it, expect, afterAll, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+import { readVault } from '../../src/secrets.js';
+
+// A second site on its own server; started first so `fake` is the configured site
+const other = await startFakeWordPress();
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const { initWordPress } = await import('../../src/wordpress.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  await fake.close();
+  await other.close();
+});
+
+describe('site tools against a WordPress site', () => {
+  it('lists the configured site and connects to it', async () => {
+    const sites = await callTool(client, 'list_sites');
+    expect(sites.structured.sites).toContainEqual(expect.objectContaining({ id: 'fake', url: fake.url }));
+
+    const tested = await callTool(client, 'test_site', { site_id: 'fake' });
+    expect(tested.structured).toMatchObject({ site_id: 'fake', success: true });
+    expect(fake.requests).toContainEqual(expect.objectContaining({ method: 'GET', path: '/wp/v2/' }));
+  });
+
+  it('adds a site only once it connects, then updates and removes it', async () => {
+    const rejected = await callTool(client, 'add_site', { site_id: 'mirror', url: fake.url, username: fake.username, password: 'wrong password' });
+    expect(rejected.isError).toBe(true);
+    expect(rejected.texts.join('\n')).toMatch(/Site 'mirror' was not added: .*401/);
+    expect((await callTool(client, 'list_sites')).structured.count).toBe(1);
+
+    const added = await callTool(client, 'add_site', {
+      site_id: 'mirror', url: fake.url, username: fake.username, password: fake.password, aliases: ['copy'], tags: ['test']
+    });
+    expect(added.structured).toMatchObject({ site: { id: 'mirror', aliases: ['copy'], isDefault: false }, config_file: null });
+    expect((await callTool(client, 'get_site', { site_id: 'copy' })).structured.id).toBe('mirror');
+
+    const requestsBefore = fake.requests.length;
+    const moved = await callTool(client, 'update_site', { site_id: 'mirror', url: `${fake.url}/moved` });
+    expect(moved.isError).toBe(true);
+    expect(moved.texts.join('\n')).toMatch(/Changing url needs the credentials again.*: basic auth needs username and password/);
+    // A token is not what basic auth sends, so the stored password must not be used instead
+    const movedWithToken = await callTool(client, 'update_site', { site_id: 'mirror', url: `${fake.url}/moved`, token: 'unused' });
+    expect(movedWithToken.isError).toBe(true);
+    expect(movedWithToken.texts.join('\n')).toMatch(/basic auth needs username and password/);
+    expect(fake.requests.length).toBe(requestsBefore);
+    expect((await callTool(client, 'get_site', { site_id: 'mirror' })).structured.url).toBe(fake.url);
+
+    const updated = await callTool(client, 'update_site', { site_id: 'mirror', tags: ['renamed'], default: true });
+    expect(updated.structured.site).toMatchObject({ tags: ['renamed'], isDefault: true });
+
+    const removed = await callTool(client, 'remove_site', { site_id: 'mirror' });
+    expect(removed.structured.message).toBe("Removed site 'mirror'");
+    const sites = await callTool(client, 'list_sites');
+    expect(sites.structured).toMatchObject({ count: 1, default_site: 'fake' });
+  });
+
+  it('sends calls without site_id to the current default site', async () => {
+    // As at server startup
+    await initWordPress();
+    const servedBy = async () => {
+      fake.requests.length = 0;
+      other.requests.length = 0;
+      expect((await callTool(client, 'list_comments')).isError).toBe(false);
+      const hit = (server: typeof fake) => server.requests.some(request => request.path === '/wp/v2/comments');
+      return [hit(fake) && 'fake', hit(other) && 'other'].filter(Boolean);
+    };
+    const credentials = { username: fake.username, password: fake.password };
+
+    await callTool(client, 'add_site', { site_id: 'second', url: other.url, ...credentials, default: true });
+    expect(await servedBy()).toEqual(['other']);
+
+    await callTool(client, 'update_site', { site_id: 'fake', default: true });
+    expect(await servedBy()).toEqual(['fake']);
+
+    await callTool(client, 'update_site', { site_id: 'second', default: true });
+    await callTool(client, 'update_site', { site_id: 'second', url: fake.url, password: fake.password });
+    expect(await servedBy()).toEqual(['fake']);
+    await callTool(client, 'update_site', { site_id: 'second', url: other.url, password: fake.password });
+    expect(await servedBy()).toEqual(['other']);
+
+    await callTool(client, 'remove_site', { site_id: 'second' });
+    expect(await servedBy()).toEqual(['fake']);
+  });
+
+  it('refuses to persist without a site config file', async () => {
+    const result = await callTool(client, 'remove_site', { site_id: 'fake', persist: true });
+    expect(result.isError).toBe(true);
+    expect(result.texts.join('\n')).toMatch(/No site config file to save to/);
+    expect((await callTool(client, 'list_sites')).structured.count).toBe(1);
+  });
+
+  describe('with a site config file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wp-site-tools-'));
+    const configFile = path.join(dir, 'sites.yaml');
+    const vaultFile = path.join(dir, 'vault.json');
+    const ENV_KEYS = ['WORDPRESS_CONFIG_FILE', 'MCP_WP_VAULT_FILE', 'MCP_WP_VAULT_KEY'];
+    const envBackup = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+    afterEach(async () => {
+      await callTool(client, 'remove_site', { site_id: 'saved' });
+      for (const key of ENV_KEYS) {
+        if (envBackup[key] === undefined) delete process.env[key];
+        else process.env[key] = envBackup[key];
+      }
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    function useConfigFile(env: Record<string, string>) {
+      fs.writeFileSync(configFile, `sites:\n  - id: other\n    url: ${fake.url}\n    auth:\n      username: bot\n      password: { env: OTHER_PASSWORD }\n`);
+      Object.assign(process.env, { WORDPRESS_CONFIG_FILE: configFile, ...env });
+    }
+
+    const savedSite = () => ({ site_id: 'saved', url: fake.url, username: fake.username, password: fake.password, persist: true });
+
+    it('saves the password to the vault, never to the config file', async () => {
+      useConfigFile({ MCP_WP_VAULT_FILE: vaultFile });
+      const refused = await callTool(client, 'add_site', savedSite());
+      expect(refused.isError).toBe(true);
+      expect(refused.texts.join('\n')).toMatch(/needs the encrypted vault, so it is not written to the config file in plaintext/);
+      expect((await callTool(client, 'list_sites')).structured.count).toBe(1);
+
+      process.env.MCP_WP_VAULT_KEY = 'master-key';
+      const added = await callTool(client, 'add_site', savedSite());
+      expect(added.structured.config_file).toBe(configFile);
+      const saved = fs.readFileSync(configFile, 'utf8');
+      expect(saved).not.toContain(fake.password);
+      expect(saved).toMatch(/password:\s*\n?\s*vault: site-saved/);
+      expect(readVault(vaultFile, 'master-key')).toMatchObject({ 'site-saved': fake.password });
+
+      const removed = await callTool(client, 'remove_site', { site_id: 'saved', persist: true });
+      expect(removed.structured.message).toBe(`Removed site 'saved' and deleted it from ${configFile} and its vault entry "site-saved"`);
+      expect(fs.readFileSync(configFile, 'utf8')).not.toContain('saved');
+      expect(readVault(vaultFile, 'master-key')).not.toHaveProperty('site-saved');
+    });
+
+    it('drops the site again when it cannot be saved', async () => {
+      // The vault cannot be created inside a regular file
+      useConfigFile({ MCP_WP_VAULT_FILE: path.join(configFile, 'vault.json'), MCP_WP_VAULT_KEY: 'master-key' });
+      const before = fs.readFileSync(configFile, 'utf8');
+
+      const failed = await callTool(client, 'add_site', savedSite());
+      expect(failed.isError).toBe(true);
+      expect(fs.readFileSync(configFile, 'utf8')).toBe(before);
+      expect((await callTool(client, 'list_sites')).structured.count).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  await fake.close();
+});
+
+describe('execute_sql_query against a WordPress site', () => {
+  it('explains how to enable the endpoint on a stock site', async () => {
+    // Core WordPress has no query route; it answers rest_no_route
+    const result = await callTool(client, 'execute_sql_query', { query: 'SELECT ID FROM wp_posts' });
+
+    expect(result.isError).toBe(true);
+    expect(result.texts[0]).toContain('The SQL query endpoint (/mcp/v1/query) is not enabled on this site');
+    expect(fake.requests).toContainEqual(expect.objectContaining({ method: 'POST', path: '/mcp/v1/query', body: { query: 'SELECT ID FROM wp_posts' } }));
+  });
+});
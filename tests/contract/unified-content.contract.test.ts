@@ -0,0 +1,175 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.reset();
+});
+
+const BLOCKS = [
+  '<!-- wp:paragraph -->\n<p>Intro</p>\n<!-- /wp:paragraph -->',
+  '<!-- wp:paragraph -->\n<p>Outro</p>\n<!-- /wp:paragraph -->'
+].join('\n\n');
+
+async function createDoc(args: Record<string, unknown> = {}) {
+  const created = await callTool(client, 'create_content', {
+    content_type: 'documentation',
+    title: 'Install guide',
+    content: '<p>Step one</p>',
+    content_format: 'html',
+    status: 'publish',
+    ...args
+  });
+  expect(created.isError).toBe(false);
+  return created.structured.content;
+}
+
+describe('content tools against a WordPress site', () => {
+  it('routes custom post types through their rest_base', async () => {
+    const types = await callTool(client, 'discover_content_types');
+    expect(types.structured.types).toContainEqual(expect.objectContaining({ slug: 'documentation', rest_base: 'docs' }));
+
+    const doc = await createDoc();
+    expect(doc).toMatchObject({ type: 'documentation', slug: 'install-guide', link: `${fake.url}/documentation/install-guide/` });
+    expect(fake.requests).toContainEqual(expect.objectContaining({ method: 'POST', path: '/wp/v2/docs' }));
+
+    const listed = await callTool(client, 'list_content', { content_type: 'documentation' });
+    expect(listed.structured).toMatchObject({ total: 1, total_pages: 1, next_page: null });
+    expect(listed.structured.items[0].id).toBe(doc.id);
+  });
+
+  it('lists only published content unless a status is given, with paging metadata', async () => {
+    for (const title of ['One', 'Two', 'Three']) {
+      await callTool(client, 'create_content', { content_type: 'post', title, content: 'x', content_format: 'html', status: 'publish' });
+    }
+    await callTool(client, 'create_content', { content_type: 'post', title: 'Draft', content: 'x', content_format: 'html' });
+
+    const page = await callTool(client, 'list_content', { content_type: 'post', per_page: 2 });
+    // Three new posts plus the seeded "Hello world!"
+    expect(page.structured).toMatchObject({ total: 4, total_pages: 2, page: 1, next_page: 2 });
+
+    const all = await callTool(client, 'list_content', { content_type: 'post', fetch_all: true, per_page: 2 });
+    expect(all.structured.items).toHaveLength(4);
+
+    const drafts = await callTool(client, 'list_content', { content_type: 'post', status: 'draft' });
+    expect(drafts.structured.items.map((item: any) => item.title.rendered)).toEqual(['Draft']);
+  });
+
+  it('reports meta keys WordPress dropped because they are not registered', async () => {
+    fake.registerMeta('post', 'reading_time', 0);
+
+    const created = await callTool(client, 'create_content', {
+      content_type: 'post',
+      title: 'SEO',
+      content: 'x',
+      content_format: 'html',
+      meta: { reading_time: 4, _yoast_wpseo_title: 'Custom title' }
+    });
+
+    expect(created.isError).toBe(false);
+    expect(created.structured.dropped_meta_keys).toEqual(['_yoast_wpseo_title']);
+    expect(created.texts[0]).toContain('did not persist these meta keys: _yoast_wpseo_title');
+    expect(fake.state.posts.get(created.structured.content.id)?.meta).toEqual({ reading_time: 4 });
+  });
+
+  it('treats every key as dropped when the type registers no meta', async () => {
+    // WordPress serializes an empty meta map as []
+    const doc = await createDoc();
+    const updated = await callTool(client, 'update_content', { content_type: 'documentation', id: doc.id, meta: { version: '2.0' } });
+
+    expect(updated.structured.content.meta).toEqual([]);
+    expect(updated.structured.dropped_meta_keys).toEqual(['version']);
+  });
+
+  it('applies content_edit to the raw content, not the rendered HTML', async () => {
+    const created = await callTool(client, 'create_content', { content_type: 'post', title: 'Blocks', content: BLOCKS, content_format: 'blocks' });
+    const id = created.structured.content.id;
+    expect(created.structured.content.content.rendered).not.toContain('wp:paragraph');
+
+    const edited = await callTool(client, 'update_content', {
+      content_type: 'post',
+      id,
+      content_edit: {
+        operation: 'insert_after',
+        target_text: '<!-- /wp:paragraph -->',
+        occurrence: 1,
+        value: '\n\n<!-- wp:paragraph -->\n<p>Middle</p>\n<!-- /wp:paragraph -->',
+        content_format: 'blocks'
+      }
+    });
+
+    expect(edited.isError).toBe(false);
+    expect(fake.state.posts.get(id)?.content).toBe([
+      '<!-- wp:paragraph -->\n<p>Intro</p>\n<!-- /wp:paragraph -->',
+      '<!-- wp:paragraph -->\n<p>Middle</p>\n<!-- /wp:paragraph -->',
+      '<!-- wp:paragraph -->\n<p>Outro</p>\n<!-- /wp:paragraph -->'
+    ].join('\n\n'));
+    expect(fake.requests).toContainEqual(expect.objectContaining({ method: 'GET', path: `/wp/v2/posts/${id}`, query: { context: 'edit' } }));
+
+    const raw = await callTool(client, 'get_content', { content_type: 'post', id, include_raw_content: true });
+    expect(raw.structured.content_raw).toContain('<p>Middle</p>');
+  });
+
+  it('refuses an ambiguous content_edit target without writing', async () => {
+    const created = await callTool(client, 'create_content', { content_type: 'post', title: 'Blocks', content: BLOCKS, content_format: 'blocks' });
+    const id = created.structured.content.id;
+
+    const edited = await callTool(client, 'update_content', {
+      content_type: 'post',
+      id,
+      content_edit: { operation: 'replace', target_text: '<!-- wp:paragraph -->', value: '', content_format: 'blocks' }
+    });
+
+    expect(edited.isError).toBe(true);
+    expect(edited.texts[0]).toContain('matched 2 locations');
+    expect(fake.state.posts.get(id)?.content).toBe(BLOCKS);
+  });
+
+  it('finds content by URL on a custom type and edits it in place', async () => {
+    const doc = await createDoc();
+
+    const found = await callTool(client, 'find_content_by_url', {
+      url: `${fake.url}/documentation/install-guide/`,
+      include_raw_content: true,
+      update_fields: { content_edit: { operation: 'append', value: '<p>Step two</p>', content_format: 'html' } }
+    });
+
+    expect(found.isError).toBe(false);
+    expect(found.structured).toMatchObject({ found: true, content_type: 'documentation', content_id: doc.id, updated: true });
+    expect(found.structured.content_raw).toBe('<p>Step one</p><p>Step two</p>');
+  });
+
+  it('finds content by slug and fails cleanly when nothing matches', async () => {
+    const doc = await createDoc();
+
+    const bySlug = await callTool(client, 'get_content_by_slug', { slug: 'install-guide' });
+    expect(bySlug.structured).toMatchObject({ found: true, content_type: 'documentation', content_id: doc.id });
+
+    const missing = await callTool(client, 'get_content_by_slug', { slug: 'nope', content_types: ['post', 'page'] });
+    expect(missing.isError).toBe(true);
+    expect(missing.texts[0]).toContain('No content found with slug: nope');
+  });
+
+  it('trashes by default and deletes with force', async () => {
+    const doc = await createDoc();
+
+    const trashed = await callTool(client, 'delete_content', { content_type: 'documentation', id: doc.id });
+    expect(trashed.json).toMatchObject({ id: doc.id, status: 'trash' });
+
+    const deleted = await callTool(client, 'delete_content', { content_type: 'documentation', id: doc.id, force: true });
+    expect(deleted.json).toMatchObject({ deleted: true, previous: { id: doc.id } });
+    expect(fake.state.posts.has(doc.id)).toBe(false);
+
+    const gone = await callTool(client, 'get_content', { content_type: 'documentation', id: doc.id });
+    expect(gone.isError).toBe(true);
+    expect(gone.texts[0]).toContain('rest_post_invalid_id');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.reset();
+});
+
+async function createDoc() {
+  const created = await callTool(client, 'create_content', {
+    content_type: 'documentation',
+    title: 'Install guide',
+    content: '<p>Step one</p>',
+    content_format: 'html',
+    status: 'publish'
+  });
+  return created.structured.content.id as number;
+}
+
+describe('taxonomy tools against a WordPress site', () => {
+  it('reports each taxonomy with its rest_base', async () => {
+    const result = await callTool(client, 'discover_taxonomies');
+
+    expect(result.isError).toBe(false);
+    expect(result.json).toContainEqual(expect.objectContaining({ slug: 'documentation_category', rest_base: 'documentation-categories' }));
+  });
+
+  it('resolves a taxonomy by slug or rest_base to the rest_base route', async () => {
+    const bySlug = await callTool(client, 'create_term', { taxonomy: 'documentation_category', name: 'Setup' });
+    expect(bySlug.structured).toMatchObject({ name: 'Setup', slug: 'setup', taxonomy: 'documentation_category' });
+    expect(fake.requests).toContainEqual(expect.objectContaining({ method: 'POST', path: '/wp/v2/documentation-categories' }));
+
+    const byRestBase = await callTool(client, 'list_terms', { taxonomy: 'documentation-categories' });
+    expect(byRestBase.structured.items.map((term: any) => term.name)).toEqual(['Setup']);
+
+    const updated = await callTool(client, 'update_term', { taxonomy: 'documentation_category', id: bySlug.structured.id, description: 'Getting started' });
+    expect(updated.structured.description).toBe('Getting started');
+  });
+
+  it('names the available taxonomies when one is unknown', async () => {
+    const result = await callTool(client, 'list_terms', { taxonomy: 'doc_category' });
+
+    expect(result.isError).toBe(true);
+    expect(result.texts[0]).toContain('Unknown taxonomy "doc_category"');
+    expect(result.texts[0]).toContain('documentation_category (rest_base: documentation-categories)');
+  });
+
+  it('assigns terms through the rest_base field and verifies they stuck', async () => {
+    const id = await createDoc();
+    const setup = await callTool(client, 'create_term', { taxonomy: 'documentation_category', name: 'Setup' });
+    const advanced = await callTool(client, 'create_term', { taxonomy: 'documentation_category', name: 'Advanced' });
+
+    await callTool(client, 'assign_terms_to_content', {
+      content_type: 'documentation',
+      content_id: id,
+      taxonomy: 'documentation_category',
+      terms: [setup.structured.id]
+    });
+    const appended = await callTool(client, 'assign_terms_to_content', {
+      content_type: 'documentation',
+      content_id: id,
+      taxonomy: 'documentation_category',
+      terms: [advanced.structured.id],
+      append: true
+    });
+
+    expect(appended.isError).toBe(false);
+    expect(appended.structured).toMatchObject({ verified: true, rest_base: 'documentation-categories' });
+    expect(fake.state.posts.get(id)?.terms.documentation_category).toEqual([setup.structured.id, advanced.structured.id]);
+
+    const terms = await callTool(client, 'get_content_terms', { content_type: 'documentation', content_id: id });
+    expect(terms.structured.terms.documentation_category.map((term: any) => term.name)).toEqual(['Setup', 'Advanced']);
+  });
+
+  it('reports an assignment WordPress ignored as an error', async () => {
+    // Tags are not registered for the documentation type, so the field is dropped
+    const id = await createDoc();
+    const tag = await callTool(client, 'create_term', { taxonomy: 'post_tag', name: 'news' });
+
+    const result = await callTool(client, 'assign_terms_to_content', {
+      content_type: 'documentation',
+      content_id: id,
+      taxonomy: 'post_tag',
+      terms: [tag.structured.id]
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.texts[0]).toContain('assignment did not stick');
+  });
+
+  it('deletes terms with force and unlinks them from content', async () => {
+    const id = await createDoc();
+    const term = await callTool(client, 'create_term', { taxonomy: 'documentation_category', name: 'Setup' });
+    await callTool(client, 'assign_terms_to_content', { content_type: 'documentation', content_id: id, taxonomy: 'documentation_category', terms: [term.structured.id] });
+
+    const deleted = await callTool(client, 'delete_term', { taxonomy: 'documentation-categories', id: term.structured.id });
+
+    expect(deleted.json).toMatchObject({ deleted: true, previous: { id: term.structured.id } });
+    expect(fake.state.posts.get(id)?.terms.documentation_category).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { startFakeWordPress } from '../support/fake-wordpress.js';
+
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('../support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe('user tools against a WordPress site', () => {
+  it('creates a user without echoing the password', async () => {
+    const created = await callTool(client, 'create_user', {
+      username: 'editor1',
+      email: 'editor1@example.test',
+      password: 'correct horse battery staple',
+      roles: ['editor']
+    });
+
+    expect(created.isError).toBe(false);
+    expect(created.structured).toMatchObject({ username: 'editor1', email: 'editor1@example.test', roles: ['editor'] });
+    expect(created.texts.join('\n')).not.toContain('correct horse');
+  });
+
+  it('returns private fields only with context=edit', async () => {
+    const view = await callTool(client, 'get_user', { id: 1 });
+    expect(view.structured).not.toHaveProperty('email');
+
+    const edit = await callTool(client, 'get_user', { id: 1, context: 'edit' });
+    expect(edit.structured).toMatchObject({ username: fake.username, roles: ['administrator'] });
+  });
+
+  it('lists and updates users', async () => {
+    await callTool(client, 'create_user', { username: 'author1', email: 'a1@example.test', password: 'x', roles: ['author'] });
+
+    const authors = await callTool(client, 'list_users', { roles: ['author'], context: 'edit' });
+    expect(authors.structured.items.map((user: any) => user.username)).toEqual(['author1']);
+
+    const id = authors.structured.items[0].id;
+    const updated = await callTool(client, 'update_user', { id, name: 'Ada Author' });
+    expect(updated.structured.name).toBe('Ada Author');
+  });
+
+  it('deletes with force and reassigns content', async () => {
+    const { structured: user } = await callTool(client, 'create_user', { username: 'leaving', email: 'l@example.test', password: 'x' });
+    const post = await callTool(client, 'create_content', { content_type: 'post', title: 'Theirs', content: 'x', content_format: 'html', author: user.id });
+
+    const refused = await callTool(client, 'delete_user', { id: user.id, reassign: 1 });
+    expect(refused.isError).toBe(true);
+    expect(refused.texts[0]).toContain('rest_trash_not_supported');
+
+    const deleted = await callTool(client, 'delete_user', { id: user.id, force: true, reassign: 1 });
+    expect(deleted.isError).toBe(false);
+    expect(fake.state.users.has(user.id)).toBe(false);
+    expect(fake.state.posts.get(post.structured.content.id)?.author).toBe(1);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+vi.mock('../src/wordpress.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/wordpress.js')>()),
+  makeWordPressRequest: vi.fn(),
+}));
+
+const { makeWordPressRequest } = await import('../src/wordpress.js');
+const { createMcpServer } = await import('../src/mcp-server.js');
+const { WordPressRestError, normalizeWordPressError, formatToolError } = await import('../src/errors.js');
+
+const request = vi.mocked(makeWordPressRequest);
+
+// An axios failure as the site client would raise it
+function axiosFailure(status: number, data: unknown, method = 'post', url = 'posts/42') {
+  const config = { method, url, headers: new AxiosHeaders() };
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_REQUEST', config, {}, {
+    status,
+    statusText: '',
+    data,
+    headers: {},
+    config
+  });
+}
+
+beforeEach(() => {
+  request.mockReset();
+});
+
+describe('normalizeWordPressError', () => {
+  it('keeps the WordPress code, message and status', () => {
+    const error = normalizeWordPressError(axiosFailure(403, {
+      code: 'rest_cannot_edit',
+      message: 'Sorry, you are not allowed to edit this post.',
+      data: { status: 403 }
+    }), { siteId: 'prod' });
+
+    expect(error).toBeInstanceOf(WordPressRestError);
+    expect(error).toMatchObject({
+      code: 'rest_cannot_edit',
+      status: 403,
+      message: 'Sorry, you are not allowed to edit this post.',
+      method: 'POST',
+      endpoint: 'posts/42',
+      siteId: 'prod'
+    });
+    expect((error as InstanceType<typeof WordPressRestError>).hint()).toContain('edit_others_posts');
+  });
+
+  it('collects per-field messages from rest_invalid_param and rest_missing_callback_param', () => {
+    const invalid = normalizeWordPressError(axiosFailure(400, {
+      code: 'rest_invalid_param',
+      message: 'Invalid parameter(s): status',
+      data: { status: 400, params: { status: 'status is not one of publish, future, draft, pending, private.' } }
+    })) as InstanceType<typeof WordPressRestError>;
+    const missing = normalizeWordPressError(axiosFailure(400, {
+      code: 'rest_missing_callback_param',
+      message: 'Missing parameter(s): title',
+      data: { status: 400, params: ['title'] }
+    })) as InstanceType<typeof WordPressRestError>;
+
+    expect(invalid.params).toEqual({ status: 'status is not one of publish, future, draft, pending, private.' });
+    expect(missing.params).toEqual({ title: 'Missing required parameter.' });
+  });
+
+  it('falls back to http_<status> for non-REST bodies and the network code without a response', () => {
+    expect(normalizeWordPressError(axiosFailure(502, '<html>Bad Gateway</html>', 'get'))).toMatchObject({
+      code: 'http_502',
+      status: 502
+    });
+
+    const timeout = new AxiosError('timeout of 300ms exceeded', 'ECONNABORTED', { method: 'get', url: 'posts', headers: new AxiosHeaders() });
+    const normalized = normalizeWordPressError(timeout) as InstanceType<typeof WordPressRestError>;
+    expect(normalized).toMatchObject({ code: 'ECONNABORTED', status: undefined });
+    expect(normalized.hint()).toContain('WORDPRESS_TIMEOUT');
+  });
+
+  it('leaves other errors alone', () => {
+    const plain = new Error('Provide either content or content_edit, not both');
+    expect(normalizeWordPressError(plain)).toBe(plain);
+  });
+});
+
+describe('formatToolError', () => {
+  it('lists invalid parameters before the hint', () => {
+    const text = formatToolError('creating content', axiosFailure(400, {
+      code: 'rest_invalid_param',
+      message: 'Invalid parameter(s): status',
+      data: { status: 400, params: { status: 'status is not one of publish, draft.' } }
+    }));
+
+    expect(text).toBe([
+      'Error creating content: Invalid parameter(s): status',
+      'WordPress error: rest_invalid_param (HTTP 400)',
+      'Invalid parameters:',
+      '  - status: status is not one of publish, draft.',
+      'Hint: Fix the parameters listed above and try again.'
+    ].join('\n'));
+  });
+
+  it('prefers per-tool hints, by code or status', () => {
+    const error = axiosFailure(404, { code: 'rest_no_route', message: 'No route was found.', data: { status: 404 } });
+
+    expect(formatToolError('executing SQL query', error, { '404': 'Enable the endpoint.' })).toContain('Hint: Enable the endpoint.');
+    expect(formatToolError('listing content', error)).toContain('discover_content_types');
+  });
+
+  it('keeps plain errors to a single line', () => {
+    expect(formatToolError('updating content', new Error('boom'))).toBe('Error updating content: boom');
+  });
+});
+
+describe('tool error results', () => {
+  it('report the normalized error from every tool module', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    await client.connect(clientTransport);
+
+    request.mockRejectedValue(normalizeWordPressError(axiosFailure(403, {
+      code: 'rest_cannot_delete',
+      message: 'Sorry, you are not allowed to delete this item.',
+      data: { status: 403 }
+    })));
+
+    for (const [name, args] of [
+      ['delete_content', { content_type: 'post', id: 42 }],
+      ['delete_term', { taxonomy: 'category', id: 3 }],
+      ['delete_media', { id: 9 }],
+      ['delete_user', { id: 5, reassign: 1 }],
+      ['delete_comment', { id: 7 }],
+    ] as const) {
+      const result = await client.callTool({ name, arguments: args });
+      const [{ text }] = result.content as { text: string }[];
+      expect(result.isError, name).toBe(true);
+      expect(text, name).toContain('WordPress error: rest_cannot_delete (HTTP 403)');
+      expect(text, name).toContain('Hint: ');
+    }
+  });
+});
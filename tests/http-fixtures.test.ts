@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AddressInfo } from 'node:net';
+import { SiteManager } from '../src/config/site-manager.js';
+import { createFixtureSanitizer, stopHttpFixtures, useHttpFixtures } from '../src/http-fixtures.js';
+
+const PASSWORD = 'abcd EFGH ijkl MNOP';
+const ENV_KEYS = ['WORDPRESS_1_URL', 'WORDPRESS_1_USERNAME', 'WORDPRESS_1_PASSWORD', 'WORDPRESS_1_ID', 'WORDPRESS_1_RETRIES'];
+
+let server: http.Server;
+let origin: string;
+let hits = 0;
+let envBackup: Record<string, string | undefined>;
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wp-fixtures-'));
+
+function configureSite(url: string) {
+  Object.assign(process.env, {
+    WORDPRESS_1_URL: url,
+    WORDPRESS_1_USERNAME: 'alice',
+    WORDPRESS_1_PASSWORD: PASSWORD,
+    WORDPRESS_1_ID: 'blog',
+    WORDPRESS_1_RETRIES: '0',
+  });
+}
+
+beforeAll(async () => {
+  // Stand-in WordPress that leaks its host and the author's login into responses
+  server = http.createServer((req, res) => {
+    hits++;
+    res.setHeader('Content-Type', 'application/json');
+    if (req.url?.startsWith('/wp-json/wp/v2/posts/404')) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ code: 'rest_post_invalid_id', message: 'Invalid post ID.', data: { status: 404 } }));
+      return;
+    }
+    if (req.url?.startsWith('/wp-json/wp/v2/posts')) {
+      res.setHeader('X-WP-Total', '1');
+      res.setHeader('Set-Cookie', 'wordpress_logged_in=secret');
+      res.end(JSON.stringify([{ id: 7, link: `${origin}/hello/`, author_login: 'alice', guid: { rendered: `${origin}/?p=7` } }]));
+      return;
+    }
+    res.end(JSON.stringify({ namespace: 'wp/v2', echo_auth: req.headers.authorization }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  envBackup = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+});
+
+afterEach(() => {
+  stopHttpFixtures();
+  for (const key of ENV_KEYS) {
+    if (envBackup[key] === undefined) delete process.env[key];
+    else process.env[key] = envBackup[key];
+  }
+});
+
+describe('createFixtureSanitizer', () => {
+  it('replaces the host, login and password and redacts credential fields', () => {
+    const sanitize = createFixtureSanitizer({ url: 'https://shop.acme.com/blog', username: 'alice', password: PASSWORD });
+
+    expect(sanitize({
+      link: 'https://shop.acme.com/blog/hello/',
+      note: 'mail alice@shop.acme.com, pass abcdEFGHijklMNOP',
+      password: 'hunter2',
+      malice: 'unchanged',
+    })).toEqual({
+      link: 'https://example.test/blog/hello/',
+      note: 'mail fixture-user@example.test, pass [REDACTED]',
+      password: '[REDACTED]',
+      malice: 'unchanged',
+    });
+  });
+
+  it('removes passwords that JSON or a query string would escape', () => {
+    const password = 'se"cr\\et pa&ss';
+    const sanitize = createFixtureSanitizer({ url: 'https://shop.acme.com', username: 'alice', password });
+
+    const sanitized = sanitize({
+      body: { note: `pass ${password}` },
+      path: `/wp-json/wp/v2/users?check=${encodeURIComponent(password)}&again=${new URLSearchParams({ p: password }).toString().slice(2)}`,
+      raw: JSON.stringify({ value: password }),
+    });
+
+    expect(JSON.stringify(sanitized)).not.toMatch(/cr.*et/);
+    expect(sanitized.body.note).toBe('pass [REDACTED]');
+  });
+});
+
+describe('record and replay', () => {
+  const name = 'blog-posts';
+
+  it('records sanitized exchanges, then replays them without the network', async () => {
+    configureSite(origin);
+    useHttpFixtures(name, { mode: 'record', dir });
+    const live = await new SiteManager().getClient('blog');
+    await live.get('posts', { params: { per_page: 5, context: 'view' } });
+    await expect(live.get('posts/404')).rejects.toMatchObject({ response: { status: 404 } });
+
+    const recorded = fs.readFileSync(path.join(dir, `${name}.json`), 'utf8');
+    expect(recorded).not.toContain('127.0.0.1');
+    expect(recorded).not.toContain('alice');
+    expect(recorded).not.toMatch(/abcd|wordpress_logged_in/);
+    expect(recorded).not.toContain(Buffer.from(`alice:${PASSWORD}`).toString('base64'));
+    expect(JSON.parse(recorded).entries.map((entry: any) => entry.request)).toEqual([
+      { method: 'GET', path: '/wp-json/wp/v2/' },
+      { method: 'GET', path: '/wp-json/wp/v2/posts?context=view&per_page=5' },
+      { method: 'GET', path: '/wp-json/wp/v2/posts/404' },
+    ]);
+
+    // Replay against a different URL; the stand-in must not be hit
+    stopHttpFixtures();
+    hits = 0;
+    configureSite('https://replay.test');
+    useHttpFixtures(name, { mode: 'replay', dir });
+    const replayed = await new SiteManager().getClient('blog');
+
+    const posts = await replayed.get('posts', { params: { context: 'view', per_page: 5 } });
+    expect(posts.data).toEqual([{ id: 7, link: 'https://example.test/hello/', author_login: 'fixture-user', guid: { rendered: 'https://example.test/?p=7' } }]);
+    expect(posts.headers['x-wp-total']).toBe('1');
+    await expect(replayed.get('posts/404')).rejects.toMatchObject({
+      response: { status: 404, data: { code: 'rest_post_invalid_id' } },
+    });
+    await expect(replayed.get('pages')).rejects.toThrow(/No recorded response for GET \/wp-json\/wp\/v2\/pages/);
+    expect(hits).toBe(0);
+  });
+
+  it('refuses to replay a fixture that was never recorded', () => {
+    expect(() => useHttpFixtures('missing', { mode: 'replay', dir })).toThrow(/does not exist/);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { attachMcpLogging, capFieldSize, logToFile, redactSecrets, resolveLogLevel } from '../src/logging.js';
+import { runWithRequestContext } from '../src/request-context.js';
+
+async function connectSession() {
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { logging: {} } });
+  const session = attachMcpLogging(server.server);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  const received: { level: string; data: unknown }[] = [];
+  client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+    // Log entries arrive as structured objects; tests compare on the message
+    const { message } = notification.params.data as { message: string };
+    received.push({ level: notification.params.level, data: message });
+  });
+  await client.connect(clientTransport);
+  return { client, session, received };
+}
+
+describe('resolveLogLevel', () => {
+  it('accepts known levels and defaults to error', () => {
+    expect(resolveLogLevel('debug')).toBe('debug');
+    expect(resolveLogLevel(undefined)).toBe('error');
+    expect(resolveLogLevel('verbose')).toBe('error');
+  });
+});
+
+describe('redactSecrets', () => {
+  it('masks credential keys at any depth', () => {
+    expect(redactSecrets({
+      headers: { Authorization: 'Basic YWRtaW46c2VjcmV0', common: { Accept: 'application/json' } },
+      body: { username: 'editor', password: 'hunter2', meta: { api_key: 'k', note: 'keep' } },
+    })).toEqual({
+      headers: { Authorization: '[REDACTED]', common: { Accept: 'application/json' } },
+      body: { username: 'editor', password: '[REDACTED]', meta: { api_key: '[REDACTED]', note: 'keep' } },
+    });
+  });
+
+  it('masks token keys but not fields that merely count tokens', () => {
+    expect(redactSecrets({
+      token: 't', access_token: 't', refreshToken: 't', 'X-Auth-Token': 't', api_token: 't',
+      max_response_tokens: 2000, estimated_tokens: 512, tokenizer: 'cl100k',
+    })).toEqual({
+      token: '[REDACTED]', access_token: '[REDACTED]', refreshToken: '[REDACTED]', 'X-Auth-Token': '[REDACTED]', api_token: '[REDACTED]',
+      max_response_tokens: 2000, estimated_tokens: 512, tokenizer: 'cl100k',
+    });
+  });
+
+  it('masks Basic and Bearer credentials inside strings but leaves prose alone', () => {
+    expect(redactSecrets('header was Basic YWRtaW46c2VjcmV0 here')).toBe('header was Basic [REDACTED] here');
+    expect(redactSecrets('Bearer eyJhbGciOiJIUzI1NiJ9.payload.sig')).toBe('Bearer [REDACTED]');
+    expect(redactSecrets('Basic settings are fine')).toBe('Basic settings are fine');
+  });
+
+  it('does not loop on circular structures', () => {
+    const value: Record<string, unknown> = { a: 1 };
+    value.self = value;
+    expect(redactSecrets(value)).toEqual({ a: 1, self: '[Circular]' });
+  });
+});
+
+describe('capFieldSize', () => {
+  it('truncates oversized values and reports their length', () => {
+    expect(capFieldSize({ ok: true }, 100)).toEqual({ ok: true });
+    expect(capFieldSize('x'.repeat(20), 5)).toBe('xxxxx… [truncated, 20 chars total]');
+  });
+});
+
+describe('MCP logging', () => {
+  it('sends only errors until the client lowers its level', async () => {
+    const { client, received } = await connectSession();
+
+    logToFile('hidden debug line', 'debug');
+    logToFile('visible error line', 'error');
+    await vi.waitFor(() => expect(received.map(r => r.data)).toContain('visible error line'));
+    expect(received.map(r => r.data)).not.toContain('hidden debug line');
+
+    await client.setLoggingLevel('debug');
+    logToFile('now visible debug line', 'debug');
+    await vi.waitFor(() => expect(received).toContainEqual({ level: 'debug', data: 'now visible debug line' }));
+
+    await client.close();
+  });
+
+  it('scopes tool-call logs to the calling session', async () => {
+    const caller = await connectSession();
+    const other = await connectSession();
+    await caller.client.setLoggingLevel('debug');
+    await other.client.setLoggingLevel('debug');
+
+    runWithRequestContext({ logSession: caller.session }, () => logToFile('from tool call', 'debug'));
+    logToFile('from startup', 'debug');
+
+    await vi.waitFor(() => expect(other.received.map(r => r.data)).toContain('from startup'));
+    expect(caller.received.map(r => r.data)).toEqual(expect.arrayContaining(['from tool call', 'from startup']));
+    expect(other.received.map(r => r.data)).not.toContain('from tool call');
+
+    await caller.client.close();
+    await other.client.close();
+  });
+});
+
+describe('file sink', () => {
+  const envKeys = [
+    'DISABLE_LOGGING', 'WORDPRESS_LOG_FILE', 'WORDPRESS_LOG_LEVEL', 'WORDPRESS_LOG_FORMAT',
+    'WORDPRESS_LOG_FILE_MAX_BYTES', 'WORDPRESS_LOG_FILE_MAX_FILES',
+  ];
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wp-log-'));
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    process.env.DISABLE_LOGGING = 'false';
+  });
+  const backup = Object.fromEntries(envKeys.map(key => [key, process.env[key]]));
+
+  afterEach(() => {
+    for (const key of envKeys) {
+      if (backup[key] === undefined) delete process.env[key];
+      else process.env[key] = backup[key];
+    }
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends lines at or above WORDPRESS_LOG_LEVEL to WORDPRESS_LOG_FILE', async () => {
+    const logFile = path.join(dir, 'server.log');
+    process.env.WORDPRESS_LOG_FILE = logFile;
+    process.env.WORDPRESS_LOG_LEVEL = 'info';
+
+    logToFile('skipped debug line', 'debug');
+    logToFile('kept info line', 'info');
+
+    await vi.waitFor(() => expect(fs.readFileSync(logFile, 'utf8')).toMatch(/\[INFO\] kept info line\n$/));
+    expect(fs.readFileSync(logFile, 'utf8')).not.toContain('skipped debug line');
+  });
+
+  it('writes one JSON object per line tagged with the tool call request_id', () => {
+    const logFile = path.join(dir, 'server.log');
+    process.env.WORDPRESS_LOG_FILE = logFile;
+    process.env.WORDPRESS_LOG_LEVEL = 'debug';
+    process.env.WORDPRESS_LOG_FORMAT = 'json';
+
+    runWithRequestContext({ requestId: 'req-1', toolName: 'create_user' }, () =>
+      logToFile('WordPress request: POST users', 'debug', { body: { username: 'a', password: 'hunter2' } })
+    );
+
+    const entry = JSON.parse(fs.readFileSync(logFile, 'utf8').trim());
+    expect(entry).toMatchObject({
+      level: 'debug',
+      message: 'WordPress request: POST users',
+      request_id: 'req-1',
+      tool: 'create_user',
+      body: { username: 'a', password: '[REDACTED]' },
+    });
+  });
+
+  it('does not build entries for levels no sink wants', () => {
+    process.env.WORDPRESS_LOG_LEVEL = 'error';
+    const body = { toJSON: vi.fn(() => ({ id: 1 })) };
+
+    logToFile('WordPress response: GET posts', 'debug', { body });
+
+    expect(body.toJSON).not.toHaveBeenCalled();
+    expect(process.stderr.write).not.toHaveBeenCalled();
+  });
+
+  it('rotates the file once it would exceed WORDPRESS_LOG_FILE_MAX_BYTES', () => {
+    const logFile = path.join(dir, 'server.log');
+    process.env.WORDPRESS_LOG_FILE = logFile;
+    process.env.WORDPRESS_LOG_LEVEL = 'info';
+    process.env.WORDPRESS_LOG_FILE_MAX_BYTES = '120';
+    process.env.WORDPRESS_LOG_FILE_MAX_FILES = '2';
+
+    for (let i = 1; i <= 6; i++) logToFile(`line ${i} ${'x'.repeat(40)}`, 'info');
+
+    expect(fs.readFileSync(logFile, 'utf8')).toContain('line 6');
+    expect(fs.readFileSync(`${logFile}.1`, 'utf8')).toContain('line 5');
+    expect(fs.readFileSync(`${logFile}.2`, 'utf8')).toContain('line 4');
+    expect(fs.existsSync(`${logFile}.3`)).toBe(false);
+  });
+});
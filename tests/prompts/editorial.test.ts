@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { editorialPrompts } from '../../src/prompts/editorial.js';
+import { allTools } from '../../src/tools/index.js';
+import { createMcpServer } from '../../src/mcp-server.js';
+
+describe('editorial prompts', () => {
+  it('only reference tools that are registered', () => {
+    const toolNames = new Set(allTools.map((t) => t.name));
+    for (const prompt of editorialPrompts) {
+      const unknown = prompt.tools.filter((name) => !toolNames.has(name));
+      expect(unknown, `unknown tools in ${prompt.name}`).toEqual([]);
+    }
+  });
+
+  it('mention every tool they declare in the expanded message', () => {
+    for (const prompt of editorialPrompts) {
+      const text = prompt.build({ url: 'https://example.com/hello/', outline: '- intro' });
+      for (const tool of prompt.tools) {
+        expect(text, `${prompt.name} → ${tool}`).toContain(tool);
+      }
+    }
+  });
+
+  it('keeps drafts in draft status and passes site_id through', () => {
+    const prompt = editorialPrompts.find((p) => p.name === 'draft_post_from_outline')!;
+    const text = prompt.build({ outline: '- intro', content_type: 'docs', site_id: 'staging' });
+    expect(text).toContain('content_type: "docs", status: "draft"');
+    expect(text).toContain('site_id: "staging"');
+  });
+
+  it('omits site_id when the default site is targeted', () => {
+    const prompt = editorialPrompts.find((p) => p.name === 'seo_audit')!;
+    expect(prompt.build({ url: 'https://example.com/a/' })).not.toContain('site_id');
+  });
+
+  it('are served over prompts/get', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    await client.connect(clientTransport);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((p) => p.name)).toEqual(editorialPrompts.map((p) => p.name));
+
+    const result = await client.getPrompt({ name: 'moderate_comments', arguments: { per_page: '500' } });
+    const message = result.messages[0].content;
+    expect(message.type).toBe('text');
+    expect((message as { text: string }).text).toContain('per_page: 100');
+  });
+});
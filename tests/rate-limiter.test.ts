@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SiteManager } from '../src/config/site-manager.js';
+import { parseRequestLimits, SiteRequestLimiter } from '../src/rate-limiter.js';
+import { runWithRequestContext } from '../src/request-context.js';
+
+describe('parseRequestLimits', () => {
+  it('reads only the keys that are set', () => {
+    expect(parseRequestLimits({ WORDPRESS_3_MAX_CONCURRENT: '2', WORDPRESS_3_REQUESTS_PER_SECOND: '0.5' }, 'WORDPRESS_3_'))
+      .toEqual({ maxConcurrent: 2, requestsPerSecond: 0.5 });
+    expect(parseRequestLimits({ WORDPRESS_MAX_CONCURRENT: '-1' }, 'WORDPRESS_')).toEqual({});
+  });
+});
+
+describe('SiteRequestLimiter', () => {
+  it('caps in-flight requests and hands slots out as they are released', async () => {
+    const limiter = new SiteRequestLimiter({ maxConcurrent: 2, requestsPerSecond: 0 });
+    const started: number[] = [];
+    const acquisitions = [1, 2, 3].map(n => limiter.acquire('tool').then(() => started.push(n)));
+
+    await Promise.all(acquisitions.slice(0, 2));
+    expect(started).toEqual([1, 2]);
+    expect(limiter.queued).toBe(1);
+
+    limiter.release();
+    await acquisitions[2];
+    expect(started).toEqual([1, 2, 3]);
+  });
+
+  it('serves queued tools round-robin instead of first-come-first-served', async () => {
+    const limiter = new SiteRequestLimiter({ maxConcurrent: 1, requestsPerSecond: 0 });
+    const order: string[] = [];
+    await limiter.acquire('holder');
+
+    const waits = [
+      ...['bulk-1', 'bulk-2', 'bulk-3'].map(label => limiter.acquire('update_content').then(() => order.push(label))),
+      limiter.acquire('get_content').then(() => order.push('single')),
+    ];
+    for (let i = 0; i < waits.length; i++) {
+      limiter.release();
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    await Promise.all(waits);
+
+    expect(order).toEqual(['bulk-1', 'single', 'bulk-2', 'bulk-3']);
+  });
+
+  it('spaces request starts to the requests-per-second limit', async () => {
+    const limiter = new SiteRequestLimiter({ maxConcurrent: 0, requestsPerSecond: 20 });
+    const startedAt = Date.now();
+    const waits = await Promise.all([limiter.acquire('a'), limiter.acquire('a'), limiter.acquire('a')]);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(95);
+    expect(waits[0]).toBeLessThan(waits[2]);
+  });
+
+  it('drops a waiter whose signal aborts while queued', async () => {
+    const limiter = new SiteRequestLimiter({ maxConcurrent: 1, requestsPerSecond: 0 });
+    await limiter.acquire('a');
+    const controller = new AbortController();
+    const pending = limiter.acquire('b', controller.signal);
+
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(limiter.queued).toBe(0);
+  });
+});
+
+describe('site client limits', () => {
+  let server: http.Server;
+  let inFlight = 0;
+  let peak = 0;
+  const ENV_KEYS = [
+    'WORDPRESS_1_URL', 'WORDPRESS_1_USERNAME', 'WORDPRESS_1_PASSWORD', 'WORDPRESS_1_ID',
+    'WORDPRESS_1_MAX_CONCURRENT', 'WORDPRESS_MAX_CONCURRENT', 'WORDPRESS_REQUESTS_PER_SECOND',
+  ];
+  let envBackup: Record<string, string | undefined>;
+
+  beforeAll(async () => {
+    // Slow stand-in host that records its peak concurrency
+    server = http.createServer((req, res) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      setTimeout(() => {
+        inFlight--;
+        res.setHeader('Content-Type', 'application/json');
+        res.end('[]');
+      }, 40);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    envBackup = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+    for (const key of ENV_KEYS) delete process.env[key];
+    Object.assign(process.env, {
+      WORDPRESS_1_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      WORDPRESS_1_USERNAME: 'user',
+      WORDPRESS_1_PASSWORD: 'pass',
+      WORDPRESS_1_ID: 'small-host',
+      WORDPRESS_1_MAX_CONCURRENT: '2',
+    });
+    peak = 0;
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (envBackup[key] === undefined) delete process.env[key];
+      else process.env[key] = envBackup[key];
+    }
+  });
+
+  it('keeps a parallel fan-out within the per-site limit and reports queue wait', async () => {
+    const client = await new SiteManager().getClient('small-host');
+    peak = 0;
+
+    const responses = await runWithRequestContext({ toolName: 'find_content_by_url' }, () =>
+      Promise.all(['posts', 'pages', 'products', 'docs', 'events', 'recipes'].map(type => client.get(type)))
+    );
+
+    expect(peak).toBe(2);
+    expect(Math.max(...responses.map(r => r.config.queueWaitMs ?? 0))).toBeGreaterThanOrEqual(60);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+vi.mock('../../src/wordpress.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/wordpress.js')>()),
+  makeWordPressRequest: vi.fn(),
+}));
+
+vi.mock('../../src/config/site-manager.js', () => ({
+  siteManager: {
+    getAllSites: () => [
+      { id: 'prod', url: 'https://prod.test' },
+      { id: 'staging', url: 'https://staging.test' },
+    ],
+  },
+}));
+
+const { makeWordPressRequest } = await import('../../src/wordpress.js');
+const { createMcpServer } = await import('../../src/mcp-server.js');
+const { buildResourceUri, resolveListedContentTypes } = await import(
+  '../../src/resources/wordpress-resources.js'
+);
+
+const request = vi.mocked(makeWordPressRequest);
+
+async function connectClient() {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer().connect(serverTransport);
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+beforeEach(() => {
+  request.mockReset();
+});
+
+describe('resource URI helpers', () => {
+  it('builds percent-encoded wp:// URIs', () => {
+    expect(buildResourceUri('prod', 'post', 12)).toBe('wp://prod/post/12');
+    expect(buildResourceUri('my site', 'post', 12)).toBe('wp://my%20site/post/12');
+  });
+
+  it('defaults listed content types to posts and pages', () => {
+    expect(resolveListedContentTypes(undefined)).toEqual(['post', 'page']);
+    expect(resolveListedContentTypes('product, docs')).toEqual(['product', 'docs']);
+    expect(resolveListedContentTypes('')).toEqual([]);
+  });
+});
+
+describe('WordPress resources', () => {
+  it('advertises the media, term, plugin and content templates', async () => {
+    const client = await connectClient();
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      'wp://{site_id}/media/{id}',
+      'wp://{site_id}/term/{taxonomy}/{id}',
+      'wp://{site_id}/plugin/{plugin}',
+      'wp://{site_id}/{content_type}/{id}',
+    ]);
+  });
+
+  it('reads a plugin by its percent-encoded identifier', async () => {
+    request.mockResolvedValueOnce({ plugin: 'akismet/akismet', status: 'active' });
+    const client = await connectClient();
+
+    await client.readResource({ uri: 'wp://prod/plugin/akismet%2Fakismet' });
+
+    expect(request).toHaveBeenCalledWith('GET', 'plugins/akismet/akismet', undefined, { siteId: 'prod' });
+  });
+
+  it('reads a post from the addressed site', async () => {
+    request.mockResolvedValueOnce({ id: 7, title: { rendered: 'Hello' } });
+    const client = await connectClient();
+
+    const result = await client.readResource({ uri: 'wp://staging/post/7' });
+
+    expect(request).toHaveBeenCalledWith('GET', 'posts/7', undefined, { siteId: 'staging' });
+    expect(result.contents[0].mimeType).toBe('application/json');
+    expect(JSON.parse(result.contents[0].text as string)).toEqual({ id: 7, title: { rendered: 'Hello' } });
+  });
+
+  it('routes media URIs to the media endpoint rather than a content type', async () => {
+    request.mockResolvedValueOnce({ id: 3, source_url: 'https://prod.test/a.png' });
+    const client = await connectClient();
+
+    await client.readResource({ uri: 'wp://prod/media/3' });
+
+    expect(request).toHaveBeenCalledWith('GET', 'media/3', undefined, { siteId: 'prod' });
+  });
+
+  it('lists recent items per site and skips sites that fail', async () => {
+    request.mockImplementation(async (_method, endpoint, _data, options) => {
+      if (options?.siteId === 'staging') throw new Error('connection refused');
+      if (endpoint === 'posts') return [{ id: 1, title: { rendered: 'A &amp; B' }, status: 'publish' }];
+      return [];
+    });
+    const client = await connectClient();
+
+    const { resources } = await client.listResources();
+
+    expect(resources).toEqual([
+      expect.objectContaining({ uri: 'wp://prod/post/1', name: 'A & B', mimeType: 'application/json' }),
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+vi.mock('../src/wordpress.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/wordpress.js')>()),
+  makeWordPressRequest: vi.fn(),
+}));
+
+const { makeWordPressRequest } = await import('../src/wordpress.js');
+const { createMcpServer } = await import('../src/mcp-server.js');
+const { applyResponseBudget, budgetJson, resolveResponseBudget, DEFAULT_RESPONSE_BUDGET } = await import('../src/response-budget.js');
+
+const request = vi.mocked(makeWordPressRequest);
+
+const rows = Array.from({ length: 200 }, (_, id) => ({ id, title: `Row ${id}` }));
+const posts = Array.from({ length: 3 }, (_, id) => ({
+  id,
+  content: { rendered: `<p>${'Lorem ipsum dolor sit amet. '.repeat(400)}</p>` },
+}));
+
+async function connectClient() {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer().connect(serverTransport);
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+beforeEach(() => {
+  request.mockReset();
+});
+
+describe('budgetJson', () => {
+  it('leaves values that fit untouched', () => {
+    expect(budgetJson(rows, 1_000_000)).toEqual({ value: rows, omissions: [], fits: true });
+  });
+
+  it('trims rendered HTML before dropping items', () => {
+    const { value, omissions, fits } = budgetJson(posts, 8000);
+
+    expect(fits).toBe(true);
+    expect(value).toHaveLength(3);
+    const rendered = (value as any)[0].content.rendered as string;
+    expect(rendered).toMatch(/^<p>Lorem ipsum.*… \[\d+ more characters\]$/);
+    expect(omissions.every((omission) => omission.kind === 'chars')).toBe(true);
+    expect(omissions[0].path).toBe('[0].content.rendered');
+  });
+
+  it('collapses long arrays with a marker and reports the count', () => {
+    const { value, omissions } = budgetJson({ rows }, 2000);
+
+    const kept = (value as any).rows as unknown[];
+    expect(kept[kept.length - 1]).toBe(`… ${200 - (kept.length - 1)} more items`);
+    expect(omissions).toContainEqual({ path: 'rows', kind: 'items', count: 200 - (kept.length - 1) });
+  });
+
+  it('drops items without a marker when markers are off', () => {
+    const { value } = budgetJson(rows, 2000, { markers: false });
+    expect((value as unknown[]).every((row) => typeof row === 'object')).toBe(true);
+  });
+});
+
+describe('resolveResponseBudget', () => {
+  it('prefers the call, then the tool, then the global setting', () => {
+    const env = { MCP_WP_RESPONSE_BUDGET: '5000', MCP_WP_RESPONSE_BUDGET_EXECUTE_SQL_QUERY: '20000' };
+    expect(resolveResponseBudget('execute_sql_query', 100, env)).toBe(100);
+    expect(resolveResponseBudget('execute_sql_query', undefined, env)).toBe(20000);
+    expect(resolveResponseBudget('list_content', undefined, env)).toBe(5000);
+    expect(resolveResponseBudget('list_content', undefined, { MCP_WP_RESPONSE_BUDGET: 'lots' })).toBe(DEFAULT_RESPONSE_BUDGET);
+  });
+});
+
+describe('applyResponseBudget', () => {
+  it('keeps every JSON text block parseable and appends a report', () => {
+    const result = applyResponseBudget({
+      content: [
+        { type: 'text', text: JSON.stringify(rows, null, 2) },
+        { type: 'text', text: 'Returned 200 items starting at page 1.' },
+      ],
+      structuredContent: { items: rows },
+    }, { budget: 500, toolName: 'list_content', inputKeys: ['page', 'fields'] });
+
+    expect(result.content).toHaveLength(3);
+    expect(() => JSON.parse(result.content[0].text)).not.toThrow();
+    expect(result.content[1].text).toBe('Returned 200 items starting at page 1.');
+    expect(result.content[2].text).toMatch(/^Response trimmed to fit the 500-token budget .*more items at the top level.*page through with page \/ per_page/);
+    expect((result.structuredContent!.items as unknown[]).length).toBeLessThan(200);
+  });
+
+  it('cuts JSON that no trimming step can fit and says it is no longer valid', () => {
+    const wide = Object.fromEntries(Array.from({ length: 2000 }, (_, i) => [`meta_key_${i}`, i]));
+    const result = applyResponseBudget({
+      content: [{ type: 'text', text: JSON.stringify(wide, null, 2) }],
+      structuredContent: wide,
+    }, { budget: 500, toolName: 'get_content', inputKeys: ['id'] });
+
+    expect(result.content[0].text.length).toBeLessThan(2100);
+    expect(result.content[0].text).toMatch(/… \[\d+ more characters\]$/);
+    expect(result.content[1].text).toMatch(/no longer valid JSON\. structuredContent is still over the budget after trimming\. To get the rest/);
+  });
+
+  it('does nothing with an unlimited budget', () => {
+    const result = { content: [{ type: 'text', text: JSON.stringify(rows) }] };
+    expect(applyResponseBudget(result, { budget: 0, toolName: 'x' })).toBe(result);
+  });
+});
+
+describe('tool responses', () => {
+  it('budgets execute_sql_query output per call instead of slicing the JSON', async () => {
+    request.mockResolvedValueOnce(rows);
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: 'execute_sql_query',
+      arguments: { query: 'SELECT ID, post_title FROM wp_posts', max_response_tokens: 300 },
+    });
+
+    const [data, report] = (result.content as { text: string }[]).map((block) => block.text);
+    const parsed = JSON.parse(data);
+    expect(parsed[parsed.length - 1]).toMatch(/^… \d+ more items$/);
+    expect(report).toMatch(/max_response_tokens/);
+    // The budgeter's parameter never reaches the tool
+    expect(request).toHaveBeenCalledWith('POST', '/mcp/v1/query', { query: 'SELECT ID, post_title FROM wp_posts' }, expect.anything());
+  });
+
+  it('accepts max_response_tokens as a numeric string', async () => {
+    request.mockResolvedValueOnce(rows);
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: 'execute_sql_query',
+      arguments: { query: 'SELECT ID FROM wp_posts', max_response_tokens: '300' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect((result.content as { text: string }[]).at(-1)!.text).toMatch(/^Response trimmed to fit the 300-token budget/);
+  });
+});
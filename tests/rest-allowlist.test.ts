@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { describeRestAllowlist, findAllowRule, normalizeRestRoute, parseRestAllowlist } from '../src/rest-allowlist.js';
+
+describe('parseRestAllowlist', () => {
+  it('returns undefined when unset so the global list applies', () => {
+    expect(parseRestAllowlist(undefined)).toBeUndefined();
+    expect(parseRestAllowlist('  ')).toBeUndefined();
+  });
+
+  it('defaults to GET and skips invalid entries', () => {
+    const rules = parseRestAllowlist('/wp/v2/settings, get|post /yoast/v1/*, * /acf/v3/**, FETCH /x, no-slash')!;
+    expect(describeRestAllowlist(rules)).toBe('GET /wp/v2/settings, GET|POST /yoast/v1/*, * /acf/v3/**');
+  });
+});
+
+describe('findAllowRule', () => {
+  const rules = parseRestAllowlist('GET /wc/v3/**, GET|POST /yoast/v1/*, DELETE /wc/v3/products/*')!;
+
+  it('matches * within a segment and ** across segments', () => {
+    expect(findAllowRule(rules, 'GET', '/wc/v3/products/42/variations')).toBeDefined();
+    expect(findAllowRule(rules, 'post', '/yoast/v1/get_head')).toBeDefined();
+    expect(findAllowRule(rules, 'POST', '/yoast/v1/a/b')).toBeUndefined();
+  });
+
+  it('checks the method', () => {
+    expect(findAllowRule(rules, 'DELETE', '/wc/v3/products/42')).toBeDefined();
+    expect(findAllowRule(rules, 'DELETE', '/wc/v3/orders/42')).toBeUndefined();
+    expect(findAllowRule(rules, 'PUT', '/wc/v3/products')).toBeUndefined();
+  });
+});
+
+describe('normalizeRestRoute', () => {
+  it('adds a leading slash and drops trailing ones', () => {
+    expect(normalizeRestRoute('wc/v3/products/')).toBe('/wc/v3/products');
+    expect(normalizeRestRoute('/')).toBe('/');
+  });
+
+  it('rejects query strings and dot segments, encoded or not', () => {
+    expect(() => normalizeRestRoute('/wc/v3/products?per_page=5')).toThrow(/query string/);
+    expect(() => normalizeRestRoute('/wc/v3/../../wp/v2/users')).toThrow(/"\.\."/);
+    expect(() => normalizeRestRoute('/wc/v3/%2e%2e/wp/v2/users')).toThrow(/"\.\."/);
+  });
+
+  it('rejects routes the HTTP client would rewrite into another route', () => {
+    // WHATWG URL parsing turns these into /wp/v2/users, outside `* /wc/v3/**`
+    expect(() => normalizeRestRoute('/wc/v3/..\\..\\wp/v2/users')).toThrow(/backslashes/);
+    expect(() => normalizeRestRoute('/wc/v3/.\t./.\t./wp/v2/users')).toThrow(/whitespace or control characters/);
+    expect(() => normalizeRestRoute('/wc/v3/%5C..%5C../wp/v2/users')).toThrow(/backslashes/);
+    expect(() => normalizeRestRoute('/wc/v3/.%0A./wp/v2/users')).toThrow(/control characters/);
+  });
+
+  it('keeps percent-encoded identifiers', () => {
+    expect(normalizeRestRoute('/wp/v2/plugins/akismet%2Fakismet')).toBe('/wp/v2/plugins/akismet%2Fakismet');
+    expect(normalizeRestRoute('/wp/v2/tags/caf%C3%A9')).toBe('/wp/v2/tags/caf%C3%A9');
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SiteManager } from '../src/config/site-manager.js';
+import { computeRetryDelay, DEFAULT_RETRY_POLICY, parseRetryAfter, parseRetryPolicy } from '../src/retry.js';
+
+// Local stand-in for a flaky WordPress host. Each test queues the responses
+// for a path; once the queue is empty the path answers 200.
+interface ScriptedResponse {
+  status: number;
+  headers?: Record<string, string>;
+}
+
+let server: http.Server;
+let baseUrl: string;
+const scripts = new Map<string, ScriptedResponse[]>();
+const hits = new Map<string, number>();
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const key = `${req.method} ${req.url}`;
+    hits.set(key, (hits.get(key) ?? 0) + 1);
+    const next = scripts.get(key)?.shift() ?? { status: 200 };
+    res.writeHead(next.status, { 'Content-Type': 'application/json', ...next.headers });
+    res.end(JSON.stringify({ status: next.status }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+const ENV_KEYS = [
+  'WORDPRESS_1_URL', 'WORDPRESS_1_USERNAME', 'WORDPRESS_1_PASSWORD', 'WORDPRESS_1_ID',
+  'WORDPRESS_1_RETRIES', 'WORDPRESS_1_RETRY_BASE_DELAY', 'WORDPRESS_1_RETRY_MAX_DELAY', 'WORDPRESS_1_RETRY_NON_IDEMPOTENT',
+  'WORDPRESS_RETRIES', 'WORDPRESS_RETRY_BASE_DELAY', 'WORDPRESS_RETRY_MAX_DELAY', 'WORDPRESS_RETRY_NON_IDEMPOTENT',
+];
+let envBackup: Record<string, string | undefined>;
+
+beforeEach(() => {
+  envBackup = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+  for (const key of ENV_KEYS) delete process.env[key];
+  Object.assign(process.env, {
+    WORDPRESS_1_URL: baseUrl,
+    WORDPRESS_1_USERNAME: 'user',
+    WORDPRESS_1_PASSWORD: 'pass',
+    WORDPRESS_1_ID: 'flaky',
+    WORDPRESS_1_RETRY_BASE_DELAY: '1',
+  });
+  scripts.clear();
+  hits.clear();
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (envBackup[key] === undefined) delete process.env[key];
+    else process.env[key] = envBackup[key];
+  }
+});
+
+const ROOT = 'GET /wp-json/wp/v2/';
+const POSTS = '/wp-json/wp/v2/posts';
+
+async function client() {
+  return new SiteManager().getClient('flaky');
+}
+
+describe('retry policy parsing', () => {
+  it('reads only the keys that are set', () => {
+    expect(parseRetryPolicy({ WORDPRESS_2_RETRIES: '5', WORDPRESS_2_RETRY_NON_IDEMPOTENT: 'true' }, 'WORDPRESS_2_'))
+      .toEqual({ maxRetries: 5, retryNonIdempotent: true });
+    expect(parseRetryPolicy({ WORDPRESS_RETRIES: 'lots' }, 'WORDPRESS_')).toEqual({});
+  });
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+
+  it('uses full jitter under an exponential ceiling capped at maxDelayMs', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 300 };
+    expect(computeRetryDelay(0, policy, undefined, () => 0.999)).toBe(99);
+    expect(computeRetryDelay(3, policy, undefined, () => 0.999)).toBe(299);
+    expect(computeRetryDelay(1, policy, 250)).toBe(250);
+    expect(computeRetryDelay(1, policy, 301)).toBeUndefined();
+  });
+});
+
+describe('site client retries', () => {
+  it('retries the connection test in createClient', async () => {
+    scripts.set(ROOT, [{ status: 502 }]);
+    await client();
+    expect(hits.get(ROOT)).toBe(2);
+  });
+
+  it('retries idempotent requests on 503 until they succeed', async () => {
+    const wp = await client();
+    scripts.set(`GET ${POSTS}`, [{ status: 503 }, { status: 503 }]);
+
+    const response = await wp.get('posts');
+
+    expect(response.status).toBe(200);
+    expect(hits.get(`GET ${POSTS}`)).toBe(3);
+  });
+
+  it('gives up after maxRetries and surfaces the last error', async () => {
+    process.env.WORDPRESS_1_RETRIES = '1';
+    const wp = await client();
+    scripts.set(`GET ${POSTS}`, [{ status: 502 }, { status: 502 }, { status: 502 }]);
+
+    await expect(wp.get('posts')).rejects.toMatchObject({ response: { status: 502 } });
+    expect(hits.get(`GET ${POSTS}`)).toBe(2);
+  });
+
+  it('waits for Retry-After on 429', async () => {
+    const wp = await client();
+    scripts.set(`GET ${POSTS}`, [{ status: 429, headers: { 'Retry-After': '1' } }]);
+
+    const started = Date.now();
+    await wp.get('posts');
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(950);
+    expect(hits.get(`GET ${POSTS}`)).toBe(2);
+  });
+
+  it('fails fast when Retry-After exceeds the maximum delay', async () => {
+    process.env.WORDPRESS_1_RETRY_MAX_DELAY = '500';
+    const wp = await client();
+    scripts.set(`GET ${POSTS}`, [{ status: 429, headers: { 'Retry-After': '120' } }]);
+
+    await expect(wp.get('posts')).rejects.toMatchObject({ response: { status: 429 } });
+    expect(hits.get(`GET ${POSTS}`)).toBe(1);
+  });
+
+  it('does not retry POST or client errors by default', async () => {
+    const wp = await client();
+    scripts.set(`POST ${POSTS}`, [{ status: 502 }]);
+    scripts.set(`GET ${POSTS}/9`, [{ status: 404 }]);
+
+    await expect(wp.post('posts', { title: 'x' })).rejects.toMatchObject({ response: { status: 502 } });
+    await expect(wp.get('posts/9')).rejects.toMatchObject({ response: { status: 404 } });
+    expect(hits.get(`POST ${POSTS}`)).toBe(1);
+    expect(hits.get(`GET ${POSTS}/9`)).toBe(1);
+  });
+
+  it('retries POST when the site opts in', async () => {
+    process.env.WORDPRESS_1_RETRY_NON_IDEMPOTENT = 'true';
+    const wp = await client();
+    scripts.set(`POST ${POSTS}`, [{ status: 502 }]);
+
+    await wp.post('posts', { title: 'x' });
+
+    expect(hits.get(`POST ${POSTS}`)).toBe(2);
+  });
+
+  it('can be disabled globally with WORDPRESS_RETRIES=0', async () => {
+    process.env.WORDPRESS_RETRIES = '0';
+    const wp = await client();
+    scripts.set(`GET ${POSTS}`, [{ status: 503 }]);
+
+    await expect(wp.get('posts')).rejects.toMatchObject({ response: { status: 503 } });
+    expect(hits.get(`GET ${POSTS}`)).toBe(1);
+  });
+});
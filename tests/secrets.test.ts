@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { parseSecretRef, readVault, resolveSecret, writeVault } from '../src/secrets.js';
+import { redactSecrets } from '../src/logging.js';
+import { SiteManager } from '../src/config/site-manager.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wp-secrets-'));
+
+// Shell command that prints its argument, portable across sh and cmd
+const echo = (value: string) => `node -e "process.stdout.write(${JSON.stringify(`${value}\n`).replace(/"/g, "'")})"`;
+
+function writeSecretFile(name: string, content: string, mode: number): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, content);
+  fs.chmodSync(file, mode);
+  return file;
+}
+
+let server: http.Server;
+let baseUrl: string;
+const seenAuthorization: (string | undefined)[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    seenAuthorization.push(req.headers.authorization);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end('{}');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const ENV_KEYS = [
+  'WORDPRESS_1_URL', 'WORDPRESS_1_USERNAME', 'WORDPRESS_1_PASSWORD', 'WORDPRESS_1_PASSWORD_COMMAND',
+  'WORDPRESS_1_ID', 'WORDPRESS_1_RETRIES', 'MCP_WP_VAULT_FILE', 'MCP_WP_VAULT_KEY'
+];
+let envBackup: Record<string, string | undefined>;
+
+beforeEach(() => {
+  envBackup = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+  for (const key of ENV_KEYS) delete process.env[key];
+  seenAuthorization.length = 0;
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (envBackup[key] === undefined) delete process.env[key];
+    else process.env[key] = envBackup[key];
+  }
+});
+
+describe('resolveSecret', () => {
+  it('reads a command\'s stdout without the trailing newline', async () => {
+    expect(await resolveSecret({ command: echo('from-command') })).toBe('from-command');
+  });
+
+  it('reports a failed command with its stderr but never its stdout', async () => {
+    const command = `node -e "process.stdout.write('partial-' + 'stdout'); console.error('vault is locked'); process.exit(3)"`;
+    const error = await resolveSecret({ command }).catch(caught => caught);
+
+    expect(error.message).toMatch(/exited with code 3: vault is locked/);
+    expect(error.message).not.toContain('partial-stdout');
+  });
+
+  it.skipIf(process.platform === 'win32')('reads files only their owner can access', async () => {
+    expect(await resolveSecret({ file: writeSecretFile('private', 'from-file\n', 0o600) })).toBe('from-file');
+    await expect(resolveSecret({ file: writeSecretFile('shared', 'from-file\n', 0o644) }))
+      .rejects.toThrow(/accessible to other users \(mode 0644\); run chmod 600/);
+  });
+
+  it('fails on unset variables and empty values', async () => {
+    await expect(resolveSecret({ env: 'MCP_WP_UNSET_SECRET' })).rejects.toThrow('environment variable MCP_WP_UNSET_SECRET is not set');
+    await expect(resolveSecret({ command: echo('') })).rejects.toThrow(/is empty/);
+  });
+
+  it('masks resolved secrets in log output', async () => {
+    const secret = await resolveSecret({ command: echo('hunter2-secret') });
+    expect(redactSecrets({ message: `login failed for hunter2-secret`, nested: [secret] }))
+      .toEqual({ message: 'login failed for [REDACTED]', nested: ['[REDACTED]'] });
+  });
+});
+
+describe('vault', () => {
+  it('round-trips entries and rejects the wrong master key', async () => {
+    const file = path.join(dir, 'vault', 'vault.json');
+    writeVault(file, 'master-key', { staging: 'from-vault' });
+
+    expect(readVault(file, 'master-key')).toEqual({ staging: 'from-vault' });
+    expect(fs.readFileSync(file, 'utf8')).not.toContain('from-vault');
+    if (process.platform !== 'win32') expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(() => readVault(file, 'wrong-key')).toThrow(/cannot unlock vault .*wrong master key/);
+
+    Object.assign(process.env, { MCP_WP_VAULT_FILE: file, MCP_WP_VAULT_KEY: 'master-key' });
+    expect(await resolveSecret({ vault: 'staging' })).toBe('from-vault');
+    await expect(resolveSecret({ vault: 'production' })).rejects.toThrow(/has no entry "production"/);
+    await expect(resolveSecret({ vault: 'toString' })).rejects.toThrow(/has no entry "toString"/);
+  });
+
+  it.skipIf(process.platform === 'win32')('makes an existing vault readable only by its owner when rewriting it', () => {
+    const file = path.join(dir, 'shared-vault.json');
+    writeVault(file, 'master-key', { staging: 'one' });
+    fs.chmodSync(file, 0o644);
+
+    writeVault(file, 'master-key', { staging: 'two' });
+
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(readVault(file, 'master-key')).toEqual({ staging: 'two' });
+    expect(fs.readdirSync(dir).filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+});
+
+describe('site secrets', () => {
+  it('reads provider variants of PASSWORD and TOKEN from env', () => {
+    expect(parseSecretRef({ S_PASSWORD_COMMAND: 'op read x' }, 'S_PASSWORD')).toEqual({ command: 'op read x' });
+    expect(parseSecretRef({ S_PASSWORD_FILE: '~/wp', S_PASSWORD_VAULT: 'v' }, 'S_PASSWORD')).toEqual({ file: '~/wp' });
+    expect(parseSecretRef({ S_PASSWORD: 'inline', S_PASSWORD_VAULT: 'v' }, 'S_PASSWORD')).toBe('inline');
+    expect(parseSecretRef({}, 'S_PASSWORD')).toBeUndefined();
+  });
+
+  it('runs the secret command once, when the site\'s client is first built', async () => {
+    const counter = path.join(dir, 'command-runs');
+    fs.writeFileSync(counter, '');
+    Object.assign(process.env, {
+      WORDPRESS_1_URL: baseUrl,
+      WORDPRESS_1_ID: 'lazy',
+      WORDPRESS_1_USERNAME: 'bot',
+      WORDPRESS_1_RETRIES: '0',
+      WORDPRESS_1_PASSWORD_COMMAND: `node -e "require('fs').appendFileSync(${JSON.stringify(counter).replace(/"/g, "'")}, 'x'); process.stdout.write('lazy-secret')"`
+    });
+
+    const manager = new SiteManager();
+    expect(manager.getSite('lazy').id).toBe('lazy');
+    expect(fs.readFileSync(counter, 'utf8')).toBe('');
+
+    await Promise.all([manager.getClient('lazy'), manager.getClient('lazy')]);
+
+    expect(fs.readFileSync(counter, 'utf8')).toBe('x');
+    expect(seenAuthorization).toEqual([`Basic ${Buffer.from('bot:lazy-secret').toString('base64')}`]);
+  });
+
+  it('fails the site, not startup, when its secret cannot be resolved', async () => {
+    Object.assign(process.env, {
+      WORDPRESS_1_URL: baseUrl,
+      WORDPRESS_1_ID: 'broken',
+      WORDPRESS_1_USERNAME: 'bot',
+      WORDPRESS_1_PASSWORD_COMMAND: `node -e "console.error('not signed in'); process.exit(1)"`
+    });
+
+    const manager = new SiteManager();
+    expect(manager.getAllSites()).toHaveLength(1);
+    await expect(manager.getClient()).rejects.toThrow(/Cannot resolve credentials for site 'broken': command .* exited with code 1: not signed in/);
+    expect(seenAuthorization).toEqual([]);
+  });
+});
@@ -0,0 +1,1426 @@
+// tests/support/fake-wordpress.ts
+import http from 'node:http';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AddressInfo } from 'node:net';
+
+// In-process stand-in for a WordPress site's REST API, for contract tests.
+// It keeps real state (posts, pages, a custom post type, terms, media,
+// users, comments, plugins) and answers the way core WordPress does where
+// the tools depend on it:
+//
+//   - collections default to status=publish, page with X-WP-Total headers
+//     and reject per_page > 100
+//   - context=edit adds the raw title/content/excerpt; rendered content has
+//     block comments stripped, so edits must work from raw
+//   - meta only keeps keys registered for the subtype (registerMeta) and
+//     silently drops the rest; with none registered, meta is `[]`
+//   - a custom type and taxonomy whose rest_base differs from their slug
+//     (documentation → docs, documentation_category → documentation-categories)
+//   - trash vs. force deletion, multipart media uploads, /batch/v1, the REST
+//     index and OPTIONS, and WordPress-shaped error bodies
+//
+// startFakeWordPress() also points WORDPRESS_1_* at the fake and gives the
+// post-type disk cache a fresh directory; close() undoes both. Import the
+// modules under test after starting it so they pick up the environment.
+
+const FAKE_USERNAME = 'admin';
+const FAKE_PASSWORD = 'fake pass word 1234';
+
+const ENV_KEYS = [
+  'WORDPRESS_1_URL',
+  'WORDPRESS_1_USERNAME',
+  'WORDPRESS_1_PASSWORD',
+  'WORDPRESS_1_ID',
+  'WORDPRESS_1_RETRIES',
+  'UNIFIED_CONTENT_CACHE_DIR'
+];
+
+interface FakePostType {
+  slug: string;
+  name: string;
+  rest_base: string;
+  hierarchical: boolean;
+  /** Path prefix for links, e.g. `documentation` for /documentation/<slug>/. */
+  permalink?: string;
+  statusDefault: string;
+}
+
+interface FakeTaxonomy {
+  slug: string;
+  name: string;
+  rest_base: string;
+  hierarchical: boolean;
+  types: string[];
+}
+
+export interface FakePost {
+  id: number;
+  type: string;
+  slug: string;
+  status: string;
+  title: string;
+  content: string;
+  excerpt: string;
+  author: number;
+  parent: number;
+  menu_order: number;
+  featured_media: number;
+  format: string;
+  date: string;
+  modified: string;
+  meta: Record<string, unknown>;
+  /** Term ids by taxonomy slug. */
+  terms: Record<string, number[]>;
+  // Attachments only
+  mime_type?: string;
+  alt_text?: string;
+  caption?: string;
+  filename?: string;
+  filesize?: number;
+}
+
+export interface FakeTerm {
+  id: number;
+  taxonomy: string;
+  name: string;
+  slug: string;
+  description: string;
+  parent: number;
+}
+
+export interface FakeUser {
+  id: number;
+  username: string;
+  name: string;
+  email: string;
+  slug: string;
+  roles: string[];
+  first_name: string;
+  last_name: string;
+  description: string;
+  url: string;
+}
+
+export interface FakeComment {
+  id: number;
+  post: number;
+  parent: number;
+  author: number;
+  author_name: string;
+  author_email: string;
+  author_url: string;
+  content: string;
+  status: string;
+  date: string;
+}
+
+export interface FakePlugin {
+  plugin: string;
+  name: string;
+  status: 'active' | 'inactive';
+  version: string;
+}
+
+export interface FakeRequest {
+  method: string;
+  path: string;
+  query: Record<string, unknown>;
+  body: unknown;
+}
+
+export interface FakeWordPressState {
+  types: Record<string, FakePostType>;
+  taxonomies: Record<string, FakeTaxonomy>;
+  /** Registered meta keys and their defaults, by post type. */
+  meta: Record<string, Record<string, unknown>>;
+  posts: Map<number, FakePost>;
+  terms: Map<number, FakeTerm>;
+  users: Map<number, FakeUser>;
+  comments: Map<number, FakeComment>;
+  plugins: Map<string, FakePlugin>;
+  nextId: { post: number; term: number; user: number; comment: number };
+}
+
+export interface FakeWordPress {
+  /** Site URL, without /wp-json. */
+  url: string;
+  username: string;
+  password: string;
+  state: FakeWordPressState;
+  /** Every REST request received, batch sub-requests included. */
+  requests: FakeRequest[];
+  /** Expose `key` in REST for `type`, like register_post_meta(..., show_in_rest => true). */
+  registerMeta(type: string, key: string, defaultValue?: unknown): void;
+  /** Back to the seeded state; keeps the server and environment. */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+class WpError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+interface RouteContext {
+  params: Record<string, string>;
+  /** Query string and body parameters merged, as WP_REST_Request::get_params() sees them. */
+  args: Record<string, any>;
+  files: UploadedFile[];
+  authenticated: boolean;
+}
+
+interface RouteResult {
+  status?: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+interface FakeRoute {
+  /** Registered pattern as WordPress lists it, e.g. `/wp/v2/posts/(?P<id>[\d]+)`. */
+  route: string;
+  namespace: string;
+  endpoints: {
+    methods: string[];
+    args: Record<string, Record<string, unknown>>;
+    handler: (ctx: RouteContext) => RouteResult;
+  }[];
+  schema?: Record<string, unknown>;
+}
+
+interface UploadedFile {
+  field: string;
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+function seedState(): FakeWordPressState {
+  const now = '2026-01-01T00:00:00';
+  const state: FakeWordPressState = {
+    types: {
+      post: { slug: 'post', name: 'Posts', rest_base: 'posts', hierarchical: false, statusDefault: 'publish' },
+      page: { slug: 'page', name: 'Pages', rest_base: 'pages', hierarchical: true, statusDefault: 'publish' },
+      attachment: { slug: 'attachment', name: 'Media', rest_base: 'media', hierarchical: false, statusDefault: 'inherit' },
+      documentation: {
+        slug: 'documentation',
+        name: 'Documentation',
+        rest_base: 'docs',
+        hierarchical: false,
+        permalink: 'documentation',
+        statusDefault: 'publish'
+      }
+    },
+    taxonomies: {
+      category: { slug: 'category', name: 'Categories', rest_base: 'categories', hierarchical: true, types: ['post'] },
+      post_tag: { slug: 'post_tag', name: 'Tags', rest_base: 'tags', hierarchical: false, types: ['post'] },
+      documentation_category: {
+        slug: 'documentation_category',
+        name: 'Documentation Categories',
+        rest_base: 'documentation-categories',
+        hierarchical: true,
+        types: ['documentation']
+      }
+    },
+    // Core registers footnotes for posts and pages
+    meta: { post: { footnotes: '' }, page: { footnotes: '' } },
+    posts: new Map(),
+    terms: new Map(),
+    users: new Map(),
+    comments: new Map(),
+    plugins: new Map(),
+    nextId: { post: 1, term: 2, user: 2, comment: 1 }
+  };
+
+  state.terms.set(1, { id: 1, taxonomy: 'category', name: 'Uncategorized', slug: 'uncategorized', description: '', parent: 0 });
+  state.users.set(1, {
+    id: 1,
+    username: FAKE_USERNAME,
+    name: 'Site Admin',
+    email: 'admin@example.test',
+    slug: 'admin',
+    roles: ['administrator'],
+    first_name: '',
+    last_name: '',
+    description: '',
+    url: ''
+  });
+  state.plugins.set('akismet/akismet', { plugin: 'akismet/akismet', name: 'Akismet Anti-spam', status: 'inactive', version: '5.3' });
+  state.plugins.set('hello', { plugin: 'hello', name: 'Hello Dolly', status: 'active', version: '1.7.2' });
+
+  const hello: FakePost = {
+    id: state.nextId.post++,
+    type: 'post',
+    slug: 'hello-world',
+    status: 'publish',
+    title: 'Hello world!',
+    content: '<!-- wp:paragraph -->\n<p>Welcome to WordPress.</p>\n<!-- /wp:paragraph -->',
+    excerpt: '',
+    author: 1,
+    parent: 0,
+    menu_order: 0,
+    featured_media: 0,
+    format: 'standard',
+    date: now,
+    modified: now,
+    meta: {},
+    terms: { category: [1] }
+  };
+  state.posts.set(hello.id, hello);
+  return state;
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/<[^>]*>/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function mediaType(post: FakePost): string {
+  return post.mime_type?.startsWith('image/') ? 'image' : 'file';
+}
+
+// the_content, roughly: block delimiters are not part of the rendered output
+function renderContent(raw: string): string {
+  return raw.replace(/<!--\s*\/?wp:[^>]*-->\n?/g, '').trim();
+}
+
+function toList(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  if (Array.isArray(value)) return value.flatMap(toList);
+  return String(value).split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function toIds(value: unknown): number[] {
+  return toList(value).map(Number).filter(Number.isInteger);
+}
+
+function toBool(value: unknown): boolean {
+  return value === true || value === 'true' || value === '1' || value === 1;
+}
+
+// `_fields=id,content.raw` keeps only those paths
+function pickFields(item: any, fields: string[]): any {
+  if (fields.length === 0 || item === null || typeof item !== 'object') return item;
+  const picked: Record<string, any> = {};
+  for (const field of fields) {
+    const [head, ...rest] = field.split('.');
+    if (!(head in item)) continue;
+    if (rest.length === 0) {
+      picked[head] = item[head];
+    } else {
+      const nested = pickFields(item[head], [rest.join('.')]);
+      picked[head] = { ...(picked[head] ?? {}), ...nested };
+    }
+  }
+  return picked;
+}
+
+function parseMultipart(body: Buffer, contentType: string): { fields: Record<string, string>; files: UploadedFile[] } {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+  const fields: Record<string, string> = {};
+  const files: UploadedFile[] = [];
+  if (!boundary) return { fields, files };
+
+  const delimiter = Buffer.from(`--${boundary[1] ?? boundary[2]}`);
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+    // Each part: CRLF, headers, blank line, data, CRLF
+    const part = body.subarray(start + delimiter.length + 2, next - 2);
+    const split = part.indexOf('\r\n\r\n');
+    if (split !== -1) {
+      const headers = part.subarray(0, split).toString();
+      const data = part.subarray(split + 4);
+      const name = /name="([^"]*)"/i.exec(headers)?.[1] ?? '';
+      const filename = /filename="([^"]*)"/i.exec(headers)?.[1];
+      if (filename !== undefined) {
+        const type = /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1] ?? 'application/octet-stream';
+        files.push({ field: name, filename, contentType: type.trim(), data: Buffer.from(data) });
+      } else {
+        fields[name] = data.toString();
+      }
+    }
+    start = next;
+  }
+  return { fields, files };
+}
+
+// `categories[]=1&categories[]=2` (axios) and `categories=1,2` both become lists
+function parseQuery(search: URLSearchParams): Record<string, any> {
+  const query: Record<string, any> = {};
+  for (const [rawKey, value] of search) {
+    const key = rawKey.replace(/\[\]$/, '');
+    if (rawKey.endsWith('[]')) {
+      (query[key] ??= []).push(value);
+    } else {
+      query[key] = value;
+    }
+  }
+  return query;
+}
+
+function compileRoute(route: string): RegExp {
+  return new RegExp(`^${route.replace(/\(\?P</g, '(?<')}$`);
+}
+
+/**
+ * Start a fake WordPress site on a random local port and point
+ * WORDPRESS_1_* at it (site id `fake`, no retries).
+ */
+export async function startFakeWordPress(): Promise<FakeWordPress> {
+  let state = seedState();
+  const requests: FakeRequest[] = [];
+  let url = '';
+
+  const now = () => new Date().toISOString().slice(0, 19);
+
+  function typeFor(restBase: string): FakePostType {
+    const type = Object.values(state.types).find(candidate => candidate.rest_base === restBase);
+    if (!type) throw new WpError(404, 'rest_no_route', 'No route was found matching the URL and request method.');
+    return type;
+  }
+
+  function taxonomiesFor(type: string): FakeTaxonomy[] {
+    return Object.values(state.taxonomies).filter(taxonomy => taxonomy.types.includes(type));
+  }
+
+  function postLink(post: FakePost): string {
+    if (post.status !== 'publish' && post.type !== 'attachment') return `${url}/?p=${post.id}`;
+    const prefix = state.types[post.type]?.permalink;
+    return `${url}/${prefix ? `${prefix}/` : ''}${post.slug}/`;
+  }
+
+  function getPost(id: string | number, type?: string): FakePost {
+    const post = state.posts.get(Number(id));
+    if (!post || (type && post.type !== type)) {
+      throw new WpError(404, 'rest_post_invalid_id', 'Invalid post ID.');
+    }
+    return post;
+  }
+
+  // Registered keys only, with their defaults; PHP encodes an empty array as []
+  function serializeMeta(type: string, stored: Record<string, unknown>): Record<string, unknown> | unknown[] {
+    const registered = state.meta[type] ?? {};
+    const keys = Object.keys(registered);
+    if (keys.length === 0) return [];
+    return Object.fromEntries(keys.map(key => [key, key in stored ? stored[key] : registered[key]]));
+  }
+
+  function serializeUser(user: FakeUser, context: string): Record<string, unknown> {
+    const view = {
+      id: user.id,
+      name: user.name,
+      url: user.url,
+      description: user.description,
+      link: `${url}/author/${user.slug}/`,
+      slug: user.slug,
+      avatar_urls: {}
+    };
+    if (context !== 'edit') return view;
+    return {
+      ...view,
+      username: user.username,
+      first_name: user.first_name,
+      last_name: user.last_name,
+      email: user.email,
+      roles: user.roles,
+      registered_date: '2026-01-01T00:00:00+00:00'
+    };
+  }
+
+  function serializeTerm(term: FakeTerm): Record<string, unknown> {
+    const taxonomy = state.taxonomies[term.taxonomy];
+    const count = [...state.posts.values()].filter(post => post.terms[term.taxonomy]?.includes(term.id)).length;
+    return {
+      id: term.id,
+      count,
+      description: term.description,
+      link: `${url}/${term.taxonomy}/${term.slug}/`,
+      name: term.name,
+      slug: term.slug,
+      taxonomy: term.taxonomy,
+      ...(taxonomy.hierarchical && { parent: term.parent }),
+      meta: []
+    };
+  }
+
+  function serializeMedia(post: FakePost, context: string): Record<string, unknown> {
+    const edit = context === 'edit';
+    return {
+      id: post.id,
+      date: post.date,
+      modified: post.modified,
+      slug: post.slug,
+      status: post.status,
+      type: 'attachment',
+      link: `${url}/${post.slug}/`,
+      title: { rendered: post.title, ...(edit && { raw: post.title }) },
+      author: post.author,
+      description: { rendered: post.content ? `<p>${post.content}</p>` : '', ...(edit && { raw: post.content }) },
+      caption: { rendered: post.caption ? `<p>${post.caption}</p>` : '', ...(edit && { raw: post.caption }) },
+      alt_text: post.alt_text ?? '',
+      media_type: mediaType(post),
+      mime_type: post.mime_type,
+      media_details: { filesize: post.filesize },
+      post: post.parent || null,
+      source_url: `${url}/wp-content/uploads/${post.filename}`,
+      meta: serializeMeta('attachment', post.meta)
+    };
+  }
+
+  function serializePost(post: FakePost, context: string, embed = false): Record<string, unknown> {
+    if (post.type === 'attachment') return serializeMedia(post, context);
+    const type = state.types[post.type];
+    const edit = context === 'edit';
+    const item: Record<string, unknown> = {
+      id: post.id,
+      date: post.status === 'draft' ? null : post.date,
+      modified: post.modified,
+      slug: post.slug,
+      status: post.status,
+      type: post.type,
+      link: postLink(post),
+      title: { rendered: post.title, ...(edit && { raw: post.title }) },
+      content: { rendered: renderContent(post.content), protected: false, ...(edit && { raw: post.content }) },
+      excerpt: { rendered: post.excerpt ? `<p>${post.excerpt}</p>` : '', protected: false, ...(edit && { raw: post.excerpt }) },
+      author: post.author,
+      featured_media: post.featured_media,
+      ...(type.hierarchical && { parent: post.parent, menu_order: post.menu_order }),
+      ...(post.type === 'post' && { format: post.format }),
+      meta: serializeMeta(post.type, post.meta)
+    };
+    for (const taxonomy of taxonomiesFor(post.type)) {
+      item[taxonomy.rest_base] = post.terms[taxonomy.slug] ?? [];
+    }
+    if (embed) {
+      const author = state.users.get(post.author);
+      const media = post.featured_media ? state.posts.get(post.featured_media) : undefined;
+      item._embedded = {
+        ...(author && { author: [serializeUser(author, 'view')] }),
+        ...(media && { 'wp:featuredmedia': [serializeMedia(media, 'view')] }),
+        'wp:term': taxonomiesFor(post.type).map(taxonomy =>
+          (post.terms[taxonomy.slug] ?? []).map(id => state.terms.get(id)).filter(Boolean).map(term => serializeTerm(term!))
+        )
+      };
+    }
+    return item;
+  }
+
+  function requireAuth(ctx: RouteContext, code = 'rest_cannot_create') {
+    if (!ctx.authenticated) throw new WpError(401, code, 'Sorry, you are not allowed to do that.');
+  }
+
+  function contextOf(ctx: RouteContext): string {
+    const context = ctx.args.context ?? 'view';
+    if (context === 'edit') requireAuth(ctx, 'rest_forbidden_context');
+    return context;
+  }
+
+  function paginate<T>(items: T[], args: Record<string, any>, serialize: (item: T) => unknown): RouteResult {
+    const perPage = args.per_page === undefined ? 10 : Number(args.per_page);
+    const page = args.page === undefined ? 1 : Number(args.page);
+    if (!Number.isInteger(perPage) || perPage < 1 || perPage > 100) {
+      throw new WpError(400, 'rest_invalid_param', 'Invalid parameter(s): per_page');
+    }
+    const totalPages = Math.ceil(items.length / perPage);
+    if (page > 1 && page > totalPages) {
+      throw new WpError(400, 'rest_post_invalid_page_number', 'The page number requested is larger than the number of pages available.');
+    }
+    const fields = toList(args._fields);
+    return {
+      body: items.slice((page - 1) * perPage, page * perPage).map(item => pickFields(serialize(item), fields)),
+      headers: { 'X-WP-Total': String(items.length), 'X-WP-TotalPages': String(totalPages) }
+    };
+  }
+
+  function single(body: Record<string, unknown>, args: Record<string, any>, status = 200): RouteResult {
+    return { status, body: pickFields(body, toList(args._fields)) };
+  }
+
+  function sortItems<T extends Record<string, any>>(items: T[], args: Record<string, any>, defaults: { orderby: string; order: 'asc' | 'desc' }): T[] {
+    const orderby = args.orderby ?? defaults.orderby;
+    const direction = (args.order ?? defaults.order) === 'asc' ? 1 : -1;
+    const key = (item: T) => orderby === 'title' ? item.title : orderby === 'date' ? `${item.date}:${String(item.id).padStart(8, '0')}` : item[orderby];
+    return [...items].sort((a, b) => (key(a) > key(b) ? 1 : key(a) < key(b) ? -1 : 0) * direction);
+  }
+
+  function uniqueSlug(base: string, type: string, exceptId?: number): string {
+    let slug = base;
+    for (let suffix = 2; [...state.posts.values()].some(post => post.type === type && post.slug === slug && post.id !== exceptId); suffix++) {
+      slug = `${base}-${suffix}`;
+    }
+    return slug;
+  }
+
+  // Fields every post-like write accepts; unknown fields are ignored, as WordPress does
+  function applyPostFields(post: FakePost, args: Record<string, any>) {
+    const text = (value: any) => typeof value === 'object' && value !== null ? String(value.raw ?? '') : String(value);
+    if (args.title !== undefined) post.title = text(args.title);
+    if (args.content !== undefined) post.content = text(args.content);
+    if (args.excerpt !== undefined) post.excerpt = text(args.excerpt);
+    if (args.status !== undefined) {
+      if (!['publish', 'future', 'draft', 'pending', 'private'].includes(args.status)) {
+        throw new WpError(400, 'rest_invalid_param', 'Invalid parameter(s): status');
+      }
+      post.status = args.status;
+    }
+    if (args.author !== undefined) {
+      if (!state.users.has(Number(args.author))) throw new WpError(400, 'rest_invalid_author', 'Invalid author ID.');
+      post.author = Number(args.author);
+    }
+    if (args.parent !== undefined) post.parent = Number(args.parent);
+    if (args.menu_order !== undefined) post.menu_order = Number(args.menu_order);
+    if (args.featured_media !== undefined) post.featured_media = Number(args.featured_media);
+    if (args.format !== undefined) post.format = String(args.format);
+    if (args.slug !== undefined) post.slug = uniqueSlug(slugify(String(args.slug)), post.type, post.id);
+    if (!post.slug) post.slug = uniqueSlug(slugify(post.title) || String(post.id), post.type, post.id);
+
+    if (args.meta !== undefined && typeof args.meta === 'object' && args.meta !== null) {
+      const registered = state.meta[post.type] ?? {};
+      for (const [key, value] of Object.entries(args.meta)) {
+        if (key in registered) post.meta[key] = value;
+      }
+    }
+    for (const taxonomy of taxonomiesFor(post.type)) {
+      if (args[taxonomy.rest_base] === undefined) continue;
+      const ids = toIds(args[taxonomy.rest_base]);
+      const unknown = ids.find(id => state.terms.get(id)?.taxonomy !== taxonomy.slug);
+      if (unknown !== undefined) throw new WpError(400, 'rest_invalid_term_id', 'Invalid term ID.');
+      post.terms[taxonomy.slug] = ids;
+    }
+    post.modified = now();
+  }
+
+  function postRoutes(type: FakePostType): FakeRoute[] {
+    const base = `/wp/v2/${type.rest_base}`;
+    const collectionArgs = {
+      context: { type: 'string', enum: ['view', 'embed', 'edit'], default: 'view' },
+      page: { type: 'integer', default: 1, minimum: 1 },
+      per_page: { type: 'integer', default: 10, minimum: 1, maximum: 100 },
+      search: { type: 'string' },
+      slug: { type: 'array', items: { type: 'string' } },
+      status: { type: 'array', items: { type: 'string' }, default: type.statusDefault }
+    };
+
+    return [
+      {
+        route: base,
+        namespace: 'wp/v2',
+        schema: { title: type.slug, type: 'object', properties: { id: { type: 'integer' }, title: { type: 'object' }, content: { type: 'object' } } },
+        endpoints: [
+          {
+            methods: ['GET'],
+            args: collectionArgs,
+            handler: (ctx) => {
+              const context = contextOf(ctx);
+              const { args } = ctx;
+              const statuses = toList(args.status ?? type.statusDefault);
+              const slugs = toList(args.slug);
+              const search = args.search?.toLowerCase();
+              let items = [...state.posts.values()].filter(post =>
+                post.type === type.slug &&
+                (statuses.includes('any') ? post.status !== 'trash' : statuses.includes(post.status)) &&
+                (slugs.length === 0 || slugs.includes(post.slug)) &&
+                (!search || post.title.toLowerCase().includes(search) || post.content.toLowerCase().includes(search)) &&
+                (args.author === undefined || toIds(args.author).includes(post.author)) &&
+                (args.parent === undefined || toIds(args.parent).includes(post.parent)) &&
+                (args.include === undefined || toIds(args.include).includes(post.id)) &&
+                (args.mime_type === undefined || post.mime_type === args.mime_type) &&
+                (args.media_type === undefined || post.mime_type?.split('/')[0] === args.media_type) &&
+                taxonomiesFor(type.slug).every(taxonomy =>
+                  args[taxonomy.rest_base] === undefined ||
+                  toIds(args[taxonomy.rest_base]).some(id => post.terms[taxonomy.slug]?.includes(id))
+                )
+              );
+              if (statuses.some(status => status !== 'publish' && status !== 'inherit')) requireAuth(ctx, 'rest_invalid_param');
+              items = sortItems(items, args, { orderby: 'date', order: 'desc' });
+              return paginate(items, args, post => serializePost(post, context, args._embed !== undefined));
+            }
+          },
+          {
+            methods: ['POST'],
+            args: { title: { type: 'object' }, content: { type: 'object' }, status: { type: 'string' }, meta: { type: 'object' } },
+            handler: (ctx) => {
+              requireAuth(ctx);
+              if (type.slug === 'attachment') return uploadMedia(ctx);
+              const post: FakePost = {
+                id: state.nextId.post++,
+                type: type.slug,
+                slug: '',
+                status: 'draft',
+                title: '',
+                content: '',
+                excerpt: '',
+                author: 1,
+                parent: 0,
+                menu_order: 0,
+                featured_media: 0,
+                format: 'standard',
+                date: now(),
+                modified: now(),
+                meta: {},
+                terms: type.slug === 'post' ? { category: [1] } : {}
+              };
+              applyPostFields(post, ctx.args);
+              state.posts.set(post.id, post);
+              return single(serializePost(post, 'edit'), ctx.args, 201);
+            }
+          }
+        ]
+      },
+      {
+        route: `${base}/(?P<id>[\\d]+)`,
+        namespace: 'wp/v2',
+        endpoints: [
+          {
+            methods: ['GET'],
+            args: { id: { type: 'integer', required: true }, context: collectionArgs.context },
+            handler: (ctx) => {
+              const post = getPost(ctx.params.id, type.slug);
+              const context = contextOf(ctx);
+              if (post.status !== 'publish' && post.status !== 'inherit') requireAuth(ctx, 'rest_forbidden');
+              return single(serializePost(post, context, ctx.args._embed !== undefined), ctx.args);
+            }
+          },
+          {
+            methods: ['POST', 'PUT', 'PATCH'],
+            args: { id: { type: 'integer', required: true } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_edit');
+              const post = getPost(ctx.params.id, type.slug);
+              if (type.slug === 'attachment') {
+                const args = ctx.args;
+                if (args.title !== undefined) post.title = String(args.title);
+                if (args.alt_text !== undefined) post.alt_text = String(args.alt_text);
+                if (args.caption !== undefined) post.caption = String(args.caption);
+                if (args.description !== undefined) post.content = String(args.description);
+                if (args.post !== undefined) post.parent = Number(args.post);
+                post.modified = now();
+              } else {
+                applyPostFields(post, ctx.args);
+              }
+              return single(serializePost(post, 'edit'), ctx.args);
+            }
+          },
+          {
+            methods: ['DELETE'],
+            args: { id: { type: 'integer', required: true }, force: { type: 'boolean', default: false } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_delete');
+              const post = getPost(ctx.params.id, type.slug);
+              const previous = serializePost(post, 'edit');
+              if (toBool(ctx.args.force)) {
+                state.posts.delete(post.id);
+                return { body: { deleted: true, previous } };
+              }
+              if (type.slug === 'attachment') {
+                throw new WpError(501, 'rest_trash_not_supported', 'The post does not support trashing. Set \'force=true\' to delete.');
+              }
+              if (post.status === 'trash') throw new WpError(410, 'rest_already_trashed', 'The post has already been deleted.');
+              post.status = 'trash';
+              return { body: serializePost(post, 'edit') };
+            }
+          }
+        ]
+      }
+    ];
+  }
+
+  function uploadMedia(ctx: RouteContext): RouteResult {
+    const file = ctx.files.find(candidate => candidate.field === 'file');
+    if (!file) throw new WpError(400, 'rest_upload_no_data', 'No data supplied.');
+    const name = file.filename.replace(/[^\w.-]+/g, '-');
+    const post: FakePost = {
+      id: state.nextId.post++,
+      type: 'attachment',
+      slug: uniqueSlug(slugify(path.parse(name).name) || 'upload', 'attachment'),
+      status: 'inherit',
+      title: ctx.args.title ?? path.parse(name).name,
+      content: ctx.args.description ?? '',
+      excerpt: '',
+      author: 1,
+      parent: ctx.args.post ? Number(ctx.args.post) : 0,
+      menu_order: 0,
+      featured_media: 0,
+      format: 'standard',
+      date: now(),
+      modified: now(),
+      meta: {},
+      terms: {},
+      mime_type: file.contentType,
+      alt_text: ctx.args.alt_text ?? '',
+      caption: ctx.args.caption ?? '',
+      filename: name,
+      filesize: file.data.length
+    };
+    state.posts.set(post.id, post);
+    return { status: 201, body: serializeMedia(post, 'edit') };
+  }
+
+  function taxonomyRoutes(taxonomy: FakeTaxonomy): FakeRoute[] {
+    const base = `/wp/v2/${taxonomy.rest_base}`;
+    const getTerm = (id: string) => {
+      const term = state.terms.get(Number(id));
+      if (!term || term.taxonomy !== taxonomy.slug) throw new WpError(404, 'rest_term_invalid', 'Term does not exist.');
+      return term;
+    };
+    const applyTermFields = (term: FakeTerm, args: Record<string, any>) => {
+      if (args.name !== undefined) term.name = String(args.name);
+      if (args.description !== undefined) term.description = String(args.description);
+      if (args.parent !== undefined) {
+        if (!taxonomy.hierarchical) throw new WpError(400, 'rest_taxonomy_not_hierarchical', 'Cannot set parent term, taxonomy is not hierarchical.');
+        term.parent = Number(args.parent);
+      }
+      if (args.slug !== undefined) term.slug = slugify(String(args.slug));
+      if (!term.slug) term.slug = slugify(term.name);
+    };
+
+    return [
+      {
+        route: base,
+        namespace: 'wp/v2',
+        endpoints: [
+          {
+            methods: ['GET'],
+            args: { page: { type: 'integer', default: 1 }, per_page: { type: 'integer', default: 10 }, search: { type: 'string' } },
+            handler: ({ args }) => {
+              const search = args.search?.toLowerCase();
+              const slugs = toList(args.slug);
+              const items = [...state.terms.values()].filter(term =>
+                term.taxonomy === taxonomy.slug &&
+                (!search || term.name.toLowerCase().includes(search)) &&
+                (slugs.length === 0 || slugs.includes(term.slug)) &&
+                (args.parent === undefined || term.parent === Number(args.parent))
+              );
+              return paginate(sortItems(items, args, { orderby: 'name', order: 'asc' }), args, serializeTerm);
+            }
+          },
+          {
+            methods: ['POST'],
+            args: { name: { type: 'string', required: true } },
+            handler: (ctx) => {
+              requireAuth(ctx);
+              if (!ctx.args.name) throw new WpError(400, 'rest_missing_callback_param', 'Missing parameter(s): name');
+              if ([...state.terms.values()].some(term => term.taxonomy === taxonomy.slug && term.name === ctx.args.name)) {
+                throw new WpError(400, 'term_exists', 'A term with the name provided already exists with this parent.');
+              }
+              const term: FakeTerm = { id: state.nextId.term++, taxonomy: taxonomy.slug, name: '', slug: '', description: '', parent: 0 };
+              applyTermFields(term, ctx.args);
+              state.terms.set(term.id, term);
+              return single(serializeTerm(term), ctx.args, 201);
+            }
+          }
+        ]
+      },
+      {
+        route: `${base}/(?P<id>[\\d]+)`,
+        namespace: 'wp/v2',
+        endpoints: [
+          {
+            methods: ['GET'],
+            args: { id: { type: 'integer', required: true } },
+            handler: (ctx) => single(serializeTerm(getTerm(ctx.params.id)), ctx.args)
+          },
+          {
+            methods: ['POST', 'PUT', 'PATCH'],
+            args: { id: { type: 'integer', required: true } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_update');
+              const term = getTerm(ctx.params.id);
+              applyTermFields(term, ctx.args);
+              return single(serializeTerm(term), ctx.args);
+            }
+          },
+          {
+            methods: ['DELETE'],
+            args: { id: { type: 'integer', required: true }, force: { type: 'boolean', default: false } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_delete');
+              const term = getTerm(ctx.params.id);
+              if (!toBool(ctx.args.force)) {
+                throw new WpError(501, 'rest_trash_not_supported', 'Terms do not support trashing. Set \'force=true\' to delete.');
+              }
+              const previous = serializeTerm(term);
+              state.terms.delete(term.id);
+              for (const post of state.posts.values()) {
+                const ids = post.terms[taxonomy.slug];
+                if (ids) post.terms[taxonomy.slug] = ids.filter(id => id !== term.id);
+              }
+              return { body: { deleted: true, previous } };
+            }
+          }
+        ]
+      }
+    ];
+  }
+
+  function userRoutes(): FakeRoute[] {
+    const getUser = (id: string) => {
+      const user = state.users.get(Number(id));
+      if (!user) throw new WpError(404, 'rest_user_invalid_id', 'Invalid user ID.');
+      return user;
+    };
+    const applyUserFields = (user: FakeUser, args: Record<string, any>) => {
+      for (const key of ['name', 'first_name', 'last_name', 'email', 'description', 'url'] as const) {
+        if (args[key] !== undefined) user[key] = String(args[key]);
+      }
+      if (args.slug !== undefined) user.slug = slugify(String(args.slug));
+      if (args.roles !== undefined) user.roles = toList(args.roles);
+    };
+
+    return [
+      {
+        route: '/wp/v2/users',
+        namespace: 'wp/v2',
+        endpoints: [
+          {
+            methods: ['GET'],
+            args: { page: { type: 'integer', default: 1 }, per_page: { type: 'integer', default: 10 }, search: { type: 'string' } },
+            handler: (ctx) => {
+              const context = contextOf(ctx);
+              const search = ctx.args.search?.toLowerCase();
+              const roles = toList(ctx.args.roles);
+              const items = [...state.users.values()].filter(user =>
+                (!search || `${user.name} ${user.username} ${user.email}`.toLowerCase().includes(search)) &&
+                (roles.length === 0 || roles.some(role => user.roles.includes(role)))
+              );
+              return paginate(sortItems(items, ctx.args, { orderby: 'name', order: 'asc' }), ctx.args, user => serializeUser(user, context));
+            }
+          },
+          {
+            methods: ['POST'],
+            args: { username: { type: 'string', required: true }, email: { type: 'string', required: true }, password: { type: 'string', required: true } },
+            handler: (ctx) => {
+              requireAuth(ctx);
+              const missing = ['username', 'email', 'password'].filter(key => !ctx.args[key]);
+              if (missing.length > 0) throw new WpError(400, 'rest_missing_callback_param', `Missing parameter(s): ${missing.join(', ')}`);
+              if ([...state.users.values()].some(user => user.username === ctx.args.username)) {
+                throw new WpError(500, 'existing_user_login', 'Sorry, that username already exists!');
+              }
+              if ([...state.users.values()].some(user => user.email === ctx.args.email)) {
+                throw new WpError(500, 'existing_user_email', 'Sorry, that email address is already used!');
+              }
+              const user: FakeUser = {
+                id: state.nextId.user++,
+                username: String(ctx.args.username),
+                name: String(ctx.args.username),
+                email: '',
+                slug: slugify(String(ctx.args.username)),
+                roles: ['subscriber'],
+                first_name: '',
+                last_name: '',
+                description: '',
+                url: ''
+              };
+              applyUserFields(user, ctx.args);
+              state.users.set(user.id, user);
+              return { status: 201, body: serializeUser(user, 'edit') };
+            }
+          }
+        ]
+      },
+      {
+        route: '/wp/v2/users/(?P<id>[\\d]+)',
+        namespace: 'wp/v2',
+        endpoints: [
+          {
+            methods: ['GET'],
+            args: { id: { type: 'integer', required: true } },
+            handler: (ctx) => single(serializeUser(getUser(ctx.params.id), contextOf(ctx)), ctx.args)
+          },
+          {
+            methods: ['POST', 'PUT', 'PATCH'],
+            args: { id: { type: 'integer', required: true } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_edit');
+              const user = getUser(ctx.params.id);
+              if (ctx.args.username !== undefined && ctx.args.username !== user.username) {
+                throw new WpError(400, 'rest_user_invalid_argument', 'Username isn\'t editable.');
+              }
+              applyUserFields(user, ctx.args);
+              return { body: serializeUser(user, 'edit') };
+            }
+          },
+          {
+            methods: ['DELETE'],
+            args: { id: { type: 'integer', required: true }, force: { type: 'boolean' }, reassign: { type: 'integer', required: true } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_user_cannot_delete');
+              const user = getUser(ctx.params.id);
+              if (!toBool(ctx.args.force)) {
+                throw new WpError(501, 'rest_trash_not_supported', 'Users do not support trashing. Set \'force=true\' to delete.');
+              }
+              if (ctx.args.reassign === undefined) throw new WpError(400, 'rest_missing_callback_param', 'Missing parameter(s): reassign');
+              const reassign = Number(ctx.args.reassign);
+              if (reassign === user.id || (reassign && !state.users.has(reassign))) {
+                throw new WpError(400, 'rest_user_invalid_reassign', 'Invalid user ID for reassignment.');
+              }
+              for (const post of state.posts.values()) {
+                if (post.author === user.id) post.author = reassign;
+              }
+              state.users.delete(user.id);
+              return { body: { deleted: true, previous: serializeUser(user, 'edit') } };
+            }
+          }
+        ]
+      }
+    ];
+  }
+
+  function commentRoutes(): FakeRoute[] {
+    const serializeComment = (comment: FakeComment, context: string) => {
+      const post = state.posts.get(comment.post);
+      return {
+        id: comment.id,
+        post: comment.post,
+        parent: comment.parent,
+        author: comment.author,
+        author_name: comment.author_name,
+        author_url: comment.author_url,
+        ...(context === 'edit' && { author_email: comment.author_email }),
+        date: comment.date,
+        content: { rendered: `<p>${comment.content}</p>\n`, ...(context === 'edit' && { raw: comment.content }) },
+        link: `${post ? postLink(post) : `${url}/`}#comment-${comment.id}`,
+        status: comment.status,
+        type: 'comment'
+      };
+    };
+    const getComment = (id: string) => {
+      const comment = state.comments.get(Number(id));
+      if (!comment) throw new WpError(404, 'rest_comment_invalid_id', 'Invalid comment ID.');
+      return comment;
+    };
+    // The REST API takes approve/hold and reports approved/hold
+    const commentStatus = (value: unknown) => value === 'approve' || value === 'approved' || value === '1' ? 'approved' : String(value);
+    const applyCommentFields = (comment: FakeComment, args: Record<string, any>) => {
+      if (args.post !== undefined) {
+        if (!state.posts.has(Number(args.post))) throw new WpError(403, 'rest_comment_invalid_post_id', 'Sorry, you are not allowed to create this comment without a post.');
+        comment.post = Number(args.post);
+      }
+      if (args.content !== undefined) comment.content = String(args.content);
+      if (args.parent !== undefined) comment.parent = Number(args.parent);
+      if (args.author !== undefined) comment.author = Number(args.author);
+      if (args.author_name !== undefined) comment.author_name = String(args.author_name);
+      if (args.author_email !== undefined) comment.author_email = String(args.author_email);
+      if (args.author_url !== undefined) comment.author_url = String(args.author_url);
+      if (args.status !== undefined) comment.status = commentStatus(args.status);
+    };
+
+    return [
+      {
+        route: '/wp/v2/comments',
+        namespace: 'wp/v2',
+        endpoints: [
+          {
+            methods: ['GET'],
+            args: { page: { type: 'integer', default: 1 }, per_page: { type: 'integer', default: 10 }, post: { type: 'array' } },
+            handler: (ctx) => {
+              const context = contextOf(ctx);
+              const status = commentStatus(ctx.args.status ?? 'approve');
+              if (status !== 'approved') requireAuth(ctx, 'rest_forbidden_param');
+              const search = ctx.args.search?.toLowerCase();
+              const items = [...state.comments.values()].filter(comment =>
+                comment.status === status &&
+                (ctx.args.post === undefined || toIds(ctx.args.post).includes(comment.post)) &&
+                (!search || comment.content.toLowerCase().includes(search))
+              );
+              return paginate(sortItems(items, ctx.args, { orderby: 'date', order: 'desc' }), ctx.args, comment => serializeComment(comment, context));
+            }
+          },
+          {
+            methods: ['POST'],
+            args: { post: { type: 'integer' }, content: { type: 'string' } },
+            handler: (ctx) => {
+              if (!ctx.args.content) throw new WpError(400, 'rest_comment_content_invalid', 'Invalid comment content.');
+              if (!ctx.args.post) throw new WpError(403, 'rest_comment_invalid_post_id', 'Sorry, you are not allowed to create this comment without a post.');
+              const comment: FakeComment = {
+                id: state.nextId.comment++,
+                post: 0,
+                parent: 0,
+                author: ctx.authenticated ? 1 : 0,
+                author_name: ctx.authenticated ? state.users.get(1)!.name : '',
+                author_email: '',
+                author_url: '',
+                content: '',
+                // Administrators' comments skip moderation
+                status: ctx.authenticated ? 'approved' : 'hold',
+                date: now()
+              };
+              applyCommentFields(comment, ctx.args);
+              state.comments.set(comment.id, comment);
+              return { status: 201, body: serializeComment(comment, 'edit') };
+            }
+          }
+        ]
+      },
+      {
+        route: '/wp/v2/comments/(?P<id>[\\d]+)',
+        namespace: 'wp/v2',
+        endpoints: [
+          {
+            methods: ['GET'],
+            args: { id: { type: 'integer', required: true } },
+            handler: (ctx) => single(serializeComment(getComment(ctx.params.id), contextOf(ctx)), ctx.args)
+          },
+          {
+            methods: ['POST', 'PUT', 'PATCH'],
+            args: { id: { type: 'integer', required: true } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_edit');
+              const comment = getComment(ctx.params.id);
+              applyCommentFields(comment, ctx.args);
+              return { body: serializeComment(comment, 'edit') };
+            }
+          },
+          {
+            methods: ['DELETE'],
+            args: { id: { type: 'integer', required: true }, force: { type: 'boolean', default: false } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_delete');
+              const comment = getComment(ctx.params.id);
+              const previous = serializeComment(comment, 'edit');
+              if (toBool(ctx.args.force)) {
+                state.comments.delete(comment.id);
+                return { body: { deleted: true, previous } };
+              }
+              if (comment.status === 'trash') throw new WpError(410, 'rest_already_trashed', 'The comment has already been trashed.');
+              comment.status = 'trash';
+              return { body: serializeComment(comment, 'edit') };
+            }
+          }
+        ]
+      }
+    ];
+  }
+
+  function pluginRoutes(): FakeRoute[] {
+    const getPlugin = (plugin: string) => {
+      const found = state.plugins.get(plugin);
+      if (!found) throw new WpError(404, 'rest_plugin_not_found', 'Plugin not found.');
+      return found;
+    };
+    const setStatus = (plugin: FakePlugin, status: unknown) => {
+      if (status === undefined) return;
+      if (status !== 'active' && status !== 'inactive') throw new WpError(400, 'rest_invalid_param', 'Invalid parameter(s): status');
+      plugin.status = status;
+    };
+
+    return [
+      {
+        route: '/wp/v2/plugins',
+        namespace: 'wp/v2',
+        endpoints: [
+          {
+            methods: ['GET'],
+            args: { status: { type: 'array', items: { type: 'string', enum: ['inactive', 'active'] } }, search: { type: 'string' } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_view_plugins');
+              const statuses = toList(ctx.args.status);
+              return { body: [...state.plugins.values()].filter(plugin => statuses.length === 0 || statuses.includes(plugin.status)) };
+            }
+          },
+          {
+            methods: ['POST'],
+            args: { slug: { type: 'string', required: true }, status: { type: 'string', default: 'inactive' } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_install_plugin');
+              const slug = String(ctx.args.slug ?? '');
+              if (!slug) throw new WpError(400, 'rest_missing_callback_param', 'Missing parameter(s): slug');
+              const id = `${slug}/${slug}`;
+              if (state.plugins.has(id)) throw new WpError(500, 'folder_exists', 'Destination folder already exists.');
+              const plugin: FakePlugin = { plugin: id, name: slug, status: 'inactive', version: '1.0.0' };
+              setStatus(plugin, ctx.args.status);
+              state.plugins.set(id, plugin);
+              return { status: 201, body: plugin };
+            }
+          }
+        ]
+      },
+      {
+        route: '/wp/v2/plugins/(?P<plugin>[^.\\/]+(?:\\/[^.\\/]+)?)',
+        namespace: 'wp/v2',
+        endpoints: [
+          {
+            methods: ['GET'],
+            args: { plugin: { type: 'string', required: true } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_view_plugin');
+              return { body: getPlugin(ctx.params.plugin) };
+            }
+          },
+          {
+            methods: ['POST', 'PUT', 'PATCH'],
+            args: { plugin: { type: 'string', required: true }, status: { type: 'string', enum: ['inactive', 'active'] } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_manage_plugins');
+              const plugin = getPlugin(ctx.params.plugin);
+              setStatus(plugin, ctx.args.status);
+              return { body: plugin };
+            }
+          },
+          {
+            methods: ['DELETE'],
+            args: { plugin: { type: 'string', required: true } },
+            handler: (ctx) => {
+              requireAuth(ctx, 'rest_cannot_manage_plugins');
+              const plugin = getPlugin(ctx.params.plugin);
+              if (plugin.status === 'active') throw new WpError(400, 'rest_cannot_delete_active_plugin', 'Cannot delete an active plugin. Please deactivate it first.');
+              state.plugins.delete(plugin.plugin);
+              return { body: { deleted: true, previous: plugin } };
+            }
+          }
+        ]
+      }
+    ];
+  }
+
+  function schemaRoutes(): FakeRoute[] {
+    const publicType = (type: FakePostType) => ({
+      name: type.name,
+      slug: type.slug,
+      description: '',
+      hierarchical: type.hierarchical,
+      rest_base: type.rest_base,
+      rest_namespace: 'wp/v2',
+      taxonomies: taxonomiesFor(type.slug).map(taxonomy => taxonomy.slug)
+    });
+    const publicTaxonomy = (taxonomy: FakeTaxonomy) => ({
+      name: taxonomy.name,
+      slug: taxonomy.slug,
+      description: '',
+      types: taxonomy.types,
+      hierarchical: taxonomy.hierarchical,
+      rest_base: taxonomy.rest_base,
+      rest_namespace: 'wp/v2'
+    });
+
+    return [
+      {
+        route: '/wp/v2/types',
+        namespace: 'wp/v2',
+        endpoints: [{
+          methods: ['GET'],
+          args: { context: { type: 'string', default: 'view' } },
+          handler: () => ({ body: Object.fromEntries(Object.values(state.types).map(type => [type.slug, publicType(type)])) })
+        }]
+      },
+      {
+        route: '/wp/v2/taxonomies',
+        namespace: 'wp/v2',
+        endpoints: [{
+          methods: ['GET'],
+          args: { type: { type: 'string' } },
+          handler: ({ args }) => ({
+            body: Object.fromEntries(Object.values(state.taxonomies)
+              .filter(taxonomy => !args.type || taxonomy.types.includes(args.type))
+              .map(taxonomy => [taxonomy.slug, publicTaxonomy(taxonomy)]))
+          })
+        }]
+      }
+    ];
+  }
+
+  function allRoutes(): FakeRoute[] {
+    const routes = [
+      ...schemaRoutes(),
+      ...Object.values(state.types).flatMap(postRoutes),
+      ...Object.values(state.taxonomies).flatMap(taxonomyRoutes),
+      ...userRoutes(),
+      ...commentRoutes(),
+      ...pluginRoutes()
+    ];
+
+    const describe = (list: FakeRoute[]) => Object.fromEntries(list.map(route => [route.route, {
+      namespace: route.namespace,
+      methods: route.endpoints.flatMap(endpoint => endpoint.methods),
+      endpoints: route.endpoints.map(endpoint => ({ methods: endpoint.methods, args: endpoint.args }))
+    }]));
+    const batch: FakeRoute = {
+      route: '/batch/v1',
+      namespace: 'batch/v1',
+      endpoints: [{
+        methods: ['POST'],
+        args: { validation: { type: 'string', enum: ['require-all-validate', 'normal'], default: 'normal' }, requests: { type: 'array', required: true, maxItems: 25 } },
+        handler: (ctx) => runBatch(ctx)
+      }]
+    };
+    const index: FakeRoute = {
+      route: '/',
+      namespace: '',
+      endpoints: [{
+        methods: ['GET'],
+        args: {},
+        handler: () => ({
+          body: { name: 'Fake WordPress', url, namespaces: ['wp/v2', 'batch/v1'], routes: describe([...routes, batch]) }
+        })
+      }]
+    };
+    const namespaceIndex: FakeRoute = {
+      route: '/wp/v2',
+      namespace: 'wp/v2',
+      endpoints: [{
+        methods: ['GET'],
+        args: {},
+        handler: () => ({ body: { namespace: 'wp/v2', routes: describe(routes) } })
+      }]
+    };
+    return [index, namespaceIndex, batch, ...routes];
+  }
+
+  function runBatch(ctx: RouteContext): RouteResult {
+    requireAuth(ctx);
+    const list = ctx.args.requests;
+    if (!Array.isArray(list) || list.length > 25) {
+      throw new WpError(400, 'rest_invalid_param', 'Invalid parameter(s): requests');
+    }
+    const responses = list.map((request: any) => {
+      const target = new URL(String(request.path ?? ''), 'http://batch.invalid');
+      const result = dispatch(String(request.method ?? 'POST').toUpperCase(), target.pathname, {
+        query: parseQuery(target.searchParams),
+        body: request.body ?? {},
+        files: [],
+        authenticated: ctx.authenticated,
+        batched: true
+      });
+      return { body: result.body, status: result.status ?? 200, headers: result.headers ?? {} };
+    });
+    return { status: 207, body: { responses } };
+  }
+
+  function dispatch(
+    method: string,
+    route: string,
+    request: { query: Record<string, any>; body: any; files: UploadedFile[]; authenticated: boolean; batched?: boolean }
+  ): RouteResult {
+    const args = { ...request.query, ...(request.body && typeof request.body === 'object' ? request.body : {}) };
+    requests.push({ method, path: route, query: request.query, body: request.body });
+
+    try {
+      const normalized = route.length > 1 ? route.replace(/\/+$/, '') : route;
+      for (const candidate of allRoutes()) {
+        const match = compileRoute(candidate.route).exec(normalized);
+        if (!match) continue;
+        if (method === 'OPTIONS') {
+          return {
+            body: {
+              namespace: candidate.namespace,
+              methods: candidate.endpoints.flatMap(endpoint => endpoint.methods),
+              endpoints: candidate.endpoints.map(endpoint => ({ methods: endpoint.methods, args: endpoint.args })),
+              ...(candidate.schema && { schema: candidate.schema })
+            }
+          };
+        }
+        const endpoint = candidate.endpoints.find(entry => entry.methods.includes(method));
+        if (!endpoint) continue;
+        if (request.batched && (candidate.namespace !== 'wp/v2' || method === 'GET' || candidate.route === '/wp/v2/media')) {
+          throw new WpError(400, 'rest_batch_not_allowed', 'The requested route does not support batch requests.');
+        }
+        return endpoint.handler({ params: { ...match.groups }, args, files: request.files, authenticated: request.authenticated });
+      }
+      throw new WpError(404, 'rest_no_route', 'No route was found matching the URL and request method.');
+    } catch (error) {
+      if (error instanceof WpError) {
+        return { status: error.status, body: { code: error.code, message: error.message, data: { status: error.status } } };
+      }
+      throw error;
+    }
+  }
+
+  const expectedAuth = `Basic ${Buffer.from(`${FAKE_USERNAME}:${FAKE_PASSWORD}`).toString('base64')}`;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const target = new URL(req.url ?? '/', 'http://fake.invalid');
+      const send = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+        res.writeHead(status, { 'Content-Type': 'application/json; charset=UTF-8', ...headers });
+        res.end(JSON.stringify(body));
+      };
+
+      // A stand-in for any remote file create_media might fetch
+      if (target.pathname.startsWith('/files/')) {
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.end(Buffer.from('89504e470d0a1a0a', 'hex'));
+        return;
+      }
+      if (!target.pathname.startsWith('/wp-json')) {
+        send(404, { code: 'not_found', message: 'Not found', data: { status: 404 } });
+        return;
+      }
+
+      if (req.headers.authorization && req.headers.authorization !== expectedAuth) {
+        send(401, { code: 'incorrect_password', message: 'The provided password is an invalid application password.', data: { status: 401 } });
+        return;
+      }
+
+      const raw = Buffer.concat(chunks);
+      const contentType = req.headers['content-type'] ?? '';
+      let body: any = {};
+      let files: UploadedFile[] = [];
+      if (contentType.startsWith('multipart/form-data')) {
+        const parsed = parseMultipart(raw, contentType);
+        body = parsed.fields;
+        files = parsed.files;
+      } else if (raw.length > 0) {
+        try {
+          body = JSON.parse(raw.toString());
+        } catch {
+          send(400, { code: 'rest_invalid_json', message: 'Invalid JSON body passed.', data: { status: 400 } });
+          return;
+        }
+      }
+
+      const route = target.pathname.slice('/wp-json'.length) || '/';
+      const result = dispatch(req.method ?? 'GET', route, {
+        query: parseQuery(target.searchParams),
+        body,
+        files,
+        authenticated: req.headers.authorization === expectedAuth
+      });
+      send(result.status ?? 200, result.body, result.headers);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const envBackup = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wp-fake-'));
+  Object.assign(process.env, {
+    WORDPRESS_1_URL: url,
+    WORDPRESS_1_USERNAME: FAKE_USERNAME,
+    WORDPRESS_1_PASSWORD: FAKE_PASSWORD,
+    WORDPRESS_1_ID: 'fake',
+    WORDPRESS_1_RETRIES: '0',
+    UNIFIED_CONTENT_CACHE_DIR: cacheDir
+  });
+
+  return {
+    url,
+    username: FAKE_USERNAME,
+    password: FAKE_PASSWORD,
+    get state() {
+      return state;
+    },
+    requests,
+    registerMeta(type, key, defaultValue = '') {
+      (state.meta[type] ??= {})[key] = defaultValue;
+    },
+    reset() {
+      state = seedState();
+      requests.length = 0;
+    },
+    async close() {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+      for (const key of ENV_KEYS) {
+        if (envBackup[key] === undefined) delete process.env[key];
+        else process.env[key] = envBackup[key];
+      }
+    }
+  };
+}
@@ -0,0 +1,39 @@
+// tests/support/mcp-client.ts
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMcpServer } from '../../src/mcp-server.js';
+
+// A real MCP client wired to createMcpServer() in memory, so contract tests
+// go through the same argument parsing and outputSchema validation a client
+// would. Import it after startFakeWordPress() (see fake-wordpress.ts).
+
+export interface ToolCall {
+  isError: boolean;
+  /** Text of every content block, in order. */
+  texts: string[];
+  /** The last JSON text block, parsed. */
+  json: any;
+  structured: any;
+}
+
+export async function connectClient(): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer().connect(serverTransport);
+  const client = new Client({ name: 'contract-test', version: '0.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+export async function callTool(client: Client, name: string, args: Record<string, unknown> = {}): Promise<ToolCall> {
+  const result = await client.callTool({ name, arguments: args });
+  const texts = (result.content as { type: string; text?: string }[]).map(block => block.text ?? '');
+  let json: any;
+  for (const text of texts) {
+    try {
+      json = JSON.parse(text);
+    } catch {
+      // warnings and error messages
+    }
+  }
+  return { isError: Boolean(result.isError), texts, json, structured: result.structuredContent };
+}
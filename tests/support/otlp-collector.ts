@@ -0,0 +1,96 @@
+// tests/support/otlp-collector.ts
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+// Stand-in for an OpenTelemetry collector's OTLP/HTTP receiver. It accepts
+// JSON trace exports on /v1/traces and flattens them into `spans`, with
+// attribute lists turned back into plain objects for easy assertions.
+
+export interface CollectedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: Record<string, string | number | boolean>;
+  status: { code: number; message?: string };
+  resource: Record<string, string | number | boolean>;
+}
+
+export interface OtlpCollector {
+  /** Base URL, as OTEL_EXPORTER_OTLP_ENDPOINT expects it. */
+  url: string;
+  spans: CollectedSpan[];
+  /** Headers of each export request. */
+  exports: http.IncomingHttpHeaders[];
+  /** Answer the next export with this status instead of 200. */
+  failNext(status: number): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+type OtlpAttribute = { key: string; value: Record<string, unknown> };
+
+function fromOtlpAttributes(attributes: OtlpAttribute[] = []): Record<string, string | number | boolean> {
+  return Object.fromEntries(attributes.map(({ key, value }) => {
+    if ('intValue' in value) return [key, Number(value.intValue)];
+    return [key, (value.stringValue ?? value.boolValue ?? value.doubleValue) as string | number | boolean];
+  }));
+}
+
+export async function startOtlpCollector(): Promise<OtlpCollector> {
+  const spans: CollectedSpan[] = [];
+  const exports: http.IncomingHttpHeaders[] = [];
+  let failStatus: number | undefined;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      if (req.method !== 'POST' || req.url !== '/v1/traces') {
+        res.writeHead(404).end();
+        return;
+      }
+      if (failStatus) {
+        res.writeHead(failStatus).end();
+        failStatus = undefined;
+        return;
+      }
+
+      exports.push(req.headers);
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      for (const resourceSpans of body.resourceSpans ?? []) {
+        const resource = fromOtlpAttributes(resourceSpans.resource?.attributes);
+        for (const scopeSpans of resourceSpans.scopeSpans ?? []) {
+          for (const span of scopeSpans.spans ?? []) {
+            spans.push({ ...span, attributes: fromOtlpAttributes(span.attributes), resource });
+          }
+        }
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end('{}');
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    spans,
+    exports,
+    failNext(status) {
+      failStatus = status;
+    },
+    reset() {
+      spans.length = 0;
+      exports.length = 0;
+      failStatus = undefined;
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { startFakeWordPress } from './support/fake-wordpress.js';
+import { startOtlpCollector } from './support/otlp-collector.js';
+import { flushTelemetry, resolveTelemetryConfig, shutdownTelemetry } from '../src/telemetry.js';
+
+const collector = await startOtlpCollector();
+process.env.OTEL_EXPORTER_OTLP_ENDPOINT = collector.url;
+process.env.OTEL_EXPORTER_OTLP_HEADERS = 'x-collector-token=abc%20123';
+process.env.OTEL_SERVICE_NAME = 'wp-mcp-test';
+
+const fake = await startFakeWordPress();
+const { connectClient, callTool } = await import('./support/mcp-client.js');
+const client = await connectClient();
+
+afterAll(async () => {
+  await client.close();
+  await shutdownTelemetry();
+  await fake.close();
+  await collector.close();
+  delete process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  delete process.env.OTEL_EXPORTER_OTLP_HEADERS;
+  delete process.env.OTEL_SERVICE_NAME;
+});
+
+beforeEach(async () => {
+  // Export spans left over from the previous test (e.g. the connection test)
+  await flushTelemetry();
+  collector.reset();
+  fake.reset();
+});
+
+describe('resolveTelemetryConfig', () => {
+  it('is off without an OTLP endpoint', () => {
+    expect(resolveTelemetryConfig({})).toBeNull();
+    expect(resolveTelemetryConfig({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://c:4318', OTEL_SDK_DISABLED: 'true' })).toBeNull();
+    expect(resolveTelemetryConfig({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://c:4318', OTEL_EXPORTER_OTLP_PROTOCOL: 'grpc' })).toBeNull();
+  });
+
+  it('derives the traces URL and prefers the traces-specific endpoint', () => {
+    expect(resolveTelemetryConfig({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://c:4318/' })?.endpoint).toBe('http://c:4318/v1/traces');
+    expect(resolveTelemetryConfig({
+      OTEL_EXPORTER_OTLP_ENDPOINT: 'http://c:4318',
+      OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: 'http://traces:9000/otlp'
+    })?.endpoint).toBe('http://traces:9000/otlp');
+  });
+});
+
+describe('tool call tracing', () => {
+  it('exports a span per tool call with a child span per HTTP request', async () => {
+    const result = await callTool(client, 'get_content', { content_type: 'post', id: 1 });
+    expect(result.isError).toBe(false);
+    await flushTelemetry();
+
+    const toolSpan = collector.spans.find(span => span.name === 'tools/call get_content');
+    expect(toolSpan).toMatchObject({
+      kind: 2,
+      status: { code: 0 },
+      attributes: { 'mcp.tool.name': 'get_content', 'wordpress.site_id': 'fake', 'mcp.tool.is_error': false },
+      resource: { 'service.name': 'wp-mcp-test' }
+    });
+    expect(toolSpan!.parentSpanId).toBeUndefined();
+    expect(toolSpan!.attributes['mcp.tool.response.size']).toBeGreaterThan(0);
+
+    const httpSpan = collector.spans.find(span => span.name === 'GET /wp/v2/posts/{id}');
+    expect(httpSpan).toMatchObject({
+      kind: 3,
+      traceId: toolSpan!.traceId,
+      parentSpanId: toolSpan!.spanId,
+      attributes: {
+        'http.request.method': 'GET',
+        'wordpress.site_id': 'fake',
+        'wordpress.endpoint': '/wp/v2/posts/1',
+        'http.response.status_code': 200
+      }
+    });
+    expect(httpSpan!.attributes['http.response.body.size']).toBeGreaterThan(0);
+    expect(BigInt(httpSpan!.startTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(toolSpan!.startTimeUnixNano));
+    expect(BigInt(httpSpan!.endTimeUnixNano)).toBeLessThanOrEqual(BigInt(toolSpan!.endTimeUnixNano));
+
+    expect(collector.exports[0]['x-collector-token']).toBe('abc 123');
+  });
+
+  it('marks failed tool calls and HTTP requests as errors', async () => {
+    await callTool(client, 'get_content', { content_type: 'post', id: 999 });
+    await flushTelemetry();
+
+    const toolSpan = collector.spans.find(span => span.name === 'tools/call get_content');
+    expect(toolSpan).toMatchObject({ status: { code: 2 }, attributes: { 'mcp.tool.is_error': true } });
+
+    const httpSpan = collector.spans.find(span => span.attributes['wordpress.endpoint'] === '/wp/v2/posts/999');
+    expect(httpSpan).toMatchObject({
+      parentSpanId: toolSpan!.spanId,
+      status: { code: 2 },
+      attributes: { 'http.response.status_code': 404, 'error.type': '404' }
+    });
+  });
+
+  it('records request payload sizes and keeps bodies out of spans', async () => {
+    await callTool(client, 'create_content', {
+      content_type: 'post',
+      title: 'Traced',
+      content: 'Secret draft text',
+      content_format: 'html'
+    });
+    await flushTelemetry();
+
+    const httpSpan = collector.spans.find(span => span.name === 'POST /wp/v2/posts');
+    expect(httpSpan!.attributes['http.request.body.size']).toBeGreaterThan(0);
+    expect(JSON.stringify(collector.spans)).not.toContain('Secret draft text');
+  });
+
+  it('drops a batch the collector rejects without failing the tool call', async () => {
+    collector.failNext(503);
+    const result = await callTool(client, 'list_content', { content_type: 'post' });
+    await flushTelemetry();
+
+    expect(result.isError).toBe(false);
+    expect(collector.spans).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { allTools } from '../../src/tools/index.js';
+import { createMcpServer } from '../../src/mcp-server.js';
+
+const HINTS = ['readOnlyHint', 'destructiveHint', 'idempotentHint', 'openWorldHint'] as const;
+
+describe('tool annotations', () => {
+  it('sets every behavior hint explicitly on every tool', () => {
+    const missing: string[] = [];
+    for (const tool of allTools) {
+      for (const hint of HINTS) {
+        if (typeof tool.annotations?.[hint] !== 'boolean') {
+          missing.push(`${tool.name}.${hint}`);
+        }
+      }
+    }
+    expect(missing).toEqual([]);
+  });
+
+  it('never marks a read-only tool as destructive', () => {
+    const conflicting = allTools
+      .filter((t) => t.annotations?.readOnlyHint && t.annotations?.destructiveHint)
+      .map((t) => t.name);
+    expect(conflicting).toEqual([]);
+  });
+
+  it('marks list_/get_/discover_ tools read-only', () => {
+    const writable = allTools
+      .filter((t) => /^(list|get|discover|search)_/.test(t.name))
+      .filter((t) => t.annotations?.readOnlyHint !== true)
+      .map((t) => t.name);
+    expect(writable).toEqual([]);
+  });
+
+  it('marks delete_ tools destructive', () => {
+    const safe = allTools
+      .filter((t) => t.name.startsWith('delete_'))
+      .filter((t) => t.annotations?.destructiveHint !== true)
+      .map((t) => t.name);
+    expect(safe).toEqual([]);
+  });
+
+  it('publishes annotations over tools/list', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    const byName = new Map(tools.map((t) => [t.name, t]));
+    expect(byName.get('list_content')?.annotations).toMatchObject({ readOnlyHint: true });
+    expect(byName.get('delete_content')?.annotations).toMatchObject({ destructiveHint: true });
+  });
+});
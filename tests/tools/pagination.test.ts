@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+vi.mock('../../src/wordpress.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/wordpress.js')>()),
+  makeWordPressRequest: vi.fn(),
+}));
+
+const { makeWordPressRequest } = await import('../../src/wordpress.js');
+const { createMcpServer } = await import('../../src/mcp-server.js');
+const { fetchPaginatedList, describePagination } = await import('../../src/tools/pagination.js');
+
+const request = vi.mocked(makeWordPressRequest);
+
+// Fake collection of `total` items served with WordPress paging headers
+function serveCollection(total: number) {
+  request.mockImplementation(async (_method, _endpoint, query: any) => {
+    const perPage = query?.per_page ?? 10;
+    const page = query?.page ?? 1;
+    const start = (page - 1) * perPage;
+    const data = Array.from({ length: Math.max(0, Math.min(perPage, total - start)) }, (_, i) => ({ id: start + i + 1 }));
+    return { data, headers: { 'x-wp-total': String(total), 'x-wp-totalpages': String(Math.ceil(total / perPage)) } };
+  });
+}
+
+beforeEach(() => {
+  request.mockReset();
+});
+
+describe('fetchPaginatedList', () => {
+  it('reports totals and the next page for a single page', async () => {
+    serveCollection(47);
+
+    const list = await fetchPaginatedList('posts', { page: 2, per_page: 10, status: 'publish' }, 'prod');
+
+    expect(request).toHaveBeenCalledWith('GET', 'posts', { page: 2, per_page: 10, status: 'publish' }, { siteId: 'prod', rawResponse: true });
+    expect(list).toMatchObject({ total: 47, total_pages: 5, page: 2, per_page: 10, next_page: 3 });
+    expect(list.items.map((i: any) => i.id)).toEqual([11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+  });
+
+  it('walks every page with fetch_all and strips the paging params from the query', async () => {
+    serveCollection(230);
+
+    const list = await fetchPaginatedList('posts', { fetch_all: true, status: 'draft' });
+
+    expect(list.items).toHaveLength(230);
+    expect(list).toMatchObject({ total: 230, total_pages: 3, per_page: 100, next_page: null });
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(request.mock.calls[2][2]).toEqual({ status: 'draft', page: 3, per_page: 100 });
+  });
+
+  it('stops at a page boundary under max_items and returns a cursor to resume', async () => {
+    serveCollection(500);
+
+    const list = await fetchPaginatedList('posts', { fetch_all: true, max_items: 250 });
+
+    expect(list.items).toHaveLength(200);
+    expect(list.next_page).toBe(3);
+    expect(describePagination(list)).toContain('pass page: 3, per_page: 100');
+  });
+
+  it('falls back to short pages when WordPress omits the total headers', async () => {
+    request
+      .mockResolvedValueOnce({ data: [{ id: 1 }, { id: 2 }], headers: {} })
+      .mockResolvedValueOnce({ data: [{ id: 3 }], headers: {} });
+
+    const list = await fetchPaginatedList('plugins', { fetch_all: true, per_page: 2 });
+
+    expect(list.items).toHaveLength(3);
+    expect(list).toMatchObject({ total: null, total_pages: null, next_page: null });
+  });
+});
+
+describe('list tools', () => {
+  it('return paging metadata in structuredContent and a summary text block', async () => {
+    serveCollection(12);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    await client.connect(clientTransport);
+
+    const result = await client.callTool({ name: 'list_comments', arguments: { per_page: 5 } });
+
+    expect(result.structuredContent).toMatchObject({ total: 12, total_pages: 3, page: 1, next_page: 2 });
+    const [items, summary] = result.content as { text: string }[];
+    expect(JSON.parse(items.text)).toHaveLength(5);
+    expect(summary.text).toBe('Returned 5 items starting at page 1 of 3 (12 items total). Next page: 2 — pass page: 2, per_page: 5 to continue.');
+  });
+
+  it('accept max_items as a numeric string', async () => {
+    serveCollection(250);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    await client.connect(clientTransport);
+
+    const result = await client.callTool({ name: 'list_comments', arguments: { fetch_all: true, max_items: '100' } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({ total: 250, next_page: 2 });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+vi.mock('../../src/wordpress.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/wordpress.js')>()),
+  makeWordPressRequest: vi.fn(),
+}));
+
+const { makeWordPressRequest } = await import('../../src/wordpress.js');
+const { createMcpServer } = await import('../../src/mcp-server.js');
+const { projectionQuery, normalizeEmbedded } = await import('../../src/tools/projection.js');
+
+const request = vi.mocked(makeWordPressRequest);
+
+async function connectClient() {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer().connect(serverTransport);
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+// Trimmed-down _embed output for a post, as WordPress returns it
+const embeddedPost = {
+  id: 7,
+  title: { rendered: 'Lemon Tart' },
+  _links: { self: [{ href: 'https://example.test/wp-json/wp/v2/posts/7' }] },
+  _embedded: {
+    author: [{ id: 3, name: 'Ada', slug: 'ada', link: 'https://example.test/author/ada/', avatar_urls: { 96: 'x' } }],
+    'wp:featuredmedia': [{
+      id: 55,
+      source_url: 'https://example.test/tart.jpg',
+      alt_text: 'A tart',
+      media_type: 'image',
+      mime_type: 'image/jpeg',
+      media_details: { width: 1200, height: 800, sizes: { thumbnail: {} } },
+    }],
+    'wp:term': [
+      [{ id: 1, name: 'Desserts', slug: 'desserts', taxonomy: 'category', link: 'x' }],
+      [{ id: 9, name: 'Citrus', slug: 'citrus', taxonomy: 'post_tag' }],
+    ],
+  },
+};
+
+beforeEach(() => {
+  request.mockReset();
+});
+
+describe('projectionQuery', () => {
+  it('always requests id and accepts a comma-separated string', () => {
+    expect(projectionQuery({ fields: ' title, link ' })).toEqual({ _fields: 'id,title,link' });
+    expect(projectionQuery({ fields: ['id', 'meta.price'] })).toEqual({ _fields: 'id,meta.price' });
+    expect(projectionQuery({})).toEqual({});
+  });
+
+  it('keeps the embed envelope when combined with fields', () => {
+    expect(projectionQuery({ fields: ['title'], embed: true })).toEqual({
+      _fields: 'id,title,_links,_embedded',
+      _embed: 'author,wp:featuredmedia,wp:term',
+    });
+  });
+});
+
+describe('normalizeEmbedded', () => {
+  it('folds _embedded into a compact summary and drops _links', () => {
+    expect(normalizeEmbedded(embeddedPost)).toEqual({
+      id: 7,
+      title: { rendered: 'Lemon Tart' },
+      embedded: {
+        author: { id: 3, name: 'Ada', slug: 'ada', link: 'https://example.test/author/ada/' },
+        featured_media: {
+          id: 55,
+          source_url: 'https://example.test/tart.jpg',
+          alt_text: 'A tart',
+          media_type: 'image',
+          mime_type: 'image/jpeg',
+          width: 1200,
+          height: 800,
+        },
+        terms: {
+          category: [{ id: 1, name: 'Desserts', slug: 'desserts' }],
+          post_tag: [{ id: 9, name: 'Citrus', slug: 'citrus' }],
+        },
+      },
+    });
+  });
+
+  it('maps embedded REST errors to null', () => {
+    const item = normalizeEmbedded({
+      id: 8,
+      _embedded: { author: [{ code: 'rest_user_invalid_id', message: 'Invalid user ID.', data: { status: 404 } }] },
+    });
+    expect(item).toEqual({ id: 8, embedded: { author: null, featured_media: null, terms: {} } });
+  });
+});
+
+describe('read tools', () => {
+  it('get_content sends _fields and _embed and returns the compact shape', async () => {
+    request.mockResolvedValueOnce(embeddedPost);
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: 'get_content',
+      arguments: { content_type: 'post', id: 7, fields: ['title'], embed: true },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(request).toHaveBeenCalledWith('GET', 'posts/7', {
+      _fields: 'id,title,_links,_embedded',
+      _embed: 'author,wp:featuredmedia,wp:term',
+    }, { siteId: undefined });
+    expect(result.structuredContent).toMatchObject({ id: 7, embedded: { author: { name: 'Ada' } } });
+    expect(result.structuredContent).not.toHaveProperty('_embedded');
+  });
+
+  it('get_content keeps content in the projection when include_raw_content is set', async () => {
+    request.mockResolvedValueOnce({ id: 7, content: { raw: 'Body', rendered: '<p>Body</p>' } });
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: 'get_content',
+      arguments: { content_type: 'post', id: 7, fields: 'title', include_raw_content: true },
+    });
+
+    expect(request.mock.calls[0][2]).toEqual({ context: 'edit', _fields: 'id,title,content' });
+    expect(result.structuredContent).toMatchObject({ content_raw: 'Body' });
+  });
+
+  it('list_content normalizes every embedded item', async () => {
+    request.mockResolvedValueOnce({ data: [embeddedPost], headers: { 'x-wp-total': '1', 'x-wp-totalpages': '1' } });
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: 'list_content', arguments: { content_type: 'post', embed: true } });
+
+    expect(request.mock.calls[0][2]).toEqual({ _embed: 'author,wp:featuredmedia,wp:term' });
+    const { items } = result.structuredContent as { items: any[] };
+    expect(items[0].embedded.terms.category).toEqual([{ id: 1, name: 'Desserts', slug: 'desserts' }]);
+    expect(items[0]).not.toHaveProperty('_links');
+  });
+
+  it('passes fields through on media, user and term tools', async () => {
+    request.mockResolvedValue({ data: [{ id: 1 }], headers: {} });
+    const client = await connectClient();
+
+    await client.callTool({ name: 'list_users', arguments: { fields: ['name'] } });
+    expect(request.mock.calls[0][2]).toEqual({ _fields: 'id,name' });
+
+    request.mockResolvedValueOnce({ id: 55, source_url: 'https://example.test/tart.jpg' });
+    await client.callTool({ name: 'get_media', arguments: { id: 55, fields: ['source_url'] } });
+    expect(request).toHaveBeenLastCalledWith('GET', 'media/55', { _fields: 'id,source_url' }, { siteId: undefined });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+vi.mock('../../src/wordpress.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/wordpress.js')>()),
+  makeWordPressRequest: vi.fn(),
+}));
+
+const { makeWordPressRequest } = await import('../../src/wordpress.js');
+const { siteManager } = await import('../../src/config/site-manager.js');
+const { parseRestAllowlist } = await import('../../src/rest-allowlist.js');
+const { createMcpServer } = await import('../../src/mcp-server.js');
+
+const request = vi.mocked(makeWordPressRequest);
+const sites: Record<string, any> = {
+  shop: { id: 'shop', url: 'https://shop.test' },
+  blog: { id: 'blog', url: 'https://blog.test', restAllowlist: parseRestAllowlist('GET /yoast/v1/**') },
+};
+
+async function connectClient() {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer().connect(serverTransport);
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+function text(result: any): string {
+  return result.content.map((part: any) => part.text).join('\n');
+}
+
+beforeEach(() => {
+  request.mockReset();
+  vi.spyOn(siteManager, 'getSite').mockImplementation((siteId?: string) => sites[siteId ?? 'shop']);
+  process.env.WORDPRESS_REST_ALLOWLIST = 'GET /wc/v3/**, POST /wc/v3/products';
+});
+
+afterEach(() => {
+  delete process.env.WORDPRESS_REST_ALLOWLIST;
+  vi.restoreAllMocks();
+});
+
+describe('wp_rest_request', () => {
+  it('sends allowed requests against the REST root with paging metadata', async () => {
+    request.mockResolvedValueOnce({ status: 200, data: [{ id: 1 }], headers: { 'x-wp-total': '12', 'x-wp-totalpages': '3' } });
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: 'wp_rest_request',
+      arguments: { method: 'GET', route: 'wc/v3/products/', query: { per_page: 5 } },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(request).toHaveBeenCalledWith('GET', '/wc/v3/products', { per_page: 5 }, {
+      siteId: 'shop', namespace: '', rawResponse: true, query: undefined,
+    });
+    expect(result.structuredContent).toEqual({ status: 200, total: 12, total_pages: 3, data: [{ id: 1 }] });
+  });
+
+  it('sends query parameters alongside a body for writes', async () => {
+    request.mockResolvedValueOnce({ status: 201, data: { id: 9 }, headers: {} });
+    const client = await connectClient();
+
+    await client.callTool({
+      name: 'wp_rest_request',
+      arguments: { method: 'POST', route: '/wc/v3/products', query: { force: true }, body: { name: 'Tart' } },
+    });
+
+    expect(request).toHaveBeenCalledWith('POST', '/wc/v3/products', { name: 'Tart' }, expect.objectContaining({ query: { force: true } }));
+  });
+
+  it('refuses routes and methods outside the allowlist', async () => {
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: 'wp_rest_request', arguments: { method: 'DELETE', route: '/wc/v3/products/9' } });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toMatch(/DELETE \/wc\/v3\/products\/9 is not allowed on site 'shop'\. Allowed: GET \/wc\/v3\/\*\*, POST \/wc\/v3\/products/);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['_method', { _method: 'DELETE' }],
+    ['rest_route', { rest_route: '/wp/v2/users' }],
+    ['_jsonp', { _jsonp: 'callback' }],
+    ['_envelope', { _envelope: 1 }],
+    ['rest.route', { 'rest.route': '/wp/v2/users' }],
+    ['_method[]', { '_method[]': 'DELETE' }],
+  ])('refuses the WordPress override parameter %s in query', async (key, query) => {
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: 'wp_rest_request', arguments: { method: 'GET', route: '/wc/v3/products', query } });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain(`Query parameter "${key}" is not allowed: WordPress reads it as an override of the request`);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('uses a site allowlist in place of the global one', async () => {
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: 'wp_rest_request', arguments: { method: 'GET', route: '/wc/v3/products', site_id: 'blog' } });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toMatch(/Allowed: GET \/yoast\/v1\/\*\*/);
+  });
+
+  it('denies everything when no allowlist is configured', async () => {
+    delete process.env.WORDPRESS_REST_ALLOWLIST;
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: 'wp_rest_request', arguments: { method: 'GET', route: '/wc/v3/products' } });
+
+    expect(text(result)).toMatch(/No REST routes are allowed on site 'shop'/);
+  });
+});
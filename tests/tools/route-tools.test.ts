@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+vi.mock('../../src/wordpress.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/wordpress.js')>()),
+  makeWordPressRequest: vi.fn(),
+}));
+
+const { makeWordPressRequest } = await import('../../src/wordpress.js');
+const { siteManager } = await import('../../src/config/site-manager.js');
+const { resetRouteDiscoveryCache } = await import('../../src/route-discovery.js');
+const { restArgToZod, routeToolName, routeTemplate } = await import('../../src/tools/route-tools.js');
+const { createMcpServer } = await import('../../src/mcp-server.js');
+
+const request = vi.mocked(makeWordPressRequest);
+
+// Trimmed-down /wp-json/ index for a WooCommerce site
+const restIndex = {
+  namespaces: ['wp/v2', 'wc/v3'],
+  routes: {
+    '/': { namespace: '', methods: ['GET'], endpoints: [] },
+    '/wp/v2/posts': { namespace: 'wp/v2', methods: ['GET'], endpoints: [{ methods: ['GET'], args: {} }] },
+    '/wc/v3/products': {
+      namespace: 'wc/v3',
+      methods: ['GET', 'POST'],
+      endpoints: [
+        { methods: ['GET'], args: { per_page: { type: 'integer', default: 10, required: false }, status: { type: 'string', enum: ['draft', 'publish'], required: false } } },
+        { methods: ['POST'], args: { name: { type: 'string', required: true } } },
+      ],
+    },
+    '/wc/v3/products/(?P<id>[\\d]+)': {
+      namespace: 'wc/v3',
+      methods: ['GET', 'DELETE'],
+      endpoints: [
+        { methods: ['GET'], args: { id: { type: 'integer', required: false } } },
+        { methods: ['DELETE'], args: { force: { type: 'boolean', required: false } } },
+      ],
+    },
+  },
+};
+
+async function connectClient() {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer().connect(serverTransport);
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  const listChanged = vi.fn();
+  client.setNotificationHandler(ToolListChangedNotificationSchema, listChanged);
+  await client.connect(clientTransport);
+  return { client, listChanged };
+}
+
+beforeEach(() => {
+  request.mockReset();
+  resetRouteDiscoveryCache();
+  vi.spyOn(siteManager, 'getSite').mockImplementation(() => ({ id: 'shop', url: 'https://shop.test' }) as any);
+  vi.spyOn(siteManager, 'getAllSites').mockReturnValue([]);
+  process.env.WORDPRESS_REST_ALLOWLIST = 'GET /wc/v3/**';
+});
+
+afterEach(() => {
+  delete process.env.WORDPRESS_REST_ALLOWLIST;
+  delete process.env.WORDPRESS_ROUTE_TOOLS;
+  vi.restoreAllMocks();
+});
+
+describe('route schema conversion', () => {
+  it('maps WordPress argument types, enums and requiredness to zod', () => {
+    const status = restArgToZod({ type: 'string', enum: ['draft', 'publish'] });
+    expect(status.safeParse('draft').success).toBe(true);
+    expect(status.safeParse('trash').success).toBe(false);
+    expect(status.safeParse(undefined).success).toBe(true);
+
+    const ids = restArgToZod({ type: 'array', items: { type: 'integer' }, required: true });
+    expect(ids.safeParse([1, 2]).success).toBe(true);
+    expect(ids.safeParse(undefined).success).toBe(false);
+
+    expect(restArgToZod({ type: ['string', 'null'], required: true }).safeParse(null).success).toBe(true);
+    expect(restArgToZod({ type: 'integer', default: 10 }).description).toBe('Default: 10');
+  });
+
+  it('names tools after the method and route template', () => {
+    expect(routeTemplate('/wc/v3/products/(?P<id>[\\d]+)')).toBe('/wc/v3/products/{id}');
+    expect(routeTemplate('/wp/v2/plugins/(?P<plugin>[^.\\/]+(?:\\/[^.\\/]+)?)')).toBe('/wp/v2/plugins/{plugin}');
+    expect(routeToolName('GET', '/wc/v3/products/(?P<id>[\\d]+)')).toBe('get_wc_v3_products_id');
+    expect(routeToolName('POST', `/acme/v1/${'very-long-segment/'.repeat(5)}`)).toHaveLength(64);
+  });
+});
+
+describe('discover_routes', () => {
+  it('lists routes with the methods the allowlist permits', async () => {
+    request.mockResolvedValueOnce(restIndex);
+    const { client } = await connectClient();
+
+    const result = await client.callTool({ name: 'discover_routes', arguments: {} });
+
+    expect(request).toHaveBeenCalledWith('GET', '', undefined, { siteId: 'shop', namespace: '' });
+    const { routes, generated_tools } = result.structuredContent as any;
+    expect(routes).toContainEqual({ route: '/wc/v3/products/{id}', namespace: 'wc/v3', methods: ['GET', 'DELETE'], allowed_methods: ['GET'] });
+    expect(routes.some((route: any) => route.route === '/')).toBe(false);
+    expect(generated_tools).toEqual([]);
+  });
+
+  it('describes one route through OPTIONS', async () => {
+    request.mockResolvedValueOnce({
+      namespace: 'wc/v3',
+      methods: ['GET'],
+      endpoints: [{ methods: ['GET'], args: { context: { type: 'string', required: false, enum: ['view', 'edit'] } } }],
+      schema: { title: 'product', properties: { id: { type: 'integer', readonly: true, context: ['view'] } } },
+    });
+    const { client } = await connectClient();
+
+    const result = await client.callTool({ name: 'discover_routes', arguments: { route: 'wc/v3/products/12' } });
+
+    expect(request).toHaveBeenCalledWith('OPTIONS', '/wc/v3/products/12', undefined, { siteId: 'shop', namespace: '' });
+    expect(result.structuredContent).toMatchObject({
+      route: '/wc/v3/products/12',
+      endpoints: [{ methods: ['GET'], args: { context: { type: 'string', required: false, enum: ['view', 'edit'] } } }],
+      schema: { title: 'product', properties: { id: { type: 'integer', readonly: true } } },
+    });
+  });
+});
+
+describe('generated route tools', () => {
+  it('registers allowlisted endpoints after discovery and notifies the client', async () => {
+    process.env.WORDPRESS_ROUTE_TOOLS = 'true';
+    request.mockResolvedValueOnce(restIndex);
+    const { client, listChanged } = await connectClient();
+
+    await client.callTool({ name: 'discover_routes', arguments: {} });
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalledTimes(1));
+
+    const names = (await client.listTools()).tools.map((tool) => tool.name);
+    expect(names).toEqual(expect.arrayContaining(['get_wc_v3_products', 'get_wc_v3_products_id']));
+    // POST and DELETE are not allowlisted; wp/v2 has dedicated tools
+    expect(names).not.toContain('post_wc_v3_products');
+    expect(names).not.toContain('get_wp_v2_posts');
+
+    request.mockResolvedValueOnce({ status: 200, data: { id: 12 }, headers: {} });
+    const result = await client.callTool({ name: 'get_wc_v3_products_id', arguments: { id: 12 } });
+    expect(result.structuredContent).toMatchObject({ status: 200, data: { id: 12 } });
+    expect(request).toHaveBeenLastCalledWith('GET', '/wc/v3/products/12', {}, expect.objectContaining({ namespace: '', rawResponse: true }));
+  });
+
+  it('does not notify again when rediscovery finds the same routes', async () => {
+    process.env.WORDPRESS_ROUTE_TOOLS = 'true';
+    request.mockResolvedValue(restIndex);
+    const { client, listChanged } = await connectClient();
+
+    await client.callTool({ name: 'discover_routes', arguments: {} });
+    await client.callTool({ name: 'discover_routes', arguments: {} });
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalled());
+
+    expect(listChanged).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+vi.mock('../../src/wordpress.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/wordpress.js')>()),
+  makeWordPressRequest: vi.fn(),
+}));
+
+const { makeWordPressRequest } = await import('../../src/wordpress.js');
+const { createMcpServer } = await import('../../src/mcp-server.js');
+const { allTools } = await import('../../src/tools/index.js');
+
+const request = vi.mocked(makeWordPressRequest);
+
+async function connectClient() {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer().connect(serverTransport);
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+const post = {
+  id: 42,
+  type: 'post',
+  slug: 'hello-world',
+  status: 'publish',
+  link: 'https://example.test/hello-world/',
+  title: { rendered: 'Hello <em>World</em>' },
+  content: { rendered: '<p>One two three</p>', protected: false },
+  excerpt: { rendered: '<p>Excerpt</p>', protected: false },
+  categories: [1],
+  tags: [],
+  featured_media: 0,
+  modified: '2026-01-01T00:00:00',
+  meta: {},
+  some_plugin_field: { nested: true },
+};
+
+beforeEach(() => {
+  request.mockReset();
+});
+
+describe('structured tool output', () => {
+  it('publishes an object outputSchema for the main read and write tools', async () => {
+    const client = await connectClient();
+    const { tools } = await client.listTools();
+    const withSchema = new Set(tools.filter((t) => t.outputSchema?.type === 'object').map((t) => t.name));
+
+    for (const name of [
+      'list_content', 'get_content', 'create_content', 'update_content',
+      'list_terms', 'get_term', 'list_media', 'get_media',
+      'list_users', 'get_user', 'get_content_summary', 'list_sites', 'get_site',
+    ]) {
+      expect(withSchema.has(name), name).toBe(true);
+    }
+  });
+
+  it('declares outputSchema properties as zod shapes like inputSchema', () => {
+    for (const tool of allTools.filter((t) => t.outputSchema)) {
+      expect(tool.outputSchema!.type, tool.name).toBe('object');
+      expect(typeof tool.outputSchema!.properties, tool.name).toBe('object');
+    }
+  });
+
+  it('wraps list results in { items } and keeps unknown WordPress fields', async () => {
+    request.mockResolvedValueOnce({ data: [post], headers: { 'x-wp-total': '1', 'x-wp-totalpages': '1' } });
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: 'list_content', arguments: { content_type: 'post' } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({
+      items: [post], total: 1, total_pages: 1, page: 1, per_page: null, next_page: null,
+    });
+    expect(JSON.parse((result.content as any)[0].text)).toEqual([post]);
+  });
+
+  it('reports dropped meta keys in structured write results', async () => {
+    request.mockResolvedValueOnce(post);
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: 'create_content',
+      arguments: { content_type: 'post', title: 'Hello', content: 'Body', meta: { _yoast_wpseo_focuskw: 'x' } },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({ content: post, dropped_meta_keys: ['_yoast_wpseo_focuskw'] });
+  });
+
+  it('returns the content summary as structured content', async () => {
+    request.mockResolvedValueOnce({ data: post });
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: 'get_content_summary', arguments: { id: 42 } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({ id: 42, title: 'Hello World', word_count: 3 });
+  });
+
+  it('surfaces schema mismatches as tool errors instead of passing bad data through', async () => {
+    request.mockResolvedValueOnce({ not: 'a post' });
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: 'get_content', arguments: { content_type: 'post', id: 42 } });
+
+    expect(result.isError).toBe(true);
+  });
+
+  it('omits structured content on handler errors', async () => {
+    request.mockRejectedValueOnce(new Error('Request failed with status code 500'));
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: 'get_content', arguments: { content_type: 'post', id: 42 } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+});
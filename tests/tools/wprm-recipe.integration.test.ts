@@ -1,10 +1,15 @@
 // Integration test: round-trip a WP Recipe Maker recipe through the unified
 // content handlers. Hits a real WordPress install. Skipped automatically when
 // credentials are not configured or the target site does not have WPRM.
+//
+// Run with MCP_WP_HTTP_FIXTURES=record to save the traffic to
+// tests/fixtures/http/wprm-recipe.json; once that file exists, runs without
+// credentials replay it instead.
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import * as dotenv from 'dotenv';
 import { initWordPress, makeWordPressRequest } from '../../src/wordpress.js';
 import { unifiedContentHandlers } from '../../src/tools/unified-content.js';
+import { hasHttpFixture, resolveFixtureMode, stopHttpFixtures, useHttpFixtures } from '../../src/http-fixtures.js';
 
 dotenv.config();
 
@@ -13,6 +18,10 @@ const hasCreds =
   !!process.env.WORDPRESS_USERNAME &&
   !!process.env.WORDPRESS_PASSWORD;
 
+const FIXTURE = 'wprm-recipe';
+const fixtureMode = resolveFixtureMode() ?? (!hasCreds && hasHttpFixture(FIXTURE) ? 'replay' : undefined);
+const canRun = fixtureMode === 'replay' ? hasHttpFixture(FIXTURE) : hasCreds;
+
 function parseHandlerJson(result: any) {
   if (result.toolResult.isError) {
     throw new Error(`Handler returned error: ${result.toolResult.content[0]?.text}`);
@@ -20,11 +29,20 @@ function parseHandlerJson(result: any) {
   return JSON.parse(result.toolResult.content[0].text);
 }
 
-describe.skipIf(!hasCreds)('wprm_recipe round-trip (integration)', () => {
+describe.skipIf(!canRun)('wprm_recipe round-trip (integration)', () => {
   let recipeId: number | null = null;
   let wprmAvailable = false;
 
   beforeAll(async () => {
+    if (fixtureMode === 'replay' && !hasCreds) {
+      // Any site will do; replayed requests never leave the process
+      Object.assign(process.env, {
+        WORDPRESS_API_URL: 'https://example.test',
+        WORDPRESS_USERNAME: 'fixture-user',
+        WORDPRESS_PASSWORD: 'fixture-password',
+      });
+    }
+    if (fixtureMode) useHttpFixtures(FIXTURE, { mode: fixtureMode });
     await initWordPress();
     try {
       const types: any = await makeWordPressRequest('GET', 'types');
@@ -46,6 +64,7 @@ describe.skipIf(!hasCreds)('wprm_recipe round-trip (integration)', () => {
         // Best-effort cleanup; surface the test failure instead of this one.
       }
     }
+    stopHttpFixtures();
   });
 
   it('creates a recipe with grouped ingredients via custom_fields.recipe', async (ctx) => {
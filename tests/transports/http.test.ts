@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer, resolveHttpTransportOptions } from '../../src/transports/http.js';
+import { createMcpServer } from '../../src/mcp-server.js';
+
+const TOKEN = 'test-token';
+
+describe('resolveHttpTransportOptions', () => {
+  it('refuses to run without a bearer token', () => {
+    expect(() => resolveHttpTransportOptions({}, {})).toThrow(/MCP_HTTP_AUTH_TOKEN/);
+  });
+
+  it('prefers CLI flags over environment variables', () => {
+    const options = resolveHttpTransportOptions(
+      { port: '4000', host: '0.0.0.0' },
+      { MCP_HTTP_AUTH_TOKEN: TOKEN, MCP_HTTP_PORT: '5000', MCP_HTTP_HOST: 'localhost' },
+    );
+    expect(options).toMatchObject({ port: 4000, host: '0.0.0.0', authToken: TOKEN, path: '/mcp' });
+  });
+
+  it('reads the session idle timeout and rejects invalid values', () => {
+    expect(resolveHttpTransportOptions({}, { MCP_HTTP_AUTH_TOKEN: TOKEN }).sessionIdleTimeout).toBe(30 * 60 * 1000);
+    expect(resolveHttpTransportOptions({}, { MCP_HTTP_AUTH_TOKEN: TOKEN, MCP_HTTP_SESSION_TIMEOUT: '0' }).sessionIdleTimeout).toBe(0);
+    expect(() => resolveHttpTransportOptions({}, { MCP_HTTP_AUTH_TOKEN: TOKEN, MCP_HTTP_SESSION_TIMEOUT: '-1' })).toThrow(/MCP_HTTP_SESSION_TIMEOUT/);
+  });
+
+  it('rejects invalid ports', () => {
+    expect(() => resolveHttpTransportOptions({ port: 'abc' }, { MCP_HTTP_AUTH_TOKEN: TOKEN })).toThrow(/Invalid HTTP port/);
+  });
+});
+
+describe('startHttpServer', () => {
+  let httpServer: Server;
+  let endpoint: URL;
+
+  beforeAll(async () => {
+    httpServer = await startHttpServer(createMcpServer, { host: '127.0.0.1', port: 0, authToken: TOKEN });
+    const { port } = httpServer.address() as AddressInfo;
+    endpoint = new URL(`http://127.0.0.1:${port}/mcp`);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('rejects requests without a valid bearer token', async () => {
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong' },
+      body: '{}',
+    });
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('rejects non-initialize requests without a session', async () => {
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}` },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('serves the registered tools to separate authenticated sessions', async () => {
+    const connect = async () => {
+      const client = new Client({ name: 'test', version: '0.0.0' });
+      const transport = new StreamableHTTPClientTransport(endpoint, {
+        requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+      });
+      await client.connect(transport);
+      return { client, transport };
+    };
+
+    const a = await connect();
+    const b = await connect();
+    expect(a.transport.sessionId).toBeTruthy();
+    expect(a.transport.sessionId).not.toBe(b.transport.sessionId);
+
+    const { tools } = await a.client.listTools();
+    expect(tools.map((t) => t.name)).toContain('list_content');
+
+    await a.client.close();
+    await b.client.close();
+  });
+});
+
+describe('HTTP session lifecycle', () => {
+  const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', Authorization: `Bearer ${TOKEN}` };
+
+  async function start(sessionIdleTimeout: number) {
+    const httpServer = await startHttpServer(createMcpServer, { host: '127.0.0.1', port: 0, authToken: TOKEN, sessionIdleTimeout });
+    const { port } = httpServer.address() as AddressInfo;
+    return { httpServer, endpoint: new URL(`http://127.0.0.1:${port}/mcp`) };
+  }
+
+  // A client that initializes and then disappears without DELETE
+  async function initialize(endpoint: URL): Promise<string> {
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        jsonrpc: '2.0', id: 1, method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'gone', version: '0.0.0' } },
+      }),
+    });
+    await res.text();
+    return res.headers.get('mcp-session-id')!;
+  }
+
+  const ping = (endpoint: URL, sessionId: string) => fetch(endpoint, {
+    method: 'POST',
+    headers: { ...headers, 'Mcp-Session-Id': sessionId },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+  }).then(async (res) => {
+    await res.text();
+    return res.status;
+  });
+
+  it('closes sessions left idle past the timeout', async () => {
+    const { httpServer, endpoint } = await start(100);
+    const sessionId = await initialize(endpoint);
+    expect(await ping(endpoint, sessionId)).toBe(200);
+
+    await new Promise((resolve) => setTimeout(resolve, 350));
+
+    expect(await ping(endpoint, sessionId)).toBe(404);
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('closes open sessions, SSE streams included, when the server closes', async () => {
+    const { httpServer, endpoint } = await start(0);
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(endpoint, {
+      requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+    }));
+    await client.listTools();
+
+    const closed = await Promise.race([
+      new Promise((resolve) => httpServer.close(() => resolve('closed'))),
+      new Promise((resolve) => setTimeout(() => resolve('timed out'), 2000)),
+    ]);
+
+    expect(closed).toBe('closed');
+    await client.close();
+  });
+});
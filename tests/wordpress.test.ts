@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { runWithRequestContext } from '../src/request-context.js';
+
+// Local stand-in for a WordPress host: answers the REST root (used by the
+// connection test in SiteManager.createClient), never answers /slow, and
+// refuses /locked with a REST error body. Requests outside wp/v2 get their
+// path echoed back.
+let server: http.Server;
+let wordpress: typeof import('../src/wordpress.js');
+
+const ENV_KEYS = ['WORDPRESS_1_URL', 'WORDPRESS_1_USERNAME', 'WORDPRESS_1_PASSWORD', 'WORDPRESS_1_ID', 'WORDPRESS_1_TIMEOUT'];
+const envBackup: Record<string, string | undefined> = {};
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url?.startsWith('/wp-json/wp/v2/slow')) return; // hang
+    res.setHeader('Content-Type', 'application/json');
+    if (!req.url?.startsWith('/wp-json/wp/v2')) {
+      res.end(JSON.stringify({ path: req.url }));
+      return;
+    }
+    if (req.url?.startsWith('/wp-json/wp/v2/locked')) {
+      res.statusCode = 403;
+      res.end(JSON.stringify({ code: 'rest_cannot_edit', message: 'Sorry, you are not allowed to edit this post.', data: { status: 403 } }));
+      return;
+    }
+    res.end(JSON.stringify({ ok: true }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  for (const key of ENV_KEYS) envBackup[key] = process.env[key];
+  process.env.WORDPRESS_1_URL = `http://127.0.0.1:${port}`;
+  process.env.WORDPRESS_1_USERNAME = 'user';
+  process.env.WORDPRESS_1_PASSWORD = 'pass';
+  process.env.WORDPRESS_1_ID = 'local';
+  process.env.WORDPRESS_1_TIMEOUT = '300';
+
+  // siteManager reads the environment when the module is first loaded
+  wordpress = await import('../src/wordpress.js');
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (envBackup[key] === undefined) delete process.env[key];
+    else process.env[key] = envBackup[key];
+  }
+  server.closeAllConnections();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+describe('makeWordPressRequest cancellation and timeouts', () => {
+  it('completes normal requests against the site', async () => {
+    await expect(wordpress.makeWordPressRequest('GET', 'posts', undefined, { siteId: 'local' }))
+      .resolves.toEqual({ ok: true });
+  });
+
+  it('aborts in-flight requests when the request context signal fires', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const pending = runWithRequestContext({ signal: controller.signal }, () =>
+      wordpress.makeWordPressRequest('GET', 'slow', undefined, { siteId: 'local' })
+    );
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(pending).rejects.toMatchObject({ name: 'CanceledError' });
+    // Well under the 300ms site timeout: the abort, not the timeout, ended it
+    expect(Date.now() - started).toBeLessThan(250);
+  });
+
+  it('prefers an explicit signal option over the request context', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      wordpress.makeWordPressRequest('GET', 'slow', undefined, { siteId: 'local', signal: controller.signal })
+    ).rejects.toMatchObject({ name: 'CanceledError' });
+  });
+
+  it('fails hung requests after the per-site timeout', async () => {
+    await expect(wordpress.makeWordPressRequest('GET', 'slow', undefined, { siteId: 'local' }))
+      .rejects.toMatchObject({ code: 'ECONNABORTED' });
+  });
+});
+
+describe('makeWordPressRequest namespaces', () => {
+  it('sends namespaced requests relative to the REST root', async () => {
+    await expect(wordpress.makeWordPressRequest('POST', '', {}, { siteId: 'local', namespace: 'batch/v1' }))
+      .resolves.toEqual({ path: '/wp-json/batch/v1' });
+    await expect(wordpress.makeWordPressRequest('GET', '/products/5', undefined, { siteId: 'local', namespace: '/wc/v3/' }))
+      .resolves.toEqual({ path: '/wp-json/wc/v3/products/5' });
+  });
+
+  it('treats an empty namespace as a full route and adds query parameters to writes', async () => {
+    await expect(wordpress.makeWordPressRequest('POST', '/yoast/v1/redirects', { origin: '/a' }, { siteId: 'local', namespace: '', query: { force: 1 } }))
+      .resolves.toEqual({ path: '/wp-json/yoast/v1/redirects?force=1' });
+  });
+});
+
+describe('makeWordPressRequest errors', () => {
+  it('rethrows REST failures as WordPressRestError with the WordPress code', async () => {
+    const { WordPressRestError } = await import('../src/errors.js');
+    const failure = await wordpress.makeWordPressRequest('POST', 'locked', { title: 'x' }, { siteId: 'local' })
+      .catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(WordPressRestError);
+    expect(failure).toMatchObject({
+      code: 'rest_cannot_edit',
+      status: 403,
+      message: 'Sorry, you are not allowed to edit this post.',
+      method: 'POST',
+      endpoint: 'locked',
+      siteId: 'local'
+    });
+  });
+});
+
+describe('makeWordPressRequest logging', () => {
+  it('logs headers and bodies without the Basic credentials or user passwords', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wp-request-log-'));
+    const logFile = path.join(dir, 'requests.log');
+    const keys = ['DISABLE_LOGGING', 'WORDPRESS_LOG_LEVEL', 'WORDPRESS_LOG_FILE', 'WORDPRESS_LOG_FORMAT'];
+    const backup = Object.fromEntries(keys.map(key => [key, process.env[key]]));
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    try {
+      Object.assign(process.env, {
+        DISABLE_LOGGING: 'false',
+        WORDPRESS_LOG_LEVEL: 'debug',
+        WORDPRESS_LOG_FILE: logFile,
+        WORDPRESS_LOG_FORMAT: 'json',
+      });
+
+      await runWithRequestContext({ requestId: 'req-42', toolName: 'create_user' }, () =>
+        wordpress.makeWordPressRequest('POST', 'users', { username: 'ed', password: 'hunter2' }, { siteId: 'local' })
+      );
+
+      const log = fs.readFileSync(logFile, 'utf8');
+      const entries = log.trim().split('\n').map(line => JSON.parse(line));
+      expect(log).not.toContain('hunter2');
+      expect(log).not.toContain(Buffer.from('user:pass').toString('base64'));
+      expect(entries.map(e => e.message)).toEqual([
+        expect.stringMatching(/^WordPress request: POST /),
+        expect.stringMatching(/^WordPress response: 200 POST /),
+      ]);
+      expect(entries.every(e => e.request_id === 'req-42')).toBe(true);
+      expect(entries[0].headers.Authorization).toBe('[REDACTED]');
+    } finally {
+      stderr.mockRestore();
+      for (const key of keys) {
+        if (backup[key] === undefined) delete process.env[key];
+        else process.env[key] = backup[key];
+      }
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});